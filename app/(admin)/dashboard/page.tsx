@@ -6,6 +6,8 @@ import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import { api } from "@/convex/_generated/api";
 import { StatsCard } from "@/components/stats-card";
+import { ReconciliationReport } from "@/components/reconciliation-report";
+import { DunningReport } from "@/components/dunning-report";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,11 +27,9 @@ export default function DashboardPage() {
   const { user, isLoaded } = useUser();
   const router = useRouter();
   
-  const email = user?.emailAddresses[0]?.emailAddress;
-  
   const isAdmin = useQuery(
     api.admins.isAdmin,
-    user?.id ? { clerkId: user.id, email } : "skip"
+    user?.id ? {} : "skip"
   );
   
   const inviteStats = useQuery(api.invites.getStats);
@@ -37,7 +37,7 @@ export default function DashboardPage() {
   const recentLogs = useQuery(api.notifications.getAuditLogs, { limit: 10 });
   const paymentStats = useQuery(
     api.payments.getPaymentStats,
-    user?.id ? { adminClerkId: user.id } : "skip"
+    user?.id ? {} : "skip"
   );
 
   const [isSyncing, setIsSyncing] = useState(false);
@@ -122,7 +122,7 @@ export default function DashboardPage() {
         <StatsCard
           title="Active Subscriptions"
           value={paymentStats?.activeSubscriptions ?? "-"}
-          description={`$${paymentStats?.mrr ?? 0} MRR`}
+          description={`$${(paymentStats?.mrr ?? 0).toFixed(2)} MRR`}
           icon={<DollarSign className="h-4 w-4" />}
         />
         <StatsCard
@@ -191,6 +191,10 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      <DunningReport />
+
+      <ReconciliationReport />
+
       {/* Recent Activity */}
       <Card>
         <CardHeader>
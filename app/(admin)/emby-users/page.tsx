@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -17,6 +17,13 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -101,14 +108,19 @@ export default function EmbyUsersPage() {
 
   const isAdmin = useQuery(
     api.admins.isAdmin,
-    user?.id ? { clerkId: user.id, email: user.primaryEmailAddress?.emailAddress } : "skip"
+    user?.id ? {} : "skip"
   );
 
-  const fetchUsers = async () => {
+  // Servers of this type; the selector only shows when there is more than one
+  const servers = useQuery(api.servers.listEnabled, isAdmin ? { type: "emby" } : "skip");
+  const [serverId, setServerId] = useState<string>("");
+  const serverQuery = serverId ? `?serverId=${serverId}` : "";
+
+  const fetchUsers = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch("/api/emby/users");
+      const response = await fetch(`/api/emby/users${serverQuery}`);
       const data = await response.json();
       if (data.success) {
         setUsers(data.users);
@@ -120,11 +132,11 @@ export default function EmbyUsersPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [serverQuery]);
 
   useEffect(() => {
     fetchUsers();
-  }, []);
+  }, [fetchUsers]);
 
   const filteredUsers = users.filter(
     (u) =>
@@ -136,7 +148,7 @@ export default function EmbyUsersPage() {
     setEditDialogOpen(true);
     
     try {
-      const response = await fetch(`/api/emby/users/${userId}`);
+      const response = await fetch(`/api/emby/users/${userId}${serverQuery}`);
       const data = await response.json();
       
       if (data.success) {
@@ -161,7 +173,7 @@ export default function EmbyUsersPage() {
 
   const handleToggleAccess = async (userId: string, enable: boolean) => {
     try {
-      const response = await fetch(`/api/emby/users/${userId}`, {
+      const response = await fetch(`/api/emby/users/${userId}${serverQuery}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ action: enable ? "enable" : "disable" }),
@@ -185,7 +197,7 @@ export default function EmbyUsersPage() {
     setSaving(true);
     try {
       // Update libraries
-      const libResponse = await fetch(`/api/emby/users/${selectedUser.id}`, {
+      const libResponse = await fetch(`/api/emby/users/${selectedUser.id}${serverQuery}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -201,7 +213,7 @@ export default function EmbyUsersPage() {
       }
 
       // Update remote access
-      const policyResponse = await fetch(`/api/emby/users/${selectedUser.id}`, {
+      const policyResponse = await fetch(`/api/emby/users/${selectedUser.id}${serverQuery}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -232,7 +244,7 @@ export default function EmbyUsersPage() {
     }
 
     try {
-      const response = await fetch(`/api/emby/users/${userId}`, {
+      const response = await fetch(`/api/emby/users/${userId}${serverQuery}`, {
         method: "DELETE",
       });
       
@@ -283,10 +295,29 @@ export default function EmbyUsersPage() {
             Manage Emby server users directly from here
           </p>
         </div>
-        <Button onClick={fetchUsers} disabled={loading} variant="outline">
-          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {servers && servers.length > 1 && (
+            <Select
+              value={serverId || servers.find((s) => s.isDefault)?._id || servers[0]._id}
+              onValueChange={setServerId}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select server" />
+              </SelectTrigger>
+              <SelectContent>
+                {servers.map((server) => (
+                  <SelectItem key={server._id} value={server._id}>
+                    {server.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={fetchUsers} disabled={loading} variant="outline">
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {error && (
@@ -2,6 +2,7 @@
 
 import { useQuery, useMutation } from "convex/react";
 import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
 import { api } from "@/convex/_generated/api";
 import { CreateInviteDialog } from "@/components/create-invite-dialog";
 import { Button } from "@/components/ui/button";
@@ -27,7 +28,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Copy, MoreHorizontal, Ban, RefreshCw, Trash2, Check } from "lucide-react";
+import { Copy, MoreHorizontal, Ban, RefreshCw, Trash2, Check, Mail } from "lucide-react";
 import { formatDateTime } from "@/lib/utils";
 import { useState } from "react";
 import { Id } from "@/convex/_generated/dataModel";
@@ -38,6 +39,7 @@ export default function InvitesPage() {
   const deactivate = useMutation(api.invites.deactivate);
   const reactivate = useMutation(api.invites.reactivate);
   const remove = useMutation(api.invites.remove);
+  const resendEmail = useMutation(api.invites.resendEmail);
 
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
 
@@ -50,21 +52,67 @@ export default function InvitesPage() {
 
   const handleDeactivate = async (id: Id<"invites">) => {
     if (!user) return;
-    await deactivate({ id, adminId: user.id });
+    await deactivate({ id });
   };
 
   const handleReactivate = async (id: Id<"invites">) => {
     if (!user) return;
-    await reactivate({ id, adminId: user.id });
+    await reactivate({ id });
   };
 
   const handleDelete = async (id: Id<"invites">) => {
     if (!user) return;
     if (confirm("Are you sure you want to delete this invite?")) {
-      await remove({ id, adminId: user.id });
+      await remove({ id });
     }
   };
 
+  const handleResendEmail = async (invite: any) => {
+    if (!user) return;
+    try {
+      await resendEmail({ id: invite._id });
+      toast.success(`Invite email queued for ${invite.email}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to resend invite email");
+    }
+  };
+
+  // Furthest the invite email got: clicked, opened, sent, failed or queued
+  const getEmailBadge = (invite: any) => {
+    if (!invite.emailStatus) {
+      return <span className="text-muted-foreground">-</span>;
+    }
+    if (invite.emailClickedAt) {
+      return (
+        <Badge variant="success" title={`Clicked ${formatDateTime(invite.emailClickedAt)}`}>
+          Clicked
+        </Badge>
+      );
+    }
+    if (invite.emailOpenedAt) {
+      return (
+        <Badge variant="success" title={`Opened ${formatDateTime(invite.emailOpenedAt)}`}>
+          Opened
+        </Badge>
+      );
+    }
+    if (invite.emailStatus === "sent") {
+      return (
+        <Badge variant="outline" title={invite.emailSentAt ? `Sent ${formatDateTime(invite.emailSentAt)}` : undefined}>
+          Sent
+        </Badge>
+      );
+    }
+    if (invite.emailStatus === "failed") {
+      return (
+        <Badge variant="destructive" title={invite.emailError}>
+          Failed
+        </Badge>
+      );
+    }
+    return <Badge variant="secondary">Queued</Badge>;
+  };
+
   const getStatusBadge = (invite: any) => {
     if (!invite.isActive) {
       return <Badge variant="secondary">Deactivated</Badge>;
@@ -113,6 +161,7 @@ export default function InvitesPage() {
                 <TableHead>Payment</TableHead>
                 <TableHead>Uses</TableHead>
                 <TableHead>Restricted To</TableHead>
+                <TableHead>Email</TableHead>
                 <TableHead>Expires</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Created</TableHead>
@@ -152,6 +201,7 @@ export default function InvitesPage() {
                   <TableCell className="text-muted-foreground">
                     {invite.email || "-"}
                   </TableCell>
+                  <TableCell>{getEmailBadge(invite)}</TableCell>
                   <TableCell className="text-muted-foreground">
                     {invite.expiresAt
                       ? formatDateTime(invite.expiresAt)
@@ -173,6 +223,12 @@ export default function InvitesPage() {
                           <Copy className="mr-2 h-4 w-4" />
                           Copy Link
                         </DropdownMenuItem>
+                        {invite.email && invite.isValid && (
+                          <DropdownMenuItem onClick={() => handleResendEmail(invite)}>
+                            <Mail className="mr-2 h-4 w-4" />
+                            {invite.emailStatus ? "Resend Email" : "Send Email"}
+                          </DropdownMenuItem>
+                        )}
                         {invite.isActive ? (
                           <DropdownMenuItem
                             onClick={() => handleDeactivate(invite._id)}
@@ -203,7 +259,7 @@ export default function InvitesPage() {
               {(!invites || invites.length === 0) && (
                 <TableRow>
                   <TableCell
-                    colSpan={9}
+                    colSpan={10}
                     className="text-center text-muted-foreground py-8"
                   >
                     No invites yet. Create your first invite to get started.
@@ -0,0 +1,351 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Download, Loader2, RefreshCw } from "lucide-react";
+import { formatDateTime } from "@/lib/utils";
+import { IPTV_PROVIDER_LABELS, IPTV_PROVIDERS, type IptvProviderId } from "@/lib/iptv";
+
+interface PreviewLine {
+  username: string;
+  status?: "active" | "suspended";
+  expiresAt?: number;
+  bouquetIds: string[];
+  email?: string;
+  notes?: string;
+  alreadyImported: boolean;
+  match: { userId: string; email: string; username: string; matchedBy: "email" | "notes" | "username" } | null;
+  ambiguous: boolean;
+  userHasAccount: boolean;
+  planId: string | null;
+}
+
+interface Choice {
+  selected: boolean;
+  userId: string;
+  planId: string;
+}
+
+const MATCHED_BY_LABELS = {
+  email: "Email",
+  notes: "Notes",
+  username: "Username",
+};
+
+export default function IptvImportPage() {
+  const users = useQuery(api.users.list, {});
+  const plans = useQuery(api.iptv.listPlans, {});
+
+  const [provider, setProvider] = useState<IptvProviderId>("xtremeui");
+  const [lines, setLines] = useState<PreviewLine[] | null>(null);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const providerPlans = useMemo(
+    () => (plans || []).filter((p: any) => p.provider === provider),
+    [plans, provider]
+  );
+
+  const loadLines = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/iptv/import?provider=${encodeURIComponent(provider)}`);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Failed to list panel lines");
+      }
+
+      const loaded: PreviewLine[] = data.lines;
+      setLines(loaded);
+      setChoices(
+        Object.fromEntries(
+          loaded.map((line) => [
+            line.username,
+            {
+              selected: !!line.match && !line.alreadyImported && !line.userHasAccount,
+              userId: line.match?.userId ?? "",
+              planId: line.planId ?? "",
+            },
+          ])
+        )
+      );
+    } catch (e) {
+      setLines(null);
+      toast.error(e instanceof Error ? e.message : "Failed to list panel lines");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateChoice = (username: string, patch: Partial<Choice>) => {
+    setChoices((prev) => ({ ...prev, [username]: { ...prev[username], ...patch } }));
+  };
+
+  const selected = (lines || []).filter(
+    (line) => !line.alreadyImported && choices[line.username]?.selected && choices[line.username]?.userId
+  );
+
+  const summary = useMemo(() => {
+    const all = lines || [];
+    return {
+      total: all.length,
+      matched: all.filter((l) => l.match && !l.alreadyImported).length,
+      ambiguous: all.filter((l) => l.ambiguous && !l.alreadyImported).length,
+      imported: all.filter((l) => l.alreadyImported).length,
+    };
+  }, [lines]);
+
+  const handleImport = async () => {
+    if (selected.length === 0) return;
+    if (!confirm(`Link ${selected.length} panel line${selected.length === 1 ? "" : "s"} to users?`)) return;
+
+    setImporting(true);
+    try {
+      const res = await fetch("/api/iptv/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider,
+          rows: selected.map((line) => ({
+            username: line.username,
+            userId: choices[line.username].userId,
+            planId: choices[line.username].planId || undefined,
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Failed to import lines");
+      }
+
+      toast.success(`${data.imported} line${data.imported === 1 ? "" : "s"} imported`);
+      for (const skip of data.skipped as Array<{ username: string; reason: string }>) {
+        toast.warning(`Skipped ${skip.username}: ${skip.reason}`);
+      }
+      await loadLines();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to import lines");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Import IPTV Lines</h1>
+          <p className="text-muted-foreground">
+            Link lines that already exist on your panel to users, without changing them on the panel
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/iptv-plans">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            IPTV Plans
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Panel</CardTitle>
+          <CardDescription>
+            Lines are matched to users by email, by an email in the line&apos;s notes, then by username.
+            Plans are proposed when a plan has exactly the line&apos;s bouquets.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select
+              value={provider}
+              onValueChange={(v) => {
+                setProvider(v as IptvProviderId);
+                setLines(null);
+                setChoices({});
+              }}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IPTV_PROVIDERS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {IPTV_PROVIDER_LABELS[id]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={loadLines} disabled={loading}>
+            {loading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Load lines
+          </Button>
+        </CardContent>
+      </Card>
+
+      {lines && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>Review</CardTitle>
+              <CardDescription>
+                {summary.total} lines on the panel · {summary.matched} matched · {summary.ambiguous} ambiguous ·{" "}
+                {summary.imported} already imported
+              </CardDescription>
+            </div>
+            <Button onClick={handleImport} disabled={importing || selected.length === 0}>
+              {importing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Import selected ({selected.length})
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Bouquets</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => {
+                  const choice = choices[line.username];
+                  const isMatch = !!line.match && choice?.userId === line.match.userId;
+                  return (
+                    <TableRow key={line.username}>
+                      <TableCell>
+                        <Checkbox
+                          checked={!!choice?.selected && !line.alreadyImported}
+                          disabled={line.alreadyImported || !choice?.userId}
+                          onCheckedChange={(checked) => updateChoice(line.username, { selected: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{line.username}</div>
+                        {line.email && <div className="text-xs text-muted-foreground">{line.email}</div>}
+                        {line.alreadyImported && (
+                          <Badge variant="secondary" className="mt-1">
+                            Already imported
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.status ? (
+                          <Badge variant={line.status === "active" ? "success" : "warning"}>{line.status}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {line.expiresAt ? formatDateTime(line.expiresAt) : "-"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {line.bouquetIds.length ? line.bouquetIds.join(", ") : "-"}
+                      </TableCell>
+                      <TableCell className="space-y-1">
+                        <select
+                          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                          value={choice?.userId ?? ""}
+                          disabled={line.alreadyImported}
+                          onChange={(e) =>
+                            updateChoice(line.username, { userId: e.target.value, selected: !!e.target.value })
+                          }
+                        >
+                          <option value="">Don&apos;t import</option>
+                          {(users || []).map((u: any) => (
+                            <option key={u._id} value={u._id}>
+                              {u.email}
+                            </option>
+                          ))}
+                        </select>
+                        {isMatch && (
+                          <Badge variant="outline">Matched by {MATCHED_BY_LABELS[line.match!.matchedBy]}</Badge>
+                        )}
+                        {line.ambiguous && !choice?.userId && (
+                          <Badge variant="warning">Several users match</Badge>
+                        )}
+                        {isMatch && line.userHasAccount && !line.alreadyImported && (
+                          <Badge variant="destructive">User already has a line</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <select
+                          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                          value={choice?.planId ?? ""}
+                          disabled={line.alreadyImported}
+                          onChange={(e) => updateChoice(line.username, { planId: e.target.value })}
+                        >
+                          <option value="">No plan</option>
+                          {providerPlans.map((p: any) => (
+                            <option key={p._id} value={p._id}>
+                              {p.name}
+                            </option>
+                          ))}
+                        </select>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate text-xs text-muted-foreground">
+                        {line.notes || "-"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                      The panel has no lines.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
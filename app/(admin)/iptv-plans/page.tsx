@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { useUser } from "@clerk/nextjs";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -41,39 +42,70 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Trash2, Plus, Save } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, Plus, Save, Download, ListVideo, Loader2 } from "lucide-react";
 import { formatDateTime } from "@/lib/utils";
+import { IptvChannelList } from "@/components/iptv-channel-list";
+import {
+  IPTV_PROVIDER_LABELS,
+  IPTV_PROVIDERS,
+  type IptvBrowsableChannel,
+  type IptvChannelCategory,
+  type IptvProviderId,
+} from "@/lib/iptv";
+
+interface PlanLineup {
+  allChannels: boolean;
+  categories: IptvChannelCategory[];
+  channels: IptvBrowsableChannel[];
+}
 
 export default function IptvPlansPage() {
   const { user } = useUser();
 
-  const plans = useQuery(api.iptv.listPlans, { provider: "xtremeui" });
+  const plans = useQuery(api.iptv.listPlans, {});
   const upsertPlan = useMutation(api.iptv.adminUpsertPlan);
   const deletePlan = useMutation(api.iptv.adminDeletePlan);
 
+  const [lineupPlan, setLineupPlan] = useState<any | null>(null);
+  const [lineup, setLineup] = useState<PlanLineup | null>(null);
+  const [lineupLoading, setLineupLoading] = useState(false);
+  const [lineupError, setLineupError] = useState<string>("");
+
   const [open, setOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
+  const [provider, setProvider] = useState<IptvProviderId>("xtremeui");
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [bouquetIdsRaw, setBouquetIdsRaw] = useState("");
   const [selectedBouquetIds, setSelectedBouquetIds] = useState<string[]>([]);
   const [durationDays, setDurationDays] = useState<string>("");
+  const [channelGroupsRaw, setChannelGroupsRaw] = useState("");
   const [stripePriceId, setStripePriceId] = useState("");
+  const [renewalPriceId, setRenewalPriceId] = useState("");
 
   const [packagesLoading, setPackagesLoading] = useState(false);
   const [packagesError, setPackagesError] = useState<string>("");
-  const [packagesDebug, setPackagesDebug] = useState<any>(null);
   const [packages, setPackages] = useState<Array<{ id: string; name: string; bouquetIds?: string[] }>>([]);
 
   const resetForm = () => {
     setEditingId(null);
+    setProvider("xtremeui");
     setName("");
     setDescription("");
     setBouquetIdsRaw("");
     setSelectedBouquetIds([]);
     setDurationDays("");
+    setChannelGroupsRaw("");
     setStripePriceId("");
+    setRenewalPriceId("");
   };
 
   const manualBouquetIds = useMemo(() => {
@@ -96,12 +128,15 @@ export default function IptvPlansPage() {
 
   const handleEdit = (plan: any) => {
     setEditingId(String(plan._id));
+    setProvider(plan.provider || "xtremeui");
     setName(plan.name || "");
     setDescription(plan.description || "");
     setSelectedBouquetIds((plan.bouquetIds || []).map(String));
     setBouquetIdsRaw("");
     setDurationDays(plan.durationDays ? String(plan.durationDays) : "");
+    setChannelGroupsRaw((plan.channelGroups || []).join(", "));
     setStripePriceId(plan.stripePriceId || "");
+    setRenewalPriceId(plan.renewalPriceId || "");
     setOpen(true);
   };
 
@@ -113,7 +148,7 @@ export default function IptvPlansPage() {
       setPackagesLoading(true);
       setPackagesError("");
       try {
-        const res = await fetch("/api/iptv/packages?debug=1", { method: "GET" });
+        const res = await fetch(`/api/iptv/packages?provider=${provider}`, { method: "GET" });
         const data = await res.json();
         if (!res.ok || !data?.success) {
           throw new Error(data?.error || "Failed to fetch packages");
@@ -121,13 +156,11 @@ export default function IptvPlansPage() {
         if (!cancelled) {
           const normalized = Array.isArray(data.packages) ? data.packages : [];
           setPackages(normalized);
-          setPackagesDebug(data?.debug || null);
         }
       } catch (e) {
         if (!cancelled) {
           setPackagesError(e instanceof Error ? e.message : "Failed to fetch packages");
           setPackages([]);
-          setPackagesDebug(null);
         }
       } finally {
         if (!cancelled) setPackagesLoading(false);
@@ -139,24 +172,29 @@ export default function IptvPlansPage() {
     return () => {
       cancelled = true;
     };
-  }, [open]);
+  }, [open, provider]);
 
   const handleSave = async () => {
     if (!user) return;
     if (!name.trim()) return;
 
     const days = durationDays.trim() ? Number(durationDays) : undefined;
+    const channelGroups = channelGroupsRaw
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
 
     try {
       await upsertPlan({
-        adminClerkId: user.id,
         id: editingId ? (editingId as any) : undefined,
-        provider: "xtremeui",
+        provider,
         name: name.trim(),
         description: description.trim() || undefined,
         bouquetIds,
         durationDays: Number.isFinite(days as any) ? (days as any) : undefined,
+        channelGroups: channelGroups.length ? channelGroups : undefined,
         stripePriceId: stripePriceId.trim() || undefined,
+        renewalPriceId: renewalPriceId.trim() || undefined,
       });
 
       setOpen(false);
@@ -171,12 +209,31 @@ export default function IptvPlansPage() {
     if (!confirm("Delete this IPTV plan?")) return;
 
     try {
-      await deletePlan({ adminClerkId: user.id, id: id as any });
+      await deletePlan({ id: id as any });
     } catch (e) {
       alert(e instanceof Error ? e.message : "Failed to delete plan");
     }
   };
 
+  const handleShowLineup = async (plan: any) => {
+    setLineupPlan(plan);
+    setLineup(null);
+    setLineupError("");
+    setLineupLoading(true);
+    try {
+      const res = await fetch(`/api/iptv/plans/${encodeURIComponent(String(plan._id))}/channels`);
+      const data = await res.json();
+      if (!res.ok || !data?.success) {
+        throw new Error(data?.error || "Failed to load channels");
+      }
+      setLineup(data);
+    } catch (e) {
+      setLineupError(e instanceof Error ? e.message : "Failed to load channels");
+    } finally {
+      setLineupLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-8">
       <div className="flex items-center justify-between">
@@ -187,151 +244,213 @@ export default function IptvPlansPage() {
           </p>
         </div>
 
-        <Dialog
-          open={open}
-          onOpenChange={(v) => {
-            setOpen(v);
-            if (!v) resetForm();
-          }}
-        >
-          <DialogTrigger asChild>
-            <Button onClick={() => setOpen(true)}>
-              <Plus className="mr-2 h-4 w-4" />
-              New Plan
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>{editingId ? "Edit Plan" : "Create Plan"}</DialogTitle>
-              <DialogDescription>
-                Plans drive bouquet assignment and self-service upgrades.
-              </DialogDescription>
-            </DialogHeader>
-
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Name</Label>
-                <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
-              </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/iptv-import">
+              <Download className="mr-2 h-4 w-4" />
+              Import Lines
+            </Link>
+          </Button>
+
+          <Dialog
+            open={open}
+            onOpenChange={(v) => {
+              setOpen(v);
+              if (!v) resetForm();
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button onClick={() => setOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Plan
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingId ? "Edit Plan" : "Create Plan"}</DialogTitle>
+                <DialogDescription>
+                  Plans drive bouquet assignment and self-service upgrades.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description (optional)</Label>
-                <Input
-                  id="description"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description (optional)</Label>
+                  <Input
+                    id="description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
 
-              <div className="space-y-2">
-                <Label>Bouquet Packages</Label>
-                <div className="flex flex-wrap gap-2">
-                  {selectedBouquetIds.length ? (
-                    selectedBouquetIds.map((id) => {
-                      const pkg = packageMap.get(id);
-                      return (
-                        <Badge key={id} variant="outline">
-                          {pkg?.name || `ID ${id}`}
-                        </Badge>
-                      );
-                    })
-                  ) : (
-                    <span className="text-sm text-muted-foreground">No packages selected</span>
+                <div className="space-y-2">
+                  <Label>Panel</Label>
+                  <Select
+                    value={provider}
+                    onValueChange={(v) => {
+                      setProvider(v as IptvProviderId);
+                      setSelectedBouquetIds([]);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IPTV_PROVIDERS.map((id) => (
+                        <SelectItem key={id} value={id}>
+                          {IPTV_PROVIDER_LABELS[id]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {provider === "stalker" && (
+                    <p className="text-xs text-muted-foreground">
+                      Stalker accounts have one tariff plan: the first package selected is used.
+                    </p>
                   )}
                 </div>
 
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="outline" type="button">
-                      Select Packages
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent className="max-h-64 overflow-auto">
-                    <DropdownMenuLabel>Available Packages</DropdownMenuLabel>
-                    <DropdownMenuSeparator />
-                    {packagesLoading ? (
-                      <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
-                    ) : packagesError ? (
-                      <DropdownMenuItem disabled>{packagesError}</DropdownMenuItem>
-                    ) : packages.length === 0 ? (
-                      <DropdownMenuItem disabled>No packages found</DropdownMenuItem>
+                <div className="space-y-2">
+                  <Label>Bouquet Packages</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {selectedBouquetIds.length ? (
+                      selectedBouquetIds.map((id) => {
+                        const pkg = packageMap.get(id);
+                        return (
+                          <Badge key={id} variant="outline">
+                            {pkg?.name || `ID ${id}`}
+                          </Badge>
+                        );
+                      })
                     ) : (
-                      packages.map((pkg) => (
-                        <DropdownMenuCheckboxItem
-                          key={pkg.id}
-                          checked={selectedBouquetIds.includes(pkg.id)}
-                          onCheckedChange={(checked) => {
-                            setSelectedBouquetIds((prev) =>
-                              checked
-                                ? Array.from(new Set([...prev, pkg.id]))
-                                : prev.filter((id) => id !== pkg.id)
-                            );
-                          }}
-                        >
-                          {pkg.name} <span className="ml-2 text-xs text-muted-foreground">({pkg.id})</span>
-                        </DropdownMenuCheckboxItem>
-                      ))
+                      <span className="text-sm text-muted-foreground">No packages selected</span>
                     )}
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                  </div>
 
-                {packages.length === 0 && !packagesLoading && !packagesError ? (
-                  <div className="text-xs text-muted-foreground">
-                    No packages returned by the panel API. You can still use Custom Bouquet IDs below.
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" type="button">
+                        Select Packages
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="max-h-64 overflow-auto">
+                      <DropdownMenuLabel>Available Packages</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {packagesLoading ? (
+                        <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
+                      ) : packagesError ? (
+                        <DropdownMenuItem disabled>{packagesError}</DropdownMenuItem>
+                      ) : packages.length === 0 ? (
+                        <DropdownMenuItem disabled>No packages found</DropdownMenuItem>
+                      ) : (
+                        packages.map((pkg) => (
+                          <DropdownMenuCheckboxItem
+                            key={pkg.id}
+                            checked={selectedBouquetIds.includes(pkg.id)}
+                            onCheckedChange={(checked) => {
+                              setSelectedBouquetIds((prev) =>
+                                checked
+                                  ? Array.from(new Set([...prev, pkg.id]))
+                                  : prev.filter((id) => id !== pkg.id)
+                              );
+                            }}
+                          >
+                            {pkg.name} <span className="ml-2 text-xs text-muted-foreground">({pkg.id})</span>
+                          </DropdownMenuCheckboxItem>
+                        ))
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+
+                  {packages.length === 0 && !packagesLoading && !packagesError ? (
+                    <div className="text-xs text-muted-foreground">
+                      No packages returned by the panel API. You can still use Custom Bouquet IDs below.
+                    </div>
+                  ) : null}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="bouquets">Custom Bouquet IDs (optional)</Label>
+                    <Input
+                      id="bouquets"
+                      value={bouquetIdsRaw}
+                      onChange={(e) => setBouquetIdsRaw(e.target.value)}
+                      placeholder="1, 2, 7"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Use this only if your panel does not return packages from the API.
+                    </p>
                   </div>
-                ) : null}
+                </div>
 
-                {packagesDebug?.attempts ? (
-                  <div className="text-xs text-muted-foreground">
-                    Attempts: {packagesDebug.attempts.length}. If this looks wrong, use Custom Bouquet IDs.
+                {provider !== "stalker" ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="channelGroups">Playlist Channel Groups (optional)</Label>
+                    <Input
+                      id="channelGroups"
+                      value={channelGroupsRaw}
+                      onChange={(e) => setChannelGroupsRaw(e.target.value)}
+                      placeholder="News, Sports, Movies"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Only these groups are kept in the playlist link subscribers get. Leave empty to keep every group.
+                    </p>
                   </div>
                 ) : null}
 
-                <div className="space-y-2">
-                  <Label htmlFor="bouquets">Custom Bouquet IDs (optional)</Label>
-                  <Input
-                    id="bouquets"
-                    value={bouquetIdsRaw}
-                    onChange={(e) => setBouquetIdsRaw(e.target.value)}
-                    placeholder="1, 2, 7"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Use this only if your panel does not return packages from the API.
-                  </p>
-                </div>
-              </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="durationDays">Duration Days (optional)</Label>
+                    <Input
+                      id="durationDays"
+                      value={durationDays}
+                      onChange={(e) => setDurationDays(e.target.value)}
+                      placeholder="30"
+                    />
+                  </div>
 
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="durationDays">Duration Days (optional)</Label>
-                  <Input
-                    id="durationDays"
-                    value={durationDays}
-                    onChange={(e) => setDurationDays(e.target.value)}
-                    placeholder="30"
-                  />
+                  <div className="space-y-2">
+                    <Label htmlFor="stripePriceId">Stripe Price ID (optional)</Label>
+                    <Input
+                      id="stripePriceId"
+                      value={stripePriceId}
+                      onChange={(e) => setStripePriceId(e.target.value)}
+                      placeholder="price_..."
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Lets users buy this plan on My IPTV, on its own or added to their subscription
+                    </p>
+                  </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="stripePriceId">Stripe Price ID (optional)</Label>
+                  <Label htmlFor="renewalPriceId">Renewal Price ID (optional)</Label>
                   <Input
-                    id="stripePriceId"
-                    value={stripePriceId}
-                    onChange={(e) => setStripePriceId(e.target.value)}
+                    id="renewalPriceId"
+                    value={renewalPriceId}
+                    onChange={(e) => setRenewalPriceId(e.target.value)}
                     placeholder="price_..."
                   />
+                  <p className="text-xs text-muted-foreground">
+                    A one-time price. Users whose line no subscription renews can pay it on My IPTV to add the
+                    plan&apos;s duration (30 days if unset)
+                  </p>
                 </div>
               </div>
-            </div>
 
-            <DialogFooter>
-              <Button onClick={handleSave} disabled={!user || !name.trim()}>
-                <Save className="mr-2 h-4 w-4" />
-                Save
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+              <DialogFooter>
+                <Button onClick={handleSave} disabled={!user || !name.trim()}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
@@ -344,11 +463,12 @@ export default function IptvPlansPage() {
             <TableHeader>
               <TableRow>
                 <TableHead>Name</TableHead>
+                <TableHead>Panel</TableHead>
                 <TableHead>Bouquets</TableHead>
                 <TableHead>Duration</TableHead>
                 <TableHead>Stripe</TableHead>
                 <TableHead>Updated</TableHead>
-                <TableHead className="w-[140px]"></TableHead>
+                <TableHead className="w-[200px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -360,6 +480,9 @@ export default function IptvPlansPage() {
                       <div className="text-xs text-muted-foreground">{p.description}</div>
                     )}
                   </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{IPTV_PROVIDER_LABELS[p.provider as IptvProviderId]}</Badge>
+                  </TableCell>
                   <TableCell className="text-muted-foreground">
                     {(p.bouquetIds || []).length ? (p.bouquetIds || []).join(", ") : "-"}
                   </TableCell>
@@ -377,6 +500,9 @@ export default function IptvPlansPage() {
                     {p.updatedAt ? formatDateTime(p.updatedAt) : "-"}
                   </TableCell>
                   <TableCell className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleShowLineup(p)} title="Channel lineup">
+                      <ListVideo className="h-4 w-4" />
+                    </Button>
                     <Button variant="outline" size="sm" onClick={() => handleEdit(p)}>
                       Edit
                     </Button>
@@ -392,7 +518,7 @@ export default function IptvPlansPage() {
               ))}
               {(!plans || plans.length === 0) && (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                     No plans yet. Create one to enable user upgrades/downgrades.
                   </TableCell>
                 </TableRow>
@@ -401,6 +527,32 @@ export default function IptvPlansPage() {
           </Table>
         </CardContent>
       </Card>
+
+      <Dialog open={!!lineupPlan} onOpenChange={(o) => !o && setLineupPlan(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{lineupPlan?.name} channels</DialogTitle>
+            <DialogDescription>
+              {lineup?.allChannels
+                ? "This plan has no bouquets, so lines get every live channel on the panel."
+                : "Live channels in the plan's bouquets, as its lines will see them."}
+              {(lineupPlan?.channelGroups || []).length
+                ? ` Limited to the channel groups ${lineupPlan.channelGroups.join(", ")}.`
+                : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {lineupLoading ? (
+            <div className="flex items-center gap-2 py-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading channels from the panel…
+            </div>
+          ) : lineupError ? (
+            <p className="text-sm text-red-600">{lineupError}</p>
+          ) : lineup ? (
+            <IptvChannelList categories={lineup.categories} channels={lineup.channels} />
+          ) : null}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
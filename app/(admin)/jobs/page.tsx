@@ -0,0 +1,354 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Ban, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateTime } from "@/lib/utils";
+
+type Status = "pending" | "running" | "succeeded" | "failed" | "canceled";
+
+const ALL = "all";
+
+const STATUS_VARIANTS = {
+  pending: "secondary",
+  running: "outline",
+  succeeded: "success",
+  failed: "destructive",
+  canceled: "outline",
+  retrying: "warning",
+} as const;
+
+const DEAD_LETTER_LABELS = {
+  non_retryable: "Non-retryable error",
+  max_attempts: "Out of attempts",
+} as const;
+
+function dayStart(value: string): number | undefined {
+  return value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+}
+
+function dayEnd(value: string): number | undefined {
+  return value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+}
+
+export default function JobsPage() {
+  const [view, setView] = useState<"all" | "dead">("all");
+  const [type, setType] = useState("");
+  const [status, setStatus] = useState<Status | typeof ALL>(ALL);
+  const [userEmail, setUserEmail] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [selected, setSelected] = useState<Id<"jobs">[]>([]);
+  const [detailId, setDetailId] = useState<Id<"jobs"> | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const jobs = useQuery(api.jobs.adminList, {
+    type: type.trim() || undefined,
+    status: view === "dead" ? "failed" : status === ALL ? undefined : status,
+    userEmail: userEmail.trim() || undefined,
+    from: dayStart(from),
+    to: dayEnd(to),
+    limit: 200,
+  });
+  const detail = useQuery(api.jobs.adminGet, detailId ? { id: detailId } : "skip");
+  const retryJobs = useMutation(api.jobs.adminRetry);
+  const cancelJobs = useMutation(api.jobs.adminCancel);
+
+  const visibleIds = (jobs ?? []).map((job) => job._id);
+  const selectedIds = selected.filter((id) => visibleIds.includes(id));
+  const allSelected = visibleIds.length > 0 && selectedIds.length === visibleIds.length;
+
+  const toggle = (id: Id<"jobs">) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const handleRetry = async () => {
+    setBusy(true);
+    try {
+      const result = await retryJobs({ ids: selectedIds });
+      toast.success(`${result.retried} job${result.retried === 1 ? "" : "s"} queued for retry`);
+      for (const skip of result.skipped) {
+        toast.warning(`Skipped ${skip.id}: ${skip.reason}`);
+      }
+      setSelected([]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to retry jobs");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel ${selectedIds.length} job(s)?`)) return;
+
+    setBusy(true);
+    try {
+      const result = await cancelJobs({ ids: selectedIds });
+      toast.success(`${result.canceled} job${result.canceled === 1 ? "" : "s"} canceled`);
+      setSelected([]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel jobs");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Jobs</h1>
+          <p className="text-muted-foreground">
+            Background work such as provisioning, reconciliation fixes and emails
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRetry} disabled={busy || selectedIds.length === 0}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+          <Button variant="outline" onClick={handleCancel} disabled={busy || selectedIds.length === 0}>
+            <Ban className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+
+      <Tabs value={view} onValueChange={(v) => setView(v as "all" | "dead")}>
+        <TabsList>
+          <TabsTrigger value="all">All Jobs</TabsTrigger>
+          <TabsTrigger value="dead">Dead Letter</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{view === "dead" ? "Dead Letter" : "All Jobs"}</CardTitle>
+          <CardDescription>
+            {view === "dead"
+              ? "Jobs that ran out of attempts or hit an error retrying can't fix"
+              : `${jobs?.length ?? 0} jobs match the filters`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label htmlFor="type">Type</Label>
+              <Input
+                id="type"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                placeholder="iptv.provision"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={view === "dead" ? "failed" : status}
+                onValueChange={(v) => setStatus(v as Status | typeof ALL)}
+                disabled={view === "dead"}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="running">Running</SelectItem>
+                  <SelectItem value="succeeded">Succeeded</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="canceled">Canceled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="userEmail">User Email</Label>
+              <Input
+                id="userEmail"
+                value={userEmail}
+                onChange={(e) => setUserEmail(e.target.value)}
+                placeholder="user@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(v) => setSelected(v === true ? visibleIds : [])}
+                  />
+                </TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(jobs ?? []).map((job) => (
+                <TableRow key={job._id} className="cursor-pointer" onClick={() => setDetailId(job._id)}>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox checked={selectedIds.includes(job._id)} onCheckedChange={() => toggle(job._id)} />
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{job.type}</TableCell>
+                  <TableCell className="text-muted-foreground">{job.userEmail ?? "—"}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={STATUS_VARIANTS[job.status]}>{job.status}</Badge>
+                      {job.deadLetter && <Badge variant="outline">{DEAD_LETTER_LABELS[job.deadLetter]}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {job.attempts} / {job.maxAttempts}
+                  </TableCell>
+                  <TableCell>
+                    {job.lastError && (
+                      <p className="max-w-[320px] truncate text-xs text-muted-foreground" title={job.lastError}>
+                        {job.lastError}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{formatDateTime(job.createdAt)}</TableCell>
+                </TableRow>
+              ))}
+              {(!jobs || jobs.length === 0) && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {jobs ? "No jobs found" : "Loading..."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!detailId} onOpenChange={(v) => !v && setDetailId(null)}>
+        <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-base">{detail?.type ?? "Job"}</DialogTitle>
+            <DialogDescription>
+              {detail
+                ? `${detail.status} · ${detail.attempts} of ${detail.maxAttempts} attempts · created ${formatDateTime(detail.createdAt)}`
+                : "Loading..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {detail && (
+            <div className="space-y-4">
+              {detail.userEmail && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">User:</span> {detail.userEmail}
+                </p>
+              )}
+              {detail.status === "pending" && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Next run:</span> {formatDateTime(detail.nextRunAt)}
+                </p>
+              )}
+              {detail.lastError && <p className="text-sm text-destructive">{detail.lastError}</p>}
+
+              <div className="space-y-2">
+                <Label>Payload</Label>
+                <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(detail.payload, null, 2)}
+                </pre>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Attempts</Label>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Outcome</TableHead>
+                      <TableHead>Runner</TableHead>
+                      <TableHead>Finished</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.attemptHistory.map((attempt) => (
+                      <TableRow key={attempt._id}>
+                        <TableCell>{attempt.attempt}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[attempt.outcome]}>{attempt.outcome}</Badge>
+                          {attempt.error && (
+                            <p className="mt-1 max-w-[280px] truncate text-xs text-muted-foreground" title={attempt.error}>
+                              {attempt.error}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{attempt.runnerId ?? "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {formatDateTime(attempt.finishedAt)} ({Math.max(attempt.finishedAt - attempt.startedAt, 0)} ms)
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {detail.attemptHistory.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          No attempts yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Trash2, Plus, Save } from "lucide-react";
+import { formatPlanPrice } from "@/lib/stripe";
+
+type ServerType = "plex" | "emby" | "both" | "jellyfin";
+type Interval = "day" | "week" | "month" | "year";
+
+const SERVER_TYPE_LABELS: Record<ServerType, string> = {
+  plex: "Plex",
+  emby: "Emby",
+  both: "Plex & Emby",
+  jellyfin: "Jellyfin",
+};
+
+const NO_IPTV = "none";
+
+export default function PlansPage() {
+  const { user } = useUser();
+
+  const plans = useQuery(api.plans.list);
+  const iptvPlans = useQuery(api.iptv.listPlans, {});
+  const servers = useQuery(api.servers.listEnabled, {});
+  const upsertPlan = useMutation(api.plans.upsert);
+  const removePlan = useMutation(api.plans.remove);
+
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<Id<"plans"> | null>(null);
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [stripePriceId, setStripePriceId] = useState("");
+  const [price, setPrice] = useState("");
+  const [currency, setCurrency] = useState("usd");
+  const [interval, setInterval] = useState<Interval>("month");
+  const [intervalCount, setIntervalCount] = useState("1");
+  const [serverType, setServerType] = useState<ServerType>("emby");
+  const [selectedServerIds, setSelectedServerIds] = useState<Id<"servers">[]>([]);
+  const [librariesRaw, setLibrariesRaw] = useState("");
+  const [iptvPlanId, setIptvPlanId] = useState<string>(NO_IPTV);
+  const [maxStreams, setMaxStreams] = useState("");
+  const [isActive, setIsActive] = useState(true);
+
+  // Servers matching the selected server type
+  const availableServers = useMemo(() => {
+    const types = serverType === "both" ? ["plex", "emby"] : [serverType];
+    return (servers ?? []).filter((s) => types.includes(s.type));
+  }, [servers, serverType]);
+
+  const iptvPlanNames = useMemo(
+    () => new Map((iptvPlans ?? []).map((p) => [p._id as string, p.name])),
+    [iptvPlans]
+  );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setStripePriceId("");
+    setPrice("");
+    setCurrency("usd");
+    setInterval("month");
+    setIntervalCount("1");
+    setServerType("emby");
+    setSelectedServerIds([]);
+    setLibrariesRaw("");
+    setIptvPlanId(NO_IPTV);
+    setMaxStreams("");
+    setIsActive(true);
+  };
+
+  const handleEdit = (plan: Doc<"plans">) => {
+    setEditingId(plan._id);
+    setName(plan.name);
+    setDescription(plan.description || "");
+    setStripePriceId(plan.stripePriceId);
+    setPrice((plan.amount / 100).toFixed(2));
+    setCurrency(plan.currency);
+    setInterval(plan.interval);
+    setIntervalCount(String(plan.intervalCount ?? 1));
+    setServerType(plan.serverType);
+    setSelectedServerIds(plan.serverIds ?? []);
+    setLibrariesRaw((plan.libraries ?? []).join(", "));
+    setIptvPlanId(plan.iptvPlanId ?? NO_IPTV);
+    setMaxStreams(plan.maxStreams ? String(plan.maxStreams) : "");
+    setIsActive(plan.isActive);
+    setOpen(true);
+  };
+
+  const toggleServer = (id: Id<"servers">) => {
+    setSelectedServerIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const amount = Math.round(Number(price) * 100);
+    if (!Number.isFinite(amount) || amount < 0) {
+      alert("Enter a valid price");
+      return;
+    }
+
+    const count = Number(intervalCount);
+    const streams = Number(maxStreams);
+    const libraries = librariesRaw
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    const serverIds = selectedServerIds.filter((id) => availableServers.some((s) => s._id === id));
+
+    try {
+      await upsertPlan({
+        id: editingId ?? undefined,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        stripePriceId: stripePriceId.trim(),
+        amount,
+        currency: currency.trim() || "usd",
+        interval,
+        intervalCount: Number.isInteger(count) && count > 1 ? count : undefined,
+        serverType,
+        serverIds: serverIds.length ? serverIds : undefined,
+        libraries: libraries.length ? libraries : undefined,
+        iptvPlanId: iptvPlanId !== NO_IPTV ? (iptvPlanId as Id<"iptvPlans">) : undefined,
+        maxStreams: Number.isInteger(streams) && streams > 0 ? streams : undefined,
+        isActive,
+      });
+
+      setOpen(false);
+      resetForm();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to save plan");
+    }
+  };
+
+  const handleDelete = async (id: Id<"plans">) => {
+    if (!user) return;
+    if (!confirm("Delete this plan?")) return;
+
+    try {
+      await removePlan({ id });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to delete plan");
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Plans</h1>
+          <p className="text-muted-foreground">
+            Subscription tiers offered at checkout and the access each one grants
+          </p>
+        </div>
+
+        <Dialog
+          open={open}
+          onOpenChange={(v) => {
+            setOpen(v);
+            if (!v) resetForm();
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button onClick={() => setOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Plan
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingId ? "Edit Plan" : "Create Plan"}</DialogTitle>
+              <DialogDescription>
+                Create the recurring price in Stripe first, then paste its price ID here.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description (optional)</Label>
+                <Input
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="stripePriceId">Stripe Price ID</Label>
+                <Input
+                  id="stripePriceId"
+                  value={stripePriceId}
+                  onChange={(e) => setStripePriceId(e.target.value)}
+                  placeholder="price_..."
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="price">Price</Label>
+                  <Input
+                    id="price"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder="30.00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="currency">Currency</Label>
+                  <Input
+                    id="currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    placeholder="usd"
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Billing Interval</Label>
+                  <Select value={interval} onValueChange={(v) => setInterval(v as Interval)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day</SelectItem>
+                      <SelectItem value="week">Week</SelectItem>
+                      <SelectItem value="month">Month</SelectItem>
+                      <SelectItem value="year">Year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="intervalCount">Every</Label>
+                  <Input
+                    id="intervalCount"
+                    value={intervalCount}
+                    onChange={(e) => setIntervalCount(e.target.value)}
+                    placeholder="1"
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Server Type</Label>
+                  <Select value={serverType} onValueChange={(v) => setServerType(v as ServerType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="plex">Plex</SelectItem>
+                      <SelectItem value="emby">Emby</SelectItem>
+                      <SelectItem value="both">Both</SelectItem>
+                      <SelectItem value="jellyfin">Jellyfin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxStreams">Max Streams (optional)</Label>
+                  <Input
+                    id="maxStreams"
+                    value={maxStreams}
+                    onChange={(e) => setMaxStreams(e.target.value)}
+                    placeholder="2"
+                  />
+                </div>
+              </div>
+
+              {availableServers.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Servers</Label>
+                  <div className="space-y-1 border rounded-md p-2">
+                    {availableServers.map((server) => (
+                      <label
+                        key={server._id}
+                        className="flex items-center gap-2 p-2 rounded-md cursor-pointer hover:bg-muted transition-colors"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedServerIds.includes(server._id)}
+                          onChange={() => toggleServer(server._id)}
+                          className="rounded border-gray-300"
+                        />
+                        <span className="text-sm truncate">{server.name}</span>
+                        <span className="text-xs text-muted-foreground capitalize">{server.type}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Leave all unchecked to use the default server of each type.
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="libraries">Library IDs (optional)</Label>
+                <Input
+                  id="libraries"
+                  value={librariesRaw}
+                  onChange={(e) => setLibrariesRaw(e.target.value)}
+                  placeholder="Leave empty for all libraries"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>IPTV Plan</Label>
+                <Select value={iptvPlanId} onValueChange={setIptvPlanId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_IPTV}>No IPTV</SelectItem>
+                    {(iptvPlans ?? []).map((p) => (
+                      <SelectItem key={p._id} value={p._id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <Label>Offered at Checkout</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Inactive plans keep their subscribers but can&apos;t be bought.
+                  </p>
+                </div>
+                <Checkbox checked={isActive} onCheckedChange={(v) => setIsActive(v === true)} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                onClick={handleSave}
+                disabled={!user || !name.trim() || !stripePriceId.trim() || !price.trim()}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Plans</CardTitle>
+          <CardDescription>{plans?.length ?? 0} plans configured</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead>IPTV</TableHead>
+                <TableHead>Stripe</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[140px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(plans || []).map((p) => (
+                <TableRow key={p._id}>
+                  <TableCell>
+                    <div className="font-medium">{p.name}</div>
+                    {p.description && (
+                      <div className="text-xs text-muted-foreground">{p.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatPlanPrice(p)}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {SERVER_TYPE_LABELS[p.serverType]}
+                    {p.maxStreams ? ` · ${p.maxStreams} streams` : ""}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {p.iptvPlanId ? iptvPlanNames.get(p.iptvPlanId) ?? "Unknown plan" : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{p.stripePriceId}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {p.isActive ? (
+                      <Badge variant="success">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(p)}>
+                      Edit
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDelete(p._id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {(!plans || plans.length === 0) && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No plans yet. Create one so users can subscribe.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
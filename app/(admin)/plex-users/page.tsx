@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -17,6 +17,13 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -83,14 +90,19 @@ export default function PlexUsersPage() {
 
   const isAdmin = useQuery(
     api.admins.isAdmin,
-    user?.id ? { clerkId: user.id, email: user.primaryEmailAddress?.emailAddress } : "skip"
+    user?.id ? {} : "skip"
   );
 
-  const fetchUsers = async () => {
+  // Servers of this type; the selector only shows when there is more than one
+  const servers = useQuery(api.servers.listEnabled, isAdmin ? { type: "plex" } : "skip");
+  const [serverId, setServerId] = useState<string>("");
+  const serverQuery = serverId ? `?serverId=${serverId}` : "";
+
+  const fetchUsers = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch("/api/plex/users");
+      const response = await fetch(`/api/plex/users${serverQuery}`);
       const data = await response.json();
       if (data.success) {
         setUsers(data.users);
@@ -102,11 +114,11 @@ export default function PlexUsersPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [serverQuery]);
 
   useEffect(() => {
     fetchUsers();
-  }, []);
+  }, [fetchUsers]);
 
   const filteredUsers = users.filter(
     (u) =>
@@ -119,7 +131,7 @@ export default function PlexUsersPage() {
     setEditDialogOpen(true);
     
     try {
-      const response = await fetch(`/api/plex/users/${userId}`);
+      const response = await fetch(`/api/plex/users/${userId}${serverQuery}`);
       const data = await response.json();
       
       if (data.success) {
@@ -143,7 +155,7 @@ export default function PlexUsersPage() {
     
     setSaving(true);
     try {
-      const response = await fetch(`/api/plex/users/${selectedUser.id}`, {
+      const response = await fetch(`/api/plex/users/${selectedUser.id}${serverQuery}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -172,7 +184,7 @@ export default function PlexUsersPage() {
     }
 
     try {
-      const response = await fetch(`/api/plex/users/${userId}`, {
+      const response = await fetch(`/api/plex/users/${userId}${serverQuery}`, {
         method: "DELETE",
       });
       
@@ -223,10 +235,29 @@ export default function PlexUsersPage() {
             Manage Plex server shared users directly from here
           </p>
         </div>
-        <Button onClick={fetchUsers} disabled={loading} variant="outline">
-          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {servers && servers.length > 1 && (
+            <Select
+              value={serverId || servers.find((s) => s.isDefault)?._id || servers[0]._id}
+              onValueChange={setServerId}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select server" />
+              </SelectTrigger>
+              <SelectContent>
+                {servers.map((server) => (
+                  <SelectItem key={server._id} value={server._id}>
+                    {server.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={fetchUsers} disabled={loading} variant="outline">
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {error && (
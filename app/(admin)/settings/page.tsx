@@ -5,6 +5,7 @@ import { useQuery, useMutation } from "convex/react";
 import { useUser } from "@clerk/nextjs";
 import { api } from "@/convex/_generated/api";
 import { SETTINGS_KEYS } from "@/lib/constants";
+import { parseXtremePanelProfile } from "@/lib/iptv";
 import { useAdminCheck } from "@/hooks/use-role-check";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,6 +18,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -35,14 +43,18 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Loader2, Save, Eye, EyeOff, CheckCircle, XCircle, Shield, UserPlus, Trash2 } from "lucide-react";
+import { Loader2, Save, Eye, EyeOff, CheckCircle, XCircle, Shield, UserPlus, Trash2, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
+import { ServerManager } from "@/components/server-manager";
+import { WebhookDeliveries } from "@/components/webhook-deliveries";
+import { EmailTemplates } from "@/components/email-templates";
 
 export default function SettingsPage() {
   const { user } = useUser();
   const { isOwner } = useAdminCheck();
   const settings = useQuery(api.settings.getAll);
   const setSettings = useMutation(api.settings.setMany);
+  const secretsStatus = useQuery(api.secrets.status);
   
   // Admin management
   const adminList = useQuery(api.admins.list);
@@ -52,7 +64,10 @@ export default function SettingsPage() {
   const [isSaving, setIsSaving] = useState(false);
   const [showPlexToken, setShowPlexToken] = useState(false);
   const [showEmbyKey, setShowEmbyKey] = useState(false);
+  const [showJellyfinKey, setShowJellyfinKey] = useState(false);
   const [showXtremeUiKey, setShowXtremeUiKey] = useState(false);
+  const [showXuiOneKey, setShowXuiOneKey] = useState(false);
+  const [showStalkerPassword, setShowStalkerPassword] = useState(false);
   const [showWebhookSecret, setShowWebhookSecret] = useState(false);
   const [showSmtpPass, setShowSmtpPass] = useState(false);
   
@@ -69,9 +84,18 @@ export default function SettingsPage() {
   const [plexToken, setPlexToken] = useState("");
   const [embyUrl, setEmbyUrl] = useState("");
   const [embyApiKey, setEmbyApiKey] = useState("");
+  const [jellyfinUrl, setJellyfinUrl] = useState("");
+  const [jellyfinApiKey, setJellyfinApiKey] = useState("");
   const [xtremeUiUrl, setXtremeUiUrl] = useState("");
   const [xtremeUiApiKey, setXtremeUiApiKey] = useState("");
   const [xtremeUiStreamBaseUrl, setXtremeUiStreamBaseUrl] = useState("");
+  const [xuiOneUrl, setXuiOneUrl] = useState("");
+  const [xuiOneApiKey, setXuiOneApiKey] = useState("");
+  const [xuiOneStreamBaseUrl, setXuiOneStreamBaseUrl] = useState("");
+  const [stalkerApiUrl, setStalkerApiUrl] = useState("");
+  const [stalkerApiUser, setStalkerApiUser] = useState("");
+  const [stalkerApiPassword, setStalkerApiPassword] = useState("");
+  const [stalkerPortalUrl, setStalkerPortalUrl] = useState("");
   const [webhookUrl, setWebhookUrl] = useState("");
   const [webhookSecret, setWebhookSecret] = useState("");
   
@@ -83,10 +107,27 @@ export default function SettingsPage() {
   const [smtpPass, setSmtpPass] = useState("");
   const [emailFrom, setEmailFrom] = useState("");
   const [emailFromName, setEmailFromName] = useState("");
+  const [inactivityEnabled, setInactivityEnabled] = useState(false);
+  const [inactivityWarnDays, setInactivityWarnDays] = useState("60");
+  const [inactivityRevokeDays, setInactivityRevokeDays] = useState("90");
+  const [inactivityExemptFree, setInactivityExemptFree] = useState(true);
+  const [inactivityExemptAdmins, setInactivityExemptAdmins] = useState(true);
+  const [streamLimitsEnabled, setStreamLimitsEnabled] = useState(false);
+  const [streamLimitStopExtra, setStreamLimitStopExtra] = useState(false);
+  const [streamLimitNotify, setStreamLimitNotify] = useState(true);
+  const [streamLimitSuspendAfter, setStreamLimitSuspendAfter] = useState("0");
+  const [streamLimitWindowDays, setStreamLimitWindowDays] = useState("30");
+  const [dunningReminderDays, setDunningReminderDays] = useState("0, 3, 6");
+  const [dunningGraceDays, setDunningGraceDays] = useState("8");
+  const [dunningFinalNoticeDays, setDunningFinalNoticeDays] = useState("1");
+  const [refundPolicy, setRefundPolicy] = useState("review");
+  const [disputePolicy, setDisputePolicy] = useState("revoke");
+  const [pausedPolicy, setPausedPolicy] = useState("revoke");
 
   // Connection test states
   const [plexStatus, setPlexStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
   const [embyStatus, setEmbyStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
+  const [jellyfinStatus, setJellyfinStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
   const [xtremeUiStatus, setXtremeUiStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
   const [smtpStatus, setSmtpStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
   const [xtremeUiError, setXtremeUiError] = useState<string>("");
@@ -99,9 +140,18 @@ export default function SettingsPage() {
       setPlexToken(settings[SETTINGS_KEYS.PLEX_TOKEN] || "");
       setEmbyUrl(settings[SETTINGS_KEYS.EMBY_URL] || "");
       setEmbyApiKey(settings[SETTINGS_KEYS.EMBY_API_KEY] || "");
+      setJellyfinUrl(settings[SETTINGS_KEYS.JELLYFIN_URL] || "");
+      setJellyfinApiKey(settings[SETTINGS_KEYS.JELLYFIN_API_KEY] || "");
       setXtremeUiUrl(settings[SETTINGS_KEYS.XTREME_UI_URL] || "");
       setXtremeUiApiKey(settings[SETTINGS_KEYS.XTREME_UI_API_KEY] || "");
       setXtremeUiStreamBaseUrl(settings[SETTINGS_KEYS.XTREME_UI_STREAM_BASE_URL] || "");
+      setXuiOneUrl(settings[SETTINGS_KEYS.XUI_ONE_URL] || "");
+      setXuiOneApiKey(settings[SETTINGS_KEYS.XUI_ONE_API_KEY] || "");
+      setXuiOneStreamBaseUrl(settings[SETTINGS_KEYS.XUI_ONE_STREAM_BASE_URL] || "");
+      setStalkerApiUrl(settings[SETTINGS_KEYS.STALKER_API_URL] || "");
+      setStalkerApiUser(settings[SETTINGS_KEYS.STALKER_API_USER] || "");
+      setStalkerApiPassword(settings[SETTINGS_KEYS.STALKER_API_PASSWORD] || "");
+      setStalkerPortalUrl(settings[SETTINGS_KEYS.STALKER_PORTAL_URL] || "");
       setWebhookUrl(settings[SETTINGS_KEYS.WEBHOOK_URL] || "");
       setWebhookSecret(settings[SETTINGS_KEYS.WEBHOOK_SECRET] || "");
       setSmtpHost(settings[SETTINGS_KEYS.SMTP_HOST] || "");
@@ -111,6 +161,22 @@ export default function SettingsPage() {
       setSmtpPass(settings[SETTINGS_KEYS.SMTP_PASS] || "");
       setEmailFrom(settings[SETTINGS_KEYS.EMAIL_FROM] || "");
       setEmailFromName(settings[SETTINGS_KEYS.EMAIL_FROM_NAME] || "");
+      setInactivityEnabled(settings[SETTINGS_KEYS.INACTIVITY_PRUNING_ENABLED] === "true");
+      setInactivityWarnDays(settings[SETTINGS_KEYS.INACTIVITY_WARN_DAYS] || "60");
+      setInactivityRevokeDays(settings[SETTINGS_KEYS.INACTIVITY_REVOKE_DAYS] || "90");
+      setInactivityExemptFree(settings[SETTINGS_KEYS.INACTIVITY_EXEMPT_FREE] !== "false");
+      setInactivityExemptAdmins(settings[SETTINGS_KEYS.INACTIVITY_EXEMPT_ADMINS] !== "false");
+      setStreamLimitsEnabled(settings[SETTINGS_KEYS.STREAM_LIMITS_ENABLED] === "true");
+      setStreamLimitStopExtra(settings[SETTINGS_KEYS.STREAM_LIMIT_STOP_EXTRA] === "true");
+      setStreamLimitNotify(settings[SETTINGS_KEYS.STREAM_LIMIT_NOTIFY] !== "false");
+      setStreamLimitSuspendAfter(settings[SETTINGS_KEYS.STREAM_LIMIT_SUSPEND_AFTER] || "0");
+      setStreamLimitWindowDays(settings[SETTINGS_KEYS.STREAM_LIMIT_WINDOW_DAYS] || "30");
+      setDunningReminderDays(settings[SETTINGS_KEYS.DUNNING_REMINDER_DAYS] || "0, 3, 6");
+      setDunningGraceDays(settings[SETTINGS_KEYS.DUNNING_GRACE_DAYS] || "8");
+      setDunningFinalNoticeDays(settings[SETTINGS_KEYS.DUNNING_FINAL_NOTICE_DAYS] || "1");
+      setRefundPolicy(settings[SETTINGS_KEYS.REFUND_POLICY] || "review");
+      setDisputePolicy(settings[SETTINGS_KEYS.DISPUTE_POLICY] || "revoke");
+      setPausedPolicy(settings[SETTINGS_KEYS.SUBSCRIPTION_PAUSED_POLICY] || "revoke");
     }
   }, [settings]);
 
@@ -123,7 +189,6 @@ export default function SettingsPage() {
           { key: SETTINGS_KEYS.PLEX_URL, value: plexUrl },
           { key: SETTINGS_KEYS.PLEX_TOKEN, value: plexToken },
         ],
-        adminId: user.id,
       });
     } finally {
       setIsSaving(false);
@@ -139,7 +204,21 @@ export default function SettingsPage() {
           { key: SETTINGS_KEYS.EMBY_URL, value: embyUrl },
           { key: SETTINGS_KEYS.EMBY_API_KEY, value: embyApiKey },
         ],
-        adminId: user.id,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveJellyfin = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.JELLYFIN_URL, value: jellyfinUrl },
+          { key: SETTINGS_KEYS.JELLYFIN_API_KEY, value: jellyfinApiKey },
+        ],
       });
     } finally {
       setIsSaving(false);
@@ -156,7 +235,39 @@ export default function SettingsPage() {
           { key: SETTINGS_KEYS.XTREME_UI_API_KEY, value: xtremeUiApiKey },
           { key: SETTINGS_KEYS.XTREME_UI_STREAM_BASE_URL, value: xtremeUiStreamBaseUrl },
         ],
-        adminId: user.id,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveXuiOne = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.XUI_ONE_URL, value: xuiOneUrl },
+          { key: SETTINGS_KEYS.XUI_ONE_API_KEY, value: xuiOneApiKey },
+          { key: SETTINGS_KEYS.XUI_ONE_STREAM_BASE_URL, value: xuiOneStreamBaseUrl },
+        ],
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveStalker = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.STALKER_API_URL, value: stalkerApiUrl },
+          { key: SETTINGS_KEYS.STALKER_API_USER, value: stalkerApiUser },
+          { key: SETTINGS_KEYS.STALKER_API_PASSWORD, value: stalkerApiPassword },
+          { key: SETTINGS_KEYS.STALKER_PORTAL_URL, value: stalkerPortalUrl },
+        ],
       });
     } finally {
       setIsSaving(false);
@@ -172,7 +283,6 @@ export default function SettingsPage() {
           { key: SETTINGS_KEYS.WEBHOOK_URL, value: webhookUrl },
           { key: SETTINGS_KEYS.WEBHOOK_SECRET, value: webhookSecret },
         ],
-        adminId: user.id,
       });
     } finally {
       setIsSaving(false);
@@ -193,7 +303,100 @@ export default function SettingsPage() {
           { key: SETTINGS_KEYS.EMAIL_FROM, value: emailFrom },
           { key: SETTINGS_KEYS.EMAIL_FROM_NAME, value: emailFromName },
         ],
-        adminId: user.id,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveInactivity = async () => {
+    if (!user) return;
+    const warnDays = parseInt(inactivityWarnDays, 10);
+    const revokeDays = parseInt(inactivityRevokeDays, 10);
+    if (!(warnDays > 0) || !(revokeDays > warnDays)) {
+      toast.error("Revoke after must be more days than warn after");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.INACTIVITY_PRUNING_ENABLED, value: inactivityEnabled.toString() },
+          { key: SETTINGS_KEYS.INACTIVITY_WARN_DAYS, value: warnDays.toString() },
+          { key: SETTINGS_KEYS.INACTIVITY_REVOKE_DAYS, value: revokeDays.toString() },
+          { key: SETTINGS_KEYS.INACTIVITY_EXEMPT_FREE, value: inactivityExemptFree.toString() },
+          { key: SETTINGS_KEYS.INACTIVITY_EXEMPT_ADMINS, value: inactivityExemptAdmins.toString() },
+        ],
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveStreamLimits = async () => {
+    if (!user) return;
+    const suspendAfter = parseInt(streamLimitSuspendAfter, 10);
+    const windowDays = parseInt(streamLimitWindowDays, 10);
+    if (!(suspendAfter >= 0) || !(windowDays > 0)) {
+      toast.error("Enter a valid number of offences and days");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.STREAM_LIMITS_ENABLED, value: streamLimitsEnabled.toString() },
+          { key: SETTINGS_KEYS.STREAM_LIMIT_STOP_EXTRA, value: streamLimitStopExtra.toString() },
+          { key: SETTINGS_KEYS.STREAM_LIMIT_NOTIFY, value: streamLimitNotify.toString() },
+          { key: SETTINGS_KEYS.STREAM_LIMIT_SUSPEND_AFTER, value: suspendAfter.toString() },
+          { key: SETTINGS_KEYS.STREAM_LIMIT_WINDOW_DAYS, value: windowDays.toString() },
+        ],
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDunning = async () => {
+    if (!user) return;
+    const reminderDays = dunningReminderDays.split(",").map((d) => Number(d.trim()));
+    const graceDays = parseInt(dunningGraceDays, 10);
+    const finalNoticeDays = parseInt(dunningFinalNoticeDays, 10);
+    if (reminderDays.some((d) => !Number.isInteger(d) || d < 0)) {
+      toast.error("Reminder days must be a comma-separated list of whole days, like 0, 3, 6");
+      return;
+    }
+    if (!(graceDays > 0) || !(finalNoticeDays >= 0) || finalNoticeDays >= graceDays) {
+      toast.error("The final notice must come fewer days before revocation than the grace period lasts");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.DUNNING_REMINDER_DAYS, value: reminderDays.join(", ") },
+          { key: SETTINGS_KEYS.DUNNING_GRACE_DAYS, value: graceDays.toString() },
+          { key: SETTINGS_KEYS.DUNNING_FINAL_NOTICE_DAYS, value: finalNoticeDays.toString() },
+        ],
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveReversalPolicies = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await setSettings({
+        settings: [
+          { key: SETTINGS_KEYS.REFUND_POLICY, value: refundPolicy },
+          { key: SETTINGS_KEYS.DISPUTE_POLICY, value: disputePolicy },
+          { key: SETTINGS_KEYS.SUBSCRIPTION_PAUSED_POLICY, value: pausedPolicy },
+        ],
       });
     } finally {
       setIsSaving(false);
@@ -230,6 +433,21 @@ export default function SettingsPage() {
     }
   };
 
+  const testJellyfinConnection = async () => {
+    setJellyfinStatus("testing");
+    try {
+      const response = await fetch("/api/test-jellyfin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: jellyfinUrl, apiKey: jellyfinApiKey }),
+      });
+      const data = await response.json();
+      setJellyfinStatus(data.success ? "success" : "error");
+    } catch {
+      setJellyfinStatus("error");
+    }
+  };
+
   const testXtremeUiConnection = async () => {
     setXtremeUiStatus("testing");
     setXtremeUiError("");
@@ -267,6 +485,8 @@ export default function SettingsPage() {
     }
   };
 
+  const xtremeUiProfile = parseXtremePanelProfile(settings?.[SETTINGS_KEYS.XTREME_UI_PROFILE]);
+
   return (
     <div className="space-y-8">
       <div>
@@ -276,13 +496,45 @@ export default function SettingsPage() {
         </p>
       </div>
 
+      {secretsStatus && (!secretsStatus.keyConfigured || secretsStatus.plaintext > 0) && (
+        <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-600" />
+          <div>
+            {!secretsStatus.keyConfigured ? (
+              <>
+                <p className="font-medium">Secrets encryption key not set</p>
+                <p className="text-muted-foreground">
+                  Set SECRETS_ENCRYPTION_KEY in the Convex environment before saving API keys, tokens or
+                  passwords.
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium">
+                  {secretsStatus.plaintext} secret{secretsStatus.plaintext === 1 ? " is" : "s are"} stored
+                  unencrypted
+                </p>
+                <p className="text-muted-foreground">
+                  Run <code>npx convex run secrets:encryptExisting</code> to encrypt them.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       <Tabs defaultValue="plex" className="space-y-4">
         <TabsList>
           <TabsTrigger value="plex">Plex</TabsTrigger>
           <TabsTrigger value="emby">Emby</TabsTrigger>
-          <TabsTrigger value="xtremeui">Xtreme UI</TabsTrigger>
+          <TabsTrigger value="jellyfin">Jellyfin</TabsTrigger>
+          <TabsTrigger value="servers">Servers</TabsTrigger>
+          <TabsTrigger value="xtremeui">IPTV</TabsTrigger>
           <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
           <TabsTrigger value="email">Email</TabsTrigger>
+          <TabsTrigger value="inactivity">Inactivity</TabsTrigger>
+          <TabsTrigger value="streams">Streams</TabsTrigger>
+          <TabsTrigger value="dunning">Dunning</TabsTrigger>
           {isOwner && <TabsTrigger value="admins">Admins</TabsTrigger>}
         </TabsList>
 
@@ -434,7 +686,85 @@ export default function SettingsPage() {
           </Card>
         </TabsContent>
 
-        <TabsContent value="xtremeui">
+        <TabsContent value="jellyfin">
+          <Card>
+            <CardHeader>
+              <CardTitle>Jellyfin Configuration</CardTitle>
+              <CardDescription>
+                Connect your Jellyfin server to automatically create users
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="jellyfinUrl">Server URL</Label>
+                <Input
+                  id="jellyfinUrl"
+                  value={jellyfinUrl}
+                  onChange={(e) => setJellyfinUrl(e.target.value)}
+                  placeholder="http://localhost:8096"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="jellyfinApiKey">API Key</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="jellyfinApiKey"
+                    type={showJellyfinKey ? "text" : "password"}
+                    value={jellyfinApiKey}
+                    onChange={(e) => setJellyfinApiKey(e.target.value)}
+                    placeholder="Your Jellyfin API key"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setShowJellyfinKey(!showJellyfinKey)}
+                  >
+                    {showJellyfinKey ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Generate an API key in Jellyfin Dashboard → Advanced → API Keys
+                </p>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <Button onClick={handleSaveJellyfin} disabled={isSaving}>
+                  {isSaving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Save
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={testJellyfinConnection}
+                  disabled={!jellyfinUrl || !jellyfinApiKey || jellyfinStatus === "testing"}
+                >
+                  {jellyfinStatus === "testing" ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : jellyfinStatus === "success" ? (
+                    <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                  ) : jellyfinStatus === "error" ? (
+                    <XCircle className="mr-2 h-4 w-4 text-red-500" />
+                  ) : null}
+                  Test Connection
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="servers">
+          <ServerManager />
+        </TabsContent>
+
+        <TabsContent value="xtremeui" className="space-y-4">
           <Card>
             <CardHeader>
               <CardTitle>Xtreme UI Configuration</CardTitle>
@@ -531,6 +861,176 @@ export default function SettingsPage() {
                   <p className="text-sm text-muted-foreground">{xtremeUiHint}</p>
                 </div>
               ) : null}
+
+              {xtremeUiProfile ? (
+                <div className="space-y-1 rounded-md border p-3 text-sm">
+                  <p className="font-medium">API profile</p>
+                  <p className="text-muted-foreground">
+                    Key parameter: {xtremeUiProfile.keyParam ?? "none (token in URL)"} · create:{" "}
+                    {xtremeUiProfile.subs.create} · edit: {xtremeUiProfile.subs.edit} · renew:{" "}
+                    {xtremeUiProfile.subs.renew} · suspend: {xtremeUiProfile.subs.suspend} · info:{" "}
+                    {xtremeUiProfile.subs.info} · packages:{" "}
+                    {xtremeUiProfile.packages
+                      ? Object.values(xtremeUiProfile.packages).join(" ") || "base URL"
+                      : "not found"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Probed {new Date(xtremeUiProfile.probedAt).toLocaleString()} at {xtremeUiProfile.apiUrl}. Test
+                    Connection probes the panel again.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Test Connection probes the panel once and stores which API calls it supports.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>XUI.one Configuration</CardTitle>
+              <CardDescription>
+                Used by IPTV plans on an XUI.one panel
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="xuiOneUrl">Admin API URL</Label>
+                <Input
+                  id="xuiOneUrl"
+                  value={xuiOneUrl}
+                  onChange={(e) => setXuiOneUrl(e.target.value)}
+                  placeholder="https://your-panel.example/ACCESS_CODE/"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The panel URL including the admin access code.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="xuiOneStreamBaseUrl">Stream Base URL</Label>
+                <Input
+                  id="xuiOneStreamBaseUrl"
+                  value={xuiOneStreamBaseUrl}
+                  onChange={(e) => setXuiOneStreamBaseUrl(e.target.value)}
+                  placeholder="https://your-stream.example"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional. Defaults to the origin of the API URL.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="xuiOneApiKey">API Key</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="xuiOneApiKey"
+                    type={showXuiOneKey ? "text" : "password"}
+                    value={xuiOneApiKey}
+                    onChange={(e) => setXuiOneApiKey(e.target.value)}
+                    placeholder="Your XUI.one API key"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setShowXuiOneKey(!showXuiOneKey)}
+                  >
+                    {showXuiOneKey ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+
+              <Button onClick={handleSaveXuiOne} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Stalker / Ministra Configuration</CardTitle>
+              <CardDescription>
+                Used by IPTV plans on a Stalker portal; subscribers sign in with their set-top box MAC address
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="stalkerApiUrl">REST API URL</Label>
+                <Input
+                  id="stalkerApiUrl"
+                  value={stalkerApiUrl}
+                  onChange={(e) => setStalkerApiUrl(e.target.value)}
+                  placeholder="http://your-portal.example/stalker_portal/api/"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="stalkerPortalUrl">Portal URL</Label>
+                <Input
+                  id="stalkerPortalUrl"
+                  value={stalkerPortalUrl}
+                  onChange={(e) => setStalkerPortalUrl(e.target.value)}
+                  placeholder="http://your-portal.example/stalker_portal/c/"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional. Shown to subscribers for their set-top box; defaults to /stalker_portal/c/ on the API host.
+                </p>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="stalkerApiUser">API Login</Label>
+                  <Input
+                    id="stalkerApiUser"
+                    value={stalkerApiUser}
+                    onChange={(e) => setStalkerApiUser(e.target.value)}
+                    placeholder="api_auth_login"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="stalkerApiPassword">API Password</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="stalkerApiPassword"
+                      type={showStalkerPassword ? "text" : "password"}
+                      value={stalkerApiPassword}
+                      onChange={(e) => setStalkerApiPassword(e.target.value)}
+                      placeholder="api_auth_password"
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setShowStalkerPassword(!showStalkerPassword)}
+                    >
+                      {showStalkerPassword ? (
+                        <EyeOff className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              <Button onClick={handleSaveStalker} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -577,7 +1077,7 @@ export default function SettingsPage() {
                   </Button>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Used to sign webhook payloads for verification
+                  Used to sign webhook payloads (HMAC-SHA256 in the X-Webhook-Signature header)
                 </p>
               </div>
 
@@ -591,9 +1091,12 @@ export default function SettingsPage() {
               </Button>
             </CardContent>
           </Card>
+          <div className="mt-4">
+            <WebhookDeliveries />
+          </div>
         </TabsContent>
 
-        <TabsContent value="email">
+        <TabsContent value="email" className="space-y-4">
           <Card>
             <CardHeader>
               <CardTitle>SMTP Configuration</CardTitle>
@@ -735,6 +1238,297 @@ export default function SettingsPage() {
               </div>
             </CardContent>
           </Card>
+
+          <EmailTemplates />
+        </TabsContent>
+
+        <TabsContent value="inactivity">
+          <Card>
+            <CardHeader>
+              <CardTitle>Inactivity Pruning</CardTitle>
+              <CardDescription>
+                Free up seats held by people who no longer watch. Activity is read from every media server daily.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="inactivityEnabled"
+                  checked={inactivityEnabled}
+                  onChange={(e) => setInactivityEnabled(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="inactivityEnabled">Warn and revoke inactive users</Label>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="inactivityWarnDays">Warn after (days)</Label>
+                  <Input
+                    id="inactivityWarnDays"
+                    type="number"
+                    min={1}
+                    value={inactivityWarnDays}
+                    onChange={(e) => setInactivityWarnDays(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="inactivityRevokeDays">Revoke after (days)</Label>
+                  <Input
+                    id="inactivityRevokeDays"
+                    type="number"
+                    min={1}
+                    value={inactivityRevokeDays}
+                    onChange={(e) => setInactivityRevokeDays(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Users get an email when they pass the warning threshold. Their access is revoked at the second
+                threshold (at least a day after the warning) unless they watch something first.
+              </p>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="inactivityExemptFree"
+                  checked={inactivityExemptFree}
+                  onChange={(e) => setInactivityExemptFree(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="inactivityExemptFree">Exempt free users</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="inactivityExemptAdmins"
+                  checked={inactivityExemptAdmins}
+                  onChange={(e) => setInactivityExemptAdmins(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="inactivityExemptAdmins">Exempt admins</Label>
+              </div>
+
+              <Button onClick={handleSaveInactivity} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="streams">
+          <Card>
+            <CardHeader>
+              <CardTitle>Stream Limits</CardTitle>
+              <CardDescription>
+                Sessions on every media server are checked each minute against the user&apos;s plan limit (or their
+                override on the Users page). Users without a limit are never checked.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="streamLimitsEnabled"
+                  checked={streamLimitsEnabled}
+                  onChange={(e) => setStreamLimitsEnabled(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="streamLimitsEnabled">Enforce stream limits</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="streamLimitStopExtra"
+                  checked={streamLimitStopExtra}
+                  onChange={(e) => setStreamLimitStopExtra(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="streamLimitStopExtra">Stop streams over the limit (Plex requires Plex Pass)</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="streamLimitNotify"
+                  checked={streamLimitNotify}
+                  onChange={(e) => setStreamLimitNotify(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <Label htmlFor="streamLimitNotify">Email the user</Label>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="streamLimitSuspendAfter">Suspend after (offences)</Label>
+                  <Input
+                    id="streamLimitSuspendAfter"
+                    type="number"
+                    min={0}
+                    value={streamLimitSuspendAfter}
+                    onChange={(e) => setStreamLimitSuspendAfter(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="streamLimitWindowDays">Within (days)</Label>
+                  <Input
+                    id="streamLimitWindowDays"
+                    type="number"
+                    min={1}
+                    value={streamLimitWindowDays}
+                    onChange={(e) => setStreamLimitWindowDays(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Set offences to 0 to never suspend. Suspended users have their access revoked and can be restored
+                from the Users page.
+              </p>
+
+              <Button onClick={handleSaveStreamLimits} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="dunning">
+          <Card>
+            <CardHeader>
+              <CardTitle>Failed Payments</CardTitle>
+              <CardDescription>
+                When a subscription payment fails, email the user on this schedule and revoke their access at the
+                end of the grace period unless they pay.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="dunningReminderDays">Reminder emails (days after the failure)</Label>
+                <Input
+                  id="dunningReminderDays"
+                  value={dunningReminderDays}
+                  onChange={(e) => setDunningReminderDays(e.target.value)}
+                  placeholder="0, 3, 6"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="dunningGraceDays">Revoke after (days)</Label>
+                  <Input
+                    id="dunningGraceDays"
+                    type="number"
+                    min={1}
+                    value={dunningGraceDays}
+                    onChange={(e) => setDunningGraceDays(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dunningFinalNoticeDays">Final notice (days before)</Label>
+                  <Input
+                    id="dunningFinalNoticeDays"
+                    type="number"
+                    min={0}
+                    value={dunningFinalNoticeDays}
+                    onChange={(e) => setDunningFinalNoticeDays(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Every email links to the Stripe billing portal. Reminders that would land on or after the final
+                notice are skipped; set the final notice to 0 to send none. Stripe&apos;s own retries don&apos;t
+                restart the schedule, and a new schedule applies to payments that fail after you save.
+              </p>
+
+              <Button onClick={handleSaveDunning} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle>Refunds, Disputes and Pauses</CardTitle>
+              <CardDescription>
+                What happens to a user&apos;s Plex, Emby, Jellyfin and IPTV access when Stripe reports one of these.
+                Every one is recorded in the user&apos;s payment history either way.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Refunded charge</Label>
+                  <Select value={refundPolicy} onValueChange={setRefundPolicy}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="revoke">Revoke access</SelectItem>
+                      <SelectItem value="review">Flag for review</SelectItem>
+                      <SelectItem value="none">Do nothing</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Disputed charge</Label>
+                  <Select value={disputePolicy} onValueChange={setDisputePolicy}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="revoke">Revoke access</SelectItem>
+                      <SelectItem value="review">Flag for review</SelectItem>
+                      <SelectItem value="none">Do nothing</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Paused subscription</Label>
+                  <Select value={pausedPolicy} onValueChange={setPausedPolicy}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="revoke">Revoke access</SelectItem>
+                      <SelectItem value="review">Flag for review</SelectItem>
+                      <SelectItem value="none">Do nothing</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Revoking happens right away. Flagged users are marked on the Users page until you clear the flag.
+                Users with free access are never affected.
+              </p>
+
+              <Button onClick={handleSaveReversalPolicies} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save
+              </Button>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Admins Tab - Only visible to owners */}
@@ -813,7 +1607,6 @@ export default function SettingsPage() {
                                 email: newAdminEmail,
                                 name: newAdminName || newAdminEmail,
                                 role: "admin",
-                                addedBy: user.id,
                               });
                               setAddAdminOpen(false);
                               setNewAdminClerkId("");
@@ -908,7 +1701,6 @@ export default function SettingsPage() {
                                       try {
                                         await removeAdmin({
                                           adminId: admin._id,
-                                          removedBy: user.id,
                                         });
                                         setAdminToDelete(null);
                                       } catch (error) {
@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Download, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateTime } from "@/lib/utils";
+
+const STATUS_VARIANTS = {
+  processing: "secondary",
+  processed: "success",
+  failed: "destructive",
+} as const;
+
+const SOURCE_LABELS = {
+  convex: "Convex webhook",
+  next: "Next.js webhook",
+  replay: "Replay",
+  backfill: "Fetched from Stripe",
+} as const;
+
+function dayStart(value: string): number | undefined {
+  return value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+}
+
+function dayEnd(value: string): number | undefined {
+  return value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+}
+
+export default function StripeEventsPage() {
+  const [view, setView] = useState<"all" | "failed">("all");
+  const [type, setType] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [detailId, setDetailId] = useState<Id<"stripeEvents"> | null>(null);
+  const [replaying, setReplaying] = useState<Id<"stripeEvents"> | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  const events = useQuery(api.stripeEvents.list, {
+    status: view === "failed" ? "failed" : undefined,
+    type: type.trim() || undefined,
+    limit: 200,
+  });
+  const failedCount = useQuery(api.stripeEvents.getFailedCount);
+  const detail = useQuery(api.stripeEvents.get, detailId ? { id: detailId } : "skip");
+  const replay = useMutation(api.stripeEvents.replay);
+  const fetchRange = useMutation(api.stripeEvents.fetchRange);
+
+  const handleReplay = async (id: Id<"stripeEvents">, status: string) => {
+    if (status === "processed" && !confirm("This event was already processed. Handle it again?")) return;
+
+    setReplaying(id);
+    try {
+      await replay({ id });
+      toast.success("Replay started");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to replay event");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleFetch = async () => {
+    const start = dayStart(from);
+    const end = dayEnd(to) ?? Date.now();
+    if (!start) {
+      toast.error("Pick the first day to fetch");
+      return;
+    }
+
+    setIsFetching(true);
+    try {
+      await fetchRange({ from: start, to: Math.min(end, Date.now()) });
+      toast.success("Fetching events from Stripe. Missed ones appear here as they're handled.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to fetch events");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Stripe Events</h1>
+        <p className="text-muted-foreground">
+          Every verified Stripe webhook event and how it was handled
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fetch From Stripe</CardTitle>
+          <CardDescription>
+            Ask Stripe for the events it sent in a date range and handle any that were missed or failed. Events
+            already processed are skipped. Stripe keeps events for 30 days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Button onClick={handleFetch} disabled={isFetching || !from}>
+              {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Fetch and Replay
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs value={view} onValueChange={(v) => setView(v as "all" | "failed")}>
+        <TabsList>
+          <TabsTrigger value="all">All Events</TabsTrigger>
+          <TabsTrigger value="failed">Failed{failedCount ? ` (${failedCount})` : ""}</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{view === "failed" ? "Failed Events" : "All Events"}</CardTitle>
+          <CardDescription>
+            {view === "failed"
+              ? "Events whose last attempt threw. Stripe retries them on its own for a few days; replay them once the cause is fixed."
+              : `${events?.length ?? 0} most recent events`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-sm space-y-2">
+            <Label htmlFor="type">Type</Label>
+            <Input
+              id="type"
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+              placeholder="invoice.paid"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(events ?? []).map((event) => (
+                <TableRow key={event._id} className="cursor-pointer" onClick={() => setDetailId(event._id)}>
+                  <TableCell className="font-mono text-xs">{event.type}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{event.eventId}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[event.status]}>{event.status}</Badge>
+                  </TableCell>
+                  <TableCell>{event.attempts}</TableCell>
+                  <TableCell>
+                    {event.error && (
+                      <p className="max-w-[320px] truncate text-xs text-muted-foreground" title={event.error}>
+                        {event.error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{formatDateTime(event.receivedAt)}</TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReplay(event._id, event.status)}
+                      disabled={replaying === event._id || event.status === "processing"}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Replay
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {(!events || events.length === 0) && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {events ? "No events found" : "Loading..."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!detailId} onOpenChange={(v) => !v && setDetailId(null)}>
+        <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-base">{detail?.type ?? "Event"}</DialogTitle>
+            <DialogDescription>
+              {detail
+                ? `${detail.eventId} · ${detail.status} · ${detail.attempts} attempt${detail.attempts === 1 ? "" : "s"}`
+                : "Loading..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {detail && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p>
+                  <span className="text-muted-foreground">Sent by Stripe:</span> {formatDateTime(detail.stripeCreatedAt)}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Received:</span> {formatDateTime(detail.receivedAt)}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Last handled by:</span> {SOURCE_LABELS[detail.source]}
+                </p>
+                {detail.processedAt && (
+                  <p>
+                    <span className="text-muted-foreground">Processed:</span> {formatDateTime(detail.processedAt)}
+                  </p>
+                )}
+              </div>
+              {detail.error && <p className="text-sm text-destructive">{detail.error}</p>}
+
+              <div className="space-y-2">
+                <Label>Payload</Label>
+                <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(detail.payload, null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
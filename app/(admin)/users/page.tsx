@@ -30,9 +30,11 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { MoreHorizontal, Ban, RefreshCw, Trash2, Search, Loader2, Users, Server, Shield, UserX, DollarSign, Gift } from "lucide-react";
+import { MoreHorizontal, Ban, RefreshCw, Trash2, Search, Loader2, Users, Server, Shield, UserX, DollarSign, Gift, MonitorPlay, Receipt, CheckCircle } from "lucide-react";
 import { formatDateTime, timeAgo } from "@/lib/utils";
 import { Id } from "@/convex/_generated/dataModel";
+import { StreamViolations } from "@/components/stream-violations";
+import { PaymentReversalsDialog } from "@/components/payment-reversals-dialog";
 
 interface EmbyUser {
   id: string;
@@ -44,6 +46,10 @@ interface EmbyUser {
   hasPassword: boolean;
 }
 
+function plural(count: number, noun: string): string | null {
+  return count ? `${count} ${noun}${count === 1 ? "" : "s"}` : null;
+}
+
 export default function UsersPage() {
   const { user: adminUser } = useUser();
   const [searchQuery, setSearchQuery] = useState("");
@@ -56,14 +62,18 @@ export default function UsersPage() {
     api.users.search,
     searchQuery.length >= 2 ? { query: searchQuery } : "skip"
   );
-  const iptvPlans = useQuery(api.iptv.listPlans, { provider: "xtremeui" });
+  const iptvPlans = useQuery(api.iptv.listPlans, {});
   const revoke = useMutation(api.users.revoke);
   const restore = useMutation(api.users.restore);
   const remove = useMutation(api.users.remove);
   const markUserAsFree = useMutation(api.payments.markUserAsFree);
   const adminSetIptvPlan = useMutation(api.iptv.adminSetPlanForUser);
+  const setStreamLimit = useMutation(api.streams.setUserLimit);
+  const reversals = useQuery(api.reversals.summaries, {});
+  const clearReview = useMutation(api.reversals.clearReview);
 
   const [iptvSelections, setIptvSelections] = useState<Record<string, string>>({});
+  const [reversalsUser, setReversalsUser] = useState<{ _id: Id<"users">; username: string; email: string } | null>(null);
 
   const displayedUsers = searchQuery.length >= 2 ? searchResults : users;
 
@@ -93,13 +103,13 @@ export default function UsersPage() {
   const handleRevoke = async (id: Id<"users">) => {
     if (!adminUser) return;
     if (confirm("Are you sure you want to revoke this user's access?")) {
-      await revoke({ id, adminId: adminUser.id });
+      await revoke({ id });
     }
   };
 
   const handleRestore = async (id: Id<"users">) => {
     if (!adminUser) return;
-    await restore({ id, adminId: adminUser.id });
+    await restore({ id });
   };
 
   const handleDelete = async (id: Id<"users">) => {
@@ -109,7 +119,24 @@ export default function UsersPage() {
         "Are you sure you want to permanently delete this user? This cannot be undone."
       )
     ) {
-      await remove({ id, adminId: adminUser.id });
+      await remove({ id });
+    }
+  };
+
+  const handleSetStreamLimit = async (id: Id<"users">, current?: number) => {
+    if (!adminUser) return;
+    const value = prompt(
+      "Max concurrent streams for this user (leave blank to use their plan's limit):",
+      current?.toString() ?? ""
+    );
+    if (value === null) return;
+    try {
+      await setStreamLimit({
+        userId: id,
+        maxStreams: value.trim() ? parseInt(value, 10) : undefined,
+      });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to set stream limit");
     }
   };
 
@@ -213,6 +240,28 @@ export default function UsersPage() {
                         ) : (
                           <Badge variant="destructive">Unpaid</Badge>
                         )}
+                        {user.paymentReview && (
+                          <div className="mt-1">
+                            <Badge variant="warning" title={user.paymentReview.reason}>
+                              Review
+                            </Badge>
+                          </div>
+                        )}
+                        {reversals?.[user._id] && (
+                          <button
+                            type="button"
+                            className="mt-1 block text-xs text-muted-foreground underline-offset-2 hover:underline"
+                            onClick={() => setReversalsUser(user)}
+                          >
+                            {[
+                              plural(reversals[user._id].refund, "refund"),
+                              plural(reversals[user._id].dispute, "dispute"),
+                              plural(reversals[user._id].pause, "pause"),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </button>
+                        )}
                       </TableCell>
                       <TableCell>
                         <code className="text-xs font-mono">{user.inviteCode}</code>
@@ -259,7 +308,6 @@ export default function UsersPage() {
                               if (!planId) return;
                               try {
                                 await adminSetIptvPlan({
-                                  adminClerkId: adminUser.id,
                                   userId: user._id,
                                   planId: planId as any,
                                 });
@@ -295,6 +343,22 @@ export default function UsersPage() {
                                 Restore Access
                               </DropdownMenuItem>
                             )}
+                            <DropdownMenuItem
+                              onClick={() => handleSetStreamLimit(user._id, user.maxStreams)}
+                            >
+                              <MonitorPlay className="mr-2 h-4 w-4" />
+                              Stream Limit{user.maxStreams ? ` (${user.maxStreams})` : ""}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setReversalsUser(user)}>
+                              <Receipt className="mr-2 h-4 w-4" />
+                              Refunds and Disputes
+                            </DropdownMenuItem>
+                            {user.paymentReview && (
+                              <DropdownMenuItem onClick={() => clearReview({ userId: user._id })}>
+                                <CheckCircle className="mr-2 h-4 w-4" />
+                                Clear Review Flag
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
                             {user.paymentStatus !== "free" && (
                               <DropdownMenuItem
@@ -302,7 +366,6 @@ export default function UsersPage() {
                                   if (!adminUser?.id) return;
                                   await markUserAsFree({
                                     userId: user._id,
-                                    adminClerkId: adminUser.id,
                                   });
                                 }}
                               >
@@ -345,6 +408,10 @@ export default function UsersPage() {
               </Table>
             </CardContent>
           </Card>
+          <div className="mt-4">
+            <StreamViolations />
+          </div>
+          <PaymentReversalsDialog user={reversalsUser} onOpenChange={(open) => !open && setReversalsUser(null)} />
         </TabsContent>
 
         <TabsContent value="emby">
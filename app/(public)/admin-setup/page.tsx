@@ -15,15 +15,15 @@ export default function AdminSetupPage() {
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const adminList = useQuery(api.admins.list);
+  const hasAdmins = useQuery(api.admins.hasAny);
   const initializeOwner = useMutation(api.admins.initializeOwner);
 
   // If there are already admins, redirect
   useEffect(() => {
-    if (adminList && adminList.length > 0) {
+    if (hasAdmins) {
       router.push("/");
     }
-  }, [adminList, router]);
+  }, [hasAdmins, router]);
 
   const handleBecomeOwner = async () => {
     if (!user) return;
@@ -32,13 +32,7 @@ export default function AdminSetupPage() {
     setError(null);
 
     try {
-      await initializeOwner({
-        clerkId: user.id,
-        email: user.emailAddresses[0]?.emailAddress || "",
-        name: user.firstName
-          ? `${user.firstName} ${user.lastName || ""}`.trim()
-          : user.emailAddresses[0]?.emailAddress || "Owner",
-      });
+      await initializeOwner({});
 
       // Redirect to dashboard after successful initialization
       router.push("/dashboard");
@@ -50,7 +44,7 @@ export default function AdminSetupPage() {
     }
   };
 
-  if (!isLoaded || adminList === undefined) {
+  if (!isLoaded || hasAdmins === undefined) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+/**
+ * Tracking pixel in invite emails. Records the first open of the email and
+ * always answers with the image, so mail clients never show a broken one.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const token = req.nextUrl.searchParams.get("t");
+
+  if (token) {
+    try {
+      await convex.mutation(api.invites.recordEmailEvent, {
+        internalKey: INTERNAL_API_KEY,
+        code,
+        token,
+        event: "opened",
+      });
+    } catch (error) {
+      console.error("Failed to record invite email open:", error);
+    }
+  }
+
+  return new NextResponse(PIXEL, {
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store, max-age=0",
+    },
+  });
+}
@@ -1,22 +1,50 @@
+import { redirect } from "next/navigation";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
 import { InviteForm } from "@/components/invite-form";
 
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
 interface InvitePageProps {
-  params: {
+  params: Promise<{
     code: string;
-  };
+  }>;
+  searchParams: Promise<{
+    t?: string;
+  }>;
 }
 
-export default function InvitePage({ params }: InvitePageProps) {
+export default async function InvitePage({ params, searchParams }: InvitePageProps) {
+  const { code } = await params;
+  const { t: token } = await searchParams;
+
+  // Click-through from the invite email: record it, then drop the token from the URL
+  if (token) {
+    try {
+      await convex.mutation(api.invites.recordEmailEvent, {
+        internalKey: INTERNAL_API_KEY,
+        code,
+        token,
+        event: "clicked",
+      });
+    } catch (error) {
+      console.error("Failed to record invite email click:", error);
+    }
+    redirect(`/invite/${encodeURIComponent(code)}`);
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-muted p-4">
-      <InviteForm code={params.code} />
+      <InviteForm code={code} />
     </div>
   );
 }
 
-export function generateMetadata({ params }: InvitePageProps) {
+export async function generateMetadata({ params }: InvitePageProps) {
+  const { code } = await params;
   return {
-    title: `Invite ${params.code} | Media Invite`,
+    title: `Invite ${code} | Media Invite`,
     description: "You've been invited to join our media server.",
   };
 }
@@ -43,6 +43,17 @@ export default function SuccessPage({ searchParams }: SuccessPageProps) {
           ],
           downloadUrl: "https://emby.media/download.html",
         };
+      case "jellyfin":
+        return {
+          title: "Jellyfin",
+          steps: [
+            "Download the Jellyfin app for your device",
+            "Add a new server connection",
+            "Use the server address provided by the admin",
+            "Sign in with your credentials",
+          ],
+          downloadUrl: "https://jellyfin.org/downloads/",
+        };
       case "both":
         return {
           title: "Plex & Emby",
@@ -269,6 +269,32 @@ export default function MyAccountPage() {
                     </div>
                   </div>
                 )}
+                {(userData.serverAccess === "jellyfin" || userData.jellyfinUserId) && (
+                  <div className="p-4 rounded-lg border bg-muted/50">
+                    <h4 className="font-semibold mb-2 flex items-center gap-2">
+                      Jellyfin
+                      {userData.jellyfinUserId && <Badge variant="success" className="text-xs">Connected</Badge>}
+                    </h4>
+                    <div className="space-y-2 text-sm">
+                      {userData.jellyfinUserId ? (
+                        <>
+                          {userData.jellyfinUsername && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">Username</span>
+                              <span className="font-mono">{userData.jellyfinUsername}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">User ID</span>
+                            <span className="font-mono">{userData.jellyfinUserId.slice(0, 8)}...</span>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="text-muted-foreground">Not connected yet</p>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
               
               {/* Re-link button for users who want to refresh their linked accounts */}
@@ -70,8 +70,6 @@ export default function MyFriendCodesPage() {
 
     try {
       const result = await generateCode({
-        clerkId: clerkUser.id,
-        email: clerkUser.emailAddresses[0]?.emailAddress || "",
         maxUses: parseInt(maxUses),
         expiresInDays: expiresIn === "never" ? undefined : parseInt(expiresIn),
       });
@@ -95,7 +93,7 @@ export default function MyFriendCodesPage() {
 
   const handleDeactivate = async (codeId: any) => {
     if (!clerkUser) return;
-    await deactivateCode({ codeId, clerkId: clerkUser.id });
+    await deactivateCode({ codeId });
   };
 
   if (!isLoaded) {
@@ -1,6 +1,6 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useUser } from "@clerk/nextjs";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -10,7 +10,45 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { PaymentRequired } from "@/components/payment-required";
-import { Loader2, RefreshCw, KeyRound, Copy, Tv, ArrowUpDown } from "lucide-react";
+import { IptvChannelList } from "@/components/iptv-channel-list";
+import type { IptvBrowsableChannel, IptvChannelCategory } from "@/lib/iptv";
+import {
+  Loader2,
+  RefreshCw,
+  KeyRound,
+  Copy,
+  Tv,
+  ArrowUpDown,
+  Link2,
+  Ban,
+  AlertTriangle,
+  CreditCard,
+  CalendarClock,
+  ListVideo,
+} from "lucide-react";
+
+interface LineStatusResponse {
+  supported: boolean;
+  liveStatus?: {
+    status?: string;
+    expiresAt?: number;
+    isTrial: boolean;
+    activeConnections?: number;
+    maxConnections?: number;
+    allowedOutputFormats: string[];
+    serverTimezone?: string;
+    serverTime?: string;
+  };
+  checkedAt?: number;
+  storedExpiresAt?: number | null;
+  expiryMismatch?: boolean;
+}
+
+interface ChannelsResponse {
+  supported: boolean;
+  categories?: IptvChannelCategory[];
+  channels?: IptvBrowsableChannel[];
+}
 
 function statusBadge(status?: string) {
   if (!status) return <Badge variant="secondary">Not set</Badge>;
@@ -27,26 +65,120 @@ export default function MyIptvPage() {
   const payment = useQuery(api.payments.getPaymentStatus, clerkId ? { clerkId } : "skip");
   const configStatus = useQuery(api.iptv.getConfigStatus);
   const account = useQuery(api.iptv.getMyAccount, clerkId ? { clerkId } : "skip");
-  const plans = useQuery(api.iptv.listPlans, { provider: "xtremeui" });
+  const plans = useQuery(api.iptv.listPlans, {});
   const jobs = useQuery(api.jobs.listMyJobs, clerkId ? { clerkId, limit: 20 } : "skip");
+  const playlist = useQuery(api.playlists.getMyPlaylistToken, clerkId ? { clerkId } : "skip");
+  const renewal = useQuery(api.iptv.getMyRenewal, clerkId ? { clerkId } : "skip");
+  const favorites = useQuery(api.iptvChannels.getMyFavorites, clerkId ? { clerkId } : "skip");
 
   const requestProvision = useMutation(api.iptv.requestProvision);
   const requestSync = useMutation(api.iptv.requestSync);
   const requestChangePassword = useMutation(api.iptv.requestChangePassword);
   const requestChangePlan = useMutation(api.iptv.requestChangePlan);
+  const createPlaylistToken = useMutation(api.playlists.createMyPlaylistToken);
+  const revokePlaylistToken = useMutation(api.playlists.revokeMyPlaylistToken);
+  const toggleFavorite = useMutation(api.iptvChannels.toggleMyFavorite);
 
   const [isWorking, setIsWorking] = useState(false);
   const [desiredUsername, setDesiredUsername] = useState<string>("");
   const [newPassword, setNewPassword] = useState<string>("");
   const [selectedPlanId, setSelectedPlanId] = useState<string>("");
+  const [macAddress, setMacAddress] = useState<string>("");
+  const [lineStatus, setLineStatus] = useState<LineStatusResponse | null>(null);
+  const [lineStatusLoading, setLineStatusLoading] = useState(false);
+  const [lineStatusError, setLineStatusError] = useState<string>("");
+  const [buyPlanId, setBuyPlanId] = useState<string>("");
+  const [buyMacAddress, setBuyMacAddress] = useState<string>("");
+  const [isBuying, setIsBuying] = useState(false);
+  const [buyMessage, setBuyMessage] = useState<string>("");
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [channels, setChannels] = useState<ChannelsResponse | null>(null);
+  const [channelsLoading, setChannelsLoading] = useState(false);
+  const [channelsError, setChannelsError] = useState<string>("");
+
+  // Stalker plans are for set-top boxes, identified by their MAC address
+  const needsMac = (plans || []).some((p: any) => p._id === selectedPlanId && p.provider === "stalker");
 
   const isPaid = useMemo(() => {
     const s = payment?.paymentStatus;
     return s === "active" || s === "trialing" || s === "free";
   }, [payment?.paymentStatus]);
 
+  // Lines bought with an IPTV plan's own price don't depend on the media subscription
+  const billedSeparately = !!account?.stripeSubscriptionId;
+  const canManage = isPaid || billedSeparately;
+
+  const hasMediaSubscription =
+    !!payment?.stripeSubscriptionId && (payment.paymentStatus === "active" || payment.paymentStatus === "trialing");
+
+  // Plans with their own Stripe price, on the same panel as an existing line
+  const purchasablePlans = (plans || []).filter(
+    (p: any) => p.stripePriceId && (!account || account.status === "pending" || p.provider === account.provider)
+  );
+  const buyPlan = purchasablePlans.find((p: any) => p._id === buyPlanId);
+  const buyNeedsMac = buyPlan?.provider === "stalker" && !account?.macAddress;
+
   const isIptvConfigured = configStatus?.configured !== false;
 
+  const showLineStatus = !!account && account.provider !== "stalker" && account.status !== "pending";
+
+  const loadLineStatus = useCallback(async (refresh = false) => {
+    setLineStatusLoading(true);
+    setLineStatusError("");
+    try {
+      const res = await fetch(`/api/iptv/status${refresh ? "?refresh=1" : ""}`, { method: "GET" });
+      const data = await res.json();
+      if (!res.ok || !data?.success) {
+        throw new Error(data?.error || "Failed to load line status");
+      }
+      setLineStatus(data);
+    } catch (e) {
+      setLineStatusError(e instanceof Error ? e.message : "Failed to load line status");
+    } finally {
+      setLineStatusLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (showLineStatus) loadLineStatus();
+  }, [showLineStatus, loadLineStatus]);
+
+  // Same lines as the playlist link: only active Xtream-style lines have a channel list
+  const showChannels = !!account && account.provider !== "stalker" && account.status === "active";
+
+  const favoriteIds = useMemo(() => new Set((favorites || []).map((f) => f.streamId)), [favorites]);
+
+  // Panels can list thousands of channels, so they're only fetched on request
+  const loadChannels = async () => {
+    setChannelsLoading(true);
+    setChannelsError("");
+    try {
+      const res = await fetch("/api/iptv/channels", { method: "GET" });
+      const data = await res.json();
+      if (!res.ok || !data?.success) {
+        throw new Error(data?.error || "Failed to load channels");
+      }
+      setChannels(data);
+    } catch (e) {
+      setChannelsError(e instanceof Error ? e.message : "Failed to load channels");
+    } finally {
+      setChannelsLoading(false);
+    }
+  };
+
+  const handleToggleFavorite = async (channel: IptvBrowsableChannel) => {
+    try {
+      await toggleFavorite({ streamId: channel.streamId, name: channel.name });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to update favorites");
+    }
+  };
+
+  const playlistUrl =
+    playlist?.token && typeof window !== "undefined"
+      ? `${window.location.origin}/api/iptv/playlist/${playlist.token}`
+      : "";
+
   const handleCopy = async (text?: string) => {
     if (!text) return;
     try {
@@ -61,9 +193,9 @@ export default function MyIptvPage() {
     setIsWorking(true);
     try {
       await requestProvision({
-        clerkId,
         desiredUsername: desiredUsername.trim() || undefined,
         planId: selectedPlanId ? (selectedPlanId as any) : undefined,
+        macAddress: needsMac ? macAddress.trim() : undefined,
       });
     } catch (e) {
       alert(e instanceof Error ? e.message : "Failed to provision IPTV");
@@ -76,7 +208,7 @@ export default function MyIptvPage() {
     if (!clerkId) return;
     setIsWorking(true);
     try {
-      await requestSync({ clerkId });
+      await requestSync({});
     } catch (e) {
       alert(e instanceof Error ? e.message : "Failed to sync IPTV");
     } finally {
@@ -88,7 +220,7 @@ export default function MyIptvPage() {
     if (!clerkId) return;
     setIsWorking(true);
     try {
-      await requestChangePassword({ clerkId, newPassword });
+      await requestChangePassword({ newPassword });
       setNewPassword("");
     } catch (e) {
       alert(e instanceof Error ? e.message : "Failed to change password");
@@ -101,7 +233,7 @@ export default function MyIptvPage() {
     if (!clerkId || !selectedPlanId) return;
     setIsWorking(true);
     try {
-      await requestChangePlan({ clerkId, planId: selectedPlanId as any });
+      await requestChangePlan({ planId: selectedPlanId as any });
     } catch (e) {
       alert(e instanceof Error ? e.message : "Failed to change plan");
     } finally {
@@ -109,6 +241,82 @@ export default function MyIptvPage() {
     }
   };
 
+  const handleBuyPlan = async (addOn: boolean) => {
+    if (!user || !buyPlan) return;
+    setIsBuying(true);
+    setBuyMessage("");
+    try {
+      const res = await fetch("/api/stripe/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          iptvPlanId: buyPlan._id,
+          addOn,
+          macAddress: buyNeedsMac ? buyMacAddress.trim() : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to start checkout");
+
+      if (data.url) {
+        window.location.href = data.url;
+      } else if (data.updated) {
+        setBuyMessage("Your subscription was updated. Your line switches to the new plan once Stripe confirms it.");
+      }
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to start checkout");
+    } finally {
+      setIsBuying(false);
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!user) return;
+    setIsRenewing(true);
+    try {
+      const res = await fetch("/api/stripe/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          iptvRenewal: true,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to start checkout");
+      if (data.url) window.location.href = data.url;
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to start checkout");
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  const handleCreatePlaylistLink = async () => {
+    if (!clerkId) return;
+    if (playlist && !confirm("Make a new playlist link? The current link stops working.")) return;
+    setIsWorking(true);
+    try {
+      await createPlaylistToken({});
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to create playlist link");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRevokePlaylistLink = async () => {
+    if (!clerkId) return;
+    if (!confirm("Revoke your playlist link? Players using it stop working.")) return;
+    setIsWorking(true);
+    try {
+      await revokePlaylistToken({});
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to revoke playlist link");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
   if (!user) {
     return (
       <div className="space-y-6">
@@ -132,7 +340,7 @@ export default function MyIptvPage() {
         <Button
           variant="outline"
           onClick={handleSync}
-          disabled={isWorking || !isPaid || !account || !isIptvConfigured}
+          disabled={isWorking || !canManage || !account || !isIptvConfigured}
         >
           {isWorking ? (
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -150,7 +358,7 @@ export default function MyIptvPage() {
           <CardHeader>
             <CardTitle className="text-lg">IPTV Not Configured</CardTitle>
             <CardDescription>
-              An admin still needs to configure Xtreme UI in Settings before provisioning can work.
+              An admin still needs to configure an IPTV panel in Settings before provisioning can work.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -206,7 +414,23 @@ export default function MyIptvPage() {
                 </select>
               </div>
 
-              <Button onClick={handleProvision} disabled={!isPaid || !isIptvConfigured || isWorking}>
+              {needsMac && (
+                <div className="space-y-2">
+                  <Label htmlFor="macAddress">Set-top box MAC address</Label>
+                  <Input
+                    id="macAddress"
+                    value={macAddress}
+                    onChange={(e) => setMacAddress(e.target.value)}
+                    placeholder="00:1A:79:XX:XX:XX"
+                    disabled={!isPaid}
+                  />
+                </div>
+              )}
+
+              <Button
+                onClick={handleProvision}
+                disabled={!isPaid || !isIptvConfigured || isWorking || (needsMac && !macAddress.trim())}
+              >
                 {isWorking ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 ) : (
@@ -229,45 +453,90 @@ export default function MyIptvPage() {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label>M3U URL</Label>
-                <div className="flex gap-2">
-                  <Input value={account.m3uUrl || ""} readOnly placeholder="Not generated yet" />
-                  <Button variant="outline" size="icon" onClick={() => handleCopy(account.m3uUrl)} disabled={!account.m3uUrl}>
-                    <Copy className="h-4 w-4" />
-                  </Button>
+              {account.provider === "stalker" ? (
+                <>
+                  <div className="space-y-2">
+                    <Label>Portal URL</Label>
+                    <div className="flex gap-2">
+                      <Input value={account.portalUrl || ""} readOnly placeholder="Not configured yet" />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => handleCopy(account.portalUrl || undefined)}
+                        disabled={!account.portalUrl}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>MAC Address</Label>
+                    <Input value={account.macAddress || ""} readOnly />
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Playlist URL</Label>
+                  {playlistUrl ? (
+                    <div className="flex gap-2">
+                      <Input value={playlistUrl} readOnly />
+                      <Button variant="outline" size="icon" onClick={() => handleCopy(playlistUrl)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={handleCreatePlaylistLink}
+                      disabled={isWorking || account.status !== "active"}
+                    >
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Create playlist link
+                    </Button>
+                  )}
                 </div>
-              </div>
+              )}
 
-              <div className="space-y-2 md:col-span-2">
-                <Label>Upgrade / Downgrade</Label>
-                <div className="flex flex-col gap-2 md:flex-row">
-                  <select
-                    className="w-full rounded-md border bg-background px-3 py-2 text-sm"
-                    value={selectedPlanId || (account.planId || "")}
-                    onChange={(e) => setSelectedPlanId(e.target.value)}
-                    disabled={!isPaid || !isIptvConfigured}
-                  >
-                    <option value="">No plan</option>
-                    {(plans || []).map((p: any) => (
-                      <option key={p._id} value={p._id}>
-                        {p.name}
-                      </option>
-                    ))}
-                  </select>
-                  <Button
-                    onClick={handleChangePlan}
-                    disabled={!isPaid || !isIptvConfigured || isWorking || !selectedPlanId}
-                  >
-                    {isWorking ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <ArrowUpDown className="mr-2 h-4 w-4" />
-                    )}
-                    Change Plan
-                  </Button>
+              {billedSeparately ? (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Plan</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {account.plan?.name || "Your plan"} is billed on its own price. Switch plans under Buy IPTV below.
+                  </p>
                 </div>
-              </div>
+              ) : (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Upgrade / Downgrade</Label>
+                  <div className="flex flex-col gap-2 md:flex-row">
+                    <select
+                      className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                      value={selectedPlanId || (account.planId || "")}
+                      onChange={(e) => setSelectedPlanId(e.target.value)}
+                      disabled={!isPaid || !isIptvConfigured}
+                    >
+                      <option value="">No plan</option>
+                      {(plans || []).filter((p: any) => p.provider === account.provider).map((p: any) => (
+                        <option key={p._id} value={p._id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      onClick={handleChangePlan}
+                      disabled={!isPaid || !isIptvConfigured || isWorking || !selectedPlanId}
+                    >
+                      {isWorking ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <ArrowUpDown className="mr-2 h-4 w-4" />
+                      )}
+                      Change Plan
+                    </Button>
+                  </div>
+                </div>
+              )}
 
               <div className="space-y-2 md:col-span-2">
                 <Label htmlFor="newPassword">Change password</Label>
@@ -277,12 +546,12 @@ export default function MyIptvPage() {
                     value={newPassword}
                     onChange={(e) => setNewPassword(e.target.value)}
                     placeholder="New password (min 8 chars)"
-                    disabled={!isPaid || !isIptvConfigured}
+                    disabled={!canManage || !isIptvConfigured}
                     type="password"
                   />
                   <Button
                     onClick={handleChangePassword}
-                    disabled={!isPaid || !isIptvConfigured || isWorking || newPassword.length < 8}
+                    disabled={!canManage || !isIptvConfigured || isWorking || newPassword.length < 8}
                   >
                     {isWorking ? (
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -298,6 +567,279 @@ export default function MyIptvPage() {
         </CardContent>
       </Card>
 
+      {renewal?.available && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Renew IPTV
+            </CardTitle>
+            <CardDescription>
+              {renewal.expiresAt
+                ? `Your line ${renewal.expiresAt < Date.now() ? "expired" : "expires"} on ${new Date(renewal.expiresAt).toLocaleDateString()}.`
+                : "Your line has no expiry date yet."}{" "}
+              Renewing adds {renewal.durationDays} days, until {new Date(renewal.renewedUntil).toLocaleDateString()}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={handleRenew} disabled={isRenewing || !isIptvConfigured}>
+              {isRenewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CreditCard className="mr-2 h-4 w-4" />}
+              Renew for {renewal.durationDays} days
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {purchasablePlans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CreditCard className="h-5 w-5" />
+              Buy IPTV
+            </CardTitle>
+            <CardDescription>
+              {billedSeparately
+                ? "Switch your IPTV plan. The price difference is prorated on your next invoice."
+                : "Subscribe to an IPTV plan on its own, or add it to your current subscription."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="buyPlan">IPTV plan</Label>
+              <select
+                id="buyPlan"
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                value={buyPlanId}
+                onChange={(e) => setBuyPlanId(e.target.value)}
+                disabled={!isIptvConfigured || isBuying}
+              >
+                <option value="">Choose a plan</option>
+                {purchasablePlans.map((p: any) => (
+                  <option key={p._id} value={p._id} disabled={billedSeparately && p._id === account?.planId}>
+                    {p.name}
+                    {p.description ? ` — ${p.description}` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {buyNeedsMac && (
+              <div className="space-y-2">
+                <Label htmlFor="buyMacAddress">Set-top box MAC address</Label>
+                <Input
+                  id="buyMacAddress"
+                  value={buyMacAddress}
+                  onChange={(e) => setBuyMacAddress(e.target.value)}
+                  placeholder="00:1A:79:XX:XX:XX"
+                />
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Button
+                onClick={() => handleBuyPlan(false)}
+                disabled={!buyPlan || !isIptvConfigured || isBuying || (buyNeedsMac && !buyMacAddress.trim())}
+              >
+                {isBuying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CreditCard className="mr-2 h-4 w-4" />}
+                {billedSeparately ? "Switch Plan" : "Subscribe"}
+              </Button>
+              {!billedSeparately && hasMediaSubscription && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleBuyPlan(true)}
+                  disabled={!buyPlan || !isIptvConfigured || isBuying || (buyNeedsMac && !buyMacAddress.trim())}
+                >
+                  Add to my subscription
+                </Button>
+              )}
+            </div>
+
+            {buyMessage && <p className="text-sm text-muted-foreground">{buyMessage}</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      {showLineStatus ? (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">Line Status</CardTitle>
+              <CardDescription>
+                Live from the IPTV panel
+                {lineStatus?.checkedAt ? ` · checked ${new Date(lineStatus.checkedAt).toLocaleTimeString()}` : ""}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => loadLineStatus(true)} disabled={lineStatusLoading}>
+              {lineStatusLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {lineStatusError ? (
+              <p className="text-sm text-red-600">{lineStatusError}</p>
+            ) : !lineStatus ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : !lineStatus.supported || !lineStatus.liveStatus ? (
+              <p className="text-sm text-muted-foreground">This IPTV panel doesn&apos;t report live line status.</p>
+            ) : (
+              <>
+                {lineStatus.expiryMismatch ? (
+                  <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-600" />
+                    <span>
+                      The panel says your line expires{" "}
+                      {lineStatus.liveStatus.expiresAt
+                        ? new Date(lineStatus.liveStatus.expiresAt).toLocaleString()
+                        : "never"}
+                      , but our records say{" "}
+                      {lineStatus.storedExpiresAt ? new Date(lineStatus.storedExpiresAt).toLocaleString() : "no expiry"}
+                      . Use Sync to update our records, or contact support if it looks wrong.
+                    </span>
+                  </div>
+                ) : null}
+
+                <div className="grid gap-4 text-sm md:grid-cols-3">
+                  <div>
+                    <div className="text-muted-foreground">Connections</div>
+                    <div className="font-medium">
+                      {lineStatus.liveStatus.activeConnections ?? "-"} / {lineStatus.liveStatus.maxConnections ?? "-"}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Expires</div>
+                    <div className="font-medium">
+                      {lineStatus.liveStatus.expiresAt
+                        ? new Date(lineStatus.liveStatus.expiresAt).toLocaleString()
+                        : "Never"}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Panel status</div>
+                    <div className="flex items-center gap-2 font-medium">
+                      {lineStatus.liveStatus.status || "-"}
+                      {lineStatus.liveStatus.isTrial ? <Badge variant="warning">Trial</Badge> : null}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Output formats</div>
+                    <div className="font-medium">
+                      {lineStatus.liveStatus.allowedOutputFormats.length
+                        ? lineStatus.liveStatus.allowedOutputFormats.join(", ")
+                        : "-"}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Server timezone</div>
+                    <div className="font-medium">
+                      {lineStatus.liveStatus.serverTimezone || "-"}
+                      {lineStatus.liveStatus.serverTime ? ` (${lineStatus.liveStatus.serverTime})` : ""}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {account && playlist ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Playlist Link</CardTitle>
+            <CardDescription>
+              Created {new Date(playlist.createdAt).toLocaleDateString()}
+              {playlist.lastUsedAt ? ` · last used ${new Date(playlist.lastUsedAt).toLocaleString()}` : " · not used yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>EPG URL</Label>
+              <div className="flex gap-2">
+                <Input value={playlistUrl ? `${playlistUrl}/epg` : ""} readOnly />
+                <Button variant="outline" size="icon" onClick={() => handleCopy(`${playlistUrl}/epg`)} disabled={!playlistUrl}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleCreatePlaylistLink} disabled={isWorking}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                New link
+              </Button>
+              <Button variant="outline" onClick={handleRevokePlaylistLink} disabled={isWorking}>
+                <Ban className="mr-2 h-4 w-4" />
+                Revoke
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Recent access</Label>
+              {playlist.recentAccess.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No requests yet.</p>
+              ) : (
+                playlist.recentAccess.map((a, i) => (
+                  <div key={i} className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <div className="text-sm font-medium">{a.kind}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(a.timestamp).toLocaleString()}
+                        {a.ip ? ` · ${a.ip}` : ""}
+                        {a.userAgent ? ` · ${a.userAgent}` : ""}
+                      </div>
+                    </div>
+                    <Badge variant={a.outcome === "served" ? "success" : a.outcome === "denied" ? "destructive" : "secondary"}>
+                      {a.outcome}
+                    </Badge>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {showChannels ? (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ListVideo className="h-5 w-5" />
+                Channels
+              </CardTitle>
+              <CardDescription>
+                Live channels on your line{favoriteIds.size ? ` · ${favoriteIds.size} favorite${favoriteIds.size === 1 ? "" : "s"}` : ""}
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={loadChannels} disabled={channelsLoading}>
+              {channelsLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              {channels ? "Reload" : "Load channels"}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {channelsError ? (
+              <p className="text-sm text-red-600">{channelsError}</p>
+            ) : !channels ? (
+              <p className="text-sm text-muted-foreground">
+                Browse and search the channels your plan includes, and star the ones you watch.
+              </p>
+            ) : !channels.supported ? (
+              <p className="text-sm text-muted-foreground">This IPTV panel doesn&apos;t list its channels.</p>
+            ) : (
+              <IptvChannelList
+                categories={channels.categories ?? []}
+                channels={channels.channels ?? []}
+                favorites={favoriteIds}
+                onToggleFavorite={handleToggleFavorite}
+              />
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Recent Jobs</CardTitle>
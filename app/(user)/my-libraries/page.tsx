@@ -192,6 +192,20 @@ export default function MyLibrariesPage() {
                 </ol>
               </div>
             )}
+            {userData.serverAccess === "jellyfin" && (
+              <div className="p-4 rounded-lg border">
+                <h4 className="font-semibold mb-2">Jellyfin Access</h4>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Connect using the Jellyfin app on your device
+                </p>
+                <ol className="text-sm space-y-2 list-decimal list-inside text-muted-foreground">
+                  <li>Download the Jellyfin app for your device</li>
+                  <li>Enter the server address provided by admin</li>
+                  <li>Sign in with your credentials</li>
+                  <li>Enjoy your media!</li>
+                </ol>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
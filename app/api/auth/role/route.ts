@@ -1,10 +1,8 @@
 import { auth, currentUser } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
 import { NextResponse } from "next/server";
 
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
-
 export async function GET() {
   try {
     const { userId } = await auth();
@@ -17,12 +15,12 @@ export async function GET() {
     const email = user?.emailAddresses[0]?.emailAddress;
     
     // Check if user is an admin (by database OR email domain)
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId: userId, email });
-    const admin = await convex.query(api.admins.getByClerkId, { clerkId: userId, email });
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
+    const admin = await convex.query(api.admins.getByClerkId);
     
     // Check if there are any admins at all (for first-time setup)
-    const adminList = await convex.query(api.admins.list);
-    const hasAnyAdmins = adminList.length > 0;
+    const hasAnyAdmins = await convex.query(api.admins.hasAny);
 
     if (isAdmin && admin) {
       return NextResponse.json({
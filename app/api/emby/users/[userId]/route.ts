@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth, currentUser } from "@clerk/nextjs/server";
+import { auth } from "@clerk/nextjs/server";
 import { EmbyClient } from "@/lib/emby";
 import { getEmbyConfig } from "@/lib/config";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
-
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+import { getAuthedConvexClient } from "@/lib/convex-server";
 
 // GET - Get single user details with policy and libraries
 export async function GET(
@@ -18,18 +16,15 @@ export async function GET(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user email from Clerk
-    const clerkUser = await currentUser();
-    const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-    // Verify admin
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
     if (!isAdmin) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     const { userId } = await params;
-    const config = await getEmbyConfig();
+    const config = await getEmbyConfig(request.nextUrl.searchParams.get("serverId"));
 
     if (!config.url || !config.apiKey) {
       return NextResponse.json({ error: "Emby not configured" }, { status: 400 });
@@ -82,12 +77,9 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user email from Clerk
-    const clerkUser = await currentUser();
-    const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-    // Verify admin
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
     if (!isAdmin) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
@@ -96,7 +88,7 @@ export async function PATCH(
     const body = await request.json();
     const { action, libraries, enableAllFolders, enableLiveTv, enableRemoteAccess } = body;
 
-    const config = await getEmbyConfig();
+    const config = await getEmbyConfig(request.nextUrl.searchParams.get("serverId"));
     if (!config.url || !config.apiKey) {
       return NextResponse.json({ error: "Emby not configured" }, { status: 400 });
     }
@@ -135,7 +127,6 @@ export async function PATCH(
     // Log the action
     await convex.mutation(api.notifications.createAuditLog, {
       action: `emby_user_${action}`,
-      actorId: clerkId,
       targetType: "emby_user",
       targetId: userId,
       details: JSON.stringify({ action, ...body }),
@@ -161,18 +152,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user email from Clerk
-    const clerkUser = await currentUser();
-    const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-    // Verify admin
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
     if (!isAdmin) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     const { userId } = await params;
-    const config = await getEmbyConfig();
+    const config = await getEmbyConfig(request.nextUrl.searchParams.get("serverId"));
 
     if (!config.url || !config.apiKey) {
       return NextResponse.json({ error: "Emby not configured" }, { status: 400 });
@@ -188,7 +176,6 @@ export async function DELETE(
       // Log the action
       await convex.mutation(api.notifications.createAuditLog, {
         action: "emby_user_deleted",
-        actorId: clerkId,
         targetType: "emby_user",
         targetId: userId,
         details: JSON.stringify({ username: user.Name }),
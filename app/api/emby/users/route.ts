@@ -1,10 +1,10 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { EmbyClient } from "@/lib/emby";
 import { getEmbyConfig } from "@/lib/config";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const config = await getEmbyConfig();
+    const config = await getEmbyConfig(request.nextUrl.searchParams.get("serverId"));
     
     if (!config.url || !config.apiKey) {
       return NextResponse.json(
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import { getIptvPanelConfig } from "@/lib/config";
+import { browsableChannels, createIptvProvider } from "@/lib/iptv";
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
+/**
+ * Live categories and channels the signed-in user's IPTV line includes,
+ * from the panel's player API, with the bouquet each channel comes from
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const line = await convex.query(api.iptv.getLineForChannels, { internalKey: INTERNAL_API_KEY, clerkId: userId });
+    if (!line) {
+      return NextResponse.json({ error: "No IPTV account" }, { status: 404 });
+    }
+
+    const config = await getIptvPanelConfig(line.provider);
+    if (!config) {
+      return NextResponse.json({ error: "IPTV panel not configured" }, { status: 400 });
+    }
+
+    const provider = createIptvProvider(line.provider, config);
+    if (!provider.liveChannels || !line.password || line.status !== "active") {
+      return NextResponse.json({ success: true, supported: false });
+    }
+
+    const lineup = await provider.liveChannels({ username: line.username, password: line.password });
+
+    // Bouquet names are a nicety; the lineup still shows without them
+    const bouquets = provider.listBouquets ? await provider.listBouquets().catch(() => []) : [];
+
+    return NextResponse.json({
+      success: true,
+      supported: true,
+      ...browsableChannels(lineup, { bouquets, bouquetIds: line.bouquetIds, channelGroups: line.channelGroups }),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to load channels" },
+      { status: 502 }
+    );
+  }
+}
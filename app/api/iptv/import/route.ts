@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { getIptvPanelConfig, saveXtremePanelProfile } from "@/lib/config";
+import {
+  createIptvProvider,
+  IPTV_PROVIDER_LABELS,
+  IPTV_PROVIDERS,
+  type IptvPanelLine,
+  type IptvProviderId,
+} from "@/lib/iptv";
+
+type ListResult = { lines: IptvPanelLine[] } | { error: string; status: number };
+
+// Every line on the provider's panel, with passwords
+async function listPanelLines(provider: IptvProviderId): Promise<ListResult> {
+  const config = await getIptvPanelConfig(provider);
+  if (!config) {
+    return {
+      error: `${IPTV_PROVIDER_LABELS[provider]} panel URL not configured. Go to Settings → IPTV to set it up.`,
+      status: 400,
+    };
+  }
+
+  const client = createIptvProvider(provider, config, {
+    saveProfile: async (profile) => {
+      await saveXtremePanelProfile(profile);
+    },
+  });
+  if (!client.listLines) {
+    return { error: `${IPTV_PROVIDER_LABELS[provider]} panels can't list their lines`, status: 400 };
+  }
+  return { lines: await client.listLines() };
+}
+
+async function requireAdminClient() {
+  const { userId } = await auth();
+  if (!userId) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const convex = await getAuthedConvexClient();
+  const isAdmin = await convex.query(api.admins.isAdmin);
+  if (!isAdmin) return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  return { convex };
+}
+
+function parseProvider(value: unknown): IptvProviderId | null {
+  return IPTV_PROVIDERS.includes(value as IptvProviderId) ? (value as IptvProviderId) : null;
+}
+
+/**
+ * Lists the lines on an IPTV panel with the user and plan each would be
+ * linked to. Passwords never leave the server.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { convex, error } = await requireAdminClient();
+    if (error) return error;
+
+    const requested = req.nextUrl.searchParams.get("provider") || "xtremeui";
+    const provider = parseProvider(requested);
+    if (!provider) {
+      return NextResponse.json({ error: `Unknown IPTV provider: ${requested}` }, { status: 400 });
+    }
+
+    const listed = await listPanelLines(provider);
+    if ("error" in listed) {
+      return NextResponse.json({ error: listed.error }, { status: listed.status });
+    }
+
+    const lines = await convex.query(api.iptvImport.preview, {
+      provider,
+      lines: listed.lines.map(({ password: _password, ...line }) => line),
+    });
+    return NextResponse.json({ success: true, lines });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to list panel lines" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Links the reviewed lines to users. The panel is read again so passwords
+ * come straight from it; nothing on the panel is changed.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { convex, error } = await requireAdminClient();
+    if (error) return error;
+
+    const body = await req.json();
+    const provider = parseProvider(body.provider);
+    if (!provider) {
+      return NextResponse.json({ error: `Unknown IPTV provider: ${body.provider}` }, { status: 400 });
+    }
+    const rows: Array<{ username: string; userId: string; planId?: string }> = Array.isArray(body.rows)
+      ? body.rows
+      : [];
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "No lines selected" }, { status: 400 });
+    }
+
+    const listed = await listPanelLines(provider);
+    if ("error" in listed) {
+      return NextResponse.json({ error: listed.error }, { status: listed.status });
+    }
+    const onPanel = new Map(listed.lines.map((line) => [line.username, line]));
+
+    const skipped: Array<{ username: string; reason: string }> = [];
+    const lines = rows.flatMap((row) => {
+      const line = onPanel.get(row.username);
+      if (!line) {
+        skipped.push({ username: row.username, reason: "Line is no longer on the panel" });
+        return [];
+      }
+      return [
+        {
+          username: line.username,
+          password: line.password,
+          status: line.status,
+          expiresAt: line.expiresAt,
+          bouquetIds: line.bouquetIds,
+          userId: row.userId as Id<"users">,
+          planId: row.planId ? (row.planId as Id<"iptvPlans">) : undefined,
+        },
+      ];
+    });
+
+    const result =
+      lines.length > 0
+        ? await convex.mutation(api.iptvImport.apply, { provider, lines })
+        : { imported: 0, skipped: [] };
+
+    return NextResponse.json({
+      success: true,
+      imported: result.imported,
+      skipped: [...skipped, ...result.skipped],
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to import lines" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { getIptvPanelConfig, saveXtremePanelProfile } from "@/lib/config";
+import { browsableChannels, createIptvProvider, IPTV_PROVIDER_LABELS } from "@/lib/iptv";
+
+/**
+ * Preview of the live channels an IPTV plan's bouquets include, from the
+ * panel's admin API
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ planId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { planId } = await params;
+    const plan = (await convex.query(api.iptv.listPlans, {})).find((p) => p._id === planId);
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    }
+
+    const config = await getIptvPanelConfig(plan.provider);
+    if (!config) {
+      return NextResponse.json(
+        { error: `${IPTV_PROVIDER_LABELS[plan.provider]} panel URL not configured` },
+        { status: 400 }
+      );
+    }
+
+    const provider = createIptvProvider(plan.provider, config, {
+      saveProfile: async (profile) => {
+        await saveXtremePanelProfile(profile);
+      },
+    });
+    if (!provider.listLiveChannels || !provider.listBouquets) {
+      return NextResponse.json(
+        { error: `${IPTV_PROVIDER_LABELS[plan.provider]} panels can't list their channels` },
+        { status: 400 }
+      );
+    }
+
+    const bouquetIds = plan.bouquetIds ?? [];
+    const [lineup, bouquets] = await Promise.all([provider.listLiveChannels(), provider.listBouquets()]);
+
+    return NextResponse.json({
+      success: true,
+      // Without bouquets the panel decides what a line gets, so every channel is shown
+      allChannels: bouquetIds.length === 0,
+      ...browsableChannels(lineup, {
+        bouquets,
+        bouquetIds,
+        channelGroups: plan.channelGroups,
+        onlyInBouquets: bouquetIds.length > 0,
+      }),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to load channels" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logPlaylistAccess, playlistErrorResponse, resolvePlaylistToken } from "@/lib/playlist-proxy";
+
+/**
+ * Serves the panel's XMLTV guide (xmltv.php) for a playlist token
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  let line;
+  try {
+    line = await resolvePlaylistToken(token);
+  } catch (error) {
+    return playlistErrorResponse(req, error, "epg");
+  }
+
+  const url = line.provider.epgUrl({ username: line.username, password: line.password });
+  if (!url) {
+    await logPlaylistAccess(req, line.tokenId, "epg", "failed", "Panel has no guide");
+    return new NextResponse("This IPTV panel doesn't provide a guide", { status: 404 });
+  }
+
+  try {
+    const res = await fetch(url, { redirect: "follow", cache: "no-store" });
+    if (!res.ok || !res.body) {
+      await logPlaylistAccess(req, line.tokenId, "epg", "failed", `Panel returned HTTP ${res.status}`);
+      return new NextResponse("IPTV panel unavailable", { status: 502 });
+    }
+
+    await logPlaylistAccess(req, line.tokenId, "epg", "served");
+
+    return new NextResponse(res.body, {
+      headers: {
+        "Content-Type": res.headers.get("content-type") || "application/xml; charset=utf-8",
+        "Content-Disposition": 'inline; filename="epg.xml"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    await logPlaylistAccess(req, line.tokenId, "epg", "failed", error instanceof Error ? error.message : "Request failed");
+    return new NextResponse("IPTV panel unavailable", { status: 502 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createPlaylistTransform,
+  logPlaylistAccess,
+  playlistBaseUrl,
+  playlistErrorResponse,
+  resolvePlaylistToken,
+} from "@/lib/playlist-proxy";
+
+/**
+ * Serves the panel's m3u_plus playlist for a playlist token, filtered to the
+ * plan's channel groups, with streams and the guide pointed back at this proxy
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  let line;
+  try {
+    line = await resolvePlaylistToken(token);
+  } catch (error) {
+    return playlistErrorResponse(req, error, "playlist");
+  }
+
+  const credentials = { username: line.username, password: line.password };
+  const url = line.provider.playlistUrl(credentials);
+  if (!url) {
+    await logPlaylistAccess(req, line.tokenId, "playlist", "failed", "Panel has no playlist");
+    return new NextResponse("This IPTV panel doesn't provide a playlist", { status: 404 });
+  }
+
+  try {
+    const res = await fetch(url, { redirect: "follow", cache: "no-store" });
+    if (!res.ok || !res.body) {
+      await logPlaylistAccess(req, line.tokenId, "playlist", "failed", `Panel returned HTTP ${res.status}`);
+      return new NextResponse("IPTV panel unavailable", { status: 502 });
+    }
+
+    await logPlaylistAccess(req, line.tokenId, "playlist", "served");
+
+    const base = playlistBaseUrl(req, token);
+    const body = res.body.pipeThrough(
+      createPlaylistTransform({
+        line,
+        streamPrefix: `${base}/stream`,
+        epgUrl: line.provider.epgUrl(credentials) ? `${base}/epg` : undefined,
+      })
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "audio/x-mpegurl; charset=utf-8",
+        "Content-Disposition": 'inline; filename="playlist.m3u"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    await logPlaylistAccess(
+      req,
+      line.tokenId,
+      "playlist",
+      "failed",
+      error instanceof Error ? error.message : "Request failed"
+    );
+    return new NextResponse("IPTV panel unavailable", { status: 502 });
+  }
+}
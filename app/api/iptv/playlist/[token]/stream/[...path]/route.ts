@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  logPlaylistAccess,
+  openStreamUrl,
+  panelStreamUrl,
+  playlistBaseUrl,
+  playlistErrorResponse,
+  resolvePlaylistToken,
+  rewriteHlsPlaylist,
+  SEALED_STREAM_KIND,
+} from "@/lib/playlist-proxy";
+
+// Vercel ends a function at its max duration, cutting off a live TS stream mid-play; players reconnect on their own
+export const maxDuration = 300;
+
+// Request headers players send that panels act on
+const FORWARDED_REQUEST_HEADERS = ["range", "user-agent", "accept"];
+
+// Panel response headers passed back to the player
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "content-length", "content-range", "accept-ranges"];
+
+function isHlsPath(path: string[]): boolean {
+  return path[path.length - 1]?.toLowerCase().endsWith(".m3u8") ?? false;
+}
+
+function isHlsPlaylist(res: Response, path: string[]): boolean {
+  const type = res.headers.get("content-type")?.toLowerCase() ?? "";
+  return type.includes("mpegurl") || isHlsPath(path);
+}
+
+/**
+ * Streams a channel or video from the panel through the app. The panel URL
+ * holds the line's username and password, so the player is never sent
+ * there. Checking the token on every play means a revoked or suspended link
+ * stops working for streams too. Only HLS playlist fetches are logged; a
+ * player asks for a new segment every few seconds.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string; path: string[] }> }) {
+  const { token, path } = await params;
+
+  let line;
+  try {
+    line = await resolvePlaylistToken(token);
+  } catch (error) {
+    return playlistErrorResponse(req, error, "stream", isHlsPath(path));
+  }
+
+  const url =
+    path[0] === SEALED_STREAM_KIND && path[1]
+      ? await openStreamUrl(path[1], line.tokenId)
+      : panelStreamUrl(line, path);
+  if (!url) {
+    return new NextResponse("Unknown stream", { status: 404 });
+  }
+
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  let res: Response;
+  try {
+    // Panels often redirect to a load balancer; follow it here rather than in the player
+    res = await fetch(`${url}${req.nextUrl.search}`, {
+      headers,
+      redirect: "follow",
+      cache: "no-store",
+      signal: req.signal,
+    });
+  } catch (error) {
+    if (isHlsPath(path)) {
+      await logPlaylistAccess(req, line.tokenId, "stream", "failed", error instanceof Error ? error.message : "Request failed");
+    }
+    return new NextResponse("IPTV panel unavailable", { status: 502 });
+  }
+
+  if (!res.ok || !res.body) {
+    if (isHlsPlaylist(res, path)) {
+      await logPlaylistAccess(req, line.tokenId, "stream", "failed", `Panel returned HTTP ${res.status}`);
+    }
+    return new NextResponse("Stream unavailable", { status: res.status === 404 ? 404 : 502 });
+  }
+
+  if (isHlsPlaylist(res, path)) {
+    await logPlaylistAccess(req, line.tokenId, "stream", "served");
+    const body = await rewriteHlsPlaylist(await res.text(), line, res.url || url, `${playlistBaseUrl(req, token)}/stream`);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "application/vnd.apple.mpegurl",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  const responseHeaders = new Headers({ "Cache-Control": "no-store" });
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = res.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+  return new NextResponse(res.body, { status: res.status, headers: responseHeaders });
+}
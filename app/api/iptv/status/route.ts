@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import { getIptvPanelConfig } from "@/lib/config";
+import { createIptvProvider, type IptvLiveStatus } from "@/lib/iptv";
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
+// Panels are asked at most this often per line
+const CACHE_MS = 60 * 1000;
+
+// Expiries further apart than this are reported as a mismatch
+const EXPIRY_TOLERANCE_MS = 60 * 60 * 1000;
+
+function expiryMismatch(storedExpiresAt: number | undefined, status: IptvLiveStatus): boolean {
+  if (status.expiresAt === undefined) return false;
+  if (storedExpiresAt === undefined) return true;
+  return Math.abs(storedExpiresAt - status.expiresAt) > EXPIRY_TOLERANCE_MS;
+}
+
+/**
+ * Live status of the signed-in user's IPTV line from the panel's player API.
+ * ?refresh=1 skips the cache.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const line = await convex.query(api.iptv.getLineForStatus, { internalKey: INTERNAL_API_KEY, clerkId: userId });
+    if (!line) {
+      return NextResponse.json({ error: "No IPTV account" }, { status: 404 });
+    }
+
+    const respond = (liveStatus: IptvLiveStatus, checkedAt: number) =>
+      NextResponse.json({
+        success: true,
+        supported: true,
+        liveStatus,
+        checkedAt,
+        storedExpiresAt: line.expiresAt ?? null,
+        expiryMismatch: expiryMismatch(line.expiresAt, liveStatus),
+      });
+
+    const fresh = line.liveStatusCheckedAt && Date.now() - line.liveStatusCheckedAt < CACHE_MS;
+    if (line.liveStatus && line.liveStatusCheckedAt && fresh && req.nextUrl.searchParams.get("refresh") !== "1") {
+      return respond(line.liveStatus, line.liveStatusCheckedAt);
+    }
+
+    const config = await getIptvPanelConfig(line.provider);
+    if (!config) {
+      return NextResponse.json({ error: "IPTV panel not configured" }, { status: 400 });
+    }
+
+    const provider = createIptvProvider(line.provider, config);
+    if (!provider.liveStatus || !line.password || line.status === "pending") {
+      return NextResponse.json({ success: true, supported: false });
+    }
+
+    const liveStatus = await provider.liveStatus({ username: line.username, password: line.password });
+    await convex.mutation(api.iptv.saveLiveStatus, {
+      internalKey: INTERNAL_API_KEY,
+      accountId: line.accountId,
+      liveStatus,
+    });
+
+    return respond(liveStatus, Date.now());
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to load line status" },
+      { status: 502 }
+    );
+  }
+}
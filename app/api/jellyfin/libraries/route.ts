@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JellyfinClient } from "@/lib/jellyfin";
+import { EMBY_FEATURES } from "@/lib/emby";
+import { getJellyfinConfig } from "@/lib/config";
+
+export async function GET(request: NextRequest) {
+  try {
+    const config = await getJellyfinConfig(request.nextUrl.searchParams.get("serverId"));
+    
+    if (!config.url || !config.apiKey) {
+      return NextResponse.json(
+        { error: "Jellyfin not configured. Please configure in Settings." },
+        { status: 400 }
+      );
+    }
+
+    const client = new JellyfinClient({ url: config.url, apiKey: config.apiKey });
+    const libraries = await client.getLibraries();
+    
+    // Check if LiveTV is available
+    const hasLiveTv = await client.hasLiveTv();
+
+    // Map libraries to a consistent format
+    const mappedLibraries = libraries.map(lib => ({
+      id: lib.ItemId,
+      name: lib.Name,
+      type: lib.CollectionType || "unknown",
+    }));
+    
+    // Jellyfin shares Emby's Live TV pseudo-library
+    const features = hasLiveTv ? EMBY_FEATURES : [];
+
+    return NextResponse.json({ 
+      success: true, 
+      libraries: mappedLibraries,
+      features,
+      hasLiveTv,
+    });
+  } catch (error) {
+    console.error("Failed to fetch Jellyfin libraries:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to fetch libraries" },
+      { status: 500 }
+    );
+  }
+}
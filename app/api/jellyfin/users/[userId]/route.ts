@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { JellyfinClient } from "@/lib/jellyfin";
+import { getJellyfinConfig } from "@/lib/config";
+import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+
+// GET - Get single user details with policy and libraries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { userId } = await params;
+    const config = await getJellyfinConfig(request.nextUrl.searchParams.get("serverId"));
+
+    if (!config.url || !config.apiKey) {
+      return NextResponse.json({ error: "Jellyfin not configured" }, { status: 400 });
+    }
+
+    const client = new JellyfinClient({ url: config.url, apiKey: config.apiKey });
+    const user = await client.getUser(userId);
+    const libraries = await client.getLibraries();
+    const hasLiveTv = await client.hasLiveTv();
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.Id,
+        name: user.Name,
+        isAdmin: user.Policy?.IsAdministrator || false,
+        isDisabled: user.Policy?.IsDisabled || false,
+        enableAllFolders: user.Policy?.EnableAllFolders || false,
+        enabledFolders: user.Policy?.EnabledFolders || [],
+        enableLiveTvAccess: user.Policy?.EnableLiveTvAccess || false,
+        enableLiveTvManagement: user.Policy?.EnableLiveTvManagement || false,
+        enableRemoteAccess: user.Policy?.EnableRemoteAccess || false,
+        lastLoginDate: user.LastLoginDate,
+        lastActivityDate: user.LastActivityDate,
+        hasPassword: user.HasPassword,
+      },
+      libraries: libraries.map((lib) => ({
+        id: lib.ItemId,
+        name: lib.Name,
+        type: lib.CollectionType || "unknown",
+      })),
+      hasLiveTv,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to get user" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update user (enable/disable, libraries, etc.)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { userId } = await params;
+    const body = await request.json();
+    const { action, libraries, enableAllFolders, enableLiveTv, enableRemoteAccess } = body;
+
+    const config = await getJellyfinConfig(request.nextUrl.searchParams.get("serverId"));
+    if (!config.url || !config.apiKey) {
+      return NextResponse.json({ error: "Jellyfin not configured" }, { status: 400 });
+    }
+
+    const client = new JellyfinClient({ url: config.url, apiKey: config.apiKey });
+    let result: { success: boolean; message: string };
+
+    switch (action) {
+      case "enable":
+        result = await client.enableUser(userId);
+        break;
+
+      case "disable":
+        result = await client.disableUser(userId);
+        break;
+
+      case "updateLibraries":
+        result = await client.setUserLibraries(
+          userId,
+          libraries || [],
+          enableAllFolders || false
+        );
+        break;
+
+      case "updatePolicy":
+        result = await client.updateUserPolicy(userId, {
+          EnableLiveTvAccess: enableLiveTv,
+          EnableRemoteAccess: enableRemoteAccess,
+        });
+        break;
+
+      default:
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    // Log the action
+    await convex.mutation(api.notifications.createAuditLog, {
+      action: `jellyfin_user_${action}`,
+      targetType: "jellyfin_user",
+      targetId: userId,
+      details: JSON.stringify({ action, ...body }),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete Jellyfin user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { userId } = await params;
+    const config = await getJellyfinConfig(request.nextUrl.searchParams.get("serverId"));
+
+    if (!config.url || !config.apiKey) {
+      return NextResponse.json({ error: "Jellyfin not configured" }, { status: 400 });
+    }
+
+    const client = new JellyfinClient({ url: config.url, apiKey: config.apiKey });
+    
+    // Get user info before deleting for audit log
+    const user = await client.getUser(userId);
+    const result = await client.deleteUser(userId);
+
+    if (result.success) {
+      // Log the action
+      await convex.mutation(api.notifications.createAuditLog, {
+        action: "jellyfin_user_deleted",
+        targetType: "jellyfin_user",
+        targetId: userId,
+        details: JSON.stringify({ username: user.Name }),
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to delete user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JellyfinClient } from "@/lib/jellyfin";
+import { getJellyfinConfig } from "@/lib/config";
+
+export async function GET(request: NextRequest) {
+  try {
+    const config = await getJellyfinConfig(request.nextUrl.searchParams.get("serverId"));
+    
+    if (!config.url || !config.apiKey) {
+      return NextResponse.json(
+        { error: "Jellyfin not configured. Please configure in Settings." },
+        { status: 400 }
+      );
+    }
+
+    const client = new JellyfinClient({ url: config.url, apiKey: config.apiKey });
+    const users = await client.getUsers();
+
+    return NextResponse.json({ 
+      success: true, 
+      users: users.map(user => ({
+        id: user.Id,
+        name: user.Name,
+        isAdmin: user.Policy?.IsAdministrator || false,
+        isDisabled: user.Policy?.IsDisabled || false,
+        lastLoginDate: user.LastLoginDate,
+        lastActivityDate: user.LastActivityDate,
+        hasPassword: user.HasPassword,
+      }))
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
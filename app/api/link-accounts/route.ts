@@ -1,12 +1,14 @@
 import { NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
 import { EmbyClient } from "@/lib/emby";
+import { JellyfinClient } from "@/lib/jellyfin";
 import { PlexClient } from "@/lib/plex";
-import { getEmbyConfig, getPlexConfig } from "@/lib/config";
+import { getEmbyConfig, getJellyfinConfig, getPlexConfig } from "@/lib/config";
 
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+// Linking is internal-key only; this route found the accounts on the servers itself
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
 
 export async function POST(req: Request) {
   try {
@@ -26,6 +28,7 @@ export async function POST(req: Request) {
     const results = {
       emby: { found: false, userId: null as string | null, username: null as string | null },
       plex: { found: false, userId: null as string | null, username: null as string | null, email: null as string | null },
+      jellyfin: { found: false, userId: null as string | null, username: null as string | null },
     };
 
     // Check Emby
@@ -77,19 +80,47 @@ export async function POST(req: Request) {
       console.error("Error checking Plex:", error);
     }
 
+    // Check Jellyfin
+    try {
+      const jellyfinConfig = await getJellyfinConfig();
+      if (jellyfinConfig.url && jellyfinConfig.apiKey) {
+        const jellyfinClient = new JellyfinClient({ url: jellyfinConfig.url, apiKey: jellyfinConfig.apiKey });
+        
+        // Try to find by email or username
+        let jellyfinUser = await jellyfinClient.findUserByEmail(email);
+        if (!jellyfinUser) {
+          jellyfinUser = await jellyfinClient.findUserByUsername(username);
+        }
+        
+        if (jellyfinUser) {
+          results.jellyfin = {
+            found: true,
+            userId: jellyfinUser.Id,
+            username: jellyfinUser.Name,
+          };
+        }
+      }
+    } catch (error) {
+      console.error("Error checking Jellyfin:", error);
+    }
+
     // If we found matches, create/update the user record
-    if (results.emby.found || results.plex.found) {
-      let serverAccess: "plex" | "emby" | "both" | "none" = "none";
+    if (results.emby.found || results.plex.found || results.jellyfin.found) {
+      let serverAccess: "plex" | "emby" | "both" | "jellyfin" | "none" = "none";
       if (results.emby.found && results.plex.found) {
         serverAccess = "both";
       } else if (results.emby.found) {
         serverAccess = "emby";
       } else if (results.plex.found) {
         serverAccess = "plex";
+      } else if (results.jellyfin.found) {
+        serverAccess = "jellyfin";
       }
 
       // Create or update user in Convex
+      const convex = await getAuthedConvexClient();
       await convex.mutation(api.users.linkExistingAccount, {
+        internalKey: INTERNAL_API_KEY,
         clerkId: userId,
         email,
         username,
@@ -99,12 +130,14 @@ export async function POST(req: Request) {
         plexUserId: results.plex.userId || undefined,
         plexUsername: results.plex.username || undefined,
         plexEmail: results.plex.email || undefined,
+        jellyfinUserId: results.jellyfin.userId || undefined,
+        jellyfinUsername: results.jellyfin.username || undefined,
       });
     }
 
     return NextResponse.json({
       success: true,
-      linked: results.emby.found || results.plex.found,
+      linked: results.emby.found || results.plex.found || results.jellyfin.found,
       results,
     });
   } catch (error) {
@@ -135,6 +168,7 @@ export async function GET() {
     const results = {
       emby: { found: false, userId: null as string | null, username: null as string | null },
       plex: { found: false, userId: null as string | null, username: null as string | null, email: null as string | null },
+      jellyfin: { found: false, userId: null as string | null, username: null as string | null },
     };
 
     // Check Emby
@@ -184,6 +218,30 @@ export async function GET() {
       console.error("Error checking Plex:", error);
     }
 
+    // Check Jellyfin
+    try {
+      const jellyfinConfig = await getJellyfinConfig();
+      if (jellyfinConfig.url && jellyfinConfig.apiKey) {
+        const jellyfinClient = new JellyfinClient({ url: jellyfinConfig.url, apiKey: jellyfinConfig.apiKey });
+        
+        // Try to find by email or username
+        let jellyfinUser = await jellyfinClient.findUserByEmail(email);
+        if (!jellyfinUser) {
+          jellyfinUser = await jellyfinClient.findUserByUsername(username);
+        }
+        
+        if (jellyfinUser) {
+          results.jellyfin = {
+            found: true,
+            userId: jellyfinUser.Id,
+            username: jellyfinUser.Name,
+          };
+        }
+      }
+    } catch (error) {
+      console.error("Error checking Jellyfin:", error);
+    }
+
     return NextResponse.json({
       success: true,
       results,
@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth, currentUser } from "@clerk/nextjs/server";
+import { auth } from "@clerk/nextjs/server";
 import { PlexClient } from "@/lib/plex";
 import { getPlexConfig } from "@/lib/config";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
-
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+import { getAuthedConvexClient } from "@/lib/convex-server";
 
 // GET - Get single user details with libraries
 export async function GET(
@@ -18,18 +16,15 @@ export async function GET(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user email from Clerk
-    const clerkUser = await currentUser();
-    const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-    // Verify admin
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
     if (!isAdmin) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     const { userId } = await params;
-    const config = await getPlexConfig();
+    const config = await getPlexConfig(request.nextUrl.searchParams.get("serverId"));
 
     if (!config.url || !config.token) {
       return NextResponse.json({ error: "Plex not configured" }, { status: 400 });
@@ -85,12 +80,9 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user email from Clerk
-    const clerkUser = await currentUser();
-    const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-    // Verify admin
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
     if (!isAdmin) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
@@ -99,7 +91,7 @@ export async function PATCH(
     const body = await request.json();
     const { action, libraries } = body;
 
-    const config = await getPlexConfig();
+    const config = await getPlexConfig(request.nextUrl.searchParams.get("serverId"));
     if (!config.url || !config.token) {
       return NextResponse.json({ error: "Plex not configured" }, { status: 400 });
     }
@@ -119,7 +111,6 @@ export async function PATCH(
     // Log the action
     await convex.mutation(api.notifications.createAuditLog, {
       action: `plex_user_${action}`,
-      actorId: clerkId,
       targetType: "plex_user",
       targetId: userId,
       details: JSON.stringify({ action, ...body }),
@@ -145,18 +136,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get user email from Clerk
-    const clerkUser = await currentUser();
-    const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-    // Verify admin
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+    // Verify admin (Convex reads the caller from the session token)
+    const convex = await getAuthedConvexClient();
+    const isAdmin = await convex.query(api.admins.isAdmin);
     if (!isAdmin) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     const { userId } = await params;
-    const config = await getPlexConfig();
+    const config = await getPlexConfig(request.nextUrl.searchParams.get("serverId"));
 
     if (!config.url || !config.token) {
       return NextResponse.json({ error: "Plex not configured" }, { status: 400 });
@@ -174,7 +162,6 @@ export async function DELETE(
       // Log the action
       await convex.mutation(api.notifications.createAuditLog, {
         action: "plex_user_removed",
-        actorId: clerkId,
         targetType: "plex_user",
         targetId: userId,
         details: JSON.stringify({ username: user?.username, email: user?.email }),
@@ -1,10 +1,10 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { PlexClient } from "@/lib/plex";
 import { getPlexConfig } from "@/lib/config";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const config = await getPlexConfig();
+    const config = await getPlexConfig(request.nextUrl.searchParams.get("serverId"));
     
     if (!config.url || !config.token) {
       return NextResponse.json(
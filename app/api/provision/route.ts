@@ -1,12 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
 import { EmbyClient } from "@/lib/emby";
-import { PlexClient } from "@/lib/plex";
-import { getEmbyConfig, getPlexConfig } from "@/lib/config";
-
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+import { getEmbyConfig } from "@/lib/config";
 
 // Generate a secure random password
 function generatePassword(length = 16): string {
@@ -32,6 +29,8 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "No email found" }, { status: 400 });
     }
 
+    const convex = await getAuthedConvexClient();
+
     const body = await req.json();
     const { 
       code, 
@@ -44,6 +43,9 @@ export async function POST(req: Request) {
       // Emby - Connect
       useEmbyConnect,      // Whether to use Emby Connect instead of local account
       embyConnectEmail,    // Their Emby Connect email/username
+      // Jellyfin - Local Account
+      jellyfinUsername,    // Desired username on your Jellyfin server
+      jellyfinPassword,    // Desired password (optional)
     } = body;
 
     if (!code) {
@@ -75,196 +77,41 @@ export async function POST(req: Request) {
       }
     }
 
-    const results = {
-      plex: { success: false, message: "", invited: false },
-      emby: { 
-        success: false, 
-        message: "", 
-        userId: null as string | null, 
-        password: null as string | null,
-        useConnect: false,
-        connectInviteSent: false,
-      },
-    };
+    // A paid invite grants whatever the user's plan includes
+    const access = await convex.query(api.plans.getInviteAccess, { code });
+    const serverType = access?.serverType ?? invite.serverType;
 
-    // Handle Plex provisioning
-    if (invite.serverType === "plex" || invite.serverType === "both") {
-      const plexConfig = await getPlexConfig();
-      
-      if (!plexConfig.url || !plexConfig.token) {
-        results.plex.message = "Plex not configured";
-      } else if (!plexEmail) {
-        results.plex.message = "Plex email required";
-      } else {
-        try {
-          const plexClient = new PlexClient({ url: plexConfig.url, token: plexConfig.token });
-          
-          // Check if user is already shared with
-          const existingUsers = await plexClient.getSharedUsers();
-          const alreadyShared = existingUsers.some(
-            u => u.email?.toLowerCase() === plexEmail.toLowerCase()
-          );
+    const useConnect = !!(useEmbyConnect && embyConnectEmail);
+    const hasEmby = serverType === "emby" || serverType === "both";
 
-          if (alreadyShared) {
-            results.plex = { success: true, message: "Already has access", invited: false };
-          } else {
-            // Invite the user to Plex
-            const inviteResult = await plexClient.inviteUser(plexEmail, invite.libraries);
-            results.plex = { 
-              success: inviteResult.success, 
-              message: inviteResult.message,
-              invited: inviteResult.success 
-            };
-          }
-        } catch (error) {
-          results.plex.message = error instanceof Error ? error.message : "Failed to invite to Plex";
-        }
-      }
-    }
-
-    // Handle Emby provisioning
-    if (invite.serverType === "emby" || invite.serverType === "both") {
-      const embyConfig = await getEmbyConfig();
-      
-      if (!embyConfig.url || !embyConfig.apiKey) {
-        results.emby.message = "Emby not configured";
-      } else {
-        const embyClient = new EmbyClient({ url: embyConfig.url, apiKey: embyConfig.apiKey });
-
-        // Option 1: Emby Connect
-        if (useEmbyConnect && embyConnectEmail) {
-          try {
-            results.emby.useConnect = true;
-            
-            // Send Emby Connect invitation
-            const connectResult = await embyClient.inviteViaConnect(embyConnectEmail, true);
-            
-            if (connectResult.success) {
-              results.emby = {
-                success: true,
-                message: connectResult.message,
-                userId: null,
-                password: null,
-                useConnect: true,
-                connectInviteSent: true,
-              };
-            } else {
-              results.emby.message = connectResult.message;
-            }
-          } catch (error) {
-            results.emby.message = error instanceof Error ? error.message : "Failed to send Emby Connect invitation";
-          }
-        }
-        // Option 2: Local Account
-        else if (embyUsername) {
-          try {
-            // Check if username already exists
-            const isAvailable = await embyClient.isUsernameAvailable(embyUsername);
-            
-            if (!isAvailable) {
-              // Try to find the existing user
-              const existingUser = await embyClient.findUserByUsername(embyUsername);
-              if (existingUser) {
-                results.emby = { 
-                  success: true, 
-                  message: "Username already exists - using existing account", 
-                  userId: existingUser.Id,
-                  password: null,
-                  useConnect: false,
-                  connectInviteSent: false,
-                };
-              } else {
-                results.emby.message = "Username already taken";
-              }
-            } else {
-              // Create the user with a password
-              const password = embyPassword || generatePassword();
-              const createResult = await embyClient.createUser(embyUsername, password);
-              
-              if (createResult.success && createResult.userId) {
-                // Set library access based on invite
-                if (invite.libraries && invite.libraries.length > 0) {
-                  await embyClient.setUserLibraries(createResult.userId, invite.libraries, false);
-                } else {
-                  // Grant access to all libraries by default
-                  await embyClient.setUserLibraries(createResult.userId, [], true);
-                }
-
-                results.emby = { 
-                  success: true, 
-                  message: "Account created successfully", 
-                  userId: createResult.userId,
-                  password: embyPassword ? null : password, // Only return generated password
-                  useConnect: false,
-                  connectInviteSent: false,
-                };
-              } else {
-                results.emby.message = createResult.message;
-              }
-            }
-          } catch (error) {
-            results.emby.message = error instanceof Error ? error.message : "Failed to create Emby account";
-          }
-        } else {
-          results.emby.message = "Either Emby Connect email or local username is required";
-        }
-      }
-    }
-
-    // If at least one server was successfully provisioned, redeem the invite
-    const anySuccess = 
-      (invite.serverType === "plex" && results.plex.success) ||
-      (invite.serverType === "emby" && results.emby.success) ||
-      (invite.serverType === "both" && (results.plex.success || results.emby.success));
-
-    if (anySuccess) {
-      // Redeem the invite in Convex
-      await convex.mutation(api.invites.redeem, {
-        code,
-        clerkId,
-        email,
-        username,
-        plexEmail: plexEmail || undefined,
-        embyUserId: results.emby.userId || undefined,
-        embyUsername: results.emby.useConnect
-          ? (embyConnectEmail || undefined)
-          : (embyUsername || undefined),
-      });
-    }
+    // Passwords are generated here so they can be shown once; the jobs only use them
+    const generated = {
+      emby: hasEmby && !useConnect && embyUsername && !embyPassword ? generatePassword() : null,
+      jellyfin: serverType === "jellyfin" && jellyfinUsername && !jellyfinPassword ? generatePassword() : null,
+    };
 
-    const embyConfig = await getEmbyConfig();
+    // Server accounts are created by background jobs; the invite is redeemed once they finish
+    const { provisioningId, resumed } = await convex.mutation(api.provisioning.start, {
+      code,
+      username,
+      plexEmail: plexEmail || undefined,
+      embyUsername: !useConnect ? (embyUsername || undefined) : undefined,
+      embyPassword: !useConnect ? (embyPassword || generated.emby || undefined) : undefined,
+      embyConnectEmail: useConnect ? embyConnectEmail : undefined,
+      jellyfinUsername: jellyfinUsername || undefined,
+      jellyfinPassword: jellyfinPassword || generated.jellyfin || undefined,
+    });
 
-    return NextResponse.json({
-      success: anySuccess,
-      results,
-      serverType: invite.serverType,
-      // Include connection info for user
-      connectionInfo: {
-        plex: invite.serverType !== "emby" ? {
-          instructions: results.plex.invited 
-            ? "Check your email for a Plex invite. Accept it to get access."
-            : results.plex.success 
-              ? "You already have access. Open the Plex app and look for the shared server."
-              : null,
-        } : null,
-        emby: invite.serverType !== "plex" && results.emby.success ? {
-          useConnect: results.emby.useConnect,
-          // For Emby Connect users
-          connectInstructions: results.emby.useConnect 
-            ? "Check your email for an Emby Connect invitation. Accept it, then sign into any Emby app with your Emby Connect account to see the server."
-            : null,
-          // For local account users
-          serverUrl: !results.emby.useConnect ? embyConfig.url : null,
-          username: !results.emby.useConnect ? embyUsername : null,
-          password: !results.emby.useConnect ? results.emby.password : null,
-          localInstructions: !results.emby.useConnect 
-            ? (results.emby.password 
-                ? "Use these credentials to log in to Emby. Please change your password after first login."
-                : "Use your existing Emby credentials to log in.")
-            : null,
-        } : null,
+    return NextResponse.json(
+      {
+        success: true,
+        provisioningId,
+        status: "pending",
+        // A resumed provisioning already has its passwords
+        generatedPasswords: resumed ? null : generated,
       },
-    });
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Error provisioning access:", error);
     return NextResponse.json(
@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+
+interface ServerResult {
+  name: string;
+  success: boolean;
+  message: string;
+}
+
+// Collapse per-server outcomes into a single message for the invite form
+function summarizeServerResults(servers: ServerResult[]): string {
+  if (servers.length === 1) return servers[0].message;
+  return servers.map((r) => `${r.name}: ${r.message}`).join("; ");
+}
+
+// GET /api/provision/status?id=<provisioningId> or ?code=<inviteCode>
+// Polled by the invite page while the provisioning jobs run
+export async function GET(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+    const code = searchParams.get("code");
+    if (!id && !code) {
+      return NextResponse.json({ error: "id or code required" }, { status: 400 });
+    }
+
+    const convex = await getAuthedConvexClient();
+    const provisioning = await convex.query(api.provisioning.getStatus, {
+      id: id ? (id as Id<"provisionings">) : undefined,
+      code: id ? undefined : code ?? undefined,
+    });
+
+    if (!provisioning) {
+      return NextResponse.json({ error: "Provisioning not found" }, { status: 404 });
+    }
+
+    const serversOf = (type: string) => provisioning.servers.filter((s) => s.serverType === type);
+    const toResults = (type: string): ServerResult[] =>
+      serversOf(type).map((s) => ({
+        name: s.serverName,
+        success: s.status === "succeeded",
+        message: s.message ?? (s.status === "pending" ? "In progress" : ""),
+      }));
+
+    const plexServers = toResults("plex");
+    const embyServers = toResults("emby");
+    const jellyfinServers = toResults("jellyfin");
+
+    const embyLocal = serversOf("emby").find((s) => s.stepType === "emby.createUser" && s.status === "succeeded");
+    const jellyfinLocal = serversOf("jellyfin").find((s) => s.status === "succeeded");
+    const useConnect = !!provisioning.embyConnectEmail;
+
+    const results = {
+      plex: {
+        success: plexServers.some((r) => r.success),
+        message: plexServers.length > 0 ? summarizeServerResults(plexServers) : "",
+        invited: serversOf("plex").some((s) => s.status === "succeeded" && s.created),
+        servers: plexServers,
+      },
+      emby: {
+        success: embyServers.some((r) => r.success),
+        message: embyServers.length > 0 ? summarizeServerResults(embyServers) : "",
+        userId: null,
+        password: null,
+        useConnect,
+        connectInviteSent: serversOf("emby").some(
+          (s) => s.stepType === "emby.connectInvite" && s.status === "succeeded"
+        ),
+        serverUrl: embyLocal?.serverUrl ?? null,
+        servers: embyServers,
+      },
+      jellyfin: {
+        success: jellyfinServers.some((r) => r.success),
+        message: jellyfinServers.length > 0 ? summarizeServerResults(jellyfinServers) : "",
+        userId: null,
+        password: null,
+        serverUrl: jellyfinLocal?.serverUrl ?? null,
+        servers: jellyfinServers,
+      },
+    };
+
+    const hasPlex = provisioning.serverType === "plex" || provisioning.serverType === "both";
+    const hasEmby = provisioning.serverType === "emby" || provisioning.serverType === "both";
+
+    return NextResponse.json({
+      provisioningId: provisioning._id,
+      status: provisioning.status,
+      success: provisioning.status === "completed",
+      error: provisioning.error ?? null,
+      results,
+      serverType: provisioning.serverType,
+      plexEmail: provisioning.plexEmail ?? null,
+      embyConnectEmail: provisioning.embyConnectEmail ?? null,
+      // Passwords are never stored; the invite form fills in the ones it was given
+      connectionInfo: {
+        plex: hasPlex ? {
+          instructions: results.plex.invited
+            ? "Check your email for a Plex invite. Accept it to get access."
+            : results.plex.success
+              ? "You already have access. Open the Plex app and look for the shared server."
+              : null,
+        } : null,
+        emby: hasEmby && results.emby.success ? {
+          useConnect,
+          connectInstructions: useConnect
+            ? "Check your email for an Emby Connect invitation. Accept it, then sign into any Emby app with your Emby Connect account to see the server."
+            : null,
+          serverUrl: !useConnect ? results.emby.serverUrl : null,
+          username: !useConnect ? provisioning.embyUsername ?? null : null,
+          password: null,
+          localInstructions: !useConnect
+            ? (embyLocal?.created
+                ? "Use these credentials to log in to Emby. Please change your password after first login."
+                : "Use your existing Emby credentials to log in.")
+            : null,
+        } : null,
+        jellyfin: provisioning.serverType === "jellyfin" && results.jellyfin.success ? {
+          serverUrl: results.jellyfin.serverUrl,
+          username: provisioning.jellyfinUsername ?? null,
+          password: null,
+          instructions: jellyfinLocal?.created
+            ? "Use these credentials to log in to Jellyfin. Please change your password after first login."
+            : "Use your Jellyfin credentials to log in.",
+        } : null,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching provisioning status:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch provisioning status" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth, currentUser } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
+import { auth } from "@clerk/nextjs/server";
 import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
 import { EmbyClient } from "@/lib/emby";
+import { JellyfinClient } from "@/lib/jellyfin";
 import { PlexClient } from "@/lib/plex";
-import { getEmbyConfig, getPlexConfig } from "@/lib/config";
-
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+import { getEmbyConfig, getJellyfinConfig, getMediaServers, getPlexConfig, MediaServerType } from "@/lib/config";
 
 // Internal API key for webhook calls (set in environment)
 const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY;
 
 /**
- * Revoke a user's access to Plex and/or Emby servers
+ * Revoke a user's access to Plex, Emby and/or Jellyfin servers
  * Can be called:
  * 1. By admin manually
  * 2. By Stripe webhook when payment fails
@@ -24,6 +23,10 @@ export async function POST(request: NextRequest) {
     const internalKey = request.headers.get("x-internal-api-key");
     const isInternalCall = INTERNAL_API_KEY && internalKey === INTERNAL_API_KEY;
 
+    // Internal calls have no session; Convex accepts the internal key instead
+    const convex = await getAuthedConvexClient();
+    const convexAuth = isInternalCall ? { internalKey: INTERNAL_API_KEY } : {};
+
     if (!isInternalCall) {
       // Verify admin user
       const { userId: clerkId } = await auth();
@@ -31,10 +34,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
 
-      const clerkUser = await currentUser();
-      const email = clerkUser?.primaryEmailAddress?.emailAddress;
-      
-      const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+      const isAdmin = await convex.query(api.admins.isAdmin);
       if (!isAdmin) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       }
@@ -46,6 +46,7 @@ export async function POST(request: NextRequest) {
       clerkId,       // Clerk user ID (alternative lookup)
       plexUserId,    // Direct Plex user ID to remove
       embyUserId,    // Direct Emby user ID to disable
+      jellyfinUserId, // Direct Jellyfin user ID to disable
       action = "disable", // "disable" (can be re-enabled) or "delete" (permanent)
       reason,        // Why access is being revoked
     } = body;
@@ -53,16 +54,77 @@ export async function POST(request: NextRequest) {
     // Find the user in our database
     let user;
     if (userId) {
-      user = await convex.query(api.users.getById, { id: userId });
+      user = await convex.query(api.users.getById, { id: userId, ...convexAuth });
     } else if (clerkId) {
-      user = await convex.query(api.users.getByClerkId, { clerkId });
+      user = await convex.query(api.users.getByClerkId, { clerkId, ...convexAuth });
     }
 
     const results = {
       plex: { success: false, message: "", removed: false },
       emby: { success: false, message: "", disabled: false },
+      jellyfin: { success: false, message: "", disabled: false },
+      servers: [] as Array<{ name: string; type: MediaServerType; success: boolean; message: string }>,
     };
 
+    // Revoke on every server the user was provisioned to. Types covered here
+    // skip the single-server fallback below.
+    const handledTypes = new Set<MediaServerType>();
+    if (user?.serverAccounts && user.serverAccounts.length > 0 && !plexUserId && !embyUserId && !jellyfinUserId) {
+      const accountServerIds = user.serverAccounts.map((a) => a.serverId);
+      const allServers = [
+        ...await getMediaServers("plex", accountServerIds),
+        ...await getMediaServers("emby", accountServerIds),
+        ...await getMediaServers("jellyfin", accountServerIds),
+      ];
+
+      for (const account of user.serverAccounts) {
+        const server = allServers.find((s) => s.id === account.serverId);
+        if (!server) continue;
+        handledTypes.add(server.type);
+
+        try {
+          let result: { success: boolean; message: string };
+          if (server.type === "plex") {
+            const plexClient = new PlexClient({ url: server.url, token: server.credential });
+            let plexId = account.externalUserId;
+            if (!plexId) {
+              const lookupEmail = account.email || user.plexEmail;
+              const plexUser = lookupEmail ? await plexClient.findUserByEmail(lookupEmail) : null;
+              plexId = plexUser?.id;
+            }
+            result = plexId
+              ? await plexClient.removeUser(plexId)
+              : { success: false, message: "Plex user not found on server" };
+            if (result.success) results.plex.removed = true;
+          } else if (!account.externalUserId) {
+            result = { success: false, message: "No user ID stored for this server" };
+          } else {
+            const client = server.type === "emby"
+              ? new EmbyClient({ url: server.url, apiKey: server.credential })
+              : new JellyfinClient({ url: server.url, apiKey: server.credential });
+            result = action === "delete"
+              ? await client.deleteUser(account.externalUserId)
+              : await client.disableUser(account.externalUserId);
+            if (result.success) results[server.type].disabled = true;
+          }
+          results.servers.push({ name: server.name, type: server.type, ...result });
+        } catch (error) {
+          results.servers.push({
+            name: server.name,
+            type: server.type,
+            success: false,
+            message: error instanceof Error ? error.message : "Failed to revoke access",
+          });
+        }
+      }
+
+      for (const type of handledTypes) {
+        const typeResults = results.servers.filter((r) => r.type === type);
+        results[type].success = typeResults.some((r) => r.success);
+        results[type].message = typeResults.map((r) => `${r.name}: ${r.message}`).join("; ");
+      }
+    }
+
     // Get the Plex user ID to revoke
     const storedPlexUserId = user?.plexUserId;
     const storedPlexEmail = user?.plexEmail;
@@ -72,8 +134,11 @@ export async function POST(request: NextRequest) {
     // Get the Emby user ID to revoke
     const targetEmbyUserId = embyUserId || user?.embyUserId;
 
+    // Get the Jellyfin user ID to revoke
+    const targetJellyfinUserId = jellyfinUserId || user?.jellyfinUserId;
+
     // Revoke Plex access
-    if (targetPlexUserId || storedPlexEmail || storedPlexUsername) {
+    if (!handledTypes.has("plex") && (targetPlexUserId || storedPlexEmail || storedPlexUsername)) {
       const plexConfig = await getPlexConfig();
       
       if (plexConfig.url && plexConfig.token) {
@@ -111,7 +176,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Revoke Emby access
-    if (targetEmbyUserId) {
+    if (!handledTypes.has("emby") && targetEmbyUserId) {
       const embyConfig = await getEmbyConfig();
       
       if (embyConfig.url && embyConfig.apiKey) {
@@ -143,18 +208,43 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Revoke Jellyfin access
+    if (!handledTypes.has("jellyfin") && targetJellyfinUserId) {
+      const jellyfinConfig = await getJellyfinConfig();
+
+      if (jellyfinConfig.url && jellyfinConfig.apiKey) {
+        try {
+          const jellyfinClient = new JellyfinClient({ url: jellyfinConfig.url, apiKey: jellyfinConfig.apiKey });
+
+          const jellyfinResult = action === "delete"
+            ? await jellyfinClient.deleteUser(targetJellyfinUserId)
+            : await jellyfinClient.disableUser(targetJellyfinUserId);
+          results.jellyfin = {
+            success: jellyfinResult.success,
+            message: jellyfinResult.message,
+            disabled: jellyfinResult.success,
+          };
+        } catch (error) {
+          results.jellyfin.message = error instanceof Error ? error.message : "Failed to revoke Jellyfin access";
+        }
+      } else {
+        results.jellyfin.message = "Jellyfin not configured";
+      }
+    }
+
+    const anySuccess = results.plex.removed || results.emby.disabled || results.jellyfin.disabled;
+
     // Update user record in database
-    if (user && (results.plex.removed || results.emby.disabled)) {
+    if (user && anySuccess) {
       await convex.mutation(api.users.updateAccessStatus, {
         id: user._id,
         isActive: false,
         accessRevokedAt: Date.now(),
         accessRevokedReason: reason || "Payment failed",
+        ...convexAuth,
       });
     }
 
-    const anySuccess = results.plex.removed || results.emby.disabled;
-
     return NextResponse.json({
       success: anySuccess,
       results,
@@ -181,23 +271,23 @@ export async function PUT(request: NextRequest) {
     const internalKey = request.headers.get("x-internal-api-key");
     const isInternalCall = INTERNAL_API_KEY && internalKey === INTERNAL_API_KEY;
 
+    const convex = await getAuthedConvexClient();
+    const convexAuth = isInternalCall ? { internalKey: INTERNAL_API_KEY } : {};
+
     if (!isInternalCall) {
       const { userId: clerkId } = await auth();
       if (!clerkId) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
 
-      const clerkUser = await currentUser();
-      const email = clerkUser?.primaryEmailAddress?.emailAddress;
-      
-      const isAdmin = await convex.query(api.admins.isAdmin, { clerkId, email });
+      const isAdmin = await convex.query(api.admins.isAdmin);
       if (!isAdmin) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       }
     }
 
     // Get all users with expired payments
-    const expiredUsers = await convex.query(api.users.getExpiredPaymentUsers, {});
+    const expiredUsers = await convex.query(api.users.getExpiredPaymentUsers, convexAuth);
     
     const results = {
       processed: 0,
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
 import { createCheckoutSession } from "@/lib/stripe";
 
 export async function POST(request: NextRequest) {
@@ -10,19 +10,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const body = await request.json();
-    const { email, name, inviteCode, clerkId } = body;
-
+    // Always check out the signed-in user; the body only picks what to buy
+    const user = await currentUser();
+    const email = user?.primaryEmailAddress?.emailAddress;
     if (!email) {
-      return NextResponse.json({ error: "Email is required" }, { status: 400 });
+      return NextResponse.json({ error: "Your account has no email address" }, { status: 400 });
     }
 
+    const body = await request.json();
+    const { planId, iptvPlanId, addOn, macAddress, iptvRenewal } = body;
+
     // Create checkout session via Convex HTTP action
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
     
     const result = await createCheckoutSession({
-      userId: clerkId || userId,
+      userId,
       userEmail: email,
+      planId,
+      iptvPlanId,
+      addOn: !!addOn,
+      macAddress,
+      iptvRenewal: !!iptvRenewal,
       successUrl: `${baseUrl}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
       cancelUrl: `${baseUrl}/payment/canceled`,
     });
@@ -31,6 +39,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: result.error }, { status: 500 });
     }
 
+    if ("updated" in result) {
+      return NextResponse.json({ updated: true });
+    }
+
     return NextResponse.json({
       sessionId: result.sessionId,
       url: result.url,
@@ -1,7 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
 import { createPortalSession } from "@/lib/stripe";
 
+/**
+ * Open the signed-in user's billing portal. Payment emails link here
+ * because portal sessions expire minutes after they're created.
+ */
+export async function GET(request: NextRequest) {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  const accountUrl = `${baseUrl}/my-account`;
+
+  try {
+    const convex = await getAuthedConvexClient();
+    const status = await convex.query(api.payments.getPaymentStatus, {});
+    if (!status?.stripeCustomerId) {
+      return NextResponse.redirect(accountUrl);
+    }
+
+    const result = await createPortalSession({
+      customerId: status.stripeCustomerId,
+      returnUrl: accountUrl,
+    });
+    if ("error" in result) {
+      console.error("Billing portal error:", result.error);
+      return NextResponse.redirect(accountUrl);
+    }
+
+    return NextResponse.redirect(result.url);
+  } catch (error) {
+    console.error("Billing portal error:", error);
+    return NextResponse.redirect(accountUrl);
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { userId } = await auth();
@@ -10,20 +43,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const body = await request.json();
-    const { customerId } = body;
-
-    if (!customerId) {
+    // The customer comes from the caller's own record, never the request
+    const convex = await getAuthedConvexClient();
+    const status = await convex.query(api.payments.getPaymentStatus, {});
+    if (!status?.stripeCustomerId) {
       return NextResponse.json(
-        { error: "Customer ID is required" },
-        { status: 400 }
+        { error: "No billing account found" },
+        { status: 404 }
       );
     }
 
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
     
     const result = await createPortalSession({
-      customerId,
+      customerId: status.stripeCustomerId,
       returnUrl: `${baseUrl}/my-account`,
     });
 
@@ -1,24 +1,17 @@
 import { NextResponse } from "next/server";
-import { auth, currentUser } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
+import { auth } from "@clerk/nextjs/server";
 import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
 import { syncStripeSubscriptions } from "@/lib/stripe";
 
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
-
 export async function POST() {
   const { userId } = await auth();
   if (!userId) {
     return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
   }
 
-  const user = await currentUser();
-  const email = user?.emailAddresses?.[0]?.emailAddress;
-
-  const isAdmin = await convex.query(api.admins.isAdmin, {
-    clerkId: userId,
-    email,
-  });
+  const convex = await getAuthedConvexClient();
+  const isAdmin = await convex.query(api.admins.isAdmin);
 
   if (!isAdmin) {
     return NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 });
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { EmbyClient } from "@/lib/emby";
+import { resolveStoredSecret } from "@/lib/config";
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { url, apiKey } = body;
+    const { url } = body;
+    const apiKey = await resolveStoredSecret(body.apiKey, url, (c) => ({
+      url: c.emby.url,
+      secret: c.emby.apiKey,
+    }));
 
     if (!url || !apiKey) {
       return NextResponse.json(
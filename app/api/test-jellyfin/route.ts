@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JellyfinClient } from "@/lib/jellyfin";
+import { resolveStoredSecret } from "@/lib/config";
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { url } = body;
+    const apiKey = await resolveStoredSecret(body.apiKey, url, (c) => ({
+      url: c.jellyfin.url,
+      secret: c.jellyfin.apiKey,
+    }));
+
+    if (!url || !apiKey) {
+      return NextResponse.json(
+        { error: "Missing URL or API key" },
+        { status: 400 }
+      );
+    }
+
+    const client = new JellyfinClient({ url, apiKey });
+    const connected = await client.testConnection();
+
+    if (connected) {
+      const serverInfo = await client.getServerInfo();
+      return NextResponse.json({ 
+        success: true, 
+        serverName: serverInfo.ServerName,
+        version: serverInfo.Version
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, error: "Could not connect to Jellyfin server" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Connection failed" },
+      { status: 500 }
+    );
+  }
+}
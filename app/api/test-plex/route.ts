@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PlexClient } from "@/lib/plex";
+import { resolveStoredSecret } from "@/lib/config";
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { url, token } = body;
+    const { url } = body;
+    const token = await resolveStoredSecret(body.token, url, (c) => ({
+      url: c.plex.url,
+      secret: c.plex.token,
+    }));
 
     if (!url || !token) {
       return NextResponse.json(
@@ -1,10 +1,85 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifySmtpConnection } from "@/lib/notifications";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { api } from "@/convex/_generated/api";
+import { getAuthedConvexClient } from "@/lib/convex-server";
+import { sendTemplateEmail, verifySmtpConnection } from "@/lib/notifications";
+import { getSmtpConfig, resolveStoredSecret } from "@/lib/config";
+import {
+  isEmailTemplateId,
+  sampleVariables,
+  validateEmailTemplate,
+  type EmailTemplateContent,
+} from "@/lib/email-templates";
+
+/**
+ * Send an email template, as currently edited, to the signed-in admin with
+ * sample values, through the saved SMTP settings
+ */
+async function sendTestTemplate(template: any) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const convex = await getAuthedConvexClient();
+  const isAdmin = await convex.query(api.admins.isAdmin);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const templateId = String(template.templateId ?? "");
+  if (!isEmailTemplateId(templateId)) {
+    return NextResponse.json({ error: `Unknown email template: ${templateId}` }, { status: 400 });
+  }
+  const content: EmailTemplateContent = {
+    subject: String(template.subject ?? ""),
+    format: template.format === "html" ? "html" : "markdown",
+    body: String(template.body ?? ""),
+  };
+  const errors = validateEmailTemplate(templateId, content);
+  if (errors.length > 0) {
+    return NextResponse.json({ success: false, error: errors.join(". ") }, { status: 400 });
+  }
+
+  const user = await currentUser();
+  const to = user?.emailAddresses?.[0]?.emailAddress;
+  if (!to) {
+    return NextResponse.json({ error: "Your account has no email address" }, { status: 400 });
+  }
+
+  const config = await getSmtpConfig();
+  if (!config.host || !config.from) {
+    return NextResponse.json(
+      { success: false, error: "Save your SMTP settings before sending a test email" },
+      { status: 400 }
+    );
+  }
+
+  const result = await sendTemplateEmail(
+    config,
+    to,
+    templateId,
+    { ...content, subject: `[Test] ${content.subject}` },
+    sampleVariables(templateId)
+  );
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+  }
+  return NextResponse.json({ success: true, to });
+}
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { host, port, secure, user, pass } = body;
+    if (body.template) {
+      return await sendTestTemplate(body.template);
+    }
+
+    const { host, port, secure, user } = body;
+    const pass = await resolveStoredSecret(body.pass, host, (c) => ({
+      url: c.smtp.host,
+      secret: c.smtp.pass,
+    }));
 
     if (!host || !user) {
       return NextResponse.json(
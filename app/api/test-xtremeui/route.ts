@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { resolveStoredSecret, saveXtremePanelProfile } from "@/lib/config";
+import { discoverXtremePanel, type XtremePanelProfile } from "@/lib/iptv";
 
 function normalizeBaseUrl(url: string): string {
   return url.trim().replace(/\/$/, "");
@@ -165,11 +167,15 @@ function isAuthSuccessShape(json: any): boolean {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { url, apiKey, streamBaseUrl } = body as {
+    const { url, streamBaseUrl } = body as {
       url?: string;
       apiKey?: string;
       streamBaseUrl?: string;
     };
+    const apiKey = await resolveStoredSecret(body.apiKey, url, (c) => ({
+      url: c.xtremeUi.url,
+      secret: c.xtremeUi.apiKey,
+    }));
 
     if (!url) {
       return NextResponse.json({ error: "Missing Panel URL" }, { status: 400 });
@@ -214,7 +220,7 @@ export async function POST(req: NextRequest) {
       note?: string;
     }> = [];
 
-    let apiAuth: { ok: boolean; status?: number; message?: string; keyParam?: string } = {
+    let apiAuth: { ok: boolean; status?: number; message?: string; keyParam?: string; apiUrl?: string } = {
       ok: false,
     };
 
@@ -255,6 +261,7 @@ export async function POST(req: NextRequest) {
         apiAuth = {
           ok: true,
           status: res.status,
+          apiUrl,
           message: "Authenticated without API key parameter (token likely embedded in URL)",
         };
         break;
@@ -266,6 +273,7 @@ export async function POST(req: NextRequest) {
         apiAuth = {
           ok: true,
           status: res.status,
+          apiUrl,
           message: "Panel responded with JSON without API key parameter (treating as authenticated)",
         };
         break;
@@ -312,6 +320,7 @@ export async function POST(req: NextRequest) {
           apiAuth = {
             ok: true,
             status: res.status,
+            apiUrl,
             message: `Authenticated via ${keyParam}`,
             keyParam,
           };
@@ -329,6 +338,7 @@ export async function POST(req: NextRequest) {
           apiAuth = {
             ok: true,
             status: res.status,
+            apiUrl,
             message: `Panel responded with JSON via ${keyParam} (treating as authenticated)`,
             keyParam,
           };
@@ -369,17 +379,41 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 3) API auth succeeded — that's all we need for user management
-    //    (create, suspend, renew, revoke). Stream/playlist probing is not
-    //    required because the panel API handles user lifecycle; the panel
-    //    itself generates M3U/playlist URLs for provisioned users.
+    // 3) Probe which key param and sub-actions the panel answers to, so
+    //    line management calls use them directly instead of trying each one.
+    //    The panel generates M3U/playlist URLs itself, so streams aren't probed.
+    const warnings: string[] = [];
+    let profile: XtremePanelProfile | null = null;
+    let profileSaved = false;
+    try {
+      profile = await discoverXtremePanel({
+        apiUrl: apiAuth.apiUrl || panelUrl,
+        apiKey: apiKey || "",
+        streamBaseUrl: streamUrl,
+      });
+      profileSaved = await saveXtremePanelProfile(profile);
+      if (!profileSaved) {
+        warnings.push(
+          profile.apiUrl !== panelUrl
+            ? `The API answered at ${profile.apiUrl}. Set that as the Panel URL, save and retest.`
+            : "Save these settings and retest to store the panel profile."
+        );
+      }
+    } catch (e) {
+      warnings.push(`Probing the panel API failed: ${e instanceof Error ? e.message : "Request failed"}`);
+    }
+
     return NextResponse.json({
       success: true,
       panelStatus: panelProbe.status,
       apiAuth,
       streamBaseUrl: streamUrl,
-      notes:
-        "Panel is reachable and API authenticated. User management (create/suspend/renew) is ready.",
+      profile,
+      profileSaved,
+      warnings,
+      notes: profileSaved
+        ? "Panel is reachable, API authenticated and profiled. User management (create/suspend/renew) is ready."
+        : "Panel is reachable and API authenticated.",
     });
   } catch (error) {
     return NextResponse.json(
@@ -1,9 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
-
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+import { getAuthedConvexClient } from "@/lib/convex-server";
 
 export async function POST() {
   const { userId } = await auth();
@@ -23,11 +21,9 @@ export async function POST() {
     return NextResponse.json({ error: "Missing user email" }, { status: 400 });
   }
 
-  const id = await convex.mutation(api.users.ensure, {
-    clerkId: userId,
-    email,
-    username,
-  });
+  // Convex takes the Clerk id and email from the session token
+  const convex = await getAuthedConvexClient();
+  const id = await convex.mutation(api.users.ensure, { username });
 
   return NextResponse.json({ success: true, id });
 }
@@ -10,6 +10,9 @@ export const runtime = "nodejs";
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
+// Webhooks have no signed-in user; Convex accepts the shared internal key instead
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
 async function tryResolvePlexUserIdByEmail(email: string): Promise<string | undefined> {
   try {
     const plexConfig = await getPlexConfig();
@@ -170,6 +173,7 @@ export async function POST(req: NextRequest) {
 
   // Record donation + (if possible) immediately grant access for a matching user.
   await convex.mutation(api.donations.recordBuyMeACoffeeDonation, {
+    internalKey: INTERNAL_API_KEY,
     eventType,
     externalId,
     supporterEmail,
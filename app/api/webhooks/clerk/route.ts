@@ -4,15 +4,20 @@ import { WebhookEvent } from "@clerk/nextjs/server";
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
 import { EmbyClient } from "@/lib/emby";
+import { JellyfinClient } from "@/lib/jellyfin";
 import { PlexClient } from "@/lib/plex";
-import { getEmbyConfig, getPlexConfig } from "@/lib/config";
+import { getEmbyConfig, getJellyfinConfig, getPlexConfig } from "@/lib/config";
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
+// Webhooks have no signed-in user; Convex accepts the shared internal key instead
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
 async function tryLinkExistingAccounts(clerkId: string, email: string, username: string) {
   const results = {
     emby: { found: false, userId: null as string | null, username: null as string | null },
     plex: { found: false, userId: null as string | null, username: null as string | null, email: null as string | null },
+    jellyfin: { found: false, userId: null as string | null, username: null as string | null },
   };
 
   // Check Emby
@@ -69,18 +74,45 @@ async function tryLinkExistingAccounts(clerkId: string, email: string, username:
     console.error("Error checking Plex during signup:", error);
   }
 
+  // Check Jellyfin
+  try {
+    const jellyfinConfig = await getJellyfinConfig();
+    if (jellyfinConfig.url && jellyfinConfig.apiKey) {
+      const jellyfinClient = new JellyfinClient({ url: jellyfinConfig.url, apiKey: jellyfinConfig.apiKey });
+      
+      // Try to find by email or username
+      let jellyfinUser = await jellyfinClient.findUserByEmail(email);
+      if (!jellyfinUser) {
+        jellyfinUser = await jellyfinClient.findUserByUsername(username);
+      }
+      
+      if (jellyfinUser) {
+        results.jellyfin = {
+          found: true,
+          userId: jellyfinUser.Id,
+          username: jellyfinUser.Name,
+        };
+      }
+    }
+  } catch (error) {
+    console.error("Error checking Jellyfin during signup:", error);
+  }
+
   // If we found matches, create/update the user record
-  if (results.emby.found || results.plex.found) {
-    let serverAccess: "plex" | "emby" | "both" | "none" = "none";
+  if (results.emby.found || results.plex.found || results.jellyfin.found) {
+    let serverAccess: "plex" | "emby" | "both" | "jellyfin" | "none" = "none";
     if (results.emby.found && results.plex.found) {
       serverAccess = "both";
     } else if (results.emby.found) {
       serverAccess = "emby";
     } else if (results.plex.found) {
       serverAccess = "plex";
+    } else if (results.jellyfin.found) {
+      serverAccess = "jellyfin";
     }
 
     await convex.mutation(api.users.linkExistingAccount, {
+      internalKey: INTERNAL_API_KEY,
       clerkId,
       email,
       username,
@@ -90,6 +122,8 @@ async function tryLinkExistingAccounts(clerkId: string, email: string, username:
       plexUserId: results.plex.userId || undefined,
       plexUsername: results.plex.username || undefined,
       plexEmail: results.plex.email || undefined,
+      jellyfinUserId: results.jellyfin.userId || undefined,
+      jellyfinUsername: results.jellyfin.username || undefined,
     });
 
     console.log(`Auto-linked accounts for ${email}:`, results);
@@ -150,6 +184,7 @@ export async function POST(req: Request) {
         if (!linked) {
           // If not auto-linked, create a basic webhook record (optional)
           await convex.mutation(api.users.createFromWebhook, {
+            internalKey: INTERNAL_API_KEY,
             clerkId: id,
             email,
             username: displayName,
@@ -1,26 +1,22 @@
-import { auth, currentUser } from "@clerk/nextjs/server";
+import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
-
-const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+import { getAuthedConvexClient } from "@/lib/convex-server";
 
 export default async function HomePage() {
   const { userId } = await auth();
 
   // If logged in, check role and redirect appropriately
   if (userId) {
-    const user = await currentUser();
-    const email = user?.emailAddresses[0]?.emailAddress;
-    
+    const convex = await getAuthedConvexClient();
+
     // Check if there are any admins
-    const adminList = await convex.query(api.admins.list);
-    const hasAnyAdmins = adminList.length > 0;
+    const hasAnyAdmins = await convex.query(api.admins.hasAny);
 
     // Check if user is an admin (by database record OR email domain)
-    const isAdmin = await convex.query(api.admins.isAdmin, { clerkId: userId, email });
+    const isAdmin = await convex.query(api.admins.isAdmin);
 
     // If no admins exist, always redirect to admin setup for first-run initialization.
     if (!hasAnyAdmins) {
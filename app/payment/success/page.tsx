@@ -54,7 +54,7 @@ function PaymentSuccessContent() {
           ) : (
             <>
               <p className="text-muted-foreground">
-                Thank you for subscribing to Remote Computer Support! Your media
+                Thank you for subscribing! Your media
                 server access is now being set up.
               </p>
               {sessionId ? (
@@ -11,6 +11,10 @@ import {
   Tv,
   Film,
   HelpCircle,
+  MonitorPlay,
+  CreditCard,
+  ListChecks,
+  Webhook,
 } from "lucide-react";
 import { UserButton } from "@clerk/nextjs";
 
@@ -35,11 +39,31 @@ const navItems = [
     href: "/emby-users",
     icon: Tv,
   },
+  {
+    title: "Jellyfin Users",
+    href: "/jellyfin-users",
+    icon: MonitorPlay,
+  },
   {
     title: "Plex Users",
     href: "/plex-users",
     icon: Film,
   },
+  {
+    title: "Plans",
+    href: "/plans",
+    icon: CreditCard,
+  },
+  {
+    title: "Jobs",
+    href: "/jobs",
+    icon: ListChecks,
+  },
+  {
+    title: "Stripe Events",
+    href: "/stripe-events",
+    icon: Webhook,
+  },
   {
     title: "Settings",
     href: "/settings",
@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useMutation } from "convex/react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useMutation, useQuery } from "convex/react";
 import { useUser } from "@clerk/nextjs";
 import { api } from "@/convex/_generated/api";
 import { Button } from "@/components/ui/button";
@@ -24,7 +24,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Loader2, Copy, Check, FolderOpen, Tv } from "lucide-react";
+import { Plus, Loader2, Copy, Check, FolderOpen, Tv, Server } from "lucide-react";
 
 interface Library {
   id: string;
@@ -44,6 +44,7 @@ export function CreateInviteDialog() {
   const [open, setOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [createdCode, setCreatedCode] = useState<string | null>(null);
+  const [emailed, setEmailed] = useState(false);
   const [copied, setCopied] = useState(false);
 
   // Libraries state
@@ -56,38 +57,92 @@ export function CreateInviteDialog() {
   // Form state
   const [email, setEmail] = useState("");
   const [maxUses, setMaxUses] = useState("1");
-  const [serverType, setServerType] = useState<"plex" | "emby" | "both">("emby");
+  const [serverType, setServerType] = useState<"plex" | "emby" | "both" | "jellyfin">("emby");
   const [expiresIn, setExpiresIn] = useState("never");
   const [notes, setNotes] = useState("");
   const [requiresPayment, setRequiresPayment] = useState(true);
 
+  // Servers state
+  const [selectedServerIds, setSelectedServerIds] = useState<string[]>([]);
+
   const createInvite = useMutation(api.invites.create);
+  const servers = useQuery(api.servers.listEnabled, open ? {} : "skip");
+
+  // Servers matching the selected server type
+  const serverTypes = useMemo(() => (serverType === "both" ? ["plex", "emby"] : [serverType]), [serverType]);
+  const availableServers = (servers ?? []).filter((s) => serverTypes.includes(s.type));
+  const libraryType = serverType === "jellyfin" ? "jellyfin" : "emby";
+  // Joined so the fetch below only reruns when the servers themselves change
+  const libraryServerKey = availableServers
+    .filter((s) => s.type === libraryType && selectedServerIds.includes(s._id))
+    .map((s) => s._id)
+    .join(",");
 
-  // Fetch libraries when dialog opens or server type changes
+  // Preselect the default server of each type when the server type changes
   useEffect(() => {
-    if (open && (serverType === "emby" || serverType === "both")) {
-      fetchEmbyLibraries();
-    }
-  }, [open, serverType]);
+    if (!servers) return;
+    const defaults = serverTypes
+      .map((type) => {
+        const ofType = servers.filter((s) => s.type === type);
+        return (ofType.find((s) => s.isDefault) ?? ofType[0])?._id;
+      })
+      .filter((id): id is NonNullable<typeof id> => !!id);
+    setSelectedServerIds(defaults);
+  }, [servers, serverTypes]);
 
-  const fetchEmbyLibraries = async () => {
+  const fetchLibraries = useCallback(async (endpoint: string, serverIds: string[]) => {
     setLoadingLibraries(true);
     try {
-      const response = await fetch("/api/emby/libraries");
-      const data = await response.json();
-      if (data.success) {
-        setEmbyLibraries(data.libraries);
-        setEmbyFeatures(data.features || []);
-        // Select all libraries by default
-        setSelectedLibraries(data.libraries.map((l: Library) => l.id));
-        // Don't select features by default
-        setSelectedFeatures([]);
+      // No servers table yet: the endpoint falls back to the configured server
+      const targets = serverIds.length > 0 ? serverIds : [null];
+      const libraries: Library[] = [];
+      const features: Feature[] = [];
+
+      for (const serverId of targets) {
+        const response = await fetch(serverId ? `${endpoint}?serverId=${serverId}` : endpoint);
+        const data = await response.json();
+        if (!data.success) continue;
+
+        const serverName = servers?.find((s) => s._id === serverId)?.name;
+        for (const lib of data.libraries as Library[]) {
+          libraries.push(
+            targets.length > 1 && serverName ? { ...lib, name: `${serverName}: ${lib.name}` } : lib
+          );
+        }
+        for (const feature of (data.features || []) as Feature[]) {
+          if (!features.some((f) => f.id === feature.id)) features.push(feature);
+        }
       }
+
+      setEmbyLibraries(libraries);
+      setEmbyFeatures(features);
+      // Select all libraries by default
+      setSelectedLibraries(libraries.map((l) => l.id));
+      // Don't select features by default
+      setSelectedFeatures([]);
     } catch (error) {
       console.error("Failed to fetch libraries:", error);
     } finally {
       setLoadingLibraries(false);
     }
+  }, [servers]);
+
+  // Fetch libraries when dialog opens, server type or selected servers change
+  useEffect(() => {
+    const serverIds = libraryServerKey ? libraryServerKey.split(",") : [];
+    if (open && (serverType === "emby" || serverType === "both")) {
+      fetchLibraries("/api/emby/libraries", serverIds);
+    } else if (open && serverType === "jellyfin") {
+      fetchLibraries("/api/jellyfin/libraries", serverIds);
+    }
+  }, [open, serverType, libraryServerKey, fetchLibraries]);
+
+  const toggleServer = (id: string) => {
+    setSelectedServerIds(prev =>
+      prev.includes(id)
+        ? prev.filter(s => s !== id)
+        : [...prev, id]
+    );
   };
 
   const toggleLibrary = (id: string) => {
@@ -136,10 +191,15 @@ export function CreateInviteDialog() {
           : undefined,
         notes: notes || undefined,
         requiresPayment,
-        createdBy: user.id,
+        serverIds: availableServers.length > 0
+          ? availableServers
+              .filter((s) => selectedServerIds.includes(s._id))
+              .map((s) => s._id)
+          : undefined,
       });
 
       setCreatedCode(result.code);
+      setEmailed(result.emailed);
     } catch (error) {
       console.error("Failed to create invite:", error);
     } finally {
@@ -160,6 +220,7 @@ export function CreateInviteDialog() {
     // Reset form after dialog closes
     setTimeout(() => {
       setCreatedCode(null);
+      setEmailed(false);
       setEmail("");
       setMaxUses("1");
       setServerType("emby");
@@ -169,6 +230,7 @@ export function CreateInviteDialog() {
       setCopied(false);
       setSelectedLibraries([]);
       setSelectedFeatures([]);
+      setSelectedServerIds([]);
     }, 200);
   };
 
@@ -186,7 +248,9 @@ export function CreateInviteDialog() {
             <DialogHeader>
               <DialogTitle>Invite Created! 🎉</DialogTitle>
               <DialogDescription>
-                Share this link with the person you want to invite.
+                {emailed
+                  ? `An invite email is on its way to ${email}. You can follow its delivery on the invites page, or share the link yourself.`
+                  : "Share this link with the person you want to invite."}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
@@ -230,6 +294,9 @@ export function CreateInviteDialog() {
                   onChange={(e) => setEmail(e.target.value)}
                   placeholder="user@example.com"
                 />
+                <p className="text-xs text-muted-foreground">
+                  The invite is emailed to this address when it&apos;s created.
+                </p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -262,11 +329,41 @@ export function CreateInviteDialog() {
                       <SelectItem value="plex">Plex</SelectItem>
                       <SelectItem value="emby">Emby</SelectItem>
                       <SelectItem value="both">Both</SelectItem>
+                      <SelectItem value="jellyfin">Jellyfin</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
+              {/* Server Selection (only when more than one server is configured) */}
+              {availableServers.length > 1 && (
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Server className="h-4 w-4" />
+                    Servers
+                  </Label>
+                  <div className="space-y-1 border rounded-md p-2">
+                    {availableServers.map((server) => (
+                      <label
+                        key={server._id}
+                        className={`flex items-center gap-2 p-2 rounded-md cursor-pointer hover:bg-muted transition-colors ${
+                          selectedServerIds.includes(server._id) ? "bg-muted" : ""
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedServerIds.includes(server._id)}
+                          onChange={() => toggleServer(server._id)}
+                          className="rounded border-gray-300"
+                        />
+                        <span className="text-sm truncate">{server.name}</span>
+                        <span className="text-xs text-muted-foreground capitalize">{server.type}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="expires">Expires</Label>
                 <Select value={expiresIn} onValueChange={setExpiresIn}>
@@ -307,7 +404,7 @@ export function CreateInviteDialog() {
               </div>
 
               {/* Library Selection */}
-              {(serverType === "emby" || serverType === "both") && (
+              {(serverType === "emby" || serverType === "both" || serverType === "jellyfin") && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <Label className="flex items-center gap-2">
@@ -342,7 +439,7 @@ export function CreateInviteDialog() {
                     </div>
                   ) : embyLibraries.length === 0 ? (
                     <p className="text-sm text-muted-foreground py-2">
-                      No libraries found. Configure Emby in Settings.
+                      No libraries found. Configure {serverType === "jellyfin" ? "Jellyfin" : "Emby"} in Settings.
                     </p>
                   ) : (
                     <div className="space-y-3">
@@ -408,7 +505,10 @@ export function CreateInviteDialog() {
               <Button variant="outline" onClick={() => setOpen(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleCreate} disabled={isCreating}>
+              <Button
+                onClick={handleCreate}
+                disabled={isCreating || (availableServers.length > 1 && !availableServers.some((s) => selectedServerIds.includes(s._id)))}
+              >
                 {isCreating ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -0,0 +1,94 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDateTime } from "@/lib/utils";
+import { formatAmount } from "@/lib/stripe";
+
+const NEXT_STEP_LABELS: Record<string, string> = {
+  reminder: "Reminder email",
+  final: "Final notice",
+  revoke: "Revoke access",
+};
+
+export function DunningReport() {
+  const cases = useQuery(api.dunning.listActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Failed Payments</CardTitle>
+        <CardDescription>
+          Users being emailed about a failed payment. Paying the invoice stops the emails and the revocation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Failed Since</TableHead>
+              <TableHead>Emails</TableHead>
+              <TableHead>Next Step</TableHead>
+              <TableHead>Access Ends</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {cases?.map((c) => (
+              <TableRow key={c._id}>
+                <TableCell>
+                  <div className="font-medium">{c.username || "-"}</div>
+                  <div className="text-xs text-muted-foreground">{c.email}</div>
+                </TableCell>
+                <TableCell>
+                  {formatAmount(c.amount, c.currency)}
+                  {c.failures > 1 && (
+                    <span className="ml-2 text-xs text-muted-foreground">{c.failures} attempts</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{formatDateTime(c.startedAt)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span>{c.emailsSent} sent</span>
+                    {c.emailsFailed > 0 && <Badge variant="destructive">{c.emailsFailed} failed</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant={c.nextStep.kind === "revoke" ? "destructive" : "warning"}>
+                    {NEXT_STEP_LABELS[c.nextStep.kind]}
+                  </Badge>
+                  <div className="mt-1 text-xs text-muted-foreground">{formatDateTime(c.nextStep.at)}</div>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{formatDateTime(c.revokeAt)}</TableCell>
+              </TableRow>
+            ))}
+            {cases?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No failed payments are being chased.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw, Save, Send, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateTime } from "@/lib/utils";
+import {
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  sampleVariables,
+  validateEmailTemplate,
+  type EmailTemplateContent,
+  type EmailTemplateId,
+} from "@/lib/email-templates";
+
+export function EmailTemplates() {
+  const templates = useQuery(api.emailTemplates.list);
+  const saveTemplate = useMutation(api.emailTemplates.save);
+  const restoreTemplate = useMutation(api.emailTemplates.restore);
+
+  const [templateId, setTemplateId] = useState<EmailTemplateId>("invite");
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+
+  const history = useQuery(api.emailTemplates.getHistory, { templateId });
+  const current = templates?.find((t) => t.templateId === templateId);
+  const definition = EMAIL_TEMPLATES[templateId];
+
+  // Start from the saved content whenever another template or version is current
+  const currentKey = current ? `${templateId}:${current.version}` : null;
+  const [draftKey, setDraftKey] = useState<string | null>(null);
+  if (current && currentKey !== draftKey) {
+    setDraftKey(currentKey);
+    setDraft({ subject: current.subject, format: current.format, body: current.body });
+  }
+
+  const errors = useMemo(() => (draft ? validateEmailTemplate(templateId, draft) : []), [templateId, draft]);
+  const preview = useMemo(
+    () => (draft ? renderEmailTemplate(draft, sampleVariables(templateId)) : null),
+    [templateId, draft]
+  );
+
+  const isDirty =
+    !!draft &&
+    !!current &&
+    (draft.subject !== current.subject || draft.format !== current.format || draft.body !== current.body);
+
+  const updateDraft = (patch: Partial<EmailTemplateContent>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const result = await saveTemplate({ templateId, ...draft });
+      toast.success(`${definition.name} template saved as version ${result.version}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!draft) return;
+    setIsSendingTest(true);
+    try {
+      const res = await fetch("/api/test-smtp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template: { templateId, ...draft } }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || "Failed to send test email");
+      }
+      toast.success(`Test email sent to ${data.to}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send test email");
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Make version ${version} the current ${definition.name} template?`)) return;
+    try {
+      const result = await restoreTemplate({ templateId, version });
+      toast.success(`Version ${version} restored as version ${result.version}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restore template");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Templates</CardTitle>
+        <CardDescription>
+          Edit the emails the app sends. Use {"{{variable}}"} placeholders; the preview fills them with sample data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="emailTemplate">Template</Label>
+          <select
+            id="emailTemplate"
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value as EmailTemplateId)}
+          >
+            {EMAIL_TEMPLATE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {EMAIL_TEMPLATES[id].name}
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-muted-foreground">
+            {definition.description}
+            {current?.version
+              ? ` · version ${current.version}${current.updatedAt ? `, saved ${formatDateTime(current.updatedAt)}` : ""}`
+              : " · default"}
+          </p>
+        </div>
+
+        {!draft ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading templates…
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="emailTemplateSubject">Subject</Label>
+                <Input
+                  id="emailTemplateSubject"
+                  value={draft.subject}
+                  onChange={(e) => updateDraft({ subject: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="emailTemplateBody">Body</Label>
+                  <select
+                    className="rounded-md border bg-background px-2 py-1 text-sm"
+                    value={draft.format}
+                    onChange={(e) => updateDraft({ format: e.target.value as EmailTemplateContent["format"] })}
+                  >
+                    <option value="markdown">Markdown</option>
+                    <option value="html">HTML</option>
+                  </select>
+                </div>
+                <textarea
+                  id="emailTemplateBody"
+                  className="min-h-[320px] w-full rounded-md border bg-background px-3 py-2 font-mono text-sm"
+                  value={draft.body}
+                  onChange={(e) => updateDraft({ body: e.target.value })}
+                  spellCheck={false}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {draft.format === "markdown"
+                    ? "Supports # and ## headings, - lists, **bold**, *italic* and [links](url). A line that is only a link becomes a button."
+                    : "The HTML is placed inside the standard email layout. Variable values are escaped."}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Variables</Label>
+                <div className="space-y-1">
+                  {Object.entries(definition.variables).map(([name, variable]) => (
+                    <div key={name} className="flex items-start gap-2 text-sm">
+                      <code className="shrink-0 rounded bg-muted px-1.5 py-0.5 font-mono text-xs">{`{{${name}}}`}</code>
+                      <span className="text-muted-foreground">{variable.description}</span>
+                      {definition.required.includes(name) && <Badge variant="outline">Required</Badge>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="space-y-1 text-sm text-red-600">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleSave} disabled={isSaving || !isDirty || errors.length > 0}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save
+                </Button>
+                <Button variant="outline" onClick={handleSendTest} disabled={isSendingTest || errors.length > 0}>
+                  {isSendingTest ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Send test to me
+                </Button>
+                <Button variant="outline" onClick={() => setDraft({ ...definition.defaults })}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  Load default
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <div className="rounded-md border">
+                <div className="border-b px-3 py-2 text-sm">
+                  <span className="text-muted-foreground">Subject: </span>
+                  {preview?.subject}
+                </div>
+                <iframe
+                  title="Email preview"
+                  sandbox=""
+                  srcDoc={preview?.html}
+                  className="h-[520px] w-full rounded-b-md bg-white"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Version History</Label>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Saved By</TableHead>
+                <TableHead>Saved</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history?.map((entry) => (
+                <TableRow key={entry._id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      v{entry.version}
+                      {entry.version === current?.version && <Badge variant="success">Current</Badge>}
+                      {entry.restoredFrom && <Badge variant="outline">From v{entry.restoredFrom}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-[240px] truncate">{entry.subject}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.createdByEmail || "-"}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatDateTime(entry.createdAt)}</TableCell>
+                  <TableCell>
+                    {entry.version !== current?.version && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRestore(entry.version)}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {history?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    Not saved yet. The default template is in use.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
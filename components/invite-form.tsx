@@ -36,6 +36,12 @@ interface ProvisionResult {
       useConnect: boolean;
       connectInviteSent: boolean;
     };
+    jellyfin: {
+      success: boolean;
+      message: string;
+      userId: string | null;
+      password: string | null;
+    };
   };
   serverType: string;
   connectionInfo: {
@@ -48,11 +54,24 @@ interface ProvisionResult {
       password: string | null; 
       localInstructions: string | null;
     } | null;
+    jellyfin: {
+      serverUrl: string | null;
+      username: string | null;
+      password: string | null;
+      instructions: string | null;
+    } | null;
   };
 }
 
 type EmbyAuthMethod = "connect" | "local";
 
+interface GeneratedPasswords {
+  emby: string | null;
+  jellyfin: string | null;
+}
+
+const STATUS_POLL_INTERVAL_MS = 2000;
+
 export function InviteForm({ code }: InviteFormProps) {
   const router = useRouter();
   const { user, isLoaded: isUserLoaded } = useUser();
@@ -64,11 +83,17 @@ export function InviteForm({ code }: InviteFormProps) {
   const [embyConnectEmail, setEmbyConnectEmail] = useState("");
   const [embyUsername, setEmbyUsername] = useState("");
   const [embyPassword, setEmbyPassword] = useState("");
+
+  // Jellyfin local account
+  const [jellyfinUsername, setJellyfinUsername] = useState("");
+  const [jellyfinPassword, setJellyfinPassword] = useState("");
   
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ProvisionResult | null>(null);
+  const [provisioningId, setProvisioningId] = useState<string | null>(null);
+  const [generatedPasswords, setGeneratedPasswords] = useState<GeneratedPasswords | null>(null);
   const [embyConnectAvailable, setEmbyConnectAvailable] = useState<boolean | null>(null);
 
   // Check if invite is valid
@@ -79,9 +104,13 @@ export function InviteForm({ code }: InviteFormProps) {
     user?.id ? { clerkId: user.id } : "skip"
   );
 
+  // Paid invites grant whatever the user's plan includes
+  const access = useQuery(api.plans.getInviteAccess, user?.id ? { code } : "skip");
+  const serverType = access?.serverType ?? invite?.serverType;
+
   // Check if Emby Connect is available
   useEffect(() => {
-    if (invite?.serverType === "emby" || invite?.serverType === "both") {
+    if (serverType === "emby" || serverType === "both") {
       fetch("/api/provision")
         .then(res => res.json())
         .then(data => {
@@ -92,7 +121,88 @@ export function InviteForm({ code }: InviteFormProps) {
         })
         .catch(() => setEmbyConnectAvailable(false));
     }
-  }, [invite?.serverType]);
+  }, [serverType]);
+
+  // Resume a setup that is still running (or already finished) after a reload
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+
+    fetch(`/api/provision/status?code=${encodeURIComponent(code)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (cancelled || !data || data.status === "failed") return;
+        if (data.plexEmail) setPlexEmail(data.plexEmail);
+        if (data.embyConnectEmail) setEmbyConnectEmail(data.embyConnectEmail);
+        if (data.status === "completed") {
+          setResult(data);
+        } else {
+          setIsSubmitting(true);
+          setProvisioningId(data.provisioningId);
+        }
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, code]);
+
+  // Poll the provisioning jobs until they finish
+  useEffect(() => {
+    if (!provisioningId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/provision/status?id=${provisioningId}`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to check setup progress");
+        }
+
+        if (data.status === "pending") {
+          timer = setTimeout(poll, STATUS_POLL_INTERVAL_MS);
+          return;
+        }
+
+        if (data.status === "completed") {
+          // Generated passwords are only known to this page, never stored
+          const info = data.connectionInfo as ProvisionResult["connectionInfo"];
+          setResult({
+            ...data,
+            connectionInfo: {
+              ...info,
+              emby: info.emby && { ...info.emby, password: generatedPasswords?.emby ?? null },
+              jellyfin: info.jellyfin && { ...info.jellyfin, password: generatedPasswords?.jellyfin ?? null },
+            },
+          });
+        } else {
+          setError(data.error || "Failed to set up access");
+        }
+        setProvisioningId(null);
+        setIsSubmitting(false);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to check setup progress");
+        setProvisioningId(null);
+        setIsSubmitting(false);
+      }
+    };
+
+    timer = setTimeout(poll, STATUS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [provisioningId, generatedPasswords]);
+
+  const hasPlex = serverType === "plex" || serverType === "both";
+  const hasEmby = serverType === "emby" || serverType === "both";
+  const hasJellyfin = serverType === "jellyfin";
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -113,13 +223,16 @@ export function InviteForm({ code }: InviteFormProps) {
         body: JSON.stringify({
           code,
           username,
-          plexEmail: invite.serverType !== "emby" ? plexEmail : undefined,
+          plexEmail: hasPlex ? plexEmail : undefined,
           // Emby Connect
-          useEmbyConnect: invite.serverType !== "plex" && embyAuthMethod === "connect",
-          embyConnectEmail: invite.serverType !== "plex" && embyAuthMethod === "connect" ? embyConnectEmail : undefined,
+          useEmbyConnect: hasEmby && embyAuthMethod === "connect",
+          embyConnectEmail: hasEmby && embyAuthMethod === "connect" ? embyConnectEmail : undefined,
           // Emby Local
-          embyUsername: invite.serverType !== "plex" && embyAuthMethod === "local" ? embyUsername : undefined,
-          embyPassword: invite.serverType !== "plex" && embyAuthMethod === "local" && embyPassword ? embyPassword : undefined,
+          embyUsername: hasEmby && embyAuthMethod === "local" ? embyUsername : undefined,
+          embyPassword: hasEmby && embyAuthMethod === "local" && embyPassword ? embyPassword : undefined,
+          // Jellyfin Local
+          jellyfinUsername: hasJellyfin ? jellyfinUsername : undefined,
+          jellyfinPassword: hasJellyfin && jellyfinPassword ? jellyfinPassword : undefined,
         }),
       });
 
@@ -129,14 +242,11 @@ export function InviteForm({ code }: InviteFormProps) {
         throw new Error(data.error || "Failed to provision access");
       }
 
-      if (data.success) {
-        setResult(data);
-      } else {
-        setError(data.error || "Failed to set up access");
-      }
+      // Accounts are created in the background; keep the spinner up while polling
+      setGeneratedPasswords(data.generatedPasswords);
+      setProvisioningId(data.provisioningId);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to redeem invite");
-    } finally {
       setIsSubmitting(false);
     }
   };
@@ -319,6 +429,92 @@ export function InviteForm({ code }: InviteFormProps) {
               </ol>
             </div>
           )}
+
+          {/* Jellyfin Instructions */}
+          {result.connectionInfo.jellyfin && (
+            <div className="space-y-3 p-4 rounded-lg border bg-purple-50 dark:bg-purple-950/20">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Server className="h-5 w-5" /> Jellyfin
+              </h3>
+
+              <div className="space-y-2">
+                {result.connectionInfo.jellyfin.serverUrl && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Server URL:</span>
+                    <div className="flex items-center gap-2">
+                      <code className="text-xs bg-muted px-2 py-1 rounded max-w-[180px] truncate">
+                        {result.connectionInfo.jellyfin.serverUrl}
+                      </code>
+                      <Button 
+                        size="icon" 
+                        variant="ghost" 
+                        className="h-6 w-6"
+                        onClick={() => copyToClipboard(result.connectionInfo.jellyfin!.serverUrl!, "Server URL")}
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {result.connectionInfo.jellyfin.username && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Username:</span>
+                    <div className="flex items-center gap-2">
+                      <code className="text-xs bg-muted px-2 py-1 rounded">
+                        {result.connectionInfo.jellyfin.username}
+                      </code>
+                      <Button 
+                        size="icon" 
+                        variant="ghost" 
+                        className="h-6 w-6"
+                        onClick={() => copyToClipboard(result.connectionInfo.jellyfin!.username!, "Username")}
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {result.connectionInfo.jellyfin.password && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Password:</span>
+                    <div className="flex items-center gap-2">
+                      <code className="text-xs bg-muted px-2 py-1 rounded">
+                        {showPassword ? result.connectionInfo.jellyfin.password : "••••••••"}
+                      </code>
+                      <Button 
+                        size="icon" 
+                        variant="ghost" 
+                        className="h-6 w-6"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                      </Button>
+                      <Button 
+                        size="icon" 
+                        variant="ghost" 
+                        className="h-6 w-6"
+                        onClick={() => copyToClipboard(result.connectionInfo.jellyfin!.password!, "Password")}
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {result.connectionInfo.jellyfin.instructions}
+              </p>
+
+              <ol className="text-sm space-y-1 list-decimal list-inside text-muted-foreground">
+                <li>Download the Jellyfin app on your device</li>
+                <li>Add the server using the URL above</li>
+                <li>Sign in with your username and password</li>
+              </ol>
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex flex-col gap-2">
           <Button className="w-full" onClick={() => router.push("/my-account")}>
@@ -380,10 +576,11 @@ export function InviteForm({ code }: InviteFormProps) {
   }
 
   // Valid invite - show form
+  const grantedType = serverType ?? invite.serverType;
   const serverLabel =
-    invite.serverType === "both"
+    grantedType === "both"
       ? "Plex & Emby"
-      : invite.serverType.charAt(0).toUpperCase() + invite.serverType.slice(1);
+      : grantedType.charAt(0).toUpperCase() + grantedType.slice(1);
 
   return (
     <Card className="w-full max-w-md mx-auto">
@@ -423,7 +620,7 @@ export function InviteForm({ code }: InviteFormProps) {
             />
           </div>
 
-          {(invite.serverType === "plex" || invite.serverType === "both") && (
+          {hasPlex && (
             <div className="space-y-2">
               <Label htmlFor="plexEmail">Plex Email</Label>
               <Input
@@ -432,7 +629,7 @@ export function InviteForm({ code }: InviteFormProps) {
                 value={plexEmail}
                 onChange={(e) => setPlexEmail(e.target.value)}
                 placeholder="Your Plex account email"
-                required={invite.serverType === "plex" || invite.serverType === "both"}
+                required={hasPlex}
               />
               <p className="text-xs text-muted-foreground">
                 The email address for your Plex account. You&apos;ll receive an invite there.
@@ -441,7 +638,7 @@ export function InviteForm({ code }: InviteFormProps) {
             </div>
           )}
 
-          {(invite.serverType === "emby" || invite.serverType === "both") && (
+          {hasEmby && (
             <div className="space-y-4">
               {/* Auth Method Toggle */}
               {embyConnectAvailable !== false && (
@@ -525,6 +722,37 @@ export function InviteForm({ code }: InviteFormProps) {
               )}
             </div>
           )}
+
+          {hasJellyfin && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="jellyfinUsername">Jellyfin Username</Label>
+                <Input
+                  id="jellyfinUsername"
+                  value={jellyfinUsername}
+                  onChange={(e) => setJellyfinUsername(e.target.value)}
+                  placeholder="Choose your username"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  This will be your username for this Jellyfin server.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="jellyfinPassword">Password (Optional)</Label>
+                <Input
+                  id="jellyfinPassword"
+                  type="password"
+                  value={jellyfinPassword}
+                  onChange={(e) => setJellyfinPassword(e.target.value)}
+                  placeholder="Leave blank to auto-generate"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Choose your password or we&apos;ll generate a secure one for you.
+                </p>
+              </div>
+            </>
+          )}
         </CardContent>
         <CardFooter>
           <Button type="submit" className="w-full" disabled={isSubmitting}>
@@ -0,0 +1,149 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Search, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { IptvBrowsableChannel, IptvChannelCategory } from "@/lib/iptv";
+
+// Large panels carry thousands of channels; past this, ask for a narrower search
+const MAX_ROWS = 200;
+
+interface IptvChannelListProps {
+  categories: IptvChannelCategory[];
+  channels: IptvBrowsableChannel[];
+  // Starred stream ids; the star column only shows when favorites are given
+  favorites?: Set<string>;
+  onToggleFavorite?: (channel: IptvBrowsableChannel) => void;
+}
+
+export function IptvChannelList({ categories, channels, favorites, onToggleFavorite }: IptvChannelListProps) {
+  const [search, setSearch] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return channels
+      .filter((c) => !categoryId || c.categoryId === categoryId)
+      .filter((c) => !favoritesOnly || favorites?.has(c.streamId))
+      .filter(
+        (c) =>
+          !term ||
+          c.name.toLowerCase().includes(term) ||
+          c.categoryName?.toLowerCase().includes(term) ||
+          c.bouquets.some((b) => b.toLowerCase().includes(term))
+      )
+      .sort((a, b) => Number(!!favorites?.has(b.streamId)) - Number(!!favorites?.has(a.streamId)));
+  }, [channels, search, categoryId, favoritesOnly, favorites]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search channels, categories or bouquets"
+          />
+        </div>
+        <select
+          className="rounded-md border bg-background px-3 py-2 text-sm md:w-[220px]"
+          value={categoryId}
+          onChange={(e) => setCategoryId(e.target.value)}
+        >
+          <option value="">All categories ({channels.length})</option>
+          {categories.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        {favorites && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="favoritesOnly"
+              checked={favoritesOnly}
+              onCheckedChange={(checked) => setFavoritesOnly(checked === true)}
+            />
+            <Label htmlFor="favoritesOnly">Favorites only</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-[480px] overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {favorites && <TableHead className="w-[48px]"></TableHead>}
+              <TableHead>Channel</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Bouquets</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.slice(0, MAX_ROWS).map((channel) => {
+              const starred = !!favorites?.has(channel.streamId);
+              return (
+                <TableRow key={channel.streamId}>
+                  {favorites && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onToggleFavorite?.(channel)}
+                        title={starred ? "Remove from favorites" : "Add to favorites"}
+                      >
+                        <Star className={cn("h-4 w-4", starred && "fill-yellow-400 text-yellow-500")} />
+                      </Button>
+                    </TableCell>
+                  )}
+                  <TableCell className="font-medium">{channel.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{channel.categoryName || "-"}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {channel.bouquets.length
+                        ? channel.bouquets.map((b) => (
+                            <Badge key={b} variant="outline">
+                              {b}
+                            </Badge>
+                          ))
+                        : <span className="text-muted-foreground">-</span>}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {filtered.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={favorites ? 4 : 3} className="text-center text-muted-foreground py-8">
+                  No channels match.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {filtered.length > MAX_ROWS && (
+        <p className="text-sm text-muted-foreground">
+          Showing {MAX_ROWS} of {filtered.length} channels. Search or pick a category to narrow them down.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -16,9 +16,7 @@ export function Navbar() {
   // Check if user is admin
   const isAdmin = useQuery(
     api.admins.isAdmin,
-    user?.id
-      ? { clerkId: user.id, email: user.primaryEmailAddress?.emailAddress }
-      : "skip"
+    user?.id ? {} : "skip"
   );
 
   // Don't show navbar on sign-in/sign-up pages
@@ -32,6 +30,8 @@ export function Navbar() {
     pathname?.startsWith("/invites") ||
     pathname?.startsWith("/users") ||
     pathname?.startsWith("/settings") ||
+    pathname?.startsWith("/plans") ||
+    pathname?.startsWith("/jobs") ||
     pathname?.startsWith("/emby-users") ||
     pathname?.startsWith("/plex-users")
   ) {
@@ -2,11 +2,22 @@
 
 import { useState } from "react";
 import { useUser } from "@clerk/nextjs";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatPlanPrice } from "@/lib/stripe";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { CreditCard, Loader2, CheckCircle, AlertCircle, ExternalLink } from "lucide-react";
 
+const SERVER_TYPE_LABELS: Record<string, string> = {
+  plex: "Plex",
+  emby: "Emby",
+  both: "Plex and Emby",
+  jellyfin: "Jellyfin",
+};
+
 interface PaymentRequiredProps {
   paymentStatus?: string;
   stripeCustomerId?: string;
@@ -21,6 +32,9 @@ export function PaymentRequired({
   const { user } = useUser();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const plans = useQuery(api.plans.listActive);
+  const [selectedPlanId, setSelectedPlanId] = useState<Id<"plans"> | null>(null);
+  const selectedPlan = plans?.find((p) => p._id === selectedPlanId) ?? plans?.[0];
 
   const handleSubscribe = async () => {
     if (!user) return;
@@ -33,9 +47,7 @@ export function PaymentRequired({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          email: user.primaryEmailAddress?.emailAddress,
-          name: user.fullName || user.username,
-          clerkId: user.id,
+          planId: selectedPlan?._id,
         }),
       });
 
@@ -65,11 +77,7 @@ export function PaymentRequired({
     setError(null);
 
     try {
-      const response = await fetch("/api/stripe/portal", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ customerId: stripeCustomerId }),
-      });
+      const response = await fetch("/api/stripe/portal", { method: "POST" });
 
       const data = await response.json();
 
@@ -190,32 +198,58 @@ export function PaymentRequired({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="bg-muted rounded-lg p-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="font-semibold">Remote Computer Support</p>
-              <p className="text-sm text-muted-foreground">Monthly subscription</p>
-            </div>
-            <div className="text-right">
-              <p className="text-2xl font-bold">$30</p>
-              <p className="text-sm text-muted-foreground">/month</p>
-            </div>
+        {plans === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
           </div>
-          <ul className="mt-4 space-y-2 text-sm">
-            <li className="flex items-center gap-2">
-              <CheckCircle className="h-4 w-4 text-green-500" />
-              Full access to media libraries
-            </li>
-            <li className="flex items-center gap-2">
-              <CheckCircle className="h-4 w-4 text-green-500" />
-              Stream from anywhere
-            </li>
-            <li className="flex items-center gap-2">
-              <CheckCircle className="h-4 w-4 text-green-500" />
-              Cancel anytime
-            </li>
-          </ul>
-        </div>
+        ) : plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No subscription plans are available yet. Please contact the server admin.
+          </p>
+        ) : (
+          plans.map((plan) => (
+            <button
+              key={plan._id}
+              type="button"
+              onClick={() => setSelectedPlanId(plan._id)}
+              className={`w-full text-left bg-muted rounded-lg p-4 border-2 transition-colors ${
+                selectedPlan?._id === plan._id ? "border-primary" : "border-transparent"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-semibold">{plan.name}</p>
+                  {plan.description && (
+                    <p className="text-sm text-muted-foreground">{plan.description}</p>
+                  )}
+                </div>
+                <p className="text-lg font-bold whitespace-nowrap">{formatPlanPrice(plan)}</p>
+              </div>
+              <ul className="mt-4 space-y-2 text-sm">
+                <li className="flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                  {SERVER_TYPE_LABELS[plan.serverType]} access
+                </li>
+                {plan.maxStreams && (
+                  <li className="flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                    Up to {plan.maxStreams} simultaneous {plan.maxStreams === 1 ? "stream" : "streams"}
+                  </li>
+                )}
+                {plan.includesIptv && (
+                  <li className="flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                    Live TV (IPTV) included
+                  </li>
+                )}
+                <li className="flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                  Cancel anytime
+                </li>
+              </ul>
+            </button>
+          ))
+        )}
 
         {error && (
           <p className="text-sm text-destructive">{error}</p>
@@ -223,7 +257,7 @@ export function PaymentRequired({
 
         <Button 
           onClick={handleSubscribe} 
-          disabled={isLoading}
+          disabled={isLoading || !selectedPlan}
           className="w-full"
           size="lg"
         >
@@ -235,7 +269,7 @@ export function PaymentRequired({
           ) : (
             <>
               <CreditCard className="h-4 w-4 mr-2" />
-              Subscribe Now - $30/month
+              Subscribe Now{selectedPlan ? ` - ${formatPlanPrice(selectedPlan)}` : ""}
             </>
           )}
         </Button>
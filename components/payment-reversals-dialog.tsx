@@ -0,0 +1,97 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDateTime } from "@/lib/utils";
+import { formatAmount } from "@/lib/stripe";
+
+const KIND_LABELS: Record<string, string> = {
+  refund: "Refund",
+  dispute: "Dispute",
+  pause: "Paused",
+};
+
+const POLICY_LABELS = {
+  revoke: { label: "Access revoked", variant: "destructive" },
+  review: { label: "Flagged for review", variant: "warning" },
+  none: { label: "No action", variant: "secondary" },
+} as const;
+
+interface PaymentReversalsDialogProps {
+  user: { _id: Id<"users">; username: string; email: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A user's refunds, disputes and paused subscriptions, and what each did to their access
+export function PaymentReversalsDialog({ user, onOpenChange }: PaymentReversalsDialogProps) {
+  const history = useQuery(api.reversals.history, user ? { userId: user._id } : "skip");
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refunds and Disputes</DialogTitle>
+          <DialogDescription>{user ? `${user.username} · ${user.email}` : ""}</DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Date</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history?.map((row) => (
+              <TableRow key={row._id}>
+                <TableCell>
+                  <div className="font-medium">{KIND_LABELS[row.kind!]}</div>
+                  {row.chargeId && <div className="font-mono text-xs text-muted-foreground">{row.chargeId}</div>}
+                </TableCell>
+                <TableCell>{row.kind === "pause" ? "-" : formatAmount(row.amount, row.currency)}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{row.status.replace(/_/g, " ")}</Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{row.reason?.replace(/_/g, " ") || "-"}</TableCell>
+                <TableCell>
+                  {row.policy && (
+                    <Badge variant={POLICY_LABELS[row.policy].variant}>{POLICY_LABELS[row.policy].label}</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{formatDateTime(row.createdAt)}</TableCell>
+              </TableRow>
+            ))}
+            {(!history || history.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  {history ? "No refunds, disputes or pauses." : "Loading..."}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
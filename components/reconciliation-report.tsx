@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RefreshCw, Wrench, X } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateTime } from "@/lib/utils";
+
+const KIND_LABELS: Record<string, string> = {
+  orphan: "Orphan account",
+  missing_share: "Missing share",
+  wrong_libraries: "Wrong libraries",
+  disabled_but_paid: "Disabled but paid",
+  revoked_with_access: "Revoked with access",
+};
+
+const FIX_LABELS: Record<string, string> = {
+  orphan: "Remove",
+  missing_share: "Share",
+  wrong_libraries: "Reset",
+  disabled_but_paid: "Enable",
+  revoked_with_access: "Remove",
+};
+
+export function ReconciliationReport() {
+  const latest = useQuery(api.reconciliation.getLatestReport);
+  const run = useMutation(api.reconciliation.run);
+  const fixIssue = useMutation(api.reconciliation.fixIssue);
+  const dismissIssue = useMutation(api.reconciliation.dismissIssue);
+  const [busy, setBusy] = useState<Id<"reconciliationIssues"> | null>(null);
+
+  const report = latest?.report;
+  const issues = latest?.issues.filter((issue) => issue.status !== "dismissed") ?? [];
+  const running = report?.status === "running";
+
+  const handleRun = async () => {
+    try {
+      await run({});
+      toast.success("Reconciliation started");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start reconciliation");
+    }
+  };
+
+  const handleFix = async (issueId: Id<"reconciliationIssues">) => {
+    setBusy(issueId);
+    try {
+      await fixIssue({ issueId });
+      toast.success("Fix queued");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to queue fix");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDismiss = async (issueId: Id<"reconciliationIssues">) => {
+    setBusy(issueId);
+    try {
+      await dismissIssue({ issueId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to dismiss issue");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Server Reconciliation</CardTitle>
+          <CardDescription>
+            {report
+              ? `Last run ${formatDateTime(report.startedAt)} (${report.trigger}) · ${report.status}`
+              : "Compares Plex, Emby and Jellyfin accounts with the users table. Runs daily."}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRun} disabled={running}>
+          {running ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-1 h-3 w-3" />
+          )}
+          Run now
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {report?.error && <p className="text-sm text-destructive">{report.error}</p>}
+        {report?.servers
+          .filter((server) => server.error)
+          .map((server) => (
+            <p key={`${server.serverType}:${server.serverId ?? "default"}`} className="text-sm text-destructive">
+              {server.serverName} ({server.serverType}) was skipped: {server.error}
+            </p>
+          ))}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Issue</TableHead>
+              <TableHead>Server</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[180px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {issues.map((issue) => (
+              <TableRow key={issue._id}>
+                <TableCell>
+                  <Badge variant="outline">{KIND_LABELS[issue.kind]}</Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{issue.serverName}</TableCell>
+                <TableCell>
+                  <p className="max-w-[360px] text-sm">{issue.message}</p>
+                  {issue.resolution && (
+                    <p className="mt-1 max-w-[360px] truncate text-xs text-muted-foreground" title={issue.resolution}>
+                      {issue.resolution}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      issue.status === "fixed" ? "default" : issue.status === "failed" ? "destructive" : "secondary"
+                    }
+                  >
+                    {issue.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {(issue.status === "open" || issue.status === "failed") && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleFix(issue._id)}
+                        disabled={busy === issue._id}
+                      >
+                        {busy === issue._id ? (
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        ) : (
+                          <Wrench className="mr-1 h-3 w-3" />
+                        )}
+                        {FIX_LABELS[issue.kind]}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDismiss(issue._id)}
+                        disabled={busy === issue._id}
+                        title="Dismiss"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                  {issue.status === "fixing" && (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {issues.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  {running ? "Checking servers..." : "No discrepancies found"}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
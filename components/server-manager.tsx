@@ -0,0 +1,366 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Pencil, Trash2, Star, CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+type ServerType = "plex" | "emby" | "jellyfin";
+
+const TYPE_LABELS: Record<ServerType, string> = {
+  plex: "Plex",
+  emby: "Emby",
+  jellyfin: "Jellyfin",
+};
+
+const TEST_ENDPOINTS: Record<ServerType, string> = {
+  plex: "/api/test-plex",
+  emby: "/api/test-emby",
+  jellyfin: "/api/test-jellyfin",
+};
+
+export function ServerManager() {
+  const servers = useQuery(api.servers.list, {});
+  const createServer = useMutation(api.servers.create);
+  const updateServer = useMutation(api.servers.update);
+  const removeServer = useMutation(api.servers.remove);
+
+  // Add/edit dialog state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<Id<"servers"> | null>(null);
+  const [type, setType] = useState<ServerType>("emby");
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [credential, setCredential] = useState("");
+  const [enabled, setEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testStatus, setTestStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
+  const [serverToDelete, setServerToDelete] = useState<Id<"servers"> | null>(null);
+
+  const openAddDialog = () => {
+    setEditingId(null);
+    setType("emby");
+    setName("");
+    setUrl("");
+    setCredential("");
+    setEnabled(true);
+    setTestStatus("idle");
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (server: NonNullable<typeof servers>[number]) => {
+    setEditingId(server._id);
+    setType(server.type);
+    setName(server.name);
+    setUrl(server.url);
+    setCredential("");
+    setEnabled(server.enabled);
+    setTestStatus("idle");
+    setDialogOpen(true);
+  };
+
+  const testConnection = async () => {
+    setTestStatus("testing");
+    try {
+      const response = await fetch(TEST_ENDPOINTS[type], {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          type === "plex" ? { url, token: credential } : { url, apiKey: credential }
+        ),
+      });
+      const data = await response.json();
+      setTestStatus(data.success ? "success" : "error");
+    } catch {
+      setTestStatus("error");
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await updateServer({
+          id: editingId,
+          name,
+          url,
+          credential: credential || undefined,
+          enabled,
+        });
+        toast.success("Server updated");
+      } else {
+        await createServer({
+          type,
+          name,
+          url,
+          credential,
+          enabled,
+        });
+        toast.success("Server added");
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save server");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (id: Id<"servers">) => {
+    try {
+      await updateServer({ id, isDefault: true });
+      toast.success("Default server updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update server");
+    }
+  };
+
+  const handleToggleEnabled = async (id: Id<"servers">, value: boolean) => {
+    try {
+      await updateServer({ id, enabled: value });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update server");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!serverToDelete) return;
+    try {
+      await removeServer({ id: serverToDelete });
+      toast.success("Server removed");
+      setServerToDelete(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove server");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Media Servers</CardTitle>
+            <CardDescription>
+              Add more than one Plex, Emby or Jellyfin server. When no servers are listed here,
+              the connection on each server tab is used.
+            </CardDescription>
+          </div>
+          <Button onClick={openAddDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Server
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="w-[140px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {servers?.map((server) => (
+              <TableRow key={server._id}>
+                <TableCell className="font-medium">
+                  {server.name}
+                  {server.isDefault && (
+                    <Badge variant="secondary" className="ml-2">
+                      Default
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>{TYPE_LABELS[server.type]}</TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">{server.url}</TableCell>
+                <TableCell>
+                  <Checkbox
+                    checked={server.enabled}
+                    onCheckedChange={(v) => handleToggleEnabled(server._id, v === true)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    {!server.isDefault && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Make default"
+                        onClick={() => handleMakeDefault(server._id)}
+                      >
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openEditDialog(server)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setServerToDelete(server._id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {(!servers || servers.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No servers added yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Server" : "Add Server"}</DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? "Leave the credential blank to keep the current one."
+                : "Connect another media server."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(v) => setType(v as ServerType)}
+                disabled={!!editingId}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="plex">Plex</SelectItem>
+                  <SelectItem value="emby">Emby</SelectItem>
+                  <SelectItem value="jellyfin">Jellyfin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serverName">Name</Label>
+              <Input
+                id="serverName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Living Room"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serverUrl">Server URL</Label>
+              <Input
+                id="serverUrl"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder={type === "plex" ? "http://localhost:32400" : "http://localhost:8096"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serverCredential">{type === "plex" ? "Plex Token" : "API Key"}</Label>
+              <Input
+                id="serverCredential"
+                type="password"
+                value={credential}
+                onChange={(e) => setCredential(e.target.value)}
+                placeholder={editingId ? "Unchanged" : ""}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="serverEnabled"
+                checked={enabled}
+                onCheckedChange={(v) => setEnabled(v === true)}
+              />
+              <Label htmlFor="serverEnabled">Enabled</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={testConnection}
+              disabled={!url || !credential || testStatus === "testing"}
+            >
+              {testStatus === "testing" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : testStatus === "success" ? (
+                <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+              ) : testStatus === "error" ? (
+                <XCircle className="mr-2 h-4 w-4 text-red-500" />
+              ) : null}
+              Test Connection
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !name || !url || (!editingId && !credential)}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!serverToDelete} onOpenChange={(open) => !open && setServerToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Server</DialogTitle>
+            <DialogDescription>
+              Users provisioned on this server keep their accounts, but this app will no longer
+              manage them there.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setServerToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Remove Server
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDateTime } from "@/lib/utils";
+
+const ACTION_VARIANTS = {
+  recorded: "secondary",
+  stopped: "warning",
+  suspended: "destructive",
+} as const;
+
+export function StreamViolations() {
+  const violations = useQuery(api.streams.listViolations, { limit: 50 });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stream Limit Violations</CardTitle>
+        <CardDescription>
+          Users who streamed on more devices than their plan (or override) allows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Streams</TableHead>
+              <TableHead>Sessions</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Time</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {violations?.map((violation) => (
+              <TableRow key={violation._id}>
+                <TableCell>
+                  <div className="font-medium">{violation.username ?? "Deleted user"}</div>
+                  <div className="text-sm text-muted-foreground">{violation.email}</div>
+                </TableCell>
+                <TableCell>
+                  {violation.streamCount} / {violation.limit}
+                </TableCell>
+                <TableCell>
+                  <div className="space-y-1">
+                    {violation.streams.map((stream) => (
+                      <p
+                        key={`${stream.serverId ?? stream.serverType}:${stream.sessionId}`}
+                        className="max-w-[320px] truncate text-xs text-muted-foreground"
+                        title={stream.title}
+                      >
+                        {stream.serverName}: {stream.device ?? "Unknown device"}
+                        {stream.address ? ` (${stream.address})` : ""}
+                        {stream.stopped ? " · stopped" : ""}
+                      </p>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant={ACTION_VARIANTS[violation.action]}>{violation.action}</Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {formatDateTime(violation.createdAt)}
+                </TableCell>
+              </TableRow>
+            ))}
+            {(!violations || violations.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No violations recorded
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateTime } from "@/lib/utils";
+
+export function WebhookDeliveries() {
+  const logs = useQuery(api.notifications.getWebhookLogs, { limit: 50 });
+  const redeliver = useMutation(api.webhooks.redeliver);
+  const [redelivering, setRedelivering] = useState<Id<"webhookLogs"> | null>(null);
+
+  const handleRedeliver = async (logId: Id<"webhookLogs">) => {
+    setRedelivering(logId);
+    try {
+      await redeliver({ logId });
+      toast.success("Webhook queued for redelivery");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to redeliver webhook");
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delivery History</CardTitle>
+        <CardDescription>
+          Recent webhook attempts. Failed deliveries are retried automatically with backoff.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempt</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead className="w-[120px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logs?.map((log) => (
+              <TableRow key={log._id}>
+                <TableCell className="font-mono text-xs">{log.event}</TableCell>
+                <TableCell>
+                  <Badge variant={log.status === "success" ? "default" : "destructive"}>
+                    {log.responseCode ?? log.status}
+                  </Badge>
+                  {log.error && (
+                    <p className="mt-1 max-w-[240px] truncate text-xs text-muted-foreground" title={log.error}>
+                      {log.error}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{log.attempt ?? "-"}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {formatDateTime(log.timestamp)}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRedeliver(log._id)}
+                    disabled={redelivering === log._id}
+                  >
+                    {redelivering === log._id ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                    )}
+                    Redeliver
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {(!logs || logs.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No webhook deliveries yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
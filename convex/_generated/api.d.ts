@@ -9,19 +9,36 @@
  */
 
 import type * as admins from "../admins.js";
+import type * as auth from "../auth.js";
 import type * as crons from "../crons.js";
 import type * as donations from "../donations.js";
+import type * as dunning from "../dunning.js";
+import type * as emailTemplates from "../emailTemplates.js";
 import type * as friendCodes from "../friendCodes.js";
 import type * as http from "../http.js";
+import type * as inactivity from "../inactivity.js";
 import type * as invites from "../invites.js";
 import type * as iptv from "../iptv.js";
+import type * as iptvChannels from "../iptvChannels.js";
+import type * as iptvImport from "../iptvImport.js";
 import type * as jobs from "../jobs.js";
+import type * as mailer from "../mailer.js";
 import type * as notifications from "../notifications.js";
 import type * as payments from "../payments.js";
+import type * as plans from "../plans.js";
+import type * as playlists from "../playlists.js";
+import type * as provisioning from "../provisioning.js";
+import type * as reconciliation from "../reconciliation.js";
+import type * as reversals from "../reversals.js";
 import type * as revocations from "../revocations.js";
+import type * as secrets from "../secrets.js";
+import type * as servers from "../servers.js";
 import type * as settings from "../settings.js";
+import type * as streams from "../streams.js";
 import type * as stripe from "../stripe.js";
+import type * as stripeEvents from "../stripeEvents.js";
 import type * as users from "../users.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -31,19 +48,36 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   admins: typeof admins;
+  auth: typeof auth;
   crons: typeof crons;
   donations: typeof donations;
+  dunning: typeof dunning;
+  emailTemplates: typeof emailTemplates;
   friendCodes: typeof friendCodes;
   http: typeof http;
+  inactivity: typeof inactivity;
   invites: typeof invites;
   iptv: typeof iptv;
+  iptvChannels: typeof iptvChannels;
+  iptvImport: typeof iptvImport;
   jobs: typeof jobs;
+  mailer: typeof mailer;
   notifications: typeof notifications;
   payments: typeof payments;
+  plans: typeof plans;
+  playlists: typeof playlists;
+  provisioning: typeof provisioning;
+  reconciliation: typeof reconciliation;
+  reversals: typeof reversals;
   revocations: typeof revocations;
+  secrets: typeof secrets;
+  servers: typeof servers;
   settings: typeof settings;
+  streams: typeof streams;
   stripe: typeof stripe;
+  stripeEvents: typeof stripeEvents;
   users: typeof users;
+  webhooks: typeof webhooks;
 }>;
 
 /**
@@ -1,33 +1,22 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-
-// Admin email domains - users with these domains are automatically admins
-const ADMIN_EMAIL_DOMAINS = ["playhousehosting.com"];
-
-// Helper to check if email is from an admin domain
-function isAdminEmailDomain(email: string): boolean {
-  const domain = email.split("@")[1]?.toLowerCase();
-  return ADMIN_EMAIL_DOMAINS.includes(domain);
-}
-
-// Check if a user is an admin (by database record OR email domain)
+import {
+  getAdminRole,
+  getCaller,
+  isAdminEmailDomain,
+  requireAdmin,
+  requireOwner,
+  requireUser,
+} from "./auth";
+
+// Check if the signed-in user is an admin (by database record OR email domain)
 export const isAdmin = query({
-  args: { clerkId: v.string(), email: v.optional(v.string()) },
-  handler: async (ctx, args) => {
-    // First check database
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
-      .first();
-
-    if (admin) return true;
-
-    // Check email domain if provided
-    if (args.email && isAdminEmailDomain(args.email)) {
-      return true;
-    }
+  args: {},
+  handler: async (ctx) => {
+    const caller = await getCaller(ctx);
+    if (!caller) return false;
 
-    return false;
+    return (await getAdminRole(ctx, caller)) !== null;
   },
 });
 
@@ -39,37 +28,43 @@ export const isAdminEmail = query({
   },
 });
 
-// Get admin by Clerk ID (returns virtual admin for domain-based admins)
+// Get the signed-in user's admin record (returns virtual admin for domain-based admins)
 export const getByClerkId = query({
-  args: { clerkId: v.string(), email: v.optional(v.string()) },
-  handler: async (ctx, args) => {
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
-      .first();
-
-    if (admin) return admin;
-
-    // If email is from admin domain, return virtual admin record
-    if (args.email && isAdminEmailDomain(args.email)) {
-      return {
-        _id: "domain-admin" as any,
-        clerkId: args.clerkId,
-        email: args.email,
-        role: "admin" as const,
-        name: undefined,
-        createdAt: Date.now(),
-        isDomainAdmin: true, // Flag to indicate this is a domain-based admin
-      };
-    }
+  args: {},
+  handler: async (ctx) => {
+    const caller = await getCaller(ctx);
+    if (!caller) return null;
+
+    const role = await getAdminRole(ctx, caller);
+    if (!role) return null;
+    if (role.admin) return role.admin;
+
+    // Email is from an admin domain, return virtual admin record
+    return {
+      _id: "domain-admin" as any,
+      clerkId: caller.clerkId,
+      email: caller.email!,
+      role: "admin" as const,
+      name: caller.name,
+      createdAt: Date.now(),
+      isDomainAdmin: true, // Flag to indicate this is a domain-based admin
+    };
+  },
+});
 
-    return null;
+// Whether any admin has been set up yet (public, used by first-run setup)
+export const hasAny = query({
+  args: {},
+  handler: async (ctx) => {
+    return (await ctx.db.query("admins").first()) !== null;
   },
 });
 
 // List all admins
 export const list = query({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
+
     return await ctx.db.query("admins").collect();
   },
 });
@@ -81,18 +76,9 @@ export const add = mutation({
     email: v.string(),
     name: v.optional(v.string()),
     role: v.union(v.literal("owner"), v.literal("admin")),
-    addedBy: v.string(),
   },
   handler: async (ctx, args) => {
-    // Check if the person adding is an owner
-    const adder = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.addedBy))
-      .first();
-
-    if (!adder || adder.role !== "owner") {
-      throw new Error("Only owners can add admins");
-    }
+    const adder = await requireOwner(ctx);
 
     // Check if admin already exists
     const existing = await ctx.db
@@ -110,12 +96,12 @@ export const add = mutation({
       name: args.name,
       role: args.role,
       createdAt: Date.now(),
-      createdBy: args.addedBy,
+      createdBy: adder.clerkId,
     });
 
     await ctx.db.insert("auditLog", {
       action: "admin_added",
-      actorId: args.addedBy,
+      actorId: adder.clerkId,
       targetType: "admin",
       details: JSON.stringify({ email: args.email, role: args.role }),
       timestamp: Date.now(),
@@ -127,18 +113,9 @@ export const add = mutation({
 export const remove = mutation({
   args: {
     adminId: v.id("admins"),
-    removedBy: v.string(),
   },
   handler: async (ctx, args) => {
-    // Check if the person removing is an owner
-    const remover = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.removedBy))
-      .first();
-
-    if (!remover || remover.role !== "owner") {
-      throw new Error("Only owners can remove admins");
-    }
+    const remover = await requireOwner(ctx);
 
     const admin = await ctx.db.get(args.adminId);
     if (!admin) {
@@ -159,7 +136,7 @@ export const remove = mutation({
 
     await ctx.db.insert("auditLog", {
       action: "admin_removed",
-      actorId: args.removedBy,
+      actorId: remover.clerkId,
       targetType: "admin",
       details: JSON.stringify({ email: admin.email }),
       timestamp: Date.now(),
@@ -167,14 +144,15 @@ export const remove = mutation({
   },
 });
 
-// Initialize first admin (only works if no admins exist)
+// Make the signed-in user the first owner (only works if no admins exist)
 export const initializeOwner = mutation({
-  args: {
-    clerkId: v.string(),
-    email: v.string(),
-    name: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
+  args: {},
+  handler: async (ctx) => {
+    const caller = await requireUser(ctx);
+    if (!caller.email) {
+      throw new Error("Your account has no email address");
+    }
+
     // Check if any admins exist
     const existingAdmins = await ctx.db.query("admins").collect();
     if (existingAdmins.length > 0) {
@@ -182,18 +160,18 @@ export const initializeOwner = mutation({
     }
 
     await ctx.db.insert("admins", {
-      clerkId: args.clerkId,
-      email: args.email,
-      name: args.name,
+      clerkId: caller.clerkId,
+      email: caller.email,
+      name: caller.name,
       role: "owner",
       createdAt: Date.now(),
     });
 
     await ctx.db.insert("auditLog", {
       action: "owner_initialized",
-      actorId: args.clerkId,
+      actorId: caller.clerkId,
       targetType: "admin",
-      details: JSON.stringify({ email: args.email }),
+      details: JSON.stringify({ email: caller.email }),
       timestamp: Date.now(),
     });
 
@@ -0,0 +1,12 @@
+// Clerk issues the JWTs Convex verifies. Create a "convex" JWT template in the
+// Clerk dashboard and set CLERK_JWT_ISSUER_DOMAIN in the Convex environment.
+const authConfig = {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: "convex",
+    },
+  ],
+};
+
+export default authConfig;
@@ -0,0 +1,117 @@
+import { MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+
+// Admin email domains - users with these domains are automatically admins
+const ADMIN_EMAIL_DOMAINS = ["playhousehosting.com"];
+
+type Ctx = QueryCtx | MutationCtx;
+
+export interface Caller {
+  clerkId: string;
+  email?: string;
+  name?: string;
+}
+
+export interface AdminCaller extends Caller {
+  role: "owner" | "admin";
+  admin: Doc<"admins"> | null;
+}
+
+// Helper to check if email is from an admin domain
+export function isAdminEmailDomain(email: string): boolean {
+  const domain = email.split("@")[1]?.toLowerCase();
+  return ADMIN_EMAIL_DOMAINS.includes(domain);
+}
+
+// Get the signed-in caller from the Clerk JWT, or null when anonymous
+export async function getCaller(ctx: Ctx): Promise<Caller | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+
+  return {
+    clerkId: identity.subject,
+    email: identity.email,
+    name: identity.name,
+  };
+}
+
+// Resolve the caller's admin role (database record or admin email domain)
+export async function getAdminRole(
+  ctx: Ctx,
+  caller: Caller
+): Promise<AdminCaller | null> {
+  const admin = await ctx.db
+    .query("admins")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
+    .first();
+
+  if (admin) return { ...caller, role: admin.role, admin };
+
+  if (caller.email && isAdminEmailDomain(caller.email)) {
+    return { ...caller, role: "admin", admin: null };
+  }
+
+  return null;
+}
+
+// Require a signed-in user
+export async function requireUser(ctx: Ctx): Promise<Caller> {
+  const caller = await getCaller(ctx);
+  if (!caller) throw new Error("Unauthorized");
+  return caller;
+}
+
+// Require a signed-in admin
+export async function requireAdmin(ctx: Ctx): Promise<AdminCaller> {
+  const caller = await requireUser(ctx);
+  const admin = await getAdminRole(ctx, caller);
+  if (!admin) throw new Error("Forbidden");
+  return admin;
+}
+
+// Require a signed-in owner
+export async function requireOwner(ctx: Ctx): Promise<AdminCaller> {
+  const admin = await requireAdmin(ctx);
+  if (admin.role !== "owner") throw new Error("Forbidden");
+  return admin;
+}
+
+// Require the caller to be the given user, or an admin acting on their behalf.
+// Returns the Clerk id to act on (the caller's own id when none is given).
+export async function requireSelfOrAdmin(ctx: Ctx, clerkId?: string): Promise<string> {
+  const caller = await requireUser(ctx);
+  if (!clerkId || clerkId === caller.clerkId) return caller.clerkId;
+
+  const admin = await getAdminRole(ctx, caller);
+  if (!admin) throw new Error("Forbidden");
+  return clerkId;
+}
+
+// Server-to-server calls (Next.js webhooks, scheduled routes) authenticate
+// with the shared INTERNAL_API_KEY instead of a user JWT.
+export function isInternalKey(internalKey?: string): boolean {
+  const expected = process.env.INTERNAL_API_KEY;
+  return !!expected && !!internalKey && internalKey === expected;
+}
+
+export function requireInternalKey(internalKey?: string): void {
+  if (!isInternalKey(internalKey)) throw new Error("Unauthorized");
+}
+
+// Require an admin, or a server call carrying the internal key.
+// Returns the actor id to record in the audit log.
+export async function requireAdminOrInternal(ctx: Ctx, internalKey?: string): Promise<string> {
+  if (isInternalKey(internalKey)) return "system";
+  const admin = await requireAdmin(ctx);
+  return admin.clerkId;
+}
+
+// Require the given user (or an admin), or a server call carrying the internal key
+export async function requireSelfOrInternal(
+  ctx: Ctx,
+  clerkId: string | undefined,
+  internalKey?: string
+): Promise<string | undefined> {
+  if (isInternalKey(internalKey)) return clerkId;
+  return await requireSelfOrAdmin(ctx, clerkId);
+}
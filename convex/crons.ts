@@ -17,6 +17,38 @@ crons.daily(
   internal.revocations.syncSubscriptionStatuses
 );
 
+// Compare media server accounts with the users table daily
+crons.daily(
+  "reconcile-media-servers",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.reconciliation.runReconciliation,
+  {}
+);
+
+// Record media server activity and warn/revoke inactive users daily
+crons.daily(
+  "prune-inactive-users",
+  { hourUTC: 5, minuteUTC: 0 },
+  internal.inactivity.runInactivityCheck,
+  {}
+);
+
+// Remind users 7, 3 and 1 days before an IPTV line that won't renew itself expires
+crons.daily(
+  "iptv-expiry-reminders",
+  { hourUTC: 6, minuteUTC: 0 },
+  internal.iptv.runExpiryReminders,
+  {}
+);
+
+// Poll media server sessions and enforce concurrent stream limits
+crons.interval(
+  "enforce-stream-limits",
+  { minutes: 1 },
+  internal.streams.enforceStreamLimits,
+  {}
+);
+
 // Process background jobs (IPTV provisioning/sync/etc.) every minute
 crons.interval(
   "process-background-jobs",
@@ -25,4 +57,12 @@ crons.interval(
   { batchSize: 10, runnerId: "cron" }
 );
 
+// Requeue jobs left running by a runner that died mid-run
+crons.interval(
+  "reap-stale-job-locks",
+  { minutes: 5 },
+  internal.jobs.reapStaleLocks,
+  {}
+);
+
 export default crons;
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { requireAdmin, requireInternalKey, requireUser } from "./auth";
 
 function normalizeEmail(email: string): string {
   return email.trim().toLowerCase();
@@ -18,8 +19,11 @@ export const recordBuyMeACoffeeDonation = mutation({
     currency: v.optional(v.string()),
     message: v.optional(v.string()),
     raw: v.optional(v.string()),
+    internalKey: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    requireInternalKey(internalKey);
+
     const supporterEmail = normalizeEmail(args.supporterEmail);
 
     // De-dupe by provider+externalId when we have it
@@ -124,10 +128,16 @@ export const recordBuyMeACoffeeDonation = mutation({
 });
 
 // Used by self-service signup/login to grant access if a donation exists.
+// Defaults to the signed-in user's email; looking up others needs an admin.
 export const hasDonationForEmail = query({
-  args: { email: v.string() },
+  args: { email: v.optional(v.string()) },
   handler: async (ctx, args) => {
-    const email = normalizeEmail(args.email);
+    const caller = await requireUser(ctx);
+    const email = normalizeEmail(args.email ?? caller.email ?? "");
+    if (email !== normalizeEmail(caller.email ?? "")) {
+      await requireAdmin(ctx);
+    }
+
     const donation = await ctx.db
       .query("donations")
       .withIndex("by_email", (q) => q.eq("supporterEmail", email))
@@ -0,0 +1,333 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+import { schedulePaymentRevocation } from "./payments";
+import { insertJob } from "./jobs";
+import { SETTINGS_KEYS } from "../lib/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_MAX_ATTEMPTS = 5;
+
+const DEFAULT_REMINDER_DAYS = [0, 3, 6];
+const DEFAULT_GRACE_DAYS = 8;
+const DEFAULT_FINAL_NOTICE_DAYS = 1;
+
+type DunningStep = Doc<"dunningCases">["steps"][number];
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
+
+// Parse a comma-separated list of days, e.g. "0, 3, 6"
+function parseReminderDays(value: string | null | undefined): number[] | null {
+  if (!value?.trim()) return null;
+  const days = value.split(",").map((d) => Number(d.trim()));
+  if (days.some((d) => !Number.isInteger(d) || d < 0)) return null;
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+async function getSchedule(ctx: any) {
+  const days = async (key: string, fallback: number) => {
+    const value = parseInt((await getSetting(ctx, key)) || "", 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    reminderDays: parseReminderDays(await getSetting(ctx, SETTINGS_KEYS.DUNNING_REMINDER_DAYS)) ?? DEFAULT_REMINDER_DAYS,
+    graceDays: Math.max(await days(SETTINGS_KEYS.DUNNING_GRACE_DAYS, DEFAULT_GRACE_DAYS), 1),
+    finalNoticeDays: await days(SETTINGS_KEYS.DUNNING_FINAL_NOTICE_DAYS, DEFAULT_FINAL_NOTICE_DAYS),
+  };
+}
+
+// Emails for a case, in send order. Reminders that would land on or after the final notice are dropped.
+function planSteps(
+  startedAt: number,
+  revokeAt: number,
+  schedule: { reminderDays: number[]; finalNoticeDays: number }
+): DunningStep[] {
+  const finalAt = schedule.finalNoticeDays > 0 ? Math.max(revokeAt - schedule.finalNoticeDays * DAY_MS, startedAt) : null;
+  const cutoff = finalAt ?? revokeAt;
+
+  const steps: DunningStep[] = schedule.reminderDays
+    .map((day) => startedAt + day * DAY_MS)
+    .filter((sendAt) => sendAt < cutoff)
+    .map((sendAt) => ({ kind: "reminder" as const, sendAt, status: "scheduled" as const }));
+  if (finalAt !== null) {
+    steps.push({ kind: "final", sendAt: finalAt, status: "scheduled" });
+  }
+  return steps;
+}
+
+async function getActiveCase(ctx: any, userId: Id<"users">): Promise<Doc<"dunningCases"> | null> {
+  return await ctx.db
+    .query("dunningCases")
+    .withIndex("by_user", (q: any) => q.eq("userId", userId).eq("status", "active"))
+    .first();
+}
+
+// Open a case for a failed payment, or count the retry against the one already open
+async function openDunningCase(
+  ctx: any,
+  args: { stripeCustomerId: string; stripeInvoiceId?: string; amount: number; currency: string }
+) {
+  const user: Doc<"users"> | null = await ctx.db
+    .query("users")
+    .withIndex("by_stripe_customer", (q: any) => q.eq("stripeCustomerId", args.stripeCustomerId))
+    .first();
+
+  if (!user) {
+    console.error("User not found for dunning:", args.stripeCustomerId);
+    return { started: false, reason: "user_not_found" };
+  }
+
+  const now = Date.now();
+
+  // Stripe retries keep failing on the same schedule; they don't restart it
+  const existing = await getActiveCase(ctx, user._id);
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      failures: existing.failures + 1,
+      stripeInvoiceId: args.stripeInvoiceId ?? existing.stripeInvoiceId,
+      amount: args.amount,
+      currency: args.currency,
+      updatedAt: now,
+    });
+    return { started: false, caseId: existing._id, revokeAt: existing.revokeAt };
+  }
+
+  const schedule = await getSchedule(ctx);
+  const revokeAt = now + schedule.graceDays * DAY_MS;
+  const steps = user.email.includes("@") ? planSteps(now, revokeAt, schedule) : [];
+
+  const caseId = await ctx.db.insert("dunningCases", {
+    userId: user._id,
+    clerkId: user.clerkId,
+    stripeCustomerId: args.stripeCustomerId,
+    stripeInvoiceId: args.stripeInvoiceId,
+    amount: args.amount,
+    currency: args.currency,
+    status: "active",
+    failures: 1,
+    startedAt: now,
+    revokeAt,
+    steps,
+    updatedAt: now,
+  });
+
+  // Every email is queued up front; jobs wait until their nextRunAt
+  const queued: DunningStep[] = [];
+  for (const step of steps) {
+    const jobId = await insertJob(ctx, {
+      type: "email.dunning",
+      userId: user._id,
+      clerkId: user.clerkId,
+      payload: { dunningCaseId: caseId, kind: step.kind },
+      maxAttempts: EMAIL_MAX_ATTEMPTS,
+      runAt: step.sendAt,
+    });
+    queued.push({ ...step, jobId });
+  }
+  await ctx.db.patch(caseId, { steps: queued });
+
+  await schedulePaymentRevocation(ctx, user, {
+    stripeCustomerId: args.stripeCustomerId,
+    reason: "Payment failed",
+    revokeAt,
+    gracePeriodDays: schedule.graceDays,
+  });
+
+  await ctx.db.insert("auditLog", {
+    action: "dunning_started",
+    actorId: "system",
+    targetType: "user",
+    targetId: user._id,
+    details: JSON.stringify({
+      email: user.email,
+      invoiceId: args.stripeInvoiceId,
+      emails: steps.length,
+      revokeAt: new Date(revokeAt).toISOString(),
+    }),
+    timestamp: now,
+  });
+
+  if (queued.some((step) => step.sendAt <= now)) {
+    await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "dunning" });
+  }
+
+  return { started: true, caseId, revokeAt };
+}
+
+// Close a user's open case, canceling emails that haven't gone out
+export async function closeDunningCase(
+  ctx: any,
+  userId: Id<"users">,
+  status: "resolved" | "revoked",
+  resolution: string
+) {
+  const dunningCase = await getActiveCase(ctx, userId);
+  if (!dunningCase) return { closed: false };
+
+  const now = Date.now();
+  const steps: DunningStep[] = [];
+  for (const step of dunningCase.steps) {
+    if (step.status !== "scheduled") {
+      steps.push(step);
+      continue;
+    }
+    const job: Doc<"jobs"> | null = step.jobId ? await ctx.db.get(step.jobId) : null;
+    if (job?.status === "pending") {
+      await ctx.db.patch(job._id, { status: "canceled", updatedAt: now });
+    }
+    steps.push({ ...step, status: "canceled" });
+  }
+
+  await ctx.db.patch(dunningCase._id, { status, steps, resolution, closedAt: now, updatedAt: now });
+
+  await ctx.db.insert("auditLog", {
+    action: status === "resolved" ? "dunning_resolved" : "dunning_revoked",
+    actorId: "system",
+    targetType: "user",
+    targetId: userId,
+    details: JSON.stringify({
+      resolution,
+      emailsSent: steps.filter((s) => s.status === "sent").length,
+      emailsCanceled: steps.filter((s) => s.status === "canceled").length,
+    }),
+    timestamp: now,
+  });
+
+  return { closed: true, caseId: dunningCase._id };
+}
+
+async function closeDunningForCustomer(ctx: any, stripeCustomerId: string, resolution: string) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_stripe_customer", (q: any) => q.eq("stripeCustomerId", stripeCustomerId))
+    .first();
+  if (!user) return { closed: false };
+  return await closeDunningCase(ctx, user._id, "resolved", resolution);
+}
+
+async function patchStep(
+  ctx: any,
+  caseId: Id<"dunningCases">,
+  jobId: Id<"jobs">,
+  patch: Partial<DunningStep>
+) {
+  const dunningCase: Doc<"dunningCases"> | null = await ctx.db.get(caseId);
+  if (!dunningCase || !dunningCase.steps.some((s) => s.jobId === jobId)) return;
+  await ctx.db.patch(caseId, {
+    steps: dunningCase.steps.map((s) => (s.jobId === jobId ? { ...s, ...patch } : s)),
+    updatedAt: Date.now(),
+  });
+}
+
+// Mark a dunning email failed once its job gives up
+export async function failDunningStep(ctx: any, caseId: Id<"dunningCases">, jobId: Id<"jobs">, message: string) {
+  await patchStep(ctx, caseId, jobId, { status: "failed", error: message });
+}
+
+// Put a failed dunning email back on the schedule when its job is retried
+export async function retryDunningStep(ctx: any, caseId: Id<"dunningCases">, jobId: Id<"jobs">) {
+  const dunningCase: Doc<"dunningCases"> | null = await ctx.db.get(caseId);
+  if (dunningCase?.status !== "active") return false;
+  await patchStep(ctx, caseId, jobId, { status: "scheduled", error: undefined });
+  return true;
+}
+
+const startArgs = {
+  stripeCustomerId: v.string(),
+  stripeInvoiceId: v.optional(v.string()),
+  amount: v.number(),
+  currency: v.string(),
+};
+
+// Start chasing a failed subscription payment - Internal for webhook calls
+export const internalStartDunning = internalMutation({
+  args: startArgs,
+  handler: async (ctx, args) => {
+    return await openDunningCase(ctx, args);
+  },
+});
+
+// Stop chasing once the invoice is paid - Internal for webhook calls
+export const internalStopDunning = internalMutation({
+  args: { stripeCustomerId: v.string() },
+  handler: async (ctx, args) => {
+    return await closeDunningForCustomer(ctx, args.stripeCustomerId, "Payment received");
+  },
+});
+
+// What a dunning email job should send, or null when the case moved on without it
+export const internalGetDelivery = internalQuery({
+  args: { caseId: v.id("dunningCases"), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const dunningCase = await ctx.db.get(args.caseId);
+    if (dunningCase?.status !== "active") return null;
+
+    const step = dunningCase.steps.find((s) => s.jobId === args.jobId);
+    if (!step || step.status === "canceled" || step.status === "sent") return null;
+
+    // Paid through a path that didn't close the case
+    const user = await ctx.db.get(dunningCase.userId);
+    if (!user || (user.paymentStatus !== "past_due" && user.paymentStatus !== "unpaid")) return null;
+
+    return {
+      to: user.email,
+      username: user.username,
+      kind: step.kind,
+      amount: dunningCase.amount,
+      currency: dunningCase.currency,
+      revokeAt: dunningCase.revokeAt,
+    };
+  },
+});
+
+export const internalMarkStepSent = internalMutation({
+  args: { caseId: v.id("dunningCases"), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    await patchStep(ctx, args.caseId, args.jobId, { status: "sent", sentAt: Date.now(), error: undefined });
+  },
+});
+
+// Everyone in dunning, soonest revocation first, with the next thing that happens to them (admin)
+export const listActive = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const cases = await ctx.db
+      .query("dunningCases")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    return await Promise.all(
+      cases.map(async (c) => {
+        const user = await ctx.db.get(c.userId);
+        const next = c.steps.find((s) => s.status === "scheduled");
+        return {
+          _id: c._id,
+          userId: c.userId,
+          email: user?.email,
+          username: user?.username,
+          amount: c.amount,
+          currency: c.currency,
+          failures: c.failures,
+          startedAt: c.startedAt,
+          revokeAt: c.revokeAt,
+          emailsSent: c.steps.filter((s) => s.status === "sent").length,
+          emailsFailed: c.steps.filter((s) => s.status === "failed").length,
+          nextStep: next
+            ? { kind: next.kind, at: next.sendAt }
+            : { kind: "revoke" as const, at: c.revokeAt },
+        };
+      })
+    );
+  },
+});
@@ -0,0 +1,153 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+import {
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATES,
+  isEmailTemplateId,
+  validateEmailTemplate,
+  type EmailTemplateContent,
+  type EmailTemplateId,
+} from "../lib/email-templates";
+
+const HISTORY_LIMIT = 50;
+
+const formatValidator = v.union(v.literal("markdown"), v.literal("html"));
+
+function requireTemplateId(templateId: string): EmailTemplateId {
+  if (!isEmailTemplateId(templateId)) throw new Error(`Unknown email template: ${templateId}`);
+  return templateId;
+}
+
+async function latestVersion(ctx: any, templateId: string): Promise<Doc<"emailTemplates"> | null> {
+  return await ctx.db
+    .query("emailTemplates")
+    .withIndex("by_template_version", (q: any) => q.eq("templateId", templateId))
+    .order("desc")
+    .first();
+}
+
+// Save content as the template's next version
+async function insertVersion(
+  ctx: any,
+  templateId: EmailTemplateId,
+  content: EmailTemplateContent,
+  admin: { clerkId: string; email?: string },
+  restoredFrom?: number
+) {
+  const errors = validateEmailTemplate(templateId, content);
+  if (errors.length > 0) throw new Error(errors.join(". "));
+
+  const version = ((await latestVersion(ctx, templateId))?.version ?? 0) + 1;
+  await ctx.db.insert("emailTemplates", {
+    templateId,
+    version,
+    subject: content.subject,
+    format: content.format,
+    body: content.body,
+    createdAt: Date.now(),
+    createdBy: admin.clerkId,
+    createdByEmail: admin.email,
+    restoredFrom,
+  });
+
+  await ctx.db.insert("auditLog", {
+    action: restoredFrom ? "email_template_restored" : "email_template_saved",
+    actorId: admin.clerkId,
+    actorEmail: admin.email,
+    targetType: "emailTemplate",
+    targetId: templateId,
+    details: JSON.stringify({ version, restoredFrom }),
+    timestamp: Date.now(),
+  });
+
+  return { version };
+}
+
+// Every template with its current content (the default until first saved)
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    return await Promise.all(
+      EMAIL_TEMPLATE_IDS.map(async (templateId) => {
+        const current = await latestVersion(ctx, templateId);
+        const defaults = EMAIL_TEMPLATES[templateId].defaults;
+        return {
+          templateId,
+          subject: current?.subject ?? defaults.subject,
+          format: current?.format ?? defaults.format,
+          body: current?.body ?? defaults.body,
+          version: current?.version ?? null,
+          updatedAt: current?.createdAt ?? null,
+          updatedByEmail: current?.createdByEmail,
+        };
+      })
+    );
+  },
+});
+
+// Saved versions of a template, newest first
+export const getHistory = query({
+  args: { templateId: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    return await ctx.db
+      .query("emailTemplates")
+      .withIndex("by_template_version", (q) => q.eq("templateId", requireTemplateId(args.templateId)))
+      .order("desc")
+      .take(HISTORY_LIMIT);
+  },
+});
+
+// Save a new version of a template
+export const save = mutation({
+  args: {
+    templateId: v.string(),
+    subject: v.string(),
+    format: formatValidator,
+    body: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    return await insertVersion(
+      ctx,
+      requireTemplateId(args.templateId),
+      { subject: args.subject, format: args.format, body: args.body },
+      admin
+    );
+  },
+});
+
+// Make an earlier version current again, as a new version
+export const restore = mutation({
+  args: {
+    templateId: v.string(),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    const templateId = requireTemplateId(args.templateId);
+
+    const old = await ctx.db
+      .query("emailTemplates")
+      .withIndex("by_template_version", (q) => q.eq("templateId", templateId).eq("version", args.version))
+      .first();
+    if (!old) throw new Error(`Version ${args.version} not found`);
+
+    return await insertVersion(ctx, templateId, { subject: old.subject, format: old.format, body: old.body }, admin, old.version);
+  },
+});
+
+// Current content of a template for sending, or null to use the default
+export const internalGet = internalQuery({
+  args: { templateId: v.string() },
+  handler: async (ctx, args) => {
+    const current = await latestVersion(ctx, args.templateId);
+    if (!current) return null;
+    return { subject: current.subject, format: current.format, body: current.body };
+  },
+});
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { requireAdmin, requireSelfOrAdmin, requireUser } from "./auth";
 
 // Generate a random friend code
 function generateFriendCode(): string {
@@ -13,11 +14,12 @@ function generateFriendCode(): string {
 
 // Check if a user can generate friend codes (must have active server access)
 export const canGenerateCodes = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
 
     if (!user || !user.isActive) {
@@ -51,16 +53,16 @@ export const canGenerateCodes = query({
 // Generate a new friend code
 export const generate = mutation({
   args: {
-    clerkId: v.string(),
-    email: v.string(),
     maxUses: v.optional(v.number()),
     expiresInDays: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+
     // Check if user can generate codes
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
 
     if (!user || !user.isActive || user.serverAccess === "none") {
@@ -88,7 +90,7 @@ export const generate = mutation({
     // Count user's active codes
     const userCodes = await ctx.db
       .query("friendCodes")
-      .withIndex("by_creator", (q) => q.eq("createdBy", args.clerkId))
+      .withIndex("by_creator", (q) => q.eq("createdBy", caller.clerkId))
       .collect();
 
     const activeCodes = userCodes.filter((c) => c.isActive);
@@ -117,20 +119,21 @@ export const generate = mutation({
 
     const friendCodeId = await ctx.db.insert("friendCodes", {
       code,
-      createdBy: args.clerkId,
-      createdByEmail: args.email,
+      createdBy: caller.clerkId,
+      createdByEmail: caller.email ?? user.email,
       maxUses: args.maxUses || 1,
       usedCount: 0,
       expiresAt,
       isActive: true,
       createdAt: Date.now(),
-      serverType: user.serverAccess as "plex" | "emby" | "both",
+      serverType: user.serverAccess as "plex" | "emby" | "both" | "jellyfin",
+      serverIds: user.serverIds,
     });
 
     await ctx.db.insert("auditLog", {
       action: "friend_code_created",
-      actorId: args.clerkId,
-      actorEmail: args.email,
+      actorId: caller.clerkId,
+      actorEmail: caller.email ?? user.email,
       targetType: "friendCode",
       targetId: friendCodeId,
       details: JSON.stringify({ code, maxUses: args.maxUses || 1 }),
@@ -143,11 +146,12 @@ export const generate = mutation({
 
 // List user's friend codes
 export const listByUser = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const codes = await ctx.db
       .query("friendCodes")
-      .withIndex("by_creator", (q) => q.eq("createdBy", args.clerkId))
+      .withIndex("by_creator", (q) => q.eq("createdBy", clerkId))
       .order("desc")
       .collect();
 
@@ -158,6 +162,7 @@ export const listByUser = query({
 // List all friend codes (admin)
 export const listAll = query({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
     return await ctx.db.query("friendCodes").order("desc").collect();
   },
 });
@@ -210,10 +215,10 @@ export const validate = query({
 export const redeem = mutation({
   args: {
     code: v.string(),
-    clerkId: v.string(),
-    email: v.string(),
   },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+
     const friendCode = await ctx.db
       .query("friendCodes")
       .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
@@ -238,7 +243,7 @@ export const redeem = mutation({
     // Check if user already redeemed this code
     const existingRedemption = await ctx.db
       .query("friendCodeRedemptions")
-      .withIndex("by_user", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_user", (q) => q.eq("clerkId", caller.clerkId))
       .collect();
 
     if (existingRedemption.some((r) => r.friendCodeId === friendCode._id)) {
@@ -253,15 +258,15 @@ export const redeem = mutation({
     // Record redemption
     await ctx.db.insert("friendCodeRedemptions", {
       friendCodeId: friendCode._id,
-      clerkId: args.clerkId,
-      email: args.email,
+      clerkId: caller.clerkId,
+      email: caller.email ?? "",
       redeemedAt: Date.now(),
     });
 
     await ctx.db.insert("auditLog", {
       action: "friend_code_redeemed",
-      actorId: args.clerkId,
-      actorEmail: args.email,
+      actorId: caller.clerkId,
+      actorEmail: caller.email,
       targetType: "friendCode",
       targetId: friendCode._id,
       details: JSON.stringify({ code: friendCode.code, referrer: friendCode.createdByEmail }),
@@ -280,16 +285,16 @@ export const redeem = mutation({
 export const deactivate = mutation({
   args: {
     codeId: v.id("friendCodes"),
-    clerkId: v.string(),
   },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
     const code = await ctx.db.get(args.codeId);
     if (!code) {
       throw new Error("Code not found");
     }
 
-    // Users can only deactivate their own codes (admins check elsewhere)
-    if (code.createdBy !== args.clerkId) {
+    // Users can only deactivate their own codes (admins use adminDeactivate)
+    if (code.createdBy !== caller.clerkId) {
       throw new Error("You can only deactivate your own codes");
     }
 
@@ -297,7 +302,7 @@ export const deactivate = mutation({
 
     await ctx.db.insert("auditLog", {
       action: "friend_code_deactivated",
-      actorId: args.clerkId,
+      actorId: caller.clerkId,
       targetType: "friendCode",
       targetId: args.codeId,
       details: JSON.stringify({ code: code.code }),
@@ -310,9 +315,9 @@ export const deactivate = mutation({
 export const adminDeactivate = mutation({
   args: {
     codeId: v.id("friendCodes"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
     const code = await ctx.db.get(args.codeId);
     if (!code) {
       throw new Error("Code not found");
@@ -322,7 +327,7 @@ export const adminDeactivate = mutation({
 
     await ctx.db.insert("auditLog", {
       action: "friend_code_admin_deactivated",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "friendCode",
       targetId: args.codeId,
       details: JSON.stringify({ code: code.code }),
@@ -334,6 +339,7 @@ export const adminDeactivate = mutation({
 // Get stats for friend codes
 export const getStats = query({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
     const allCodes = await ctx.db.query("friendCodes").collect();
     const activeCodes = allCodes.filter((c) => c.isActive);
     const totalRedemptions = allCodes.reduce((sum, c) => sum + c.usedCount, 0);
@@ -1,5 +1,5 @@
 import { httpRouter } from "convex/server";
-import { createCheckout, createPortal, webhook, syncSubscriptions } from "./stripe";
+import { createCheckout, createPortal, webhook, handleVerifiedEvent, syncSubscriptions } from "./stripe";
 
 const http = httpRouter();
 
@@ -22,6 +22,12 @@ http.route({
   handler: webhook,
 });
 
+http.route({
+  path: "/stripe/event",
+  method: "POST",
+  handler: handleVerifiedEvent,
+});
+
 http.route({
   path: "/stripe/sync",
   method: "POST",
@@ -0,0 +1,235 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { getAdminRole } from "./auth";
+import { findAccountUser, listServerTargets, type ServerTarget } from "./reconciliation";
+import { localAccountClient } from "./provisioning";
+import { insertJob } from "./jobs";
+import { SETTINGS_KEYS } from "../lib/constants";
+import { PlexClient } from "../lib/plex";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_MAX_ATTEMPTS = 5;
+
+// Revocations are never due sooner than this after the warning goes out
+const MIN_NOTICE_MS = DAY_MS;
+
+const DEFAULT_WARN_DAYS = 60;
+const DEFAULT_REVOKE_DAYS = 90;
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
+
+async function getPolicy(ctx: any) {
+  const days = async (key: string, fallback: number) => {
+    const value = parseInt((await getSetting(ctx, key)) || "", 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  const warnDays = await days(SETTINGS_KEYS.INACTIVITY_WARN_DAYS, DEFAULT_WARN_DAYS);
+  return {
+    enabled: (await getSetting(ctx, SETTINGS_KEYS.INACTIVITY_PRUNING_ENABLED)) === "true",
+    warnDays,
+    revokeDays: Math.max(await days(SETTINGS_KEYS.INACTIVITY_REVOKE_DAYS, DEFAULT_REVOKE_DAYS), warnDays),
+    exemptFree: (await getSetting(ctx, SETTINGS_KEYS.INACTIVITY_EXEMPT_FREE)) !== "false",
+    exemptAdmins: (await getSetting(ctx, SETTINGS_KEYS.INACTIVITY_EXEMPT_ADMINS)) !== "false",
+  };
+}
+
+// Last activity per server account, with the account's email where the server knows it
+async function fetchActivity(
+  target: ServerTarget,
+  since: Date
+): Promise<Array<{ externalId: string; email?: string; lastActivity: number }>> {
+  if (target.serverType === "plex") {
+    const client = new PlexClient({ url: target.connection.url, token: target.connection.credential });
+    const activity = await client.getLastActivityByUser(since);
+    const friends = await client.listSharedUsers();
+    return Object.entries(activity).map(([externalId, lastActivity]) => ({
+      externalId,
+      email: friends.find((f) => f.id === externalId)?.email,
+      lastActivity,
+    }));
+  }
+
+  const client = localAccountClient(target.serverType, target.connection);
+  const activity = await client.getLastActivityByUser();
+  return Object.entries(activity).map(([externalId, lastActivity]) => ({ externalId, lastActivity }));
+}
+
+export const internalGetSnapshot = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    return {
+      policy: await getPolicy(ctx),
+      targets: await listServerTargets(ctx),
+      users: users.map((u) => ({
+        _id: u._id,
+        email: u.email,
+        plexUserId: u.plexUserId,
+        plexEmail: u.plexEmail,
+        embyUserId: u.embyUserId,
+        jellyfinUserId: u.jellyfinUserId,
+        serverAccounts: u.serverAccounts,
+      })),
+    };
+  },
+});
+
+export const internalRecordActivity = internalMutation({
+  args: {
+    activity: v.array(v.object({ userId: v.id("users"), lastActivity: v.number() })),
+  },
+  handler: async (ctx, args) => {
+    for (const { userId, lastActivity } of args.activity) {
+      const user = await ctx.db.get(userId);
+      if (user && lastActivity > (user.lastSeen ?? 0)) {
+        await ctx.db.patch(userId, { lastSeen: lastActivity });
+      }
+    }
+  },
+});
+
+// Warn users past the warning threshold and schedule their revocation;
+// clear the warning for anyone seen since it went out
+export const internalApplyPolicy = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const policy = await getPolicy(ctx);
+    if (!policy.enabled) return { warned: 0, cleared: 0 };
+
+    const now = Date.now();
+    let warned = 0;
+    let cleared = 0;
+
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+
+    for (const user of users) {
+      const lastActive = Math.max(user.lastSeen ?? 0, user.createdAt);
+
+      if (user.inactivityWarnedAt) {
+        if (lastActive <= user.inactivityWarnedAt) continue;
+
+        // Back since the warning: drop it and the revocation it scheduled
+        await ctx.db.patch(user._id, { inactivityWarnedAt: undefined });
+        const pending = await ctx.db
+          .query("scheduledRevocations")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .filter((q) => q.and(q.eq(q.field("source"), "inactivity"), q.eq(q.field("status"), "pending")))
+          .collect();
+        for (const revocation of pending) {
+          await ctx.db.patch(revocation._id, { status: "canceled", updatedAt: now });
+          await ctx.db.insert("auditLog", {
+            action: "revocation_canceled",
+            actorId: "system",
+            targetType: "user",
+            targetId: user._id,
+            details: JSON.stringify({ email: user.email, reason: "User active again" }),
+            timestamp: now,
+          });
+        }
+        cleared++;
+        continue;
+      }
+
+      const daysInactive = Math.floor((now - lastActive) / DAY_MS);
+      if (daysInactive < policy.warnDays || user.serverAccess === "none") continue;
+      if (policy.exemptFree && user.paymentStatus === "free") continue;
+      if (policy.exemptAdmins && (await getAdminRole(ctx, { clerkId: user.clerkId, email: user.email }))) continue;
+
+      const revokeAt = Math.max(lastActive + policy.revokeDays * DAY_MS, now + MIN_NOTICE_MS);
+      const reason = `Inactive for ${daysInactive} days`;
+
+      await ctx.db.patch(user._id, { inactivityWarnedAt: now });
+      await ctx.db.insert("scheduledRevocations", {
+        userId: user._id,
+        clerkId: user.clerkId,
+        stripeCustomerId: user.stripeCustomerId,
+        revokeAt,
+        reason,
+        source: "inactivity",
+        status: "pending",
+        createdAt: now,
+      });
+      await insertJob(ctx, {
+        type: "email.inactivityWarning",
+        clerkId: user.clerkId,
+        userId: user._id,
+        payload: { to: user.email, username: user.username, daysInactive, revokeAt },
+        maxAttempts: EMAIL_MAX_ATTEMPTS,
+        runAt: now,
+      });
+
+      await ctx.db.insert("auditLog", {
+        action: "revocation_scheduled",
+        actorId: "system",
+        targetType: "user",
+        targetId: user._id,
+        details: JSON.stringify({
+          email: user.email,
+          reason,
+          revokeAt: new Date(revokeAt).toISOString(),
+          lastSeen: user.lastSeen ? new Date(user.lastSeen).toISOString() : null,
+        }),
+        timestamp: now,
+      });
+      warned++;
+    }
+
+    if (warned > 0) {
+      await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "inactivity" });
+    }
+    return { warned, cleared };
+  },
+});
+
+// Record each user's last activity from the media servers, then apply the inactivity policy
+export const runInactivityCheck = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ recorded: number; warned: number; cleared: number; errors: string[] }> => {
+    const { policy, targets, users } = await ctx.runQuery(internal.inactivity.internalGetSnapshot, {});
+    const since = new Date(Date.now() - policy.revokeDays * DAY_MS);
+
+    const lastActivity = new Map<Id<"users">, number>();
+    const errors: string[] = [];
+
+    for (const target of targets) {
+      try {
+        for (const account of await fetchActivity(target, since)) {
+          const user = findAccountUser(users, target, account.externalId, account.email);
+          if (user && account.lastActivity > (lastActivity.get(user._id) ?? 0)) {
+            lastActivity.set(user._id, account.lastActivity);
+          }
+        }
+      } catch (error) {
+        errors.push(`${target.serverName} (${target.serverType}): ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+
+    await ctx.runMutation(internal.inactivity.internalRecordActivity, {
+      activity: [...lastActivity].map(([userId, at]) => ({ userId, lastActivity: at })),
+    });
+
+    // A server we couldn't read would make its users look idle
+    if (errors.length > 0) {
+      console.log("Inactivity check skipped pruning:", errors);
+      return { recorded: lastActivity.size, warned: 0, cleared: 0, errors };
+    }
+
+    const result: { warned: number; cleared: number } = await ctx.runMutation(
+      internal.inactivity.internalApplyPolicy,
+      {}
+    );
+    return { recorded: lastActivity.size, ...result, errors };
+  },
+});
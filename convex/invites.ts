@@ -1,25 +1,62 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { v, type ObjectType } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
 import { nanoid } from "nanoid";
+import { requireAdmin, requireInternalKey, requireUser } from "./auth";
+import { resolveInviteAccess } from "./plans";
+import { insertJob } from "./jobs";
+import { emitWebhookEvent } from "./webhooks";
+import { WebhookEvents } from "../lib/webhooks";
+
+const EMAIL_MAX_ATTEMPTS = 5;
 
 // Generate a unique invite code
 function generateInviteCode(): string {
   return nanoid(10).toUpperCase();
 }
 
+// Queue the invite email; a newer send supersedes any that hasn't gone out yet
+async function queueInviteEmail(ctx: any, invite: Doc<"invites">, runnerId: string): Promise<Id<"jobs">> {
+  const jobId = await insertJob(ctx, {
+    type: "email.invite",
+    payload: { inviteId: invite._id, to: invite.email, code: invite.code },
+    maxAttempts: EMAIL_MAX_ATTEMPTS,
+  });
+
+  await ctx.db.patch(invite._id, {
+    emailStatus: "queued",
+    emailJobId: jobId,
+    // Kept across resends so links in earlier emails still count
+    emailTrackingToken: invite.emailTrackingToken ?? nanoid(32),
+    emailError: undefined,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId });
+  return jobId;
+}
+
+// Mark an invite email failed once its job gives up
+export async function failInviteEmail(ctx: any, inviteId: Id<"invites">, jobId: Id<"jobs">, message: string) {
+  const invite = await ctx.db.get(inviteId);
+  if (!invite || invite.emailJobId !== jobId) return;
+  await ctx.db.patch(inviteId, { emailStatus: "failed", emailError: message });
+}
+
 // Create a new invite
 export const create = mutation({
   args: {
     email: v.optional(v.string()),
     maxUses: v.number(),
     expiresAt: v.optional(v.number()),
-    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both")),
+    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin")),
     libraries: v.optional(v.array(v.string())),
+    serverIds: v.optional(v.array(v.id("servers"))),
     notes: v.optional(v.string()),
     requiresPayment: v.optional(v.boolean()),
-    createdBy: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
     const code = generateInviteCode();
     
     const inviteId = await ctx.db.insert("invites", {
@@ -28,26 +65,42 @@ export const create = mutation({
       maxUses: args.maxUses,
       usedCount: 0,
       expiresAt: args.expiresAt,
-      createdBy: args.createdBy,
+      createdBy: admin.clerkId,
       createdAt: Date.now(),
       isActive: true,
       serverType: args.serverType,
       libraries: args.libraries,
+      serverIds: args.serverIds,
       notes: args.notes,
       requiresPayment: args.requiresPayment,
     });
 
+    // Email-restricted invites are sent to that address
+    const emailed = !!args.email?.includes("@");
+    if (emailed) {
+      await queueInviteEmail(ctx, (await ctx.db.get(inviteId))!, "invites");
+    }
+
     // Log the action
     await ctx.db.insert("auditLog", {
       action: "invite_created",
-      actorId: args.createdBy,
+      actorId: admin.clerkId,
       targetType: "invite",
       targetId: inviteId,
-      details: JSON.stringify({ code, maxUses: args.maxUses }),
+      details: JSON.stringify({ code, maxUses: args.maxUses, emailed }),
       timestamp: Date.now(),
     });
 
-    return { inviteId, code };
+    await emitWebhookEvent(ctx, WebhookEvents.INVITE_CREATED, {
+      inviteId,
+      code,
+      email: args.email,
+      maxUses: args.maxUses,
+      expiresAt: args.expiresAt,
+      serverType: args.serverType,
+    });
+
+    return { inviteId, code, emailed };
   },
 });
 
@@ -66,8 +119,20 @@ export const getByCode = query({
     const isExpired = invite.expiresAt && invite.expiresAt < Date.now();
     const isUsedUp = invite.usedCount >= invite.maxUses;
 
+    // Delivery details are for admins only
+    const {
+      emailStatus: _emailStatus,
+      emailJobId: _emailJobId,
+      emailTrackingToken: _emailTrackingToken,
+      emailSentAt: _emailSentAt,
+      emailError: _emailError,
+      emailOpenedAt: _emailOpenedAt,
+      emailClickedAt: _emailClickedAt,
+      ...publicInvite
+    } = invite;
+
     return {
-      ...invite,
+      ...publicInvite,
       isValid: invite.isActive && !isExpired && !isUsedUp,
       isExpired,
       isUsedUp,
@@ -81,6 +146,8 @@ export const list = query({
     activeOnly: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const invites = args.activeOnly
       ? await ctx.db
           .query("invites")
@@ -106,138 +173,215 @@ export const list = query({
 export const getById = query({
   args: { id: v.id("invites") },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
     return await ctx.db.get(args.id);
   },
 });
 
-// Redeem an invite
-export const redeem = mutation({
-  args: {
-    code: v.string(),
-    clerkId: v.string(),
-    email: v.string(),
-    username: v.string(),
-    plexEmail: v.optional(v.string()),
-    plexUserId: v.optional(v.string()),
-    plexUsername: v.optional(v.string()),
-    embyUserId: v.optional(v.string()),
-    embyUsername: v.optional(v.string()),
-    ipAddress: v.optional(v.string()),
-    userAgent: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    // Get the invite
-    const invite = await ctx.db
-      .query("invites")
-      .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
-      .first();
-
-    if (!invite) {
-      throw new Error("Invalid invite code");
-    }
-
-    // Validate invite
-    if (!invite.isActive) {
-      throw new Error("This invite has been deactivated");
-    }
-
-    if (invite.expiresAt && invite.expiresAt < Date.now()) {
-      throw new Error("This invite has expired");
-    }
-
-    if (invite.usedCount >= invite.maxUses) {
-      throw new Error("This invite has reached its maximum uses");
-    }
-
-    if (invite.email && invite.email.toLowerCase() !== args.email.toLowerCase()) {
-      throw new Error("This invite is restricted to a specific email address");
-    }
-
-    // Check if user already exists
-    const existingUser = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
-      .first();
+const redeemArgs = {
+  code: v.string(),
+  username: v.string(),
+  plexEmail: v.optional(v.string()),
+  plexUserId: v.optional(v.string()),
+  plexUsername: v.optional(v.string()),
+  embyUserId: v.optional(v.string()),
+  embyUsername: v.optional(v.string()),
+  jellyfinUserId: v.optional(v.string()),
+  jellyfinUsername: v.optional(v.string()),
+  serverAccounts: v.optional(v.array(v.object({
+    serverId: v.id("servers"),
+    externalUserId: v.optional(v.string()),
+    username: v.optional(v.string()),
+    email: v.optional(v.string()),
+  }))),
+  ipAddress: v.optional(v.string()),
+  userAgent: v.optional(v.string()),
+};
+
+export type RedeemInviteArgs = ObjectType<typeof redeemArgs>;
+
+/**
+ * Why an invite can't be redeemed by this email right now, or null if it can.
+ * Pass pendingUses to count redemptions that are still being provisioned.
+ */
+export function getInviteRedeemError(
+  invite: Doc<"invites">,
+  email: string,
+  pendingUses = 0
+): string | null {
+  if (!invite.isActive) {
+    return "This invite has been deactivated";
+  }
+
+  if (invite.expiresAt && invite.expiresAt < Date.now()) {
+    return "This invite has expired";
+  }
+
+  if (invite.usedCount + pendingUses >= invite.maxUses) {
+    return "This invite has reached its maximum uses";
+  }
+
+  if (invite.email && invite.email.toLowerCase() !== email.toLowerCase()) {
+    return "This invite is restricted to a specific email address";
+  }
+
+  return null;
+}
 
-    // Back-compat: older callers used plexUsername to send an email address.
-    const inferredPlexEmail =
-      args.plexEmail ||
-      (args.plexUsername && args.plexUsername.includes("@") ? args.plexUsername : undefined);
-
-    const inferredPlexUsername =
-      args.plexUsername && !args.plexUsername.includes("@") ? args.plexUsername : undefined;
-
-    // If a pending user exists (created via webhook/ensure), upgrade it instead of failing.
-    let userId: any;
-    if (existingUser) {
-      const alreadyRedeemed = !!existingUser.inviteCode;
-      const hasAccess = existingUser.serverAccess && existingUser.serverAccess !== "none";
-
-      if (alreadyRedeemed || hasAccess) {
-        throw new Error("You have already redeemed an invite");
-      }
-
-      userId = existingUser._id;
-      await ctx.db.patch(existingUser._id, {
-        email: args.email,
-        username: args.username,
-        inviteCode: args.code.toUpperCase(),
-        plexEmail: inferredPlexEmail ?? existingUser.plexEmail,
-        plexUserId: args.plexUserId ?? existingUser.plexUserId,
-        plexUsername: inferredPlexUsername ?? existingUser.plexUsername,
-        embyUserId: args.embyUserId ?? existingUser.embyUserId,
-        embyUsername: args.embyUsername ?? existingUser.embyUsername,
-        serverAccess: invite.serverType,
-        isActive: true,
-      });
-    } else {
-      // Create user
-      userId = await ctx.db.insert("users", {
-        clerkId: args.clerkId,
-        email: args.email,
-        username: args.username,
-        inviteCode: args.code.toUpperCase(),
-        plexEmail: inferredPlexEmail,
-        plexUserId: args.plexUserId,
-        plexUsername: inferredPlexUsername,
-        embyUserId: args.embyUserId,
-        embyUsername: args.embyUsername,
-        serverAccess: invite.serverType,
-        isActive: true,
-        createdAt: Date.now(),
-      });
+/**
+ * Record an invite redemption for a user whose server accounts already exist.
+ * Shared by the redeem mutation and the provisioning finalizer.
+ */
+export async function redeemInvite(
+  ctx: any,
+  caller: { clerkId: string; email: string },
+  args: RedeemInviteArgs
+) {
+  const clerkId = caller.clerkId;
+  const email = caller.email;
+
+  // Get the invite
+  const invite = await ctx.db
+    .query("invites")
+    .withIndex("by_code", (q: any) => q.eq("code", args.code.toUpperCase()))
+    .first();
+
+  if (!invite) {
+    throw new Error("Invalid invite code");
+  }
+
+  const inviteError = getInviteRedeemError(invite, email);
+  if (inviteError) {
+    throw new Error(inviteError);
+  }
+
+  // Paid invites grant what the user's plan includes
+  const access = await resolveInviteAccess(ctx, invite, clerkId);
+
+  // Check if user already exists
+  const existingUser = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", clerkId))
+    .first();
+
+  // Back-compat: older callers used plexUsername to send an email address.
+  const inferredPlexEmail =
+    args.plexEmail ||
+    (args.plexUsername && args.plexUsername.includes("@") ? args.plexUsername : undefined);
+
+  const inferredPlexUsername =
+    args.plexUsername && !args.plexUsername.includes("@") ? args.plexUsername : undefined;
+
+  // If a pending user exists (created via webhook/ensure), upgrade it instead of failing.
+  let userId: any;
+  if (existingUser) {
+    const alreadyRedeemed = !!existingUser.inviteCode;
+    const hasAccess = existingUser.serverAccess && existingUser.serverAccess !== "none";
+
+    if (alreadyRedeemed || hasAccess) {
+      throw new Error("You have already redeemed an invite");
     }
 
-    // Record redemption
-    await ctx.db.insert("redemptions", {
-      inviteId: invite._id,
-      userId,
-      redeemedAt: Date.now(),
-      ipAddress: args.ipAddress,
-      userAgent: args.userAgent,
+    userId = existingUser._id;
+    await ctx.db.patch(existingUser._id, {
+      email,
+      username: args.username,
+      inviteCode: args.code.toUpperCase(),
+      plexEmail: inferredPlexEmail ?? existingUser.plexEmail,
+      plexUserId: args.plexUserId ?? existingUser.plexUserId,
+      plexUsername: inferredPlexUsername ?? existingUser.plexUsername,
+      embyUserId: args.embyUserId ?? existingUser.embyUserId,
+      embyUsername: args.embyUsername ?? existingUser.embyUsername,
+      jellyfinUserId: args.jellyfinUserId ?? existingUser.jellyfinUserId,
+      jellyfinUsername: args.jellyfinUsername ?? existingUser.jellyfinUsername,
+      serverAccess: access.serverType,
+      serverIds: access.serverIds ?? existingUser.serverIds,
+      serverAccounts: args.serverAccounts ?? existingUser.serverAccounts,
+      isActive: true,
     });
-
-    // Increment use count
-    await ctx.db.patch(invite._id, {
-      usedCount: invite.usedCount + 1,
+  } else {
+    // Create user
+    userId = await ctx.db.insert("users", {
+      clerkId,
+      email,
+      username: args.username,
+      inviteCode: args.code.toUpperCase(),
+      plexEmail: inferredPlexEmail,
+      plexUserId: args.plexUserId,
+      plexUsername: inferredPlexUsername,
+      embyUserId: args.embyUserId,
+      embyUsername: args.embyUsername,
+      jellyfinUserId: args.jellyfinUserId,
+      jellyfinUsername: args.jellyfinUsername,
+      serverAccess: access.serverType,
+      serverIds: access.serverIds,
+      serverAccounts: args.serverAccounts,
+      isActive: true,
+      createdAt: Date.now(),
     });
 
-    // Log the action
-    await ctx.db.insert("auditLog", {
-      action: "invite_redeemed",
-      actorId: args.clerkId,
-      actorEmail: args.email,
-      targetType: "invite",
-      targetId: invite._id,
-      details: JSON.stringify({ code: args.code, username: args.username }),
-      timestamp: Date.now(),
+    await emitWebhookEvent(ctx, WebhookEvents.USER_CREATED, {
+      userId,
+      clerkId,
+      email,
+      username: args.username,
     });
+  }
+
+  // Record redemption
+  await ctx.db.insert("redemptions", {
+    inviteId: invite._id,
+    userId,
+    redeemedAt: Date.now(),
+    ipAddress: args.ipAddress,
+    userAgent: args.userAgent,
+  });
+
+  // Increment use count
+  await ctx.db.patch(invite._id, {
+    usedCount: invite.usedCount + 1,
+  });
+
+  // Log the action
+  await ctx.db.insert("auditLog", {
+    action: "invite_redeemed",
+    actorId: clerkId,
+    actorEmail: email,
+    targetType: "invite",
+    targetId: invite._id,
+    details: JSON.stringify({ code: args.code, username: args.username }),
+    timestamp: Date.now(),
+  });
+
+  await emitWebhookEvent(ctx, WebhookEvents.INVITE_REDEEMED, {
+    inviteId: invite._id,
+    code: invite.code,
+    userId,
+    clerkId,
+    email,
+    username: args.username,
+    serverType: access.serverType,
+  });
+
+  return {
+    userId,
+    serverType: access.serverType,
+    libraries: access.libraries,
+    serverIds: access.serverIds,
+  };
+}
 
-    return {
-      userId,
-      serverType: invite.serverType,
-      libraries: invite.libraries,
-    };
+// Redeem an invite
+export const redeem = mutation({
+  args: redeemArgs,
+  handler: async (ctx, args) => {
+    // Redeem as the signed-in user
+    const caller = await requireUser(ctx);
+    if (!caller.email) {
+      throw new Error("Your account has no email address");
+    }
+
+    return await redeemInvite(ctx, { clerkId: caller.clerkId, email: caller.email }, args);
   },
 });
 
@@ -245,18 +389,25 @@ export const redeem = mutation({
 export const deactivate = mutation({
   args: {
     id: v.id("invites"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     await ctx.db.patch(args.id, { isActive: false });
 
     await ctx.db.insert("auditLog", {
       action: "invite_deactivated",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "invite",
       targetId: args.id,
       timestamp: Date.now(),
     });
+
+    const invite = await ctx.db.get(args.id);
+    await emitWebhookEvent(ctx, WebhookEvents.INVITE_DEACTIVATED, {
+      inviteId: args.id,
+      code: invite?.code,
+    });
   },
 });
 
@@ -264,18 +415,104 @@ export const deactivate = mutation({
 export const reactivate = mutation({
   args: {
     id: v.id("invites"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     await ctx.db.patch(args.id, { isActive: true });
 
     await ctx.db.insert("auditLog", {
       action: "invite_reactivated",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
+      targetType: "invite",
+      targetId: args.id,
+      timestamp: Date.now(),
+    });
+  },
+});
+
+// Send the invite email again (admin)
+export const resendEmail = mutation({
+  args: {
+    id: v.id("invites"),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const invite = await ctx.db.get(args.id);
+    if (!invite) throw new Error("Invite not found");
+    if (!invite.email?.includes("@")) {
+      throw new Error("This invite isn't restricted to an email address");
+    }
+    const inviteError = getInviteRedeemError(invite, invite.email);
+    if (inviteError) throw new Error(inviteError);
+
+    const jobId = await queueInviteEmail(ctx, invite, "invites");
+
+    await ctx.db.insert("auditLog", {
+      action: "invite_email_resent",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
       targetType: "invite",
       targetId: args.id,
+      details: JSON.stringify({ code: invite.code, email: invite.email, jobId }),
       timestamp: Date.now(),
     });
+
+    return { jobId };
+  },
+});
+
+// What the invite email job needs to send, or null when it was superseded
+export const internalGetEmailDelivery = internalQuery({
+  args: { inviteId: v.id("invites"), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const invite = await ctx.db.get(args.inviteId);
+    if (!invite || invite.emailJobId !== args.jobId || !invite.email) return null;
+    return {
+      to: invite.email,
+      code: invite.code,
+      serverType: invite.serverType,
+      trackingToken: invite.emailTrackingToken,
+    };
+  },
+});
+
+// Record that the invite email went out
+export const internalMarkEmailSent = internalMutation({
+  args: { inviteId: v.id("invites"), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const invite = await ctx.db.get(args.inviteId);
+    if (!invite || invite.emailJobId !== args.jobId) return;
+    await ctx.db.patch(args.inviteId, { emailStatus: "sent", emailSentAt: Date.now(), emailError: undefined });
+  },
+});
+
+// Record an open (tracking pixel) or click-through from the invite email (server-side routes only)
+export const recordEmailEvent = mutation({
+  args: {
+    internalKey: v.string(),
+    code: v.string(),
+    token: v.string(),
+    event: v.union(v.literal("opened"), v.literal("clicked")),
+  },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const invite = await ctx.db
+      .query("invites")
+      .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
+      .first();
+    if (!invite?.emailTrackingToken || invite.emailTrackingToken !== args.token) return { recorded: false };
+
+    // A click implies the email was opened, even when images were blocked
+    const now = Date.now();
+    const patch: Partial<Doc<"invites">> = {};
+    if (!invite.emailOpenedAt) patch.emailOpenedAt = now;
+    if (args.event === "clicked" && !invite.emailClickedAt) patch.emailClickedAt = now;
+    if (Object.keys(patch).length > 0) await ctx.db.patch(invite._id, patch);
+
+    return { recorded: true };
   },
 });
 
@@ -283,16 +520,17 @@ export const reactivate = mutation({
 export const remove = mutation({
   args: {
     id: v.id("invites"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     const invite = await ctx.db.get(args.id);
     
     await ctx.db.delete(args.id);
 
     await ctx.db.insert("auditLog", {
       action: "invite_deleted",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "invite",
       details: JSON.stringify({ code: invite?.code }),
       timestamp: Date.now(),
@@ -303,6 +541,8 @@ export const remove = mutation({
 // Get invite statistics
 export const getStats = query({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
+
     const allInvites = await ctx.db.query("invites").collect();
     const activeInvites = allInvites.filter((i) => i.isActive);
     const totalRedemptions = allInvites.reduce((sum, i) => sum + i.usedCount, 0);
@@ -1,7 +1,41 @@
 import { v } from "convex/values";
 import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
-import type { Id } from "./_generated/dataModel";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin, requireInternalKey, requireSelfOrAdmin, requireUser } from "./auth";
+import { emitWebhookEvent } from "./webhooks";
+import { insertJob } from "./jobs";
+import { revokeAccountTokens } from "./playlists";
+import { getPlanByPriceId } from "./plans";
+import { decryptSecret, encryptSecret, getSecretSetting } from "./secrets";
+import { WebhookEvents } from "../lib/webhooks";
+import { SETTINGS_KEYS } from "../lib/constants";
+import {
+  createIptvProvider,
+  normalizeMacAddress,
+  parseXtremePanelProfile,
+  type IptvLine,
+  type IptvPanelConfig,
+  type IptvProvider,
+  type IptvProviderId,
+  type XtremePanelProfile,
+} from "../lib/iptv";
+
+const providerValidator = v.union(v.literal("xtremeui"), v.literal("xuione"), v.literal("stalker"));
+
+const liveStatusValidator = v.object({
+  status: v.optional(v.string()),
+  expiresAt: v.optional(v.number()),
+  isTrial: v.boolean(),
+  activeConnections: v.optional(v.number()),
+  maxConnections: v.optional(v.number()),
+  allowedOutputFormats: v.array(v.string()),
+  serverTimezone: v.optional(v.string()),
+  serverTime: v.optional(v.string()),
+});
+
+// Accounts and plans created before providers were pluggable are Xtreme UI
+const DEFAULT_PROVIDER: IptvProviderId = "xtremeui";
 
 function normalizeEmail(email: string): string {
   return email.trim().toLowerCase();
@@ -46,28 +80,68 @@ async function enqueueJob(ctx: any, args: {
   runAt?: number;
   maxAttempts?: number;
 }) {
-  const now = Date.now();
-  const jobId = await ctx.db.insert("jobs", {
-    type: args.type,
-    status: "pending",
-    userId: args.userId,
-    clerkId: args.clerkId,
-    payload: args.payload ? JSON.stringify(args.payload) : undefined,
-    attempts: 0,
-    maxAttempts: args.maxAttempts ?? 10,
-    nextRunAt: args.runAt ?? now,
-    createdAt: now,
-    updatedAt: now,
+  return await insertJob(ctx, { ...args, payload: args.payload || undefined });
+}
+
+// Suspend a user's line outside the billing flow, e.g. when a charge is disputed
+export async function suspendIptvLine(ctx: any, user: Doc<"users">): Promise<Id<"jobs"> | null> {
+  const account: Doc<"iptvAccounts"> | null = await ctx.db
+    .query("iptvAccounts")
+    .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+    .first();
+  if (!account || account.status === "suspended") return null;
+
+  const jobId = await enqueueJob(ctx, {
+    type: "iptv.suspend",
+    userId: user._id,
+    clerkId: user.clerkId,
+    payload: { accountId: account._id },
+  });
+  await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "iptv-suspend" });
+  return jobId;
+}
+
+// Reactivate a line suspended by suspendIptvLine, keeping the expiry it had
+export async function reactivateIptvLine(ctx: any, user: Doc<"users">): Promise<Id<"jobs"> | null> {
+  const account: Doc<"iptvAccounts"> | null = await ctx.db
+    .query("iptvAccounts")
+    .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+    .first();
+  if (!account || account.status !== "suspended") return null;
+
+  const jobId = await enqueueJob(ctx, {
+    type: "iptv.provision",
+    userId: user._id,
+    clerkId: user.clerkId,
+    payload: {
+      accountId: account._id,
+      planId: account.planId,
+      desiredExpiresAt: account.expiresAt && account.expiresAt > Date.now() ? account.expiresAt : undefined,
+    },
   });
+  await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "iptv-reactivate" });
   return jobId;
 }
 
+async function planProvider(ctx: any, planId?: Id<"iptvPlans">): Promise<IptvProviderId> {
+  const plan: Doc<"iptvPlans"> | null = planId ? await ctx.db.get(planId) : null;
+  return plan?.provider ?? DEFAULT_PROVIDER;
+}
+
+// A line can't move between panels once it exists on one
+function assertSameProvider(account: Doc<"iptvAccounts"> | null, provider: IptvProviderId) {
+  if (account && account.status !== "pending" && account.provider !== provider) {
+    throw new Error("VALIDATION_ERROR: That plan is on a different IPTV panel than your account");
+  }
+}
+
 export const getMyAccount = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
     if (!user) return null;
 
@@ -80,22 +154,106 @@ export const getMyAccount = query({
 
     const plan = account.planId ? await ctx.db.get(account.planId) : null;
 
+    // Stalker set-top boxes are pointed at the portal rather than a playlist
+    const portalUrl =
+      account.provider === "stalker"
+        ? await loadPanelConfig(ctx, "stalker").then((c) => c.streamBaseUrl).catch(() => null)
+        : null;
+
+    // Panel credentials stay server-side; players use the tokenized playlist link
+    const { password: _password, m3uUrl: _m3uUrl, ...safeAccount } = account;
+
     return {
-      ...account,
+      ...safeAccount,
       plan,
+      portalUrl,
+    };
+  },
+});
+
+// The caller's line with its credentials, for the live status route (server-side API routes only)
+export const getLineForStatus = query({
+  args: { internalKey: v.string(), clerkId: v.string() },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .first();
+    if (!user) return null;
+
+    const account = await ctx.db
+      .query("iptvAccounts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+    if (!account) return null;
+
+    return {
+      accountId: account._id,
+      provider: account.provider,
+      username: account.username,
+      password: account.password ? await decryptSecret(account.password) : account.password,
+      status: account.status,
+      expiresAt: account.expiresAt,
+      liveStatus: account.liveStatus,
+      liveStatusCheckedAt: account.liveStatusCheckedAt,
+    };
+  },
+});
+
+// The caller's line and what narrows its lineup, for the channel browser (server-side API routes only)
+export const getLineForChannels = query({
+  args: { internalKey: v.string(), clerkId: v.string() },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .first();
+    if (!user) return null;
+
+    const account = await ctx.db
+      .query("iptvAccounts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+    if (!account) return null;
+
+    const plan = account.planId ? await ctx.db.get(account.planId) : null;
+    return {
+      provider: account.provider,
+      username: account.username,
+      password: account.password ? await decryptSecret(account.password) : account.password,
+      status: account.status,
+      bouquetIds: account.bouquetIds ?? plan?.bouquetIds ?? [],
+      channelGroups: plan?.channelGroups ?? [],
     };
   },
 });
 
+// Cache what the panel's player API reported (server-side API routes only)
+export const saveLiveStatus = mutation({
+  args: { internalKey: v.string(), accountId: v.id("iptvAccounts"), liveStatus: liveStatusValidator },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+    await ctx.db.patch(args.accountId, { liveStatus: args.liveStatus, liveStatusCheckedAt: Date.now() });
+  },
+});
+
 export const listPlans = query({
   args: {
-    provider: v.optional(v.union(v.literal("xtremeui"))),
+    provider: v.optional(providerValidator),
   },
   handler: async (ctx, args) => {
-    const provider = args.provider ?? "xtremeui";
+    await requireUser(ctx);
+
+    if (!args.provider) {
+      return await ctx.db.query("iptvPlans").order("asc").collect();
+    }
     return await ctx.db
       .query("iptvPlans")
-      .withIndex("by_provider", (q) => q.eq("provider", provider))
+      .withIndex("by_provider", (q) => q.eq("provider", args.provider!))
       .order("asc")
       .collect();
   },
@@ -104,73 +262,97 @@ export const listPlans = query({
 export const getConfigStatus = query({
   args: {},
   handler: async (ctx) => {
-    const xtremeUrl = await getSetting(ctx, "xtreme_ui_url");
-    const apiKey = await getSetting(ctx, "xtreme_ui_api_key");
-    const streamBaseUrl = await getSetting(ctx, "xtreme_ui_stream_base_url");
-
-    const derivedStreamBaseUrl = (() => {
-      if (streamBaseUrl) return streamBaseUrl;
-      if (!xtremeUrl) return null;
-      try {
-        const u = new URL(xtremeUrl);
-        return `${u.protocol}//${u.host}`;
-      } catch {
-        return xtremeUrl;
-      }
-    })();
+    await requireUser(ctx);
 
-    const missing: string[] = [];
-    if (!xtremeUrl) missing.push("xtreme_ui_url");
-    if (!apiKey && !(xtremeUrl && apiUrlLikelyEmbedsToken(xtremeUrl))) missing.push("xtreme_ui_api_key");
+    const providers = {} as Record<IptvProviderId, boolean>;
+    for (const provider of Object.keys(PANEL_SETTINGS) as IptvProviderId[]) {
+      providers[provider] = (await missingPanelSettings(ctx, provider)).length === 0;
+    }
+
+    const xtremeUrl = await getSetting(ctx, SETTINGS_KEYS.XTREME_UI_URL);
+    const streamBaseUrl = await getSetting(ctx, SETTINGS_KEYS.XTREME_UI_STREAM_BASE_URL);
+    const configured = Object.values(providers).some(Boolean);
 
     return {
-      configured: missing.length === 0,
-      missing,
+      configured,
+      missing: configured ? [] : await missingPanelSettings(ctx, DEFAULT_PROVIDER),
+      providers,
       panelUrl: xtremeUrl,
-      streamBaseUrl: derivedStreamBaseUrl,
+      streamBaseUrl: streamBaseUrl || (xtremeUrl ? deriveOriginUrl(xtremeUrl) : null),
     };
   },
 });
 
-function requireAdmin() {
-  return async (ctx: any, adminClerkId: string) => {
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", adminClerkId))
-      .first();
-    if (!admin) throw new Error("Unauthorized");
-    return admin;
-  };
-}
-
 export const adminUpsertPlan = mutation({
   args: {
-    adminClerkId: v.string(),
     id: v.optional(v.id("iptvPlans")),
-    provider: v.optional(v.union(v.literal("xtremeui"))),
+    provider: v.optional(providerValidator),
     name: v.string(),
     description: v.optional(v.string()),
     bouquetIds: v.optional(v.array(v.string())),
     durationDays: v.optional(v.number()),
+    channelGroups: v.optional(v.array(v.string())),
     stripePriceId: v.optional(v.string()),
+    renewalPriceId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    await requireAdmin()(ctx, args.adminClerkId);
+    await requireAdmin(ctx);
 
     const now = Date.now();
-    const provider = args.provider ?? "xtremeui";
+    const provider = args.provider ?? DEFAULT_PROVIDER;
+
+    // Renewals are one-off payments, so they need a one-time price of their own
+    if (args.renewalPriceId) {
+      if (!args.renewalPriceId.startsWith("price_")) {
+        throw new Error("VALIDATION_ERROR: Renewal price ID must start with price_");
+      }
+      if (
+        args.renewalPriceId === args.stripePriceId ||
+        (await getIptvPlanByPriceId(ctx, args.renewalPriceId)) ||
+        (await getPlanByPriceId(ctx, args.renewalPriceId))
+      ) {
+        throw new Error("VALIDATION_ERROR: Renewal price is a subscription price; use a one-time price");
+      }
+    }
+
+    // Webhooks map a purchased price back to exactly one plan
+    if (args.stripePriceId) {
+      if (!args.stripePriceId.startsWith("price_")) {
+        throw new Error("VALIDATION_ERROR: Stripe price ID must start with price_");
+      }
+      const samePrice = await getIptvPlanByPriceId(ctx, args.stripePriceId);
+      if (samePrice && samePrice._id !== args.id) {
+        throw new Error(`VALIDATION_ERROR: Price is already used by IPTV plan "${samePrice.name}"`);
+      }
+      const mediaPlan = await getPlanByPriceId(ctx, args.stripePriceId);
+      if (mediaPlan) {
+        throw new Error(`VALIDATION_ERROR: Price is already used by plan "${mediaPlan.name}"`);
+      }
+    }
 
     if (args.id) {
       const existing = await ctx.db.get(args.id);
       if (!existing) throw new Error("Plan not found");
 
+      if (existing.provider !== provider) {
+        const inUse = await ctx.db
+          .query("iptvAccounts")
+          .withIndex("by_plan", (q) => q.eq("planId", args.id))
+          .first();
+        if (inUse) {
+          throw new Error("VALIDATION_ERROR: Can't change the provider of a plan in use by an IPTV account");
+        }
+      }
+
       await ctx.db.patch(args.id, {
         provider,
         name: args.name,
         description: args.description,
         bouquetIds: args.bouquetIds,
         durationDays: args.durationDays,
+        channelGroups: args.channelGroups,
         stripePriceId: args.stripePriceId,
+        renewalPriceId: args.renewalPriceId,
         updatedAt: now,
       });
       return args.id;
@@ -182,7 +364,9 @@ export const adminUpsertPlan = mutation({
       description: args.description,
       bouquetIds: args.bouquetIds,
       durationDays: args.durationDays,
+      channelGroups: args.channelGroups,
       stripePriceId: args.stripePriceId,
+      renewalPriceId: args.renewalPriceId,
       createdAt: now,
       updatedAt: now,
     });
@@ -191,11 +375,10 @@ export const adminUpsertPlan = mutation({
 
 export const adminDeletePlan = mutation({
   args: {
-    adminClerkId: v.string(),
     id: v.id("iptvPlans"),
   },
   handler: async (ctx, args) => {
-    await requireAdmin()(ctx, args.adminClerkId);
+    await requireAdmin(ctx);
 
     const plan = await ctx.db.get(args.id);
     if (!plan) return { deleted: false };
@@ -216,15 +399,17 @@ export const adminDeletePlan = mutation({
 
 export const requestProvision = mutation({
   args: {
-    clerkId: v.string(),
     desiredUsername: v.optional(v.string()),
     planId: v.optional(v.id("iptvPlans")),
     bouquetIds: v.optional(v.array(v.string())),
+    macAddress: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
 
     if (!user) {
@@ -238,15 +423,28 @@ export const requestProvision = mutation({
 
     const username = (args.desiredUsername || generateUsernameFromEmail(user.email)).trim();
 
+    const provider = await planProvider(ctx, args.planId);
+    assertSameProvider(existing, provider);
+
+    let macAddress = existing?.macAddress;
+    if (args.macAddress) {
+      macAddress = normalizeMacAddress(args.macAddress) ?? undefined;
+      if (!macAddress) throw new Error("VALIDATION_ERROR: Enter the MAC address as 00:1A:79:XX:XX:XX");
+    }
+    if (provider === "stalker" && !macAddress) {
+      throw new Error("VALIDATION_ERROR: This plan needs your set-top box MAC address");
+    }
+
     const now = Date.now();
 
     const accountId = existing
       ? existing._id
       : await ctx.db.insert("iptvAccounts", {
-          provider: "xtremeui",
+          provider,
           userId: user._id,
           username,
-          password: generatePassword(),
+          password: await encryptSecret(generatePassword()),
+          macAddress,
           status: "pending",
           planId: args.planId,
           bouquetIds: args.bouquetIds,
@@ -256,7 +454,9 @@ export const requestProvision = mutation({
 
     if (existing) {
       await ctx.db.patch(existing._id, {
+        provider,
         username,
+        macAddress,
         planId: args.planId,
         bouquetIds: args.bouquetIds,
         status: existing.status === "active" ? "active" : "pending",
@@ -267,7 +467,7 @@ export const requestProvision = mutation({
     const jobId = await enqueueJob(ctx, {
       type: "iptv.provision",
       userId: user._id,
-      clerkId: args.clerkId,
+      clerkId: caller.clerkId,
       payload: {
         accountId,
         planId: args.planId,
@@ -280,11 +480,12 @@ export const requestProvision = mutation({
 });
 
 export const requestSync = mutation({
-  args: { clerkId: v.string() },
-  handler: async (ctx, args) => {
+  args: {},
+  handler: async (ctx) => {
+    const caller = await requireUser(ctx);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
     if (!user) throw new Error("User not found");
 
@@ -300,7 +501,7 @@ export const requestSync = mutation({
     const jobId = await enqueueJob(ctx, {
       type: "iptv.sync",
       userId: user._id,
-      clerkId: args.clerkId,
+      clerkId: caller.clerkId,
       payload: { accountId: account._id },
     });
 
@@ -309,15 +510,17 @@ export const requestSync = mutation({
 });
 
 export const requestChangePassword = mutation({
-  args: { clerkId: v.string(), newPassword: v.string() },
+  args: { newPassword: v.string() },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+
     if (args.newPassword.length < 8) {
       throw new Error("VALIDATION_ERROR: Password must be at least 8 characters");
     }
 
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
     if (!user) throw new Error("User not found");
 
@@ -331,8 +534,8 @@ export const requestChangePassword = mutation({
     const jobId = await enqueueJob(ctx, {
       type: "iptv.changePassword",
       userId: user._id,
-      clerkId: args.clerkId,
-      payload: { accountId: account._id, newPassword: args.newPassword },
+      clerkId: caller.clerkId,
+      payload: { accountId: account._id, newPassword: await encryptSecret(args.newPassword) },
     });
 
     return { jobId };
@@ -340,11 +543,13 @@ export const requestChangePassword = mutation({
 });
 
 export const requestChangePlan = mutation({
-  args: { clerkId: v.string(), planId: v.id("iptvPlans") },
+  args: { planId: v.id("iptvPlans") },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
     if (!user) throw new Error("User not found");
 
@@ -354,11 +559,15 @@ export const requestChangePlan = mutation({
       .first();
 
     if (!account) throw new Error("No IPTV account yet");
+    if (account.stripeSubscriptionId) {
+      throw new Error("VALIDATION_ERROR: Your IPTV plan is billed on its own price; buy the plan you want instead");
+    }
+    assertSameProvider(account, await planProvider(ctx, args.planId));
 
     const jobId = await enqueueJob(ctx, {
       type: "iptv.changePlan",
       userId: user._id,
-      clerkId: args.clerkId,
+      clerkId: caller.clerkId,
       payload: { accountId: account._id, planId: args.planId },
     });
 
@@ -368,12 +577,11 @@ export const requestChangePlan = mutation({
 
 export const adminSetPlanForUser = mutation({
   args: {
-    adminClerkId: v.string(),
     userId: v.id("users"),
     planId: v.id("iptvPlans"),
   },
   handler: async (ctx, args) => {
-    await requireAdmin()(ctx, args.adminClerkId);
+    await requireAdmin(ctx);
 
     const user = await ctx.db.get(args.userId);
     if (!user) throw new Error("User not found");
@@ -383,16 +591,22 @@ export const adminSetPlanForUser = mutation({
       .withIndex("by_user", (q) => q.eq("userId", args.userId))
       .first();
 
+    const provider = await planProvider(ctx, args.planId);
+    assertSameProvider(existing, provider);
+    if (provider === "stalker" && !existing?.macAddress) {
+      throw new Error("VALIDATION_ERROR: Stalker plans need the subscriber's MAC address; they can request IPTV from My IPTV");
+    }
+
     const now = Date.now();
     let accountId = existing?._id;
 
     if (!existing) {
       const username = generateUsernameFromEmail(user.email);
       accountId = await ctx.db.insert("iptvAccounts", {
-        provider: "xtremeui",
+        provider,
         userId: user._id,
         username,
-        password: generatePassword(),
+        password: await encryptSecret(generatePassword()),
         status: "pending",
         planId: args.planId,
         createdAt: now,
@@ -400,6 +614,7 @@ export const adminSetPlanForUser = mutation({
       });
     } else {
       await ctx.db.patch(existing._id, {
+        provider,
         planId: args.planId,
         updatedAt: now,
       });
@@ -417,15 +632,9 @@ export const adminSetPlanForUser = mutation({
 });
 
 // ============================================================
-// Xtreme UI API helpers (network calls run in Actions)
+// Panel connections (network calls run in Actions)
 // ============================================================
 
-type XtremeUiConfig = {
-  apiUrl: string;
-  apiKey: string;
-  streamBaseUrl: string;
-};
-
 function apiUrlLikelyEmbedsToken(apiUrl: string): boolean {
   try {
     const u = new URL(apiUrl);
@@ -440,33 +649,131 @@ function apiUrlLikelyEmbedsToken(apiUrl: string): boolean {
   }
 }
 
-export const internalGetXtremeUiConfig = internalQuery({
-  args: {},
-  handler: async (ctx): Promise<XtremeUiConfig> => {
-    const apiUrl = (await getSetting(ctx, "xtreme_ui_url")) || "";
-    const apiKey = (await getSetting(ctx, "xtreme_ui_api_key")) || "";
-    const streamBaseUrlSetting = await getSetting(ctx, "xtreme_ui_stream_base_url");
+// Settings each provider's panel connection is read from
+const PANEL_SETTINGS: Record<
+  IptvProviderId,
+  { label: string; url: string; apiKey: string; apiUser?: string; streamBaseUrl: string }
+> = {
+  xtremeui: {
+    label: "Xtreme UI",
+    url: SETTINGS_KEYS.XTREME_UI_URL,
+    apiKey: SETTINGS_KEYS.XTREME_UI_API_KEY,
+    streamBaseUrl: SETTINGS_KEYS.XTREME_UI_STREAM_BASE_URL,
+  },
+  xuione: {
+    label: "XUI.one",
+    url: SETTINGS_KEYS.XUI_ONE_URL,
+    apiKey: SETTINGS_KEYS.XUI_ONE_API_KEY,
+    streamBaseUrl: SETTINGS_KEYS.XUI_ONE_STREAM_BASE_URL,
+  },
+  stalker: {
+    label: "Stalker portal",
+    url: SETTINGS_KEYS.STALKER_API_URL,
+    apiKey: SETTINGS_KEYS.STALKER_API_PASSWORD,
+    apiUser: SETTINGS_KEYS.STALKER_API_USER,
+    streamBaseUrl: SETTINGS_KEYS.STALKER_PORTAL_URL,
+  },
+};
 
-    if (!apiUrl) {
-      throw new Error("CONFIG_MISSING: Xtreme UI settings not configured");
-    }
+// Setting keys a provider still needs before lines can be managed
+async function missingPanelSettings(ctx: any, provider: IptvProviderId): Promise<string[]> {
+  const keys = PANEL_SETTINGS[provider];
+  const url = await getSetting(ctx, keys.url);
+  const missing: string[] = [];
 
-    if (!apiKey && !apiUrlLikelyEmbedsToken(apiUrl)) {
-      throw new Error("CONFIG_MISSING: Xtreme UI API key missing");
-    }
+  if (!url) missing.push(keys.url);
+  if (!(await getSetting(ctx, keys.apiKey)) && !(provider === "xtremeui" && url && apiUrlLikelyEmbedsToken(url))) {
+    missing.push(keys.apiKey);
+  }
+  if (keys.apiUser && !(await getSetting(ctx, keys.apiUser))) missing.push(keys.apiUser);
+  return missing;
+}
+
+async function loadPanelConfig(ctx: any, provider: IptvProviderId): Promise<IptvPanelConfig> {
+  const keys = PANEL_SETTINGS[provider];
+  const missing = await missingPanelSettings(ctx, provider);
+  if (missing.length > 0) {
+    throw new Error(`CONFIG_MISSING: ${keys.label} settings not configured (${missing.join(", ")})`);
+  }
+
+  const apiUrl = (await getSetting(ctx, keys.url))!.replace(/\/$/, "");
+  const streamBaseUrl =
+    (await getSetting(ctx, keys.streamBaseUrl)) ||
+    (provider === "stalker" ? `${deriveOriginUrl(apiUrl)}/stalker_portal/c/` : deriveOriginUrl(apiUrl));
+
+  return {
+    apiUrl,
+    apiKey: (await getSecretSetting(ctx, keys.apiKey)) || "",
+    apiUser: keys.apiUser ? (await getSetting(ctx, keys.apiUser)) || undefined : undefined,
+    streamBaseUrl: provider === "stalker" ? streamBaseUrl : streamBaseUrl.replace(/\/$/, ""),
+    profile:
+      provider === "xtremeui" ? parseXtremePanelProfile(await getSetting(ctx, SETTINGS_KEYS.XTREME_UI_PROFILE)) : null,
+  };
+}
+
+// Store a probed Xtreme UI profile, unless it was probed against a URL other than the saved one
+async function writePanelProfile(ctx: any, profile: XtremePanelProfile): Promise<boolean> {
+  const url = await getSetting(ctx, SETTINGS_KEYS.XTREME_UI_URL);
+  if (!url || url.trim().replace(/\/+$/, "") !== profile.apiUrl.trim().replace(/\/+$/, "")) return false;
+
+  const value = JSON.stringify(profile);
+  const existing = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", SETTINGS_KEYS.XTREME_UI_PROFILE))
+    .first();
+  if (existing) {
+    await ctx.db.patch(existing._id, { value, updatedAt: Date.now() });
+  } else {
+    await ctx.db.insert("settings", { key: SETTINGS_KEYS.XTREME_UI_PROFILE, value, updatedAt: Date.now() });
+  }
 
-    const streamBaseUrl = (streamBaseUrlSetting || deriveOriginUrl(apiUrl)).replace(/\/$/, "");
-    return { apiUrl: apiUrl.replace(/\/$/, ""), apiKey, streamBaseUrl };
+  await ctx.db.insert("auditLog", {
+    action: "iptv_panel_probed",
+    actorId: "system",
+    targetType: "setting",
+    details: JSON.stringify({ keyParam: profile.keyParam, subs: profile.subs, packages: profile.packages }),
+    timestamp: Date.now(),
+  });
+  return true;
+}
+
+export const internalSavePanelProfile = internalMutation({
+  args: { profile: v.string() },
+  handler: async (ctx, args) => {
+    const profile = parseXtremePanelProfile(args.profile);
+    if (!profile) throw new Error("VALIDATION_ERROR: Invalid panel profile");
+    return await writePanelProfile(ctx, profile);
+  },
+});
+
+// Store a profile probed by the connection test (server-side API routes only)
+export const savePanelProfile = mutation({
+  args: { internalKey: v.string(), profile: v.string() },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const profile = parseXtremePanelProfile(args.profile);
+    if (!profile) throw new Error("VALIDATION_ERROR: Invalid panel profile");
+    return await writePanelProfile(ctx, profile);
+  },
+});
+
+export const internalGetPanelConfig = internalQuery({
+  args: { provider: providerValidator },
+  handler: async (ctx, args): Promise<IptvPanelConfig> => {
+    return await loadPanelConfig(ctx, args.provider);
   },
 });
 
 export const internalGetAccountForUser = internalQuery({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const account = await ctx.db
       .query("iptvAccounts")
       .withIndex("by_user", (q) => q.eq("userId", args.userId))
       .first();
+    if (!account?.password) return account;
+    return { ...account, password: await decryptSecret(account.password) };
   },
 });
 
@@ -483,254 +790,39 @@ export const internalEnsureAccountPassword = internalMutation({
   handler: async (ctx, args) => {
     const account = await ctx.db.get(args.accountId);
     if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
-    if (account.password) return { username: account.username, password: account.password };
+    if (account.password) return { username: account.username, password: await decryptSecret(account.password) };
 
     const password = generatePassword();
-    await ctx.db.patch(args.accountId, { password, updatedAt: Date.now() });
+    await ctx.db.patch(args.accountId, { password: await encryptSecret(password), updatedAt: Date.now() });
     return { username: account.username, password };
   },
 });
 
-function buildM3uUrl(streamBaseUrl: string, username: string, password: string) {
-  const u = new URL(streamBaseUrl);
-  const normalizedPath = (u.pathname || "/").replace(/\/+$/, "");
-
-  const isPlaylist = /\/playlist$/i.test(normalizedPath);
-  const isGetPhp = /\/get\.php$/i.test(normalizedPath);
-
-  if (!isPlaylist && !isGetPhp) {
-    u.pathname = `${normalizedPath}/get.php`.replace(/\/{2,}/g, "/");
-  }
-
-  u.searchParams.set("username", username);
-  u.searchParams.set("password", password);
-  u.searchParams.set("type", "m3u_plus");
-  u.searchParams.set("output", "ts");
-  return u.toString();
+function lineFor(account: Doc<"iptvAccounts">, password = account.password): IptvLine {
+  return { username: account.username, password, macAddress: account.macAddress };
 }
 
-async function xtremeApiFetchJson(url: string): Promise<any> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 12_000);
-  try {
-    const res = await fetch(url, {
-      method: "GET",
-      redirect: "follow",
-      cache: "no-store",
-      signal: controller.signal,
-    });
+// The user's IPTV account and a client for the panel it lives on
+async function accountProvider(
+  ctx: any,
+  userId?: Id<"users">
+): Promise<{ account: Doc<"iptvAccounts">; provider: IptvProvider }> {
+  if (!userId) throw new Error("VALIDATION_ERROR: Missing userId");
 
-    const text = await res.text();
-    try {
-      return JSON.parse(text);
-    } catch {
-      throw new Error(`Xtreme UI API did not return JSON (HTTP ${res.status})`);
-    }
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-async function xtremeApiCall(config: XtremeUiConfig, params: Record<string, string | number | undefined>) {
-  const keyParamCandidates = config.apiKey ? ["api_key", "key", "apikey"] : [null];
-  let lastError: string | null = null;
-
-  for (const keyParam of keyParamCandidates) {
-    const u = new URL(config.apiUrl);
-    if (keyParam) {
-      u.searchParams.set(keyParam, config.apiKey);
-    }
-    for (const [k, v] of Object.entries(params)) {
-      if (v === undefined) continue;
-      u.searchParams.set(k, String(v));
-    }
+  const account: Doc<"iptvAccounts"> | null = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId });
+  if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
 
-    const json = await xtremeApiFetchJson(u.toString());
-    const status = typeof json?.status === "string" ? json.status : undefined;
-    const error = typeof json?.error === "string" ? json.error : undefined;
-
-    if (status === "STATUS_FAILURE" && error && /invalid api key/i.test(error)) {
-      lastError = "Invalid API key";
-      continue;
-    }
-
-    return json;
-  }
-
-  throw new Error(`CONFIG_MISSING: ${lastError || "Failed to authenticate to Xtreme UI API"}`);
-}
-
-function isSuccess(resp: any): boolean {
-  if (!resp || typeof resp !== "object") return false;
-  if (resp.status === "STATUS_SUCCESS") return true;
-  if (resp.status === "STATUS_FAILURE") return false;
-  // Some panels return { success: true }
-  if (resp.success === true) return true;
-  return false;
-}
-
-function getErrorMessage(resp: any): string {
-  const msg =
-    (typeof resp?.error === "string" && resp.error) ||
-    (typeof resp?.message === "string" && resp.message) ||
-    (typeof resp?.msg === "string" && resp.msg) ||
-    "Unknown error";
-  return msg;
-}
-
-async function upsertUserOnPanel(args: {
-  config: XtremeUiConfig;
-  username: string;
-  password: string;
-  bouquetIds?: string[];
-  desiredExpiresAt?: number;
-  durationDays?: number;
-}) {
-  const bouquetCsv = args.bouquetIds?.length ? args.bouquetIds.join(",") : undefined;
-  const expUnix = typeof args.desiredExpiresAt === "number" ? Math.floor(args.desiredExpiresAt / 1000) : undefined;
-
-  const candidates: Array<Record<string, string | number | undefined>> = [
-    // Common XUI/Xtream-style patterns
-    {
-      action: "user",
-      sub: "create",
-      username: args.username,
-      password: args.password,
-      bouquet: bouquetCsv,
-      bouquet_ids: bouquetCsv,
-      exp_date: expUnix,
-      duration: args.durationDays,
-    },
-    {
-      action: "user",
-      sub: "add",
-      username: args.username,
-      password: args.password,
-      bouquet: bouquetCsv,
-      bouquet_ids: bouquetCsv,
-      exp_date: expUnix,
-      duration: args.durationDays,
-    },
-  ];
-
-  let last: any = null;
-  for (const p of candidates) {
-    const resp = await xtremeApiCall(args.config, p);
-    last = resp;
-    if (isSuccess(resp)) return resp;
-
-    const err = getErrorMessage(resp);
-    if (/exist|already/i.test(err)) {
-      // Try an edit/update flow
-      break;
-    }
-  }
-
-  const editCandidates: Array<Record<string, string | number | undefined>> = [
-    {
-      action: "user",
-      sub: "edit",
-      username: args.username,
-      password: args.password,
-      bouquet: bouquetCsv,
-      bouquet_ids: bouquetCsv,
-      exp_date: expUnix,
-      duration: args.durationDays,
-    },
-    {
-      action: "user",
-      sub: "update",
-      username: args.username,
-      password: args.password,
-      bouquet: bouquetCsv,
-      bouquet_ids: bouquetCsv,
-      exp_date: expUnix,
-      duration: args.durationDays,
-    },
-  ];
-
-  for (const p of editCandidates) {
-    const resp = await xtremeApiCall(args.config, p);
-    last = resp;
-    if (isSuccess(resp)) return resp;
-  }
-
-  throw new Error(`Xtreme UI provision failed: ${getErrorMessage(last)}`);
-}
-
-async function disableUserOnPanel(config: XtremeUiConfig, username: string) {
-  const candidates: Array<Record<string, string | number | undefined>> = [
-    { action: "user", sub: "disable", username },
-    { action: "user", sub: "ban", username },
-    { action: "user", sub: "suspend", username },
-  ];
-
-  let last: any = null;
-  for (const p of candidates) {
-    const resp = await xtremeApiCall(config, p);
-    last = resp;
-    if (isSuccess(resp)) return resp;
-  }
-  throw new Error(`Xtreme UI suspend failed: ${getErrorMessage(last)}`);
-}
-
-async function updateUserOnPanel(config: XtremeUiConfig, params: Record<string, string | number | undefined>) {
-  const resp = await xtremeApiCall(config, params);
-  if (isSuccess(resp)) return resp;
-  throw new Error(`Xtreme UI update failed: ${getErrorMessage(resp)}`);
-}
-
-async function updateUserEditLikeOnPanel(
-  config: XtremeUiConfig,
-  base: Omit<Record<string, string | number | undefined>, "sub"> & { action: string; username: string }
-) {
-  const subs = ["edit", "update"]; 
-  let last: any = null;
-  for (const sub of subs) {
-    const resp = await xtremeApiCall(config, { ...base, sub });
-    last = resp;
-    if (isSuccess(resp)) return resp;
-  }
-  throw new Error(`Xtreme UI update failed: ${getErrorMessage(last)}`);
-}
-
-async function renewUserOnPanel(
-  config: XtremeUiConfig,
-  username: string,
-  desiredExpiresAt?: number
-) {
-  const expUnix = typeof desiredExpiresAt === "number" ? Math.floor(desiredExpiresAt / 1000) : undefined;
-  const subs = ["renew", "extend", "edit", "update"]; 
-  let last: any = null;
-  for (const sub of subs) {
-    const resp = await xtremeApiCall(config, {
-      action: "user",
-      sub,
-      username,
-      exp_date: expUnix,
-      expires: expUnix,
-    });
-    last = resp;
-    if (isSuccess(resp)) return resp;
-  }
-  throw new Error(`Xtreme UI renew failed: ${getErrorMessage(last)}`);
-}
-
-async function fetchUserInfoOnPanel(config: XtremeUiConfig, username: string) {
-  const candidates: Array<Record<string, string | number | undefined>> = [
-    { action: "user", sub: "info", username },
-    { action: "user", sub: "get", username },
-    { action: "user", sub: "details", username },
-  ];
-
-  let last: any = null;
-  for (const p of candidates) {
-    const resp = await xtremeApiCall(config, p);
-    last = resp;
-    if (isSuccess(resp)) return resp;
-  }
-  // Not all panels support info; treat as non-fatal.
-  return last;
+  const config: IptvPanelConfig = await ctx.runQuery(internal.iptv.internalGetPanelConfig, {
+    provider: account.provider,
+  });
+  return {
+    account,
+    provider: createIptvProvider(account.provider, config, {
+      saveProfile: async (profile) => {
+        await ctx.runMutation(internal.iptv.internalSavePanelProfile, { profile: JSON.stringify(profile) });
+      },
+    }),
+  };
 }
 
 // ============================================================
@@ -740,11 +832,7 @@ async function fetchUserInfoOnPanel(config: XtremeUiConfig, username: string) {
 export const actionProvision = internalAction({
   args: { userId: v.optional(v.id("users")), payload: v.optional(v.any()) },
   handler: async (ctx, args) => {
-    if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
-
-    const config = await ctx.runQuery(internal.iptv.internalGetXtremeUiConfig, {});
-    const account = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId: args.userId });
-    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    const { account, provider } = await accountProvider(ctx, args.userId);
 
     const creds = await ctx.runMutation(internal.iptv.internalEnsureAccountPassword, { accountId: account._id });
 
@@ -771,16 +859,10 @@ export const actionProvision = internalAction({
           ? Date.now() + durationDays * 24 * 60 * 60 * 1000
           : undefined;
 
-    await upsertUserOnPanel({
-      config,
-      username: creds.username,
-      password: creds.password,
-      bouquetIds,
-      desiredExpiresAt,
-      durationDays,
-    });
+    const line = lineFor(account, creds.password);
+    await provider.create(line, { bouquetIds, expiresAt: desiredExpiresAt, durationDays });
 
-    // Apply local state (active + M3U URL + plan/bouquets)
+    // Apply local state (active + plan/bouquets)
     await ctx.runMutation(internal.iptv.internalProvision, {
       userId: args.userId,
       payload: {
@@ -789,30 +871,16 @@ export const actionProvision = internalAction({
         desiredExpiresAt,
       },
     });
-
-    // Ensure M3U URL uses stream base (origin) not API path.
-    await ctx.runMutation(internal.iptv.internalSync, {
-      userId: args.userId,
-      payload: {
-        streamBaseUrl: config.streamBaseUrl,
-        username: creds.username,
-        password: creds.password,
-      },
-    });
   },
 });
 
 export const actionRenew = internalAction({
   args: { userId: v.optional(v.id("users")), payload: v.optional(v.any()) },
   handler: async (ctx, args) => {
-    if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
-
-    const config = await ctx.runQuery(internal.iptv.internalGetXtremeUiConfig, {});
-    const account = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId: args.userId });
-    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    const { account, provider } = await accountProvider(ctx, args.userId);
 
     const desiredExpiresAt = typeof args.payload?.desiredExpiresAt === "number" ? args.payload.desiredExpiresAt : undefined;
-    await renewUserOnPanel(config, account.username, desiredExpiresAt);
+    await provider.renew(lineFor(account), desiredExpiresAt);
 
     await ctx.runMutation(internal.iptv.internalRenew, {
       userId: args.userId,
@@ -824,12 +892,9 @@ export const actionRenew = internalAction({
 export const actionSuspend = internalAction({
   args: { userId: v.optional(v.id("users")), payload: v.optional(v.any()) },
   handler: async (ctx, args) => {
-    if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
-    const config = await ctx.runQuery(internal.iptv.internalGetXtremeUiConfig, {});
-    const account = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId: args.userId });
-    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    const { account, provider } = await accountProvider(ctx, args.userId);
 
-    await disableUserOnPanel(config, account.username);
+    await provider.suspend(lineFor(account));
     await ctx.runMutation(internal.iptv.internalSuspend, { userId: args.userId, payload: {} });
   },
 });
@@ -837,19 +902,16 @@ export const actionSuspend = internalAction({
 export const actionSync = internalAction({
   args: { userId: v.optional(v.id("users")), payload: v.optional(v.any()) },
   handler: async (ctx, args) => {
-    if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
-    const config = await ctx.runQuery(internal.iptv.internalGetXtremeUiConfig, {});
-    const account = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId: args.userId });
-    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    const { account, provider } = await accountProvider(ctx, args.userId);
 
-    const info = await fetchUserInfoOnPanel(config, account.username);
+    const info = await provider.info(lineFor(account));
 
-    // Best-effort: keep local M3U and optionally mirror expiry/status if available.
+    // Best-effort: mirror expiry/status when the panel reports them.
     await ctx.runMutation(internal.iptv.internalSync, {
       userId: args.userId,
       payload: {
-        streamBaseUrl: config.streamBaseUrl,
-        panelInfo: info,
+        status: info?.status,
+        expiresAt: info?.expiresAt,
       },
     });
   },
@@ -858,25 +920,20 @@ export const actionSync = internalAction({
 export const actionChangePassword = internalAction({
   args: { userId: v.optional(v.id("users")), payload: v.optional(v.any()) },
   handler: async (ctx, args) => {
-    if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
-    const newPassword = args.payload?.newPassword;
-    if (typeof newPassword !== "string" || newPassword.length < 8) {
+    // Queued encrypted; jobs from before that hold it in plain text still decrypt as-is
+    const stored = args.payload?.newPassword;
+    const newPassword = typeof stored === "string" ? await decryptSecret(stored) : undefined;
+    if (!newPassword || newPassword.length < 8) {
       throw new Error("VALIDATION_ERROR: Invalid password");
     }
 
-    const config = await ctx.runQuery(internal.iptv.internalGetXtremeUiConfig, {});
-    const account = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId: args.userId });
-    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    const { account, provider } = await accountProvider(ctx, args.userId);
 
-    await updateUserEditLikeOnPanel(config, {
-      action: "user",
-      username: account.username,
-      password: newPassword,
-    });
+    await provider.changePassword(lineFor(account), newPassword);
 
     await ctx.runMutation(internal.iptv.internalChangePassword, {
       userId: args.userId,
-      payload: { newPassword, streamBaseUrl: config.streamBaseUrl },
+      payload: { newPassword },
     });
   },
 });
@@ -884,24 +941,18 @@ export const actionChangePassword = internalAction({
 export const actionChangePlan = internalAction({
   args: { userId: v.optional(v.id("users")), payload: v.optional(v.any()) },
   handler: async (ctx, args) => {
-    if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
     const planIdRaw = args.payload?.planId;
     const planId = typeof planIdRaw === "string" ? (planIdRaw as Id<"iptvPlans">) : undefined;
     if (!planId) throw new Error("VALIDATION_ERROR: Missing planId");
 
-    const config = await ctx.runQuery(internal.iptv.internalGetXtremeUiConfig, {});
-    const account = await ctx.runQuery(internal.iptv.internalGetAccountForUser, { userId: args.userId });
-    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    const { account, provider } = await accountProvider(ctx, args.userId);
 
     const plan = await ctx.runQuery(internal.iptv.internalGetPlanById, { planId });
-    const bouquetCsv = plan?.bouquetIds?.length ? plan.bouquetIds.join(",") : undefined;
+    if (plan && plan.provider !== account.provider) {
+      throw new Error("VALIDATION_ERROR: Plan is on a different IPTV panel than the account");
+    }
 
-    await updateUserEditLikeOnPanel(config, {
-      action: "user",
-      username: account.username,
-      bouquet: bouquetCsv,
-      bouquet_ids: bouquetCsv,
-    });
+    await provider.updateBouquets(lineFor(account), plan?.bouquetIds);
 
     await ctx.runMutation(internal.iptv.internalChangePlan, {
       userId: args.userId,
@@ -922,17 +973,6 @@ export const internalProvision = internalMutation({
   handler: async (ctx, args) => {
     if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
 
-    // Validate config exists (we won't guess the panel API yet)
-    const xtremeUrl = await getSetting(ctx, "xtreme_ui_url");
-    const apiKey = await getSetting(ctx, "xtreme_ui_api_key");
-
-    if (!xtremeUrl || !apiKey) {
-      throw new Error("CONFIG_MISSING: Xtreme UI settings not configured");
-    }
-
-    const streamBaseUrl =
-      (await getSetting(ctx, "xtreme_ui_stream_base_url")) || deriveOriginUrl(xtremeUrl);
-
     const account = await ctx.db
       .query("iptvAccounts")
       .withIndex("by_user", (q) => q.eq("userId", args.userId!))
@@ -944,13 +984,11 @@ export const internalProvision = internalMutation({
 
     if (!account.password) {
       await ctx.db.patch(account._id, {
-        password: generatePassword(),
+        password: await encryptSecret(generatePassword()),
         updatedAt: Date.now(),
       });
     }
 
-    const updatedAccount = await ctx.db.get(account._id);
-
     // Apply plan/bouquet choices if present in payload
     const payloadPlanIdRaw = args.payload?.planId;
     const payloadBouquets = args.payload?.bouquetIds;
@@ -974,13 +1012,10 @@ export const internalProvision = internalMutation({
 
     const desiredExpiresAt = args.payload?.desiredExpiresAt;
 
-    const m3uUrl = updatedAccount?.password
-      ? buildM3uUrl(streamBaseUrl, updatedAccount.username, updatedAccount.password)
-      : undefined;
-
+    // The panel playlist URL embeds the line's credentials, so it isn't stored; clear any kept from before
     await ctx.db.patch(account._id, {
       status: "active",
-      m3uUrl,
+      m3uUrl: undefined,
       expiresAt: typeof desiredExpiresAt === "number" ? desiredExpiresAt : account.expiresAt,
       updatedAt: Date.now(),
     });
@@ -990,9 +1025,16 @@ export const internalProvision = internalMutation({
       actorId: "system",
       targetType: "user",
       targetId: args.userId,
-      details: JSON.stringify({ provider: "xtremeui" }),
+      details: JSON.stringify({ provider: account.provider }),
       timestamp: Date.now(),
     });
+
+    await emitWebhookEvent(ctx, WebhookEvents.IPTV_PROVISIONED, {
+      userId: args.userId,
+      accountId: account._id,
+      username: account.username,
+      planId: payloadPlanId ?? account.planId,
+    });
   },
 });
 
@@ -1010,11 +1052,19 @@ export const internalRenew = internalMutation({
 
     const desiredExpiresAt = args.payload?.desiredExpiresAt;
     // For now we just ensure account stays active. Actual panel extension will be wired once API details are provided.
+    const expiresAt = typeof desiredExpiresAt === "number" ? desiredExpiresAt : account.expiresAt;
     await ctx.db.patch(account._id, {
       status: "active",
-      expiresAt: typeof desiredExpiresAt === "number" ? desiredExpiresAt : account.expiresAt,
+      expiresAt,
       updatedAt: Date.now(),
     });
+
+    await emitWebhookEvent(ctx, WebhookEvents.IPTV_RENEWED, {
+      userId: args.userId,
+      accountId: account._id,
+      username: account.username,
+      expiresAt,
+    });
   },
 });
 
@@ -1034,6 +1084,15 @@ export const internalSuspend = internalMutation({
       status: "suspended",
       updatedAt: Date.now(),
     });
+
+    // Playlist links stop working with the line; the user makes a new one once it's renewed
+    await revokeAccountTokens(ctx, account._id, "suspended");
+
+    await emitWebhookEvent(ctx, WebhookEvents.IPTV_SUSPENDED, {
+      userId: args.userId,
+      accountId: account._id,
+      username: account.username,
+    });
   },
 });
 
@@ -1042,11 +1101,6 @@ export const internalSync = internalMutation({
   handler: async (ctx, args) => {
     if (!args.userId) throw new Error("VALIDATION_ERROR: Missing userId");
 
-    const xtremeUrl = await getSetting(ctx, "xtreme_ui_url");
-    if (!xtremeUrl) {
-      throw new Error("CONFIG_MISSING: Xtreme UI URL missing");
-    }
-
     const account = await ctx.db
       .query("iptvAccounts")
       .withIndex("by_user", (q) => q.eq("userId", args.userId!))
@@ -1056,34 +1110,18 @@ export const internalSync = internalMutation({
       throw new Error("VALIDATION_ERROR: IPTV account missing");
     }
 
-    // For now: keep M3U URL up-to-date
-    const streamBaseUrlOverride = typeof args.payload?.streamBaseUrl === "string" ? args.payload.streamBaseUrl : null;
-    const streamBaseUrl =
-      streamBaseUrlOverride || (await getSetting(ctx, "xtreme_ui_stream_base_url")) || deriveOriginUrl(xtremeUrl);
-
-    const username = typeof args.payload?.username === "string" ? args.payload.username : account.username;
-    const password = typeof args.payload?.password === "string" ? args.payload.password : account.password;
+    // Mirror what the panel reports
+    const status = args.payload?.status === "active" || args.payload?.status === "suspended" ? args.payload.status : undefined;
+    const expiresAt = typeof args.payload?.expiresAt === "number" ? args.payload.expiresAt : undefined;
 
-    // Best-effort: mirror some panel info if present
-    const panelInfo = args.payload?.panelInfo;
-    const inferredExpiresAt =
-      typeof panelInfo?.exp_date === "number" ? panelInfo.exp_date * 1000 :
-      typeof panelInfo?.expires === "number" ? panelInfo.expires * 1000 :
-      undefined;
-    const inferredStatus =
-      typeof panelInfo?.user_status === "string" ? panelInfo.user_status :
-      typeof panelInfo?.status === "string" && (panelInfo.status === "active" || panelInfo.status === "suspended") ? panelInfo.status :
-      undefined;
-
-    if (password) {
-      const m3uUrl = buildM3uUrl(streamBaseUrl, username, password);
+    await ctx.db.patch(account._id, {
+      ...(expiresAt ? { expiresAt } : {}),
+      ...(status ? { status } : {}),
+      updatedAt: Date.now(),
+    });
 
-      await ctx.db.patch(account._id, {
-        m3uUrl,
-        ...(inferredExpiresAt ? { expiresAt: inferredExpiresAt } : {}),
-        ...(inferredStatus ? { status: inferredStatus } : {}),
-        updatedAt: Date.now(),
-      });
+    if (status === "suspended" && account.status !== "suspended") {
+      await revokeAccountTokens(ctx, account._id, "suspended");
     }
   },
 });
@@ -1106,24 +1144,10 @@ export const internalChangePassword = internalMutation({
     if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
 
     await ctx.db.patch(account._id, {
-      password: newPassword,
+      password: await encryptSecret(newPassword),
+      m3uUrl: undefined,
       updatedAt: Date.now(),
     });
-
-    // Keep M3U URL consistent
-    const streamBaseUrlOverride = typeof args.payload?.streamBaseUrl === "string" ? args.payload.streamBaseUrl : null;
-    const xtremeUrl = await getSetting(ctx, "xtreme_ui_url");
-    const streamBaseUrl =
-      streamBaseUrlOverride || (await getSetting(ctx, "xtreme_ui_stream_base_url")) || (xtremeUrl ? deriveOriginUrl(xtremeUrl) : null);
-
-    if (streamBaseUrl) {
-      const m3uUrl = buildM3uUrl(streamBaseUrl, account.username, newPassword);
-
-      await ctx.db.patch(account._id, {
-        m3uUrl,
-        updatedAt: Date.now(),
-      });
-    }
   },
 });
 
@@ -1158,6 +1182,14 @@ export const internalChangePlan = internalMutation({
       });
     }
 
+    await emitWebhookEvent(ctx, WebhookEvents.IPTV_PLAN_CHANGED, {
+      userId: args.userId,
+      accountId: account._id,
+      username: account.username,
+      previousPlanId: account.planId,
+      planId,
+    });
+
     // Bouquet assignment on the actual IPTV panel will be wired once API details are provided.
   },
 });
@@ -1193,23 +1225,39 @@ export const internalHandlePaymentStatusChange = internalMutation({
       .withIndex("by_user", (q) => q.eq("userId", args.userId))
       .first();
 
+    // Lines bought with an IPTV plan's own price follow that subscription instead
+    if (account?.stripeSubscriptionId) return { enqueued: false, reason: "billed_separately" };
+
     // If we don't have a real email yet, don't auto-create an IPTV account.
     const hasEmail = typeof user.email === "string" && user.email.includes("@");
 
+    // Subscribers on a plan get the IPTV plan it includes, or no IPTV line at all
+    const plan = user.planId ? await ctx.db.get(user.planId) : null;
+    const iptvPlanId = plan?.iptvPlanId;
+
     const jobIds: string[] = [];
 
     if (isPaid) {
+      if (plan && !iptvPlanId && !account) {
+        return { enqueued: false, reason: "plan_excludes_iptv" };
+      }
+
       let accountId = account?._id;
 
       if (!accountId) {
         if (!hasEmail) return { enqueued: false, reason: "missing_email" };
 
+        // Stalker lines need the subscriber's MAC, so they request IPTV themselves
+        const provider = await planProvider(ctx, iptvPlanId);
+        if (provider === "stalker") return { enqueued: false, reason: "missing_mac" };
+
         const now = Date.now();
         accountId = await ctx.db.insert("iptvAccounts", {
-          provider: "xtremeui",
+          provider,
           userId: args.userId,
           username: generateUsernameFromEmail(user.email),
-          password: generatePassword(),
+          password: await encryptSecret(generatePassword()),
+          planId: iptvPlanId,
           status: "pending",
           createdAt: now,
           updatedAt: now,
@@ -1221,7 +1269,7 @@ export const internalHandlePaymentStatusChange = internalMutation({
         type: "iptv.provision",
         userId: args.userId,
         clerkId: args.clerkId,
-        payload: { accountId },
+        payload: { accountId, planId: iptvPlanId },
       });
       jobIds.push(String(provisionJobId));
 
@@ -1254,6 +1302,455 @@ export const internalHandlePaymentStatusChange = internalMutation({
   },
 });
 
+// ============================================================
+// IPTV plans sold with their own Stripe price
+// ============================================================
+
+// Allow an hour of drift before re-aligning a line's expiry with the billing period
+const EXPIRY_TOLERANCE_MS = 60 * 60 * 1000;
+
+const iptvSubscriptionArgs = {
+  clerkId: v.optional(v.string()),
+  stripeCustomerId: v.string(),
+  stripeSubscriptionId: v.string(),
+  status: v.string(), // Stripe subscription status
+  priceIds: v.array(v.string()), // Every item on the subscription
+  currentPeriodEnd: v.number(),
+  macAddress: v.optional(v.string()), // Stalker plans, from the subscription metadata
+};
+
+async function getIptvPlanByPriceId(ctx: any, priceId: string): Promise<Doc<"iptvPlans"> | null> {
+  return await ctx.db
+    .query("iptvPlans")
+    .withIndex("by_stripe_price", (q: any) => q.eq("stripePriceId", priceId))
+    .first();
+}
+
+// Map a subscription's IPTV plan prices to the user's line and queue the jobs that bring it in line
+async function applyIptvPlanPrices(
+  ctx: any,
+  args: {
+    clerkId?: string;
+    stripeCustomerId: string;
+    stripeSubscriptionId: string;
+    status: string;
+    priceIds: string[];
+    currentPeriodEnd: number;
+    macAddress?: string;
+  }
+) {
+  const iptvPlans: Doc<"iptvPlans">[] = [];
+  for (const priceId of args.priceIds) {
+    const plan = await getIptvPlanByPriceId(ctx, priceId);
+    if (plan) iptvPlans.push(plan);
+  }
+  const iptvPriceIds = iptvPlans.map((p) => p.stripePriceId!);
+  const iptvOnly = args.priceIds.length > 0 && iptvPlans.length === args.priceIds.length;
+
+  let user: Doc<"users"> | null = await ctx.db
+    .query("users")
+    .withIndex("by_stripe_customer", (q: any) => q.eq("stripeCustomerId", args.stripeCustomerId))
+    .first();
+  if (!user && args.clerkId) {
+    user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", args.clerkId))
+      .first();
+  }
+
+  const result = { userId: user?._id ?? null, iptvPriceIds, iptvOnly, jobIds: [] as string[] };
+  if (!user) return result;
+
+  const { _id: userId, clerkId } = user;
+  const account: Doc<"iptvAccounts"> | null = await ctx.db
+    .query("iptvAccounts")
+    .withIndex("by_user", (q: any) => q.eq("userId", userId))
+    .first();
+  const linked = !!account && account.stripeSubscriptionId === args.stripeSubscriptionId;
+
+  const enqueue = async (type: string, payload: Record<string, unknown>) => {
+    const jobId = await enqueueJob(ctx, { type, userId, clerkId, payload });
+    result.jobIds.push(String(jobId));
+  };
+
+  const isPaid = args.status === "active" || args.status === "trialing";
+  const isTerminalUnpaid =
+    args.status === "canceled" || args.status === "unpaid" || args.status === "incomplete_expired";
+
+  // The IPTV item was removed from the subscription, or the subscription ended
+  if (linked && (iptvPlans.length === 0 || isTerminalUnpaid)) {
+    if (account.status !== "suspended") await enqueue("iptv.suspend", { accountId: account._id });
+    return result;
+  }
+
+  const plan = iptvPlans[0];
+  if (!plan || !isPaid) return result;
+
+  if (account && account.status !== "pending" && account.provider !== plan.provider) {
+    console.error("IPTV plan purchase is on a different panel than the user's line:", args.stripeSubscriptionId);
+    return result;
+  }
+
+  const now = Date.now();
+  let accountId = account?._id;
+
+  if (!account) {
+    if (!user.email.includes("@")) return result;
+
+    const macAddress = args.macAddress ? normalizeMacAddress(args.macAddress) ?? undefined : undefined;
+    if (plan.provider === "stalker" && !macAddress) {
+      console.error("Stalker IPTV plan purchased without a MAC address:", args.stripeSubscriptionId);
+      return result;
+    }
+
+    accountId = await ctx.db.insert("iptvAccounts", {
+      provider: plan.provider,
+      userId,
+      username: generateUsernameFromEmail(user.email),
+      password: await encryptSecret(generatePassword()),
+      macAddress,
+      status: "pending",
+      planId: plan._id,
+      stripeSubscriptionId: args.stripeSubscriptionId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await enqueue("iptv.provision", { accountId, planId: plan._id, desiredExpiresAt: args.currentPeriodEnd });
+  } else if (!linked && account.status === "pending") {
+    await ctx.db.patch(account._id, { stripeSubscriptionId: args.stripeSubscriptionId, updatedAt: now });
+    await enqueue("iptv.provision", { accountId, planId: plan._id, desiredExpiresAt: args.currentPeriodEnd });
+  } else if (account.status !== "pending") {
+    if (!linked) {
+      await ctx.db.patch(account._id, { stripeSubscriptionId: args.stripeSubscriptionId, updatedAt: now });
+    }
+    if (account.planId !== plan._id) {
+      await enqueue("iptv.changePlan", { accountId, planId: plan._id });
+    }
+    const expiryOff = Math.abs((account.expiresAt ?? 0) - args.currentPeriodEnd) > EXPIRY_TOLERANCE_MS;
+    if (account.status === "suspended" || expiryOff) {
+      await enqueue("iptv.renew", { accountId, desiredExpiresAt: args.currentPeriodEnd });
+    }
+  }
+
+  if (!linked) {
+    await ctx.db.insert("auditLog", {
+      action: "iptv_plan_purchased",
+      actorId: "system",
+      targetType: "user",
+      targetId: userId,
+      details: JSON.stringify({
+        planId: plan._id,
+        stripeSubscriptionId: args.stripeSubscriptionId,
+        addOn: !iptvOnly,
+      }),
+      timestamp: now,
+    });
+  }
+
+  return result;
+}
+
+export const internalApplyIptvSubscription = internalMutation({
+  args: iptvSubscriptionArgs,
+  handler: async (ctx, args) => {
+    return await applyIptvPlanPrices(ctx, args);
+  },
+});
+
+// What checkout needs to sell an IPTV plan to a user, or why it can't
+export const internalGetIptvCheckout = internalQuery({
+  args: { clerkId: v.string(), planId: v.id("iptvPlans"), macAddress: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const plan = await ctx.db.get(args.planId);
+    if (!plan?.stripePriceId) return { error: "That IPTV plan can't be bought online" };
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .first();
+    const account = user
+      ? await ctx.db
+          .query("iptvAccounts")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .first()
+      : null;
+
+    if (account && account.status !== "pending" && account.provider !== plan.provider) {
+      return { error: "That plan is on a different IPTV panel than your account" };
+    }
+
+    let macAddress = account?.macAddress;
+    if (args.macAddress) {
+      macAddress = normalizeMacAddress(args.macAddress) ?? undefined;
+      if (!macAddress) return { error: "Enter the MAC address as 00:1A:79:XX:XX:XX" };
+    }
+    if (plan.provider === "stalker" && !macAddress) {
+      return { error: "This plan needs your set-top box MAC address" };
+    }
+
+    // A line already billed on a live subscription switches plans on it rather than starting another
+    const billedOn = account?.stripeSubscriptionId
+      ? await ctx.db
+          .query("subscriptions")
+          .withIndex("by_stripe_subscription", (q) => q.eq("stripeSubscriptionId", account.stripeSubscriptionId!))
+          .first()
+      : null;
+    const billedOnLive = !!billedOn && ["active", "trialing", "past_due"].includes(billedOn.status);
+
+    // Add-ons go on the subscription the user already pays for
+    const hasSubscription =
+      !!user?.stripeSubscriptionId && (user.paymentStatus === "active" || user.paymentStatus === "trialing");
+
+    const iptvPriceIds = (await ctx.db.query("iptvPlans").collect())
+      .map((p) => p.stripePriceId)
+      .filter((id): id is string => !!id);
+
+    return {
+      planId: plan._id,
+      stripePriceId: plan.stripePriceId,
+      macAddress,
+      iptvPriceIds,
+      currentSubscriptionId: billedOnLive ? billedOn.stripeSubscriptionId : undefined,
+      subscriptionId: hasSubscription ? user!.stripeSubscriptionId : undefined,
+    };
+  },
+});
+
+// ============================================================
+// Expiry reminders and renewals for lines Stripe doesn't renew
+// ============================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Plans without a duration renew for this long
+const DEFAULT_RENEWAL_DAYS = 30;
+
+// Reminders go out this many days before a line expires, largest first
+const EXPIRY_REMINDER_DAYS = [7, 3, 1];
+
+const EMAIL_MAX_ATTEMPTS = 5;
+
+// Lines whose expiry a Stripe subscription keeps moving: their own, or the user's media plan
+function renewsThroughStripe(user: Doc<"users">, account: Doc<"iptvAccounts">): boolean {
+  if (account.stripeSubscriptionId) return true;
+  return (
+    !!user.stripeSubscriptionId &&
+    (user.paymentStatus === "active" || user.paymentStatus === "trialing" || user.paymentStatus === "past_due")
+  );
+}
+
+// Whether a line can be renewed with a one-off payment, and for how long
+async function getRenewalOption(
+  ctx: any,
+  user: Doc<"users">,
+  account: Doc<"iptvAccounts">
+): Promise<{ error: string } | { plan: Doc<"iptvPlans">; renewalPriceId: string; durationDays: number }> {
+  if (account.status === "pending") return { error: "Your IPTV line isn't set up yet" };
+  if (renewsThroughStripe(user, account)) return { error: "Your IPTV line renews with your subscription" };
+  if (!account.expiresAt) return { error: "Your IPTV line doesn't expire" };
+
+  const plan: Doc<"iptvPlans"> | null = account.planId ? await ctx.db.get(account.planId) : null;
+  if (!plan?.renewalPriceId) {
+    return { error: "Your IPTV plan can't be renewed online. Contact the server administrator." };
+  }
+  return { plan, renewalPriceId: plan.renewalPriceId, durationDays: plan.durationDays ?? DEFAULT_RENEWAL_DAYS };
+}
+
+// A renewal extends from the current expiry, or from now once the line has lapsed
+function renewedExpiry(account: Doc<"iptvAccounts">, durationDays: number, now = Date.now()): number {
+  return Math.max(account.expiresAt ?? now, now) + durationDays * DAY_MS;
+}
+
+async function getUserAndAccount(ctx: any, clerkId: string) {
+  const user: Doc<"users"> | null = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", clerkId))
+    .first();
+  const account: Doc<"iptvAccounts"> | null = user
+    ? await ctx.db
+        .query("iptvAccounts")
+        .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+        .first()
+    : null;
+  return { user, account };
+}
+
+// Whether the caller's line can be renewed from my-iptv
+export const getMyRenewal = query({
+  args: { clerkId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
+    const { user, account } = await getUserAndAccount(ctx, clerkId);
+    if (!user || !account) return null;
+
+    const option = await getRenewalOption(ctx, user, account);
+    if ("error" in option) {
+      return { available: false as const, reason: option.error, expiresAt: account.expiresAt };
+    }
+    return {
+      available: true as const,
+      expiresAt: account.expiresAt,
+      durationDays: option.durationDays,
+      renewedUntil: renewedExpiry(account, option.durationDays),
+    };
+  },
+});
+
+// What checkout needs to sell a user a renewal of their line, or why it can't
+export const internalGetRenewalCheckout = internalQuery({
+  args: { clerkId: v.string() },
+  handler: async (ctx, args) => {
+    const { user, account } = await getUserAndAccount(ctx, args.clerkId);
+    if (!user || !account) return { error: "You don't have an IPTV line to renew" };
+
+    const option = await getRenewalOption(ctx, user, account);
+    if ("error" in option) return { error: option.error };
+
+    return {
+      accountId: account._id,
+      planId: option.plan._id,
+      renewalPriceId: option.renewalPriceId,
+      durationDays: option.durationDays,
+    };
+  },
+});
+
+const iptvRenewalArgs = {
+  accountId: v.id("iptvAccounts"),
+  planId: v.id("iptvPlans"),
+  stripeCustomerId: v.string(),
+  stripePaymentId: v.string(), // Payment intent, or the checkout session when there is none
+  amount: v.number(),
+  currency: v.string(),
+};
+
+// Record a paid renewal and queue the job that extends the line on the panel
+async function applyIptvRenewalPayment(
+  ctx: any,
+  args: {
+    accountId: Id<"iptvAccounts">;
+    planId: Id<"iptvPlans">;
+    stripeCustomerId: string;
+    stripePaymentId: string;
+    amount: number;
+    currency: string;
+  }
+) {
+  // Stripe retries webhooks; the payment row marks a renewal as applied
+  const existing = await ctx.db
+    .query("payments")
+    .withIndex("by_stripe_payment", (q: any) => q.eq("stripePaymentId", args.stripePaymentId))
+    .first();
+  if (existing) return { renewed: false, reason: "already_applied" };
+
+  const account: Doc<"iptvAccounts"> | null = await ctx.db.get(args.accountId);
+  if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+  const user: Doc<"users"> | null = await ctx.db.get(account.userId);
+  const plan: Doc<"iptvPlans"> | null = await ctx.db.get(args.planId);
+
+  // The plan bought at checkout sets the length, even if the line moved plans since
+  const durationDays = plan?.durationDays ?? DEFAULT_RENEWAL_DAYS;
+  const now = Date.now();
+  const desiredExpiresAt = renewedExpiry(account, durationDays, now);
+
+  await ctx.db.insert("payments", {
+    stripePaymentId: args.stripePaymentId,
+    stripeCustomerId: args.stripeCustomerId,
+    userId: account.userId,
+    amount: args.amount,
+    currency: args.currency,
+    status: "succeeded",
+    description: `IPTV renewal: ${plan?.name ?? "plan"} (${durationDays} days)`,
+    createdAt: now,
+  });
+
+  const jobId = await enqueueJob(ctx, {
+    type: "iptv.renew",
+    userId: account.userId,
+    clerkId: user?.clerkId,
+    payload: { accountId: account._id, desiredExpiresAt },
+  });
+
+  await ctx.db.insert("auditLog", {
+    action: "iptv_renewal_purchased",
+    actorId: user?.clerkId ?? "system",
+    actorEmail: user?.email,
+    targetType: "user",
+    targetId: account.userId,
+    details: JSON.stringify({
+      accountId: account._id,
+      planId: args.planId,
+      durationDays,
+      desiredExpiresAt: new Date(desiredExpiresAt).toISOString(),
+      stripePaymentId: args.stripePaymentId,
+    }),
+    timestamp: now,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "iptv-renewal" });
+  return { renewed: true, desiredExpiresAt, jobId: String(jobId) };
+}
+
+export const internalApplyIptvRenewal = internalMutation({
+  args: iptvRenewalArgs,
+  handler: async (ctx, args) => {
+    return await applyIptvRenewalPayment(ctx, args);
+  },
+});
+
+// Email users whose line expires soon and won't be renewed by a subscription
+export const runExpiryReminders = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const horizon = now + EXPIRY_REMINDER_DAYS[0] * DAY_MS;
+    let reminded = 0;
+
+    const accounts = await ctx.db
+      .query("iptvAccounts")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    for (const account of accounts) {
+      const expiresAt = account.expiresAt;
+      if (!expiresAt || expiresAt <= now || expiresAt > horizon) continue;
+
+      // The tightest reminder window the line has entered
+      const daysLeft = Math.ceil((expiresAt - now) / DAY_MS);
+      const daysBefore = [...EXPIRY_REMINDER_DAYS].reverse().find((d) => daysLeft <= d);
+      if (!daysBefore) continue;
+
+      const last = account.expiryReminder;
+      if (last && last.expiresAt === expiresAt && last.daysBefore <= daysBefore) continue;
+
+      const user = await ctx.db.get(account.userId);
+      if (!user || !user.email.includes("@") || renewsThroughStripe(user, account)) continue;
+
+      const option = await getRenewalOption(ctx, user, account);
+      await ctx.db.patch(account._id, { expiryReminder: { expiresAt, daysBefore } });
+      await enqueueJob(ctx, {
+        type: "email.iptvExpiryReminder",
+        userId: user._id,
+        clerkId: user.clerkId,
+        payload: {
+          to: user.email,
+          username: user.username,
+          expiresAt,
+          daysLeft,
+          renewalDays: "error" in option ? undefined : option.durationDays,
+        },
+        maxAttempts: EMAIL_MAX_ATTEMPTS,
+      });
+      reminded++;
+    }
+
+    if (reminded > 0) {
+      await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "iptv-reminders" });
+    }
+    return { reminded };
+  },
+});
+
 // Helper used by payment/donation flows to enqueue sync/provision as needed.
 export const enqueueSyncIfAccountExists = internalMutation({
   args: { userId: v.id("users"), clerkId: v.optional(v.string()) },
@@ -0,0 +1,61 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { requireSelfOrAdmin, requireUser } from "./auth";
+
+async function getMyIptvAccount(ctx: any, clerkId: string): Promise<Doc<"iptvAccounts"> | null> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", clerkId))
+    .first();
+  if (!user) return null;
+
+  return await ctx.db
+    .query("iptvAccounts")
+    .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+    .first();
+}
+
+// Channels the caller starred in the channel browser
+export const getMyFavorites = query({
+  args: { clerkId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
+    const account = await getMyIptvAccount(ctx, clerkId);
+    if (!account) return [];
+
+    const favorites = await ctx.db
+      .query("iptvFavoriteChannels")
+      .withIndex("by_account", (q) => q.eq("accountId", account._id))
+      .collect();
+    return favorites.map((f) => ({ streamId: f.streamId, name: f.name, createdAt: f.createdAt }));
+  },
+});
+
+// Star a channel, or unstar it when it already is
+export const toggleMyFavorite = mutation({
+  args: { streamId: v.string(), name: v.string() },
+  handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+    const account = await getMyIptvAccount(ctx, caller.clerkId);
+    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+
+    const existing = await ctx.db
+      .query("iptvFavoriteChannels")
+      .withIndex("by_account_stream", (q) => q.eq("accountId", account._id).eq("streamId", args.streamId))
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      return { favorite: false };
+    }
+
+    await ctx.db.insert("iptvFavoriteChannels", {
+      accountId: account._id,
+      userId: account.userId,
+      streamId: args.streamId,
+      name: args.name.slice(0, 200),
+      createdAt: Date.now(),
+    });
+    return { favorite: true };
+  },
+});
@@ -0,0 +1,200 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+import { encryptSecret } from "./secrets";
+
+/**
+ * Import of lines that already exist on an IPTV panel. The panel listing
+ * itself happens in /api/iptv/import; these functions match its lines to
+ * users and record them as iptvAccounts without touching the panel.
+ */
+
+const providerValidator = v.union(v.literal("xtremeui"), v.literal("xuione"), v.literal("stalker"));
+const lineStatusValidator = v.union(v.literal("active"), v.literal("suspended"));
+
+const EMAIL_PATTERN = /[^\s@<>"',;:()]+@[^\s@<>"',;:()]+\.[a-z]{2,}/gi;
+
+type MatchedBy = "email" | "notes" | "username";
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function addTo(map: Map<string, Doc<"users">[]>, key: string | undefined, user: Doc<"users">) {
+  if (!key) return;
+  const k = normalize(key);
+  const list = map.get(k) ?? [];
+  if (!list.some((u) => u._id === user._id)) list.push(user);
+  map.set(k, list);
+}
+
+function sameBouquets(a: string[], b: string[]): boolean {
+  if (a.length === 0 || a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((id) => set.has(id));
+}
+
+// Lines already linked to an account, by panel username
+async function importedUsernames(ctx: any, provider: string): Promise<Set<string>> {
+  const accounts: Doc<"iptvAccounts">[] = await ctx.db.query("iptvAccounts").collect();
+  return new Set(accounts.filter((a) => a.provider === provider).map((a) => normalize(a.username)));
+}
+
+// Propose a user and plan for each panel line
+export const preview = query({
+  args: {
+    provider: providerValidator,
+    lines: v.array(
+      v.object({
+        username: v.string(),
+        status: v.optional(lineStatusValidator),
+        expiresAt: v.optional(v.number()),
+        bouquetIds: v.array(v.string()),
+        email: v.optional(v.string()),
+        notes: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const users = await ctx.db.query("users").collect();
+    const accounts = await ctx.db.query("iptvAccounts").collect();
+    const plans = await ctx.db
+      .query("iptvPlans")
+      .withIndex("by_provider", (q) => q.eq("provider", args.provider))
+      .collect();
+
+    const imported = await importedUsernames(ctx, args.provider);
+    const usersWithAccount = new Set(accounts.map((a) => a.userId));
+
+    const byEmail = new Map<string, Doc<"users">[]>();
+    const byUsername = new Map<string, Doc<"users">[]>();
+    for (const user of users) {
+      addTo(byEmail, user.email.includes("@") ? user.email : undefined, user);
+      addTo(byEmail, user.plexEmail, user);
+      for (const account of user.serverAccounts ?? []) addTo(byEmail, account.email, user);
+
+      // The app names new lines after the email's local part
+      addTo(byUsername, user.email.split("@")[0], user);
+      addTo(byUsername, user.username, user);
+      addTo(byUsername, user.plexUsername, user);
+      addTo(byUsername, user.embyUsername, user);
+      addTo(byUsername, user.jellyfinUsername, user);
+    }
+
+    return args.lines.map((line) => {
+      const tiers: Array<[MatchedBy, Doc<"users">[]]> = [
+        ["email", line.email ? byEmail.get(normalize(line.email)) ?? [] : []],
+        [
+          "notes",
+          Array.from(new Set((line.notes?.match(EMAIL_PATTERN) ?? []).map(normalize))).flatMap(
+            (email) => byEmail.get(email) ?? []
+          ),
+        ],
+        ["username", byUsername.get(normalize(line.username)) ?? []],
+      ];
+
+      // The first kind of evidence that finds anyone decides; several users there is ambiguous
+      const tier = tiers.find(([, found]) => found.length > 0);
+      const candidates = tier ? Array.from(new Map(tier[1].map((u) => [u._id, u])).values()) : [];
+      const user = candidates.length === 1 ? candidates[0] : null;
+
+      const matchingPlans = plans.filter((p) => sameBouquets(p.bouquetIds ?? [], line.bouquetIds));
+
+      return {
+        ...line,
+        alreadyImported: imported.has(normalize(line.username)),
+        match: user
+          ? { userId: user._id, email: user.email, username: user.username, matchedBy: tier![0] }
+          : null,
+        ambiguous: candidates.length > 1,
+        userHasAccount: !!user && usersWithAccount.has(user._id),
+        planId: matchingPlans.length === 1 ? matchingPlans[0]._id : null,
+      };
+    });
+  },
+});
+
+// Record reviewed panel lines as IPTV accounts; nothing is sent to the panel
+export const apply = mutation({
+  args: {
+    provider: providerValidator,
+    lines: v.array(
+      v.object({
+        username: v.string(),
+        password: v.optional(v.string()),
+        status: v.optional(lineStatusValidator),
+        expiresAt: v.optional(v.number()),
+        bouquetIds: v.array(v.string()),
+        userId: v.id("users"),
+        planId: v.optional(v.id("iptvPlans")),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const imported: Array<{ username: string; userId: Id<"users"> }> = [];
+    const skipped: Array<{ username: string; reason: string }> = [];
+
+    for (const line of args.lines) {
+      const user = await ctx.db.get(line.userId);
+      if (!user) {
+        skipped.push({ username: line.username, reason: "User not found" });
+        continue;
+      }
+
+      const taken = await ctx.db
+        .query("iptvAccounts")
+        .withIndex("by_provider_username", (q) => q.eq("provider", args.provider).eq("username", line.username))
+        .first();
+      if (taken) {
+        skipped.push({ username: line.username, reason: "Line is already linked to an account" });
+        continue;
+      }
+
+      const existing = await ctx.db
+        .query("iptvAccounts")
+        .withIndex("by_user", (q) => q.eq("userId", line.userId))
+        .first();
+      if (existing) {
+        skipped.push({ username: line.username, reason: `${user.email} already has an IPTV account` });
+        continue;
+      }
+
+      const plan = line.planId ? await ctx.db.get(line.planId) : null;
+      if (line.planId && plan?.provider !== args.provider) {
+        skipped.push({ username: line.username, reason: "Plan is on a different IPTV panel" });
+        continue;
+      }
+
+      const now = Date.now();
+      await ctx.db.insert("iptvAccounts", {
+        provider: args.provider,
+        userId: line.userId,
+        username: line.username,
+        password: line.password ? await encryptSecret(line.password) : undefined,
+        status: line.status ?? "active",
+        planId: plan?._id,
+        bouquetIds: line.bouquetIds.length > 0 ? line.bouquetIds : undefined,
+        expiresAt: line.expiresAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+      imported.push({ username: line.username, userId: line.userId });
+    }
+
+    await ctx.db.insert("auditLog", {
+      action: "iptv_lines_imported",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "iptvAccount",
+      details: JSON.stringify({ provider: args.provider, imported: imported.length, skipped }),
+      timestamp: Date.now(),
+    });
+
+    return { imported: imported.length, skipped };
+  },
+});
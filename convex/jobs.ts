@@ -1,6 +1,12 @@
 import { v } from "convex/values";
 import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin, requireSelfOrAdmin, requireUser } from "./auth";
+import { failInviteEmail } from "./invites";
+import { failDunningStep, retryDunningStep } from "./dunning";
+import { failProvisioningStep } from "./provisioning";
+import { failReconciliationIssue } from "./reconciliation";
 
 function now() {
   return Date.now();
@@ -13,6 +19,54 @@ function backoffMs(attempts: number): number {
   return Math.min(cap, base * Math.pow(2, Math.max(0, attempts - 1)));
 }
 
+// Convex actions time out after 10 minutes, so a lock older than this belongs to a dead runner
+const LOCK_TIMEOUT_MS = 15 * 60_000;
+
+// How many due jobs a runner looks through to fill a batch with ones that aren't blocked
+const DUE_SCAN_LIMIT = 500;
+
+/**
+ * Concurrency key for jobs that act on one user's account with one provider
+ * (the job type's namespace, e.g. "iptv"). Jobs sharing a key run strictly
+ * in enqueue order. The owner is the user id, or the Clerk id for jobs queued
+ * before the user exists.
+ */
+export function concurrencyKeyFor(type: string, owner?: string): string | undefined {
+  return owner ? `${owner}:${type.split(".")[0]}` : undefined;
+}
+
+/**
+ * Queue a job. Jobs for a user get their concurrency key here, so every
+ * module that queues work for a user runs it one job at a time.
+ */
+export async function insertJob(
+  ctx: any,
+  args: {
+    type: string;
+    payload?: unknown;
+    userId?: Id<"users">;
+    clerkId?: string;
+    runAt?: number;
+    maxAttempts?: number;
+    concurrencyKey?: string;
+  }
+): Promise<Id<"jobs">> {
+  const createdAt = now();
+  return await ctx.db.insert("jobs", {
+    type: args.type,
+    status: "pending",
+    userId: args.userId,
+    clerkId: args.clerkId,
+    payload: args.payload !== undefined ? JSON.stringify(args.payload) : undefined,
+    attempts: 0,
+    maxAttempts: args.maxAttempts ?? 10,
+    nextRunAt: args.runAt ?? createdAt,
+    concurrencyKey: args.concurrencyKey ?? concurrencyKeyFor(args.type, args.userId ?? args.clerkId),
+    createdAt,
+    updatedAt: createdAt,
+  });
+}
+
 function isNonRetryableErrorMessage(message: string): boolean {
   return (
     message.startsWith("CONFIG_MISSING") ||
@@ -21,6 +75,94 @@ function isNonRetryableErrorMessage(message: string): boolean {
   );
 }
 
+// Keys whose values are hidden when admins inspect a payload
+const SECRET_PAYLOAD_KEY = /password|secret|token|api_?key/i;
+
+function redactPayload(value: any): any {
+  if (Array.isArray(value)) return value.map(redactPayload);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, SECRET_PAYLOAD_KEY.test(k) ? "[REDACTED]" : redactPayload(v)])
+    );
+  }
+  return value;
+}
+
+// Why a failed job stopped being retried
+function deadLetterReason(job: Doc<"jobs">): "non_retryable" | "max_attempts" | null {
+  if (job.status !== "failed") return null;
+  if (job.lastError && isNonRetryableErrorMessage(job.lastError)) return "non_retryable";
+  return "max_attempts";
+}
+
+// Let the workflow that owns a job know it won't run again
+async function onJobGaveUp(ctx: any, job: Doc<"jobs">, message: string) {
+  const payload = job.payload ? safeJsonParse(job.payload) : undefined;
+
+  // A provisioning step that gives up rolls back what its server's steps created
+  if (payload?.provisioningId && payload?.stepKey) {
+    await failProvisioningStep(ctx, payload.provisioningId, payload.stepKey, message);
+  }
+  if (payload?.issueId) {
+    await failReconciliationIssue(ctx, payload.issueId, message);
+  }
+  if (payload?.inviteId) {
+    await failInviteEmail(ctx, payload.inviteId, job._id, message);
+  }
+  if (payload?.dunningCaseId) {
+    await failDunningStep(ctx, payload.dunningCaseId, job._id, message);
+  }
+}
+
+// Finish a failed attempt: back to pending with backoff, or give up
+async function failOrRetry(ctx: any, job: Doc<"jobs">, message: string) {
+  const attempts = (job.attempts ?? 0) + 1;
+  const nonRetryable = isNonRetryableErrorMessage(message);
+  const outOfAttempts = attempts >= job.maxAttempts;
+
+  await recordAttempt(ctx, job, attempts, nonRetryable || outOfAttempts ? "failed" : "retrying", message);
+
+  if (nonRetryable || outOfAttempts) {
+    await ctx.db.patch(job._id, {
+      status: "failed",
+      attempts,
+      lastError: message,
+      updatedAt: now(),
+      lockedAt: undefined,
+      lockedBy: undefined,
+    });
+    await onJobGaveUp(ctx, job, message);
+  } else {
+    await ctx.db.patch(job._id, {
+      status: "pending",
+      attempts,
+      lastError: message,
+      nextRunAt: now() + backoffMs(attempts),
+      updatedAt: now(),
+      lockedAt: undefined,
+      lockedBy: undefined,
+    });
+  }
+}
+
+async function recordAttempt(
+  ctx: any,
+  job: Doc<"jobs">,
+  attempt: number,
+  outcome: Doc<"jobAttempts">["outcome"],
+  error?: string
+) {
+  await ctx.db.insert("jobAttempts", {
+    jobId: job._id,
+    attempt,
+    runnerId: job.lockedBy,
+    startedAt: job.lastAttemptAt ?? job.updatedAt,
+    finishedAt: now(),
+    outcome,
+    error,
+  });
+}
+
 export const enqueue = mutation({
   args: {
     type: v.string(),
@@ -29,41 +171,39 @@ export const enqueue = mutation({
     clerkId: v.optional(v.string()),
     runAt: v.optional(v.number()),
     maxAttempts: v.optional(v.number()),
+    concurrencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const jobId = await ctx.db.insert("jobs", {
-      type: args.type,
-      status: "pending",
-      userId: args.userId,
-      clerkId: args.clerkId,
-      payload: args.payload ? JSON.stringify(args.payload) : undefined,
-      attempts: 0,
-      maxAttempts: args.maxAttempts ?? 10,
-      nextRunAt: args.runAt ?? now(),
-      createdAt: now(),
-      updatedAt: now(),
-    });
-
-    return jobId;
+    await requireAdmin(ctx);
+    return await insertJob(ctx, { ...args, payload: args.payload || undefined });
   },
 });
 
 export const get = query({
   args: { id: v.id("jobs") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const job = await ctx.db.get(args.id);
+    if (!job) return null;
+
+    // Users may read their own jobs; anything else needs an admin
+    const caller = await requireUser(ctx);
+    if (job.clerkId !== caller.clerkId) {
+      await requireAdmin(ctx);
+    }
+    return job;
   },
 });
 
 export const listMyJobs = query({
   args: {
-    clerkId: v.string(),
+    clerkId: v.optional(v.string()),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
 
     if (!user) return [];
@@ -81,15 +221,15 @@ export const listMyJobs = query({
 export const cancelJob = mutation({
   args: {
     id: v.id("jobs"),
-    clerkId: v.string(),
   },
   handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
     const job = await ctx.db.get(args.id);
     if (!job) throw new Error("Job not found");
 
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
 
     if (!user || !job.userId || job.userId !== user._id) {
@@ -109,19 +249,258 @@ export const cancelJob = mutation({
   },
 });
 
+// List jobs for the admin job console, newest first
+export const adminList = query({
+  args: {
+    type: v.optional(v.string()),
+    status: v.optional(
+      v.union(
+        v.literal("pending"),
+        v.literal("running"),
+        v.literal("succeeded"),
+        v.literal("failed"),
+        v.literal("canceled")
+      )
+    ),
+    userEmail: v.optional(v.string()),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const limit = Math.min(Math.max(args.limit ?? 100, 1), 500);
+    const from = args.from ?? 0;
+    const to = args.to ?? Number.MAX_SAFE_INTEGER;
+
+    let userId: Id<"users"> | undefined;
+    if (args.userEmail) {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", args.userEmail!.trim().toLowerCase()))
+        .first();
+      if (!user) return [];
+      userId = user._id;
+    }
+
+    // Narrow with the most selective index, then filter the rest
+    const base = userId
+      ? ctx.db.query("jobs").withIndex("by_user", (q) => q.eq("userId", userId))
+      : args.type
+        ? ctx.db.query("jobs").withIndex("by_type", (q) => q.eq("type", args.type!).gte("createdAt", from).lte("createdAt", to))
+        : args.status
+          ? ctx.db
+              .query("jobs")
+              .withIndex("by_status_created", (q) => q.eq("status", args.status!).gte("createdAt", from).lte("createdAt", to))
+          : ctx.db.query("jobs").withIndex("by_created", (q) => q.gte("createdAt", from).lte("createdAt", to));
+
+    const jobs = await base
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          args.type ? q.eq(q.field("type"), args.type) : true,
+          args.status ? q.eq(q.field("status"), args.status) : true,
+          q.gte(q.field("createdAt"), from),
+          q.lte(q.field("createdAt"), to)
+        )
+      )
+      .take(limit);
+
+    const emails = new Map<Id<"users">, string | undefined>();
+    for (const job of jobs) {
+      if (job.userId && !emails.has(job.userId)) {
+        emails.set(job.userId, (await ctx.db.get(job.userId))?.email);
+      }
+    }
+
+    return jobs.map(({ payload: _payload, ...job }) => ({
+      ...job,
+      userEmail: job.userId ? emails.get(job.userId) : undefined,
+      deadLetter: deadLetterReason(job as Doc<"jobs">),
+    }));
+  },
+});
+
+// One job with its parsed payload and attempt history (admin)
+export const adminGet = query({
+  args: { id: v.id("jobs") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const job = await ctx.db.get(args.id);
+    if (!job) return null;
+
+    const attempts = await ctx.db
+      .query("jobAttempts")
+      .withIndex("by_job", (q) => q.eq("jobId", args.id))
+      .collect();
+    const user = job.userId ? await ctx.db.get(job.userId) : null;
+
+    return {
+      ...job,
+      payload: job.payload ? redactPayload(safeJsonParse(job.payload)) : null,
+      userEmail: user?.email,
+      deadLetter: deadLetterReason(job),
+      attemptHistory: attempts,
+    };
+  },
+});
+
+// Run jobs again from scratch: back to pending, due now, with a fresh attempt budget (admin)
+export const adminRetry = mutation({
+  args: { ids: v.array(v.id("jobs")) },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const retried: Id<"jobs">[] = [];
+    const skipped: Array<{ id: Id<"jobs">; reason: string }> = [];
+
+    for (const id of args.ids) {
+      const job = await ctx.db.get(id);
+      if (!job) continue;
+      if (job.status !== "failed" && job.status !== "canceled") {
+        skipped.push({ id, reason: `Job is ${job.status}` });
+        continue;
+      }
+
+      const payload = job.payload ? safeJsonParse(job.payload) : undefined;
+      if (payload?.provisioningId && payload?.stepKey) {
+        // The provisioning already rolled back when this step gave up; compensation jobs can rerun
+        skipped.push({ id, reason: "Provisioning steps can't be retried after rollback" });
+        continue;
+      }
+      if (payload?.issueId) {
+        const issue = await ctx.db.get(payload.issueId as Id<"reconciliationIssues">);
+        if (issue?.status === "failed") {
+          await ctx.db.patch(issue._id, { status: "fixing", jobId: id, resolution: undefined, resolvedAt: undefined });
+        }
+      }
+      if (payload?.inviteId) {
+        const invite = await ctx.db.get(payload.inviteId as Id<"invites">);
+        if (invite?.emailJobId === id) {
+          await ctx.db.patch(invite._id, { emailStatus: "queued", emailError: undefined });
+        }
+      }
+      if (payload?.dunningCaseId && !(await retryDunningStep(ctx, payload.dunningCaseId, id))) {
+        skipped.push({ id, reason: "The payment is no longer being chased" });
+        continue;
+      }
+
+      await ctx.db.patch(id, {
+        status: "pending",
+        attempts: 0,
+        nextRunAt: now(),
+        updatedAt: now(),
+        lockedAt: undefined,
+        lockedBy: undefined,
+      });
+      retried.push(id);
+    }
+
+    if (retried.length > 0) {
+      await ctx.db.insert("auditLog", {
+        action: "jobs_retried",
+        actorId: admin.clerkId,
+        actorEmail: admin.email,
+        targetType: "jobs",
+        details: JSON.stringify({ count: retried.length, ids: retried }),
+        timestamp: now(),
+      });
+      await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "admin" });
+    }
+
+    return { retried: retried.length, skipped };
+  },
+});
+
+// Cancel jobs that haven't finished (admin)
+export const adminCancel = mutation({
+  args: { ids: v.array(v.id("jobs")) },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    let canceled = 0;
+    for (const id of args.ids) {
+      const job = await ctx.db.get(id);
+      if (!job || (job.status !== "pending" && job.status !== "running")) continue;
+
+      await ctx.db.patch(id, { status: "canceled", updatedAt: now() });
+      await onJobGaveUp(ctx, job, `Canceled by ${admin.email ?? "an admin"}`);
+      canceled++;
+    }
+
+    if (canceled > 0) {
+      await ctx.db.insert("auditLog", {
+        action: "jobs_canceled",
+        actorId: admin.clerkId,
+        actorEmail: admin.email,
+        targetType: "jobs",
+        details: JSON.stringify({ count: canceled, ids: args.ids }),
+        timestamp: now(),
+      });
+    }
+
+    return { canceled };
+  },
+});
+
+/**
+ * The job holding a job's concurrency key, if it isn't the job itself. Only
+ * the oldest unfinished job for a key may run. Jobs queued for later (like
+ * dunning reminders) don't hold the key until they're due; jobs waiting out
+ * a retry do.
+ */
+async function concurrencyBlocker(ctx: any, job: Doc<"jobs">): Promise<Doc<"jobs"> | null> {
+  if (!job.concurrencyKey) return null;
+
+  const head: Doc<"jobs"> | null = await ctx.db
+    .query("jobs")
+    .withIndex("by_concurrency_key", (q: any) => q.eq("concurrencyKey", job.concurrencyKey))
+    .filter((q: any) =>
+      q.or(
+        q.eq(q.field("status"), "running"),
+        q.and(
+          q.eq(q.field("status"), "pending"),
+          q.or(q.gt(q.field("attempts"), 0), q.lte(q.field("nextRunAt"), job.nextRunAt))
+        )
+      )
+    )
+    .first();
+  return head && head._id !== job._id ? head : null;
+}
+
+// Due jobs in run order, skipping ones blocked behind another job with their key so they can't
+// fill every batch and starve unrelated work
 export const internalGetDueJobs = internalQuery({
   args: {
     batchSize: v.number(),
     now: v.number(),
   },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const due: Doc<"jobs">[] = [];
+    // Keys already given a job in this batch, or found held by another job
+    const seenKeys = new Set<string>();
+    let scanned = 0;
+
+    for await (const job of ctx.db
       .query("jobs")
       .withIndex("by_status_next_run", (q) =>
         q.eq("status", "pending").lte("nextRunAt", args.now)
       )
-      .order("asc")
-      .take(args.batchSize);
+      .order("asc")) {
+      if (++scanned > DUE_SCAN_LIMIT) break;
+
+      if (job.concurrencyKey) {
+        if (seenKeys.has(job.concurrencyKey)) continue;
+        seenKeys.add(job.concurrencyKey);
+        if (await concurrencyBlocker(ctx, job)) continue;
+      }
+
+      due.push(job);
+      if (due.length >= args.batchSize) break;
+    }
+    return due;
   },
 });
 
@@ -137,6 +516,16 @@ export const internalLockJob = internalMutation({
     if (job.status !== "pending") return { locked: false, reason: "not_pending" };
     if (job.nextRunAt > args.now) return { locked: false, reason: "not_due" };
 
+    // Checked again here: another runner may have taken the key since the batch was picked
+    const head = await concurrencyBlocker(ctx, job);
+    if (head) {
+      // Wait out the blocker's backoff rather than filling every batch
+      if (head.status === "pending" && head.nextRunAt > job.nextRunAt) {
+        await ctx.db.patch(args.jobId, { nextRunAt: head.nextRunAt, updatedAt: args.now });
+      }
+      return { locked: false, reason: "blocked" };
+    }
+
     await ctx.db.patch(args.jobId, {
       status: "running",
       lockedAt: args.now,
@@ -149,8 +538,16 @@ export const internalLockJob = internalMutation({
 });
 
 export const internalMarkSucceeded = internalMutation({
-  args: { jobId: v.id("jobs") },
+  args: {
+    jobId: v.id("jobs"),
+    lockedAt: v.optional(v.number()),
+  },
   handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    // Ignore runners whose lock was reaped or canceled meanwhile
+    if (!job || job.status !== "running" || (args.lockedAt !== undefined && job.lockedAt !== args.lockedAt)) return;
+
+    await recordAttempt(ctx, job, (job.attempts ?? 0) + 1, "succeeded");
     await ctx.db.patch(args.jobId, {
       status: "succeeded",
       updatedAt: now(),
@@ -165,36 +562,35 @@ export const internalMarkFailedOrRetry = internalMutation({
   args: {
     jobId: v.id("jobs"),
     errorMessage: v.string(),
+    lockedAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const job = await ctx.db.get(args.jobId);
-    if (!job) return;
-
-    const message = args.errorMessage;
-    const attempts = (job.attempts ?? 0) + 1;
-    const nonRetryable = isNonRetryableErrorMessage(message);
-    const outOfAttempts = attempts >= job.maxAttempts;
-
-    if (nonRetryable || outOfAttempts) {
-      await ctx.db.patch(args.jobId, {
-        status: "failed",
-        attempts,
-        lastError: message,
-        updatedAt: now(),
-        lockedAt: undefined,
-        lockedBy: undefined,
-      });
-    } else {
-      await ctx.db.patch(args.jobId, {
-        status: "pending",
-        attempts,
-        lastError: message,
-        nextRunAt: now() + backoffMs(attempts),
-        updatedAt: now(),
-        lockedAt: undefined,
-        lockedBy: undefined,
-      });
+    if (!job || job.status !== "running" || (args.lockedAt !== undefined && job.lockedAt !== args.lockedAt)) return;
+
+    await failOrRetry(ctx, job, args.errorMessage);
+  },
+});
+
+// Return jobs whose runner died mid-run to the queue, counting the lost attempt
+export const reapStaleLocks = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = now() - LOCK_TIMEOUT_MS;
+    const stale = await ctx.db
+      .query("jobs")
+      .withIndex("by_status_created", (q) => q.eq("status", "running"))
+      .filter((q) => q.lt(q.field("lockedAt"), cutoff))
+      .collect();
+
+    for (const job of stale) {
+      await failOrRetry(ctx, job, `Lock expired: runner ${job.lockedBy ?? "unknown"} did not finish the job`);
+    }
+
+    if (stale.length > 0) {
+      await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "reaper" });
     }
+    return { reaped: stale.length };
   },
 });
 
@@ -226,13 +622,14 @@ export const processDueJobs = internalAction({
       const payload = job.payload ? safeJsonParse(job.payload) : undefined;
 
       try {
-        await dispatchJobAction(ctx, job.type, payload, job.userId);
-        await ctx.runMutation(internal.jobs.internalMarkSucceeded, { jobId: job._id });
+        await dispatchJobAction(ctx, job.type, payload, job.userId, job._id, (job.attempts ?? 0) + 1);
+        await ctx.runMutation(internal.jobs.internalMarkSucceeded, { jobId: job._id, lockedAt: currentTime });
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         await ctx.runMutation(internal.jobs.internalMarkFailedOrRetry, {
           jobId: job._id,
           errorMessage: message,
+          lockedAt: currentTime,
         });
       }
 
@@ -255,9 +652,53 @@ async function dispatchJobAction(
   ctx: any,
   type: string,
   payload: any,
-  userId?: any
+  userId?: any,
+  jobId?: any,
+  attempt?: number
 ): Promise<void> {
   switch (type) {
+    case "webhook.deliver":
+      await ctx.runAction(internal.webhooks.actionDeliver, { payload, jobId, attempt });
+      return;
+    case "plex.invite":
+      await ctx.runAction(internal.provisioning.actionPlexInvite, { payload });
+      return;
+    case "emby.createUser":
+      await ctx.runAction(internal.provisioning.actionEmbyCreateUser, { payload });
+      return;
+    case "emby.setLibraries":
+      await ctx.runAction(internal.provisioning.actionEmbySetLibraries, { payload });
+      return;
+    case "emby.connectInvite":
+      await ctx.runAction(internal.provisioning.actionEmbyConnectInvite, { payload });
+      return;
+    case "jellyfin.createUser":
+      await ctx.runAction(internal.provisioning.actionJellyfinCreateUser, { payload });
+      return;
+    case "jellyfin.setLibraries":
+      await ctx.runAction(internal.provisioning.actionJellyfinSetLibraries, { payload });
+      return;
+    case "provision.compensate":
+      await ctx.runAction(internal.provisioning.actionCompensate, { payload });
+      return;
+    case "email.inactivityWarning":
+      await ctx.runAction(internal.mailer.actionSendInactivityWarning, { payload });
+      return;
+    case "email.streamLimit":
+      await ctx.runAction(internal.mailer.actionSendStreamLimitNotice, { payload });
+      return;
+    case "email.invite":
+      await ctx.runAction(internal.mailer.actionSendInvite, { payload, jobId });
+      return;
+    case "email.dunning":
+      await ctx.runAction(internal.mailer.actionSendDunningEmail, { payload, jobId });
+      return;
+    case "email.iptvExpiryReminder":
+      await ctx.runAction(internal.mailer.actionSendIptvExpiryReminder, { payload });
+      return;
+    case "reconcile.fix":
+      await ctx.runAction(internal.reconciliation.actionFixIssue, { payload });
+      return;
     case "iptv.provision":
       await ctx.runAction(internal.iptv.actionProvision, { userId, payload });
       return;
@@ -0,0 +1,147 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  sendInactivityWarningEmail,
+  sendInviteEmail,
+  sendIptvExpiryReminderEmail,
+  sendPaymentFailedEmail,
+  sendStreamLimitEmail,
+} from "../lib/notifications";
+
+function appUrl(): string {
+  const raw = process.env.SITE_URL || process.env.VERCEL_URL || "http://localhost:3000";
+  return raw.startsWith("http://") || raw.startsWith("https://") ? raw : `https://${raw}`;
+}
+
+async function requireSmtpConfig(ctx: any) {
+  const config = await ctx.runQuery(internal.notifications.internalGetSmtpConfig, {});
+  if (!config.host || !config.from) {
+    throw new Error("CONFIG_MISSING: SMTP is not configured");
+  }
+  return config;
+}
+
+// Job: email an inactivity warning (throwing schedules a retry)
+export const actionSendInactivityWarning = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const { to, username, daysInactive, revokeAt } = args.payload ?? {};
+    if (!to || !revokeAt) throw new Error("VALIDATION_ERROR: Missing recipient or revocation date");
+
+    const config = await requireSmtpConfig(ctx);
+    const result = await sendInactivityWarningEmail(config, to, username || to, daysInactive, revokeAt, appUrl());
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send email");
+    }
+  },
+});
+
+// Job: email a user who went over their stream limit
+export const actionSendStreamLimitNotice = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const { to, username, limit, streamCount, stopped, suspended } = args.payload ?? {};
+    if (!to || !limit) throw new Error("VALIDATION_ERROR: Missing recipient or limit");
+
+    const config = await requireSmtpConfig(ctx);
+    const result = await sendStreamLimitEmail(config, to, username || to, limit, streamCount, {
+      stopped: !!stopped,
+      suspended: !!suspended,
+    });
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send email");
+    }
+  },
+});
+
+// Job: remind a user that their IPTV line expires soon
+export const actionSendIptvExpiryReminder = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const { to, username, expiresAt, daysLeft, renewalDays } = args.payload ?? {};
+    if (!to || !expiresAt) throw new Error("VALIDATION_ERROR: Missing recipient or expiry date");
+
+    const config = await requireSmtpConfig(ctx);
+    const result = await sendIptvExpiryReminderEmail(
+      config,
+      to,
+      username || to,
+      expiresAt,
+      daysLeft,
+      renewalDays,
+      appUrl(),
+      await ctx.runQuery(internal.emailTemplates.internalGet, { templateId: "iptvExpiryReminder" })
+    );
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send email");
+    }
+  },
+});
+
+// Job: email an invite to the address it's restricted to
+export const actionSendInvite = internalAction({
+  args: { payload: v.optional(v.any()), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const { inviteId } = args.payload ?? {};
+    if (!inviteId) throw new Error("VALIDATION_ERROR: Missing invite");
+
+    // Resending or deleting the invite makes this job moot
+    const delivery = await ctx.runQuery(internal.invites.internalGetEmailDelivery, { inviteId, jobId: args.jobId });
+    if (!delivery) return;
+
+    const config = await requireSmtpConfig(ctx);
+    const template = await ctx.runQuery(internal.emailTemplates.internalGet, { templateId: "invite" });
+    const result = await sendInviteEmail(
+      config,
+      delivery.to,
+      delivery.code,
+      delivery.serverType,
+      appUrl(),
+      delivery.trackingToken,
+      template
+    );
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send email");
+    }
+    await ctx.runMutation(internal.invites.internalMarkEmailSent, { inviteId, jobId: args.jobId });
+  },
+});
+
+// Job: chase a failed subscription payment with a reminder or the final notice
+export const actionSendDunningEmail = internalAction({
+  args: { payload: v.optional(v.any()), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const { dunningCaseId } = args.payload ?? {};
+    if (!dunningCaseId) throw new Error("VALIDATION_ERROR: Missing dunning case");
+
+    // Paying closes the case and makes the rest of its emails moot
+    const delivery = await ctx.runQuery(internal.dunning.internalGetDelivery, {
+      caseId: dunningCaseId,
+      jobId: args.jobId,
+    });
+    if (!delivery) return;
+
+    const config = await requireSmtpConfig(ctx);
+    const template = await ctx.runQuery(internal.emailTemplates.internalGet, {
+      templateId: delivery.kind === "final" ? "paymentFinalNotice" : "paymentFailed",
+    });
+    const result = await sendPaymentFailedEmail(
+      config,
+      delivery.to,
+      delivery.username || delivery.to,
+      delivery.kind,
+      delivery.amount,
+      delivery.currency,
+      delivery.revokeAt,
+      appUrl(),
+      template
+    );
+    if (!result.success) {
+      throw new Error(result.error || "Failed to send email");
+    }
+    await ctx.runMutation(internal.dunning.internalMarkStepSent, { caseId: dunningCaseId, jobId: args.jobId });
+  },
+});
@@ -1,5 +1,16 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { requireAdmin, requireAdminOrInternal } from "./auth";
+import { getSecretSetting } from "./secrets";
+import { SETTINGS_KEYS } from "../lib/constants";
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
 
 // Log a webhook event
 export const logWebhook = mutation({
@@ -10,8 +21,11 @@ export const logWebhook = mutation({
     status: v.union(v.literal("success"), v.literal("failed")),
     responseCode: v.optional(v.number()),
     error: v.optional(v.string()),
+    internalKey: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    await requireAdminOrInternal(ctx, internalKey);
+
     await ctx.db.insert("webhookLogs", {
       ...args,
       timestamp: Date.now(),
@@ -25,6 +39,8 @@ export const getWebhookLogs = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const logs = await ctx.db
       .query("webhookLogs")
       .withIndex("by_timestamp")
@@ -42,6 +58,8 @@ export const getAuditLogs = query({
     action: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const logs = args.action
       ? await ctx.db
           .query("auditLog")
@@ -61,17 +79,17 @@ export const getAuditLogs = query({
 export const createAuditLog = mutation({
   args: {
     action: v.string(),
-    actorId: v.string(),
-    actorEmail: v.optional(v.string()),
     targetType: v.string(),
     targetId: v.optional(v.string()),
     details: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     await ctx.db.insert("auditLog", {
       action: args.action,
-      actorId: args.actorId,
-      actorEmail: args.actorEmail,
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
       targetType: args.targetType,
       targetId: args.targetId,
       details: args.details,
@@ -83,6 +101,8 @@ export const createAuditLog = mutation({
 // Clear old webhook logs (keep last 30 days)
 export const cleanupWebhookLogs = mutation({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
+
     const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
     
     const oldLogs = await ctx.db
@@ -98,3 +118,18 @@ export const cleanupWebhookLogs = mutation({
     return { deleted: oldLogs.length };
   },
 });
+
+export const internalGetSmtpConfig = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    return {
+      host: (await getSetting(ctx, SETTINGS_KEYS.SMTP_HOST)) || "",
+      port: parseInt((await getSetting(ctx, SETTINGS_KEYS.SMTP_PORT)) || "587", 10),
+      secure: (await getSetting(ctx, SETTINGS_KEYS.SMTP_SECURE)) === "true",
+      user: (await getSetting(ctx, SETTINGS_KEYS.SMTP_USER)) || "",
+      pass: (await getSecretSetting(ctx, SETTINGS_KEYS.SMTP_PASS)) || "",
+      from: (await getSetting(ctx, SETTINGS_KEYS.EMAIL_FROM)) || "",
+      fromName: (await getSetting(ctx, SETTINGS_KEYS.EMAIL_FROM_NAME)) || "",
+    };
+  },
+});
@@ -1,6 +1,64 @@
 import { mutation, query, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { requireAdmin, requireAdminOrInternal, requireInternalKey, requireSelfOrAdmin } from "./auth";
+import { emitWebhookEvent } from "./webhooks";
+import { getPlanByPriceId, monthlyAmount } from "./plans";
+import { WebhookEvents } from "../lib/webhooks";
+
+// Recurring price details Stripe reports for a subscription
+const priceDetailsArgs = {
+  amount: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  interval: v.optional(v.string()),
+  intervalCount: v.optional(v.number()),
+};
+
+// A payment already recorded for this id or invoice. Both webhook handlers and
+// replays record invoices, and rows from before they agreed on a key use the payment intent.
+async function findRecordedPayment(
+  ctx: any,
+  stripePaymentId: string,
+  invoiceId?: string
+): Promise<Doc<"payments"> | null> {
+  const byId = await ctx.db
+    .query("payments")
+    .withIndex("by_stripe_payment", (q: any) => q.eq("stripePaymentId", stripePaymentId))
+    .first();
+  if (byId || !invoiceId) return byId;
+
+  return await ctx.db
+    .query("payments")
+    .withIndex("by_invoice", (q: any) => q.eq("invoiceId", invoiceId))
+    .filter((q: any) => q.or(q.eq(q.field("kind"), undefined), q.eq(q.field("kind"), "payment")))
+    .first();
+}
+
+// Emit webhook events when a user's payment status changes
+async function emitPaymentStatusEvents(
+  ctx: any,
+  user: { _id: any; clerkId: string; email: string; paymentStatus?: string },
+  paymentStatus: string,
+  paymentExpiresAt?: number
+) {
+  if (user.paymentStatus === paymentStatus) return;
+
+  const data = {
+    userId: user._id,
+    clerkId: user.clerkId,
+    email: user.email,
+    previousStatus: user.paymentStatus,
+    paymentStatus,
+    paymentExpiresAt,
+  };
+
+  await emitWebhookEvent(ctx, WebhookEvents.SUBSCRIPTION_UPDATED, data);
+
+  if (paymentStatus === "past_due" || paymentStatus === "unpaid") {
+    await emitWebhookEvent(ctx, WebhookEvents.PAYMENT_FAILED, data);
+  }
+}
 
 // Update user payment status from Stripe webhook
 export const updatePaymentStatus = mutation({
@@ -18,8 +76,12 @@ export const updatePaymentStatus = mutation({
       v.literal("free")
     ),
     paymentExpiresAt: v.optional(v.number()),
+    priceId: v.optional(v.string()), // Maps the subscription back to a plan
+    internalKey: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    requireInternalKey(internalKey);
+
     // Find user by Stripe customer ID or Clerk ID
     let user = await ctx.db
       .query("users")
@@ -38,6 +100,8 @@ export const updatePaymentStatus = mutation({
       return null;
     }
 
+    const plan = await getPlanByPriceId(ctx, args.priceId);
+
     // Update user payment status
     await ctx.db.patch(user._id, {
       stripeCustomerId: args.stripeCustomerId,
@@ -46,8 +110,11 @@ export const updatePaymentStatus = mutation({
       paymentExpiresAt: args.paymentExpiresAt,
       // Activate user if payment is active
       isActive: args.paymentStatus === "active" || args.paymentStatus === "trialing" || args.paymentStatus === "free",
+      ...(plan ? { planId: plan._id } : {}),
     });
 
+    await emitPaymentStatusEvents(ctx, user, args.paymentStatus, args.paymentExpiresAt);
+
     // Auto IPTV automation: ensure/renew/suspend based on payment state.
     await ctx.runMutation(internal.iptv.internalHandlePaymentStatusChange, {
       userId: user._id,
@@ -73,8 +140,12 @@ export const upsertSubscription = mutation({
     currentPeriodEnd: v.number(),
     cancelAtPeriodEnd: v.boolean(),
     canceledAt: v.optional(v.number()),
+    ...priceDetailsArgs,
+    internalKey: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    requireInternalKey(internalKey);
+
     const existing = await ctx.db
       .query("subscriptions")
       .withIndex("by_stripe_subscription", (q) =>
@@ -83,10 +154,12 @@ export const upsertSubscription = mutation({
       .first();
 
     const now = Date.now();
+    const planId = (await getPlanByPriceId(ctx, args.priceId))?._id;
 
     if (existing) {
       await ctx.db.patch(existing._id, {
         ...args,
+        planId,
         updatedAt: now,
       });
       return existing._id;
@@ -94,6 +167,7 @@ export const upsertSubscription = mutation({
 
     return await ctx.db.insert("subscriptions", {
       ...args,
+      planId,
       createdAt: now,
       updatedAt: now,
     });
@@ -111,34 +185,49 @@ export const recordPayment = mutation({
     status: v.string(),
     description: v.optional(v.string()),
     invoiceId: v.optional(v.string()),
+    internalKey: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    requireInternalKey(internalKey);
+
     // Check if payment already recorded
-    const existing = await ctx.db
-      .query("payments")
-      .withIndex("by_stripe_payment", (q) =>
-        q.eq("stripePaymentId", args.stripePaymentId)
-      )
-      .first();
+    const existing = await findRecordedPayment(ctx, args.stripePaymentId, args.invoiceId);
 
     if (existing) {
       return existing._id;
     }
 
-    return await ctx.db.insert("payments", {
+    const paymentId = await ctx.db.insert("payments", {
       ...args,
       createdAt: Date.now(),
     });
+
+    await emitWebhookEvent(
+      ctx,
+      args.status === "succeeded" ? WebhookEvents.PAYMENT_SUCCEEDED : WebhookEvents.PAYMENT_FAILED,
+      {
+        paymentId,
+        userId: args.userId,
+        stripeCustomerId: args.stripeCustomerId,
+        stripePaymentId: args.stripePaymentId,
+        amount: args.amount,
+        currency: args.currency,
+        status: args.status,
+      }
+    );
+
+    return paymentId;
   },
 });
 
 // Get user's payment status
 export const getPaymentStatus = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
 
     if (!user) {
@@ -172,11 +261,12 @@ export const getPaymentStatus = query({
 
 // Get payment history for a user
 export const getPaymentHistory = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
 
     if (!user) {
@@ -196,8 +286,11 @@ export const setStripeCustomerId = mutation({
   args: {
     clerkId: v.string(),
     stripeCustomerId: v.string(),
+    internalKey: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    requireInternalKey(internalKey);
+
     const user = await ctx.db
       .query("users")
       .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
@@ -230,18 +323,9 @@ export const setStripeCustomerId = mutation({
 export const markUserAsFree = mutation({
   args: {
     userId: v.id("users"),
-    adminClerkId: v.string(),
   },
   handler: async (ctx, args) => {
-    // Verify admin
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.adminClerkId))
-      .first();
-
-    if (!admin) {
-      throw new Error("Unauthorized");
-    }
+    await requireAdmin(ctx);
 
     const user = await ctx.db.get(args.userId);
     if (!user) {
@@ -259,16 +343,9 @@ export const markUserAsFree = mutation({
 
 // Get all subscriptions (admin)
 export const getAllSubscriptions = query({
-  args: { adminClerkId: v.string() },
-  handler: async (ctx, args) => {
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.adminClerkId))
-      .first();
-
-    if (!admin) {
-      return [];
-    }
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
 
     const subscriptions = await ctx.db
       .query("subscriptions")
@@ -279,10 +356,12 @@ export const getAllSubscriptions = query({
     const subscriptionsWithUsers = await Promise.all(
       subscriptions.map(async (sub) => {
         const user = await ctx.db.get(sub.userId);
+        const plan = sub.planId ? await ctx.db.get(sub.planId) : null;
         return {
           ...sub,
           userEmail: user?.email,
           userName: user?.username,
+          planName: plan?.name,
         };
       })
     );
@@ -293,16 +372,9 @@ export const getAllSubscriptions = query({
 
 // Get payment stats (admin)
 export const getPaymentStats = query({
-  args: { adminClerkId: v.string() },
-  handler: async (ctx, args) => {
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.adminClerkId))
-      .first();
-
-    if (!admin) {
-      return null;
-    }
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
 
     const allUsers = await ctx.db.query("users").collect();
     const activeSubscriptions = await ctx.db
@@ -314,8 +386,18 @@ export const getPaymentStats = query({
     const pendingUsers = allUsers.filter((u) => u.paymentStatus === "pending" || !u.paymentStatus).length;
     const freeUsers = allUsers.filter((u) => u.paymentStatus === "free").length;
 
-    // Calculate MRR (Monthly Recurring Revenue)
-    const mrr = activeSubscriptions.length * 30; // $30 per subscription
+    // Calculate MRR (Monthly Recurring Revenue) from each subscription's price,
+    // falling back to the plan's price for rows synced before prices were stored
+    const plans = await ctx.db.query("plans").collect();
+    let mrrCents = 0;
+    for (const sub of activeSubscriptions) {
+      const plan = plans.find((p) => p._id === sub.planId || p.stripePriceId === sub.priceId);
+      const amount = sub.amount ?? plan?.amount;
+      const interval = sub.interval ?? plan?.interval;
+      if (amount === undefined || !interval) continue;
+      mrrCents += monthlyAmount(amount, interval, sub.intervalCount ?? plan?.intervalCount);
+    }
+    const mrr = Math.round(mrrCents) / 100;
 
     return {
       totalUsers: allUsers.length,
@@ -330,11 +412,12 @@ export const getPaymentStats = query({
 
 // Check if user needs payment
 export const needsPayment = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
 
     if (!user) {
@@ -370,8 +453,12 @@ export const syncStripeSubscription = mutation({
     currentPeriodEnd: v.number(),
     priceId: v.optional(v.string()),
     productId: v.optional(v.string()),
+    ...priceDetailsArgs,
+    internalKey: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    await requireAdminOrInternal(ctx, internalKey);
+
     // Find user by email
     const user = await ctx.db
       .query("users")
@@ -408,6 +495,8 @@ export const syncStripeSubscription = mutation({
     // Determine if user should be active based on payment status
     const isActiveStatus = paymentStatus === "active" || paymentStatus === "trialing";
 
+    const plan = await getPlanByPriceId(ctx, args.priceId);
+
     // Update user with Stripe info
     await ctx.db.patch(user._id, {
       stripeCustomerId: args.stripeCustomerId,
@@ -415,6 +504,7 @@ export const syncStripeSubscription = mutation({
       paymentStatus,
       paymentExpiresAt: args.currentPeriodEnd,
       isActive: isActiveStatus,
+      ...(plan ? { planId: plan._id } : {}),
     });
 
     // Upsert subscription record if we have product info
@@ -432,6 +522,11 @@ export const syncStripeSubscription = mutation({
         await ctx.db.patch(existing._id, {
           status: args.subscriptionStatus,
           currentPeriodEnd: args.currentPeriodEnd,
+          planId: plan?._id,
+          amount: args.amount,
+          currency: args.currency,
+          interval: args.interval,
+          intervalCount: args.intervalCount,
           updatedAt: now,
         });
       } else {
@@ -442,6 +537,11 @@ export const syncStripeSubscription = mutation({
           status: args.subscriptionStatus,
           priceId: args.priceId,
           productId: args.productId,
+          planId: plan?._id,
+          amount: args.amount,
+          currency: args.currency,
+          interval: args.interval,
+          intervalCount: args.intervalCount,
           currentPeriodStart: now,
           currentPeriodEnd: args.currentPeriodEnd,
           cancelAtPeriodEnd: false,
@@ -460,20 +560,6 @@ export const syncStripeSubscription = mutation({
   },
 });
 
-// Get Stripe configuration
-export const getStripeConfig = query({
-  args: {},
-  handler: async () => {
-    return {
-      productId: "prod_TkUnen4Dh6GpAN",
-      productName: "Remote Computer Support",
-      priceAmount: 3000,
-      currency: "usd",
-      interval: "month",
-    };
-  },
-});
-
 // ============================================
 // Internal mutations for HTTP actions
 // ============================================
@@ -494,6 +580,7 @@ export const internal_updatePaymentStatus = internalMutation({
       v.literal("free")
     ),
     paymentExpiresAt: v.optional(v.number()),
+    priceId: v.optional(v.string()), // Maps the subscription back to a plan
   },
   handler: async (ctx, args) => {
     let user = await ctx.db
@@ -513,14 +600,19 @@ export const internal_updatePaymentStatus = internalMutation({
       return null;
     }
 
+    const plan = await getPlanByPriceId(ctx, args.priceId);
+
     await ctx.db.patch(user._id, {
       stripeCustomerId: args.stripeCustomerId,
       stripeSubscriptionId: args.stripeSubscriptionId,
       paymentStatus: args.paymentStatus,
       paymentExpiresAt: args.paymentExpiresAt,
       isActive: args.paymentStatus === "active" || args.paymentStatus === "trialing" || args.paymentStatus === "free",
+      ...(plan ? { planId: plan._id } : {}),
     });
 
+    await emitPaymentStatusEvents(ctx, user, args.paymentStatus, args.paymentExpiresAt);
+
     // Auto IPTV automation: ensure/renew/suspend based on payment state.
     await ctx.runMutation(internal.iptv.internalHandlePaymentStatusChange, {
       userId: user._id,
@@ -581,6 +673,7 @@ export const internal_upsertSubscription = internalMutation({
     currentPeriodEnd: v.number(),
     cancelAtPeriodEnd: v.boolean(),
     canceledAt: v.optional(v.number()),
+    ...priceDetailsArgs,
   },
   handler: async (ctx, args) => {
     // Find user by Stripe customer ID
@@ -597,10 +690,12 @@ export const internal_upsertSubscription = internalMutation({
       .first();
 
     const now = Date.now();
+    const planId = (await getPlanByPriceId(ctx, args.priceId))?._id;
 
     if (existing) {
       await ctx.db.patch(existing._id, {
         ...args,
+        planId,
         updatedAt: now,
       });
       return existing._id;
@@ -613,6 +708,7 @@ export const internal_upsertSubscription = internalMutation({
 
     return await ctx.db.insert("subscriptions", {
       ...args,
+      planId,
       userId: user._id,
       createdAt: now,
       updatedAt: now,
@@ -625,10 +721,11 @@ export const internal_recordPayment = internalMutation({
   args: {
     stripeCustomerId: v.string(),
     stripeInvoiceId: v.string(),
-    stripeSubscriptionId: v.string(),
+    stripeSubscriptionId: v.optional(v.string()),
     amount: v.number(),
     currency: v.string(),
     status: v.string(),
+    description: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Find user by Stripe customer ID
@@ -638,27 +735,40 @@ export const internal_recordPayment = internalMutation({
       .first();
 
     // Check if payment already recorded
-    const existing = await ctx.db
-      .query("payments")
-      .withIndex("by_stripe_payment", (q) =>
-        q.eq("stripePaymentId", args.stripeInvoiceId)
-      )
-      .first();
+    const existing = await findRecordedPayment(ctx, args.stripeInvoiceId, args.stripeInvoiceId);
 
     if (existing) {
       return existing._id;
     }
 
-    return await ctx.db.insert("payments", {
+    const paymentId = await ctx.db.insert("payments", {
       stripePaymentId: args.stripeInvoiceId,
       stripeCustomerId: args.stripeCustomerId,
       userId: user?._id,
       amount: args.amount,
       currency: args.currency,
       status: args.status,
+      description: args.description,
       invoiceId: args.stripeInvoiceId,
       createdAt: Date.now(),
     });
+
+    await emitWebhookEvent(
+      ctx,
+      args.status === "succeeded" ? WebhookEvents.PAYMENT_SUCCEEDED : WebhookEvents.PAYMENT_FAILED,
+      {
+        paymentId,
+        userId: user?._id,
+        clerkId: user?.clerkId,
+        stripeCustomerId: args.stripeCustomerId,
+        stripeInvoiceId: args.stripeInvoiceId,
+        amount: args.amount,
+        currency: args.currency,
+        status: args.status,
+      }
+    );
+
+    return paymentId;
   },
 });
 
@@ -672,6 +782,7 @@ export const internal_syncStripeSubscription = internalMutation({
     currentPeriodEnd: v.number(),
     priceId: v.optional(v.string()),
     productId: v.optional(v.string()),
+    ...priceDetailsArgs,
   },
   handler: async (ctx, args) => {
     const user = await ctx.db
@@ -706,6 +817,7 @@ export const internal_syncStripeSubscription = internalMutation({
     }
 
     const isActiveStatus = paymentStatus === "active" || paymentStatus === "trialing";
+    const plan = await getPlanByPriceId(ctx, args.priceId);
 
     await ctx.db.patch(user._id, {
       stripeCustomerId: args.stripeCustomerId,
@@ -713,6 +825,7 @@ export const internal_syncStripeSubscription = internalMutation({
       paymentStatus,
       paymentExpiresAt: args.currentPeriodEnd,
       isActive: isActiveStatus,
+      ...(plan ? { planId: plan._id } : {}),
     });
 
     if (args.productId && args.priceId) {
@@ -729,6 +842,11 @@ export const internal_syncStripeSubscription = internalMutation({
         await ctx.db.patch(existing._id, {
           status: args.subscriptionStatus,
           currentPeriodEnd: args.currentPeriodEnd,
+          planId: plan?._id,
+          amount: args.amount,
+          currency: args.currency,
+          interval: args.interval,
+          intervalCount: args.intervalCount,
           updatedAt: now,
         });
       } else {
@@ -739,6 +857,11 @@ export const internal_syncStripeSubscription = internalMutation({
           status: args.subscriptionStatus,
           priceId: args.priceId,
           productId: args.productId,
+          planId: plan?._id,
+          amount: args.amount,
+          currency: args.currency,
+          interval: args.interval,
+          intervalCount: args.intervalCount,
           currentPeriodStart: now,
           currentPeriodEnd: args.currentPeriodEnd,
           cancelAtPeriodEnd: false,
@@ -757,6 +880,55 @@ export const internal_syncStripeSubscription = internalMutation({
   },
 });
 
+// Schedule (or move) a user's payment revocation
+export async function schedulePaymentRevocation(
+  ctx: any,
+  user: Doc<"users">,
+  args: { stripeCustomerId: string; reason: string; revokeAt: number; gracePeriodDays: number }
+) {
+  const existing = await ctx.db
+    .query("scheduledRevocations")
+    .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+    .filter((q: any) => q.or(q.eq(q.field("source"), undefined), q.eq(q.field("source"), "payment")))
+    .first();
+
+  if (existing) {
+    // Update existing scheduled revocation
+    await ctx.db.patch(existing._id, {
+      revokeAt: args.revokeAt,
+      reason: args.reason,
+      status: "pending",
+      updatedAt: Date.now(),
+    });
+  } else {
+    // Create new scheduled revocation
+    await ctx.db.insert("scheduledRevocations", {
+      userId: user._id,
+      clerkId: user.clerkId,
+      stripeCustomerId: args.stripeCustomerId,
+      revokeAt: args.revokeAt,
+      reason: args.reason,
+      status: "pending",
+      createdAt: Date.now(),
+    });
+  }
+
+  // Log the scheduled revocation
+  await ctx.db.insert("auditLog", {
+    action: "revocation_scheduled",
+    actorId: "system",
+    targetType: "user",
+    targetId: user._id,
+    details: JSON.stringify({
+      email: user.email,
+      reason: args.reason,
+      revokeAt: new Date(args.revokeAt).toISOString(),
+      gracePeriodDays: args.gracePeriodDays,
+    }),
+    timestamp: Date.now(),
+  });
+}
+
 // Internal: Schedule access revocation when payment fails
 export const internal_scheduleAccessRevocation = internalMutation({
   args: {
@@ -780,45 +952,11 @@ export const internal_scheduleAccessRevocation = internalMutation({
     const gracePeriodMs = (args.gracePeriodDays || 0) * 24 * 60 * 60 * 1000;
     const revokeAt = Date.now() + gracePeriodMs;
 
-    // Store the scheduled revocation
-    const existing = await ctx.db
-      .query("scheduledRevocations")
-      .filter((q) => q.eq(q.field("userId"), user._id))
-      .first();
-
-    if (existing) {
-      // Update existing scheduled revocation
-      await ctx.db.patch(existing._id, {
-        revokeAt,
-        reason: args.reason,
-        updatedAt: Date.now(),
-      });
-    } else {
-      // Create new scheduled revocation
-      await ctx.db.insert("scheduledRevocations", {
-        userId: user._id,
-        clerkId: user.clerkId,
-        stripeCustomerId: args.stripeCustomerId,
-        revokeAt,
-        reason: args.reason,
-        status: "pending",
-        createdAt: Date.now(),
-      });
-    }
-
-    // Log the scheduled revocation
-    await ctx.db.insert("auditLog", {
-      action: "revocation_scheduled",
-      actorId: "system",
-      targetType: "user",
-      targetId: user._id,
-      details: JSON.stringify({
-        email: user.email,
-        reason: args.reason,
-        revokeAt: new Date(revokeAt).toISOString(),
-        gracePeriodDays: args.gracePeriodDays || 0,
-      }),
-      timestamp: Date.now(),
+    await schedulePaymentRevocation(ctx, user, {
+      stripeCustomerId: args.stripeCustomerId,
+      reason: args.reason,
+      revokeAt,
+      gracePeriodDays: args.gracePeriodDays || 0,
     });
 
     return { 
@@ -847,7 +985,8 @@ export const internal_cancelScheduledRevocation = internalMutation({
     // Find and delete scheduled revocation
     const scheduled = await ctx.db
       .query("scheduledRevocations")
-      .filter((q) => q.eq(q.field("userId"), user._id))
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.or(q.eq(q.field("source"), undefined), q.eq(q.field("source"), "payment")))
       .first();
 
     if (scheduled) {
@@ -874,8 +1013,11 @@ export const internal_cancelScheduledRevocation = internalMutation({
 export const cancelScheduledRevocation = mutation({
   args: {
     stripeCustomerId: v.string(),
+    internalKey: v.string(),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { internalKey, ...args }) => {
+    requireInternalKey(internalKey);
+
     // Find user by Stripe customer ID
     const user = await ctx.db
       .query("users")
@@ -887,7 +1029,8 @@ export const cancelScheduledRevocation = mutation({
     // Find and delete scheduled revocation
     const scheduled = await ctx.db
       .query("scheduledRevocations")
-      .filter((q) => q.eq(q.field("userId"), user._id))
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.or(q.eq(q.field("source"), undefined), q.eq(q.field("source"), "payment")))
       .first();
 
     if (scheduled) {
@@ -912,7 +1055,10 @@ export const cancelScheduledRevocation = mutation({
 
 // Get pending revocations that are due
 export const getPendingRevocations = query({
-  handler: async (ctx) => {
+  args: { internalKey: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAdminOrInternal(ctx, args.internalKey);
+
     const now = Date.now();
     return await ctx.db
       .query("scheduledRevocations")
@@ -0,0 +1,248 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin, requireUser } from "./auth";
+
+const serverTypeValidator = v.union(
+  v.literal("plex"),
+  v.literal("emby"),
+  v.literal("both"),
+  v.literal("jellyfin")
+);
+
+const intervalValidator = v.union(
+  v.literal("day"),
+  v.literal("week"),
+  v.literal("month"),
+  v.literal("year")
+);
+
+const MONTHS_PER_INTERVAL: Record<string, number> = {
+  day: 12 / 365,
+  week: 12 / 52,
+  month: 1,
+  year: 12,
+};
+
+// Normalize a recurring price to a monthly amount (same currency unit as `amount`)
+export function monthlyAmount(amount: number, interval: string, intervalCount = 1): number {
+  const months = (MONTHS_PER_INTERVAL[interval] ?? 1) * Math.max(1, intervalCount);
+  return amount / months;
+}
+
+// Find the plan sold under a Stripe price
+export async function getPlanByPriceId(ctx: any, priceId?: string | null): Promise<Doc<"plans"> | null> {
+  if (!priceId) return null;
+  return await ctx.db
+    .query("plans")
+    .withIndex("by_stripe_price", (q: any) => q.eq("stripePriceId", priceId))
+    .first();
+}
+
+// Access an invite grants a user: the plan they pay for when the invite
+// requires payment and they have one, otherwise the invite's own settings
+export async function resolveInviteAccess(ctx: any, invite: Doc<"invites">, clerkId: string) {
+  const fromInvite = {
+    serverType: invite.serverType,
+    libraries: invite.libraries,
+    serverIds: invite.serverIds,
+    planId: undefined as Id<"plans"> | undefined,
+  };
+  if (!invite.requiresPayment) return fromInvite;
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", clerkId))
+    .first();
+  const plan: Doc<"plans"> | null = user?.planId ? await ctx.db.get(user.planId) : null;
+  if (!plan) return fromInvite;
+
+  return {
+    serverType: plan.serverType,
+    libraries: plan.libraries,
+    serverIds: plan.serverIds,
+    planId: plan._id,
+  };
+}
+
+// List all plans (admin)
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const plans = await ctx.db.query("plans").collect();
+    return plans.sort((a, b) => monthlyAmount(a.amount, a.interval, a.intervalCount) - monthlyAmount(b.amount, b.interval, b.intervalCount));
+  },
+});
+
+// List the plans offered at checkout
+export const listActive = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireUser(ctx);
+    const plans = await ctx.db
+      .query("plans")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+
+    return plans
+      .sort((a, b) => monthlyAmount(a.amount, a.interval, a.intervalCount) - monthlyAmount(b.amount, b.interval, b.intervalCount))
+      .map((plan) => ({
+        _id: plan._id,
+        name: plan.name,
+        description: plan.description,
+        amount: plan.amount,
+        currency: plan.currency,
+        interval: plan.interval,
+        intervalCount: plan.intervalCount,
+        serverType: plan.serverType,
+        maxStreams: plan.maxStreams,
+        includesIptv: !!plan.iptvPlanId,
+      }));
+  },
+});
+
+// Access the signed-in user would get by redeeming an invite
+export const getInviteAccess = query({
+  args: { code: v.string() },
+  handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+    const invite = await ctx.db
+      .query("invites")
+      .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
+      .first();
+    if (!invite) return null;
+
+    const access = await resolveInviteAccess(ctx, invite, caller.clerkId);
+    const plan = access.planId ? await ctx.db.get(access.planId) : null;
+    return {
+      serverType: access.serverType,
+      planId: access.planId,
+      planName: plan?.name,
+    };
+  },
+});
+
+// Create or update a plan (admin)
+export const upsert = mutation({
+  args: {
+    id: v.optional(v.id("plans")),
+    name: v.string(),
+    description: v.optional(v.string()),
+    stripePriceId: v.string(),
+    amount: v.number(),
+    currency: v.string(),
+    interval: intervalValidator,
+    intervalCount: v.optional(v.number()),
+    serverType: serverTypeValidator,
+    serverIds: v.optional(v.array(v.id("servers"))),
+    libraries: v.optional(v.array(v.string())),
+    iptvPlanId: v.optional(v.id("iptvPlans")),
+    maxStreams: v.optional(v.number()),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, { id, ...args }) => {
+    const admin = await requireAdmin(ctx);
+
+    const name = args.name.trim();
+    const stripePriceId = args.stripePriceId.trim();
+    if (!name) throw new Error("VALIDATION_ERROR: Name is required");
+    if (!stripePriceId.startsWith("price_")) {
+      throw new Error("VALIDATION_ERROR: Stripe price ID must start with price_");
+    }
+    if (!Number.isInteger(args.amount) || args.amount < 0) {
+      throw new Error("VALIDATION_ERROR: Amount must be a whole number of cents");
+    }
+
+    const samePrice = await getPlanByPriceId(ctx, stripePriceId);
+    if (samePrice && samePrice._id !== id) {
+      throw new Error(`VALIDATION_ERROR: Price is already used by plan "${samePrice.name}"`);
+    }
+    const iptvPlan = await ctx.db
+      .query("iptvPlans")
+      .withIndex("by_stripe_price", (q) => q.eq("stripePriceId", stripePriceId))
+      .first();
+    if (iptvPlan) {
+      throw new Error(`VALIDATION_ERROR: Price is already used by IPTV plan "${iptvPlan.name}"`);
+    }
+
+    const fields = {
+      ...args,
+      name,
+      stripePriceId,
+      currency: args.currency.trim().toLowerCase(),
+      updatedAt: Date.now(),
+    };
+
+    let planId = id;
+    if (planId) {
+      const existing = await ctx.db.get(planId);
+      if (!existing) throw new Error("Plan not found");
+      await ctx.db.replace(planId, { ...fields, createdAt: existing.createdAt });
+    } else {
+      planId = await ctx.db.insert("plans", { ...fields, createdAt: fields.updatedAt });
+    }
+
+    await ctx.db.insert("auditLog", {
+      action: id ? "plan_updated" : "plan_created",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "plan",
+      targetId: planId,
+      details: JSON.stringify({ name, stripePriceId, amount: args.amount, interval: args.interval }),
+      timestamp: Date.now(),
+    });
+
+    return planId;
+  },
+});
+
+// Delete a plan no user is subscribed to (admin)
+export const remove = mutation({
+  args: { id: v.id("plans") },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const plan = await ctx.db.get(args.id);
+    if (!plan) return { deleted: false };
+
+    const inUse = await ctx.db
+      .query("users")
+      .withIndex("by_plan", (q) => q.eq("planId", args.id))
+      .first();
+    if (inUse) {
+      throw new Error("VALIDATION_ERROR: Plan has subscribers; deactivate it instead");
+    }
+
+    await ctx.db.delete(args.id);
+
+    await ctx.db.insert("auditLog", {
+      action: "plan_deleted",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "plan",
+      targetId: args.id,
+      details: JSON.stringify({ name: plan.name, stripePriceId: plan.stripePriceId }),
+      timestamp: Date.now(),
+    });
+
+    return { deleted: true };
+  },
+});
+
+// Internal: plan to check out with, defaulting to the only active plan
+export const internalGetCheckoutPlan = internalQuery({
+  args: { planId: v.optional(v.id("plans")) },
+  handler: async (ctx, args) => {
+    if (args.planId) {
+      const plan = await ctx.db.get(args.planId);
+      return plan?.isActive ? plan : null;
+    }
+
+    const active = await ctx.db
+      .query("plans")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+    return active.length === 1 ? active[0] : null;
+  },
+});
@@ -0,0 +1,215 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireInternalKey, requireSelfOrAdmin, requireUser } from "./auth";
+import { decryptSecret } from "./secrets";
+
+const RECENT_ACCESS_LIMIT = 10;
+
+type RevokeReason = NonNullable<Doc<"iptvPlaylistTokens">["revokedReason"]>;
+
+function generateToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function activeToken(ctx: any, accountId: Id<"iptvAccounts">): Promise<Doc<"iptvPlaylistTokens"> | null> {
+  const tokens: Doc<"iptvPlaylistTokens">[] = await ctx.db
+    .query("iptvPlaylistTokens")
+    .withIndex("by_account", (q: any) => q.eq("accountId", accountId))
+    .collect();
+  return tokens.find((t) => !t.revokedAt) ?? null;
+}
+
+// Revoke every live playlist token of an IPTV account
+export async function revokeAccountTokens(
+  ctx: any,
+  accountId: Id<"iptvAccounts">,
+  reason: RevokeReason
+): Promise<number> {
+  const tokens: Doc<"iptvPlaylistTokens">[] = await ctx.db
+    .query("iptvPlaylistTokens")
+    .withIndex("by_account", (q: any) => q.eq("accountId", accountId))
+    .collect();
+
+  let revoked = 0;
+  for (const token of tokens) {
+    if (token.revokedAt) continue;
+    await ctx.db.patch(token._id, { revokedAt: Date.now(), revokedReason: reason });
+    revoked++;
+  }
+  return revoked;
+}
+
+async function getMyIptvAccount(ctx: any, clerkId: string): Promise<Doc<"iptvAccounts"> | null> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q: any) => q.eq("clerkId", clerkId))
+    .first();
+  if (!user) return null;
+
+  return await ctx.db
+    .query("iptvAccounts")
+    .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+    .first();
+}
+
+// The caller's playlist link and where it was last used
+export const getMyPlaylistToken = query({
+  args: { clerkId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrAdmin(ctx, args.clerkId);
+    const account = await getMyIptvAccount(ctx, clerkId);
+    if (!account) return null;
+
+    const token = await activeToken(ctx, account._id);
+    if (!token) return null;
+
+    const recentAccess = await ctx.db
+      .query("iptvPlaylistAccess")
+      .withIndex("by_token", (q) => q.eq("tokenId", token._id))
+      .order("desc")
+      .take(RECENT_ACCESS_LIMIT);
+
+    return {
+      token: token.token,
+      createdAt: token.createdAt,
+      lastUsedAt: token.lastUsedAt,
+      recentAccess: recentAccess.map((a) => ({
+        kind: a.kind,
+        outcome: a.outcome,
+        ip: a.ip,
+        userAgent: a.userAgent,
+        timestamp: a.timestamp,
+      })),
+    };
+  },
+});
+
+// Issue a new playlist link, revoking the current one
+export const createMyPlaylistToken = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const caller = await requireUser(ctx);
+    const account = await getMyIptvAccount(ctx, caller.clerkId);
+    if (!account) throw new Error("VALIDATION_ERROR: IPTV account missing");
+    if (account.status !== "active") {
+      throw new Error("VALIDATION_ERROR: Your IPTV account isn't active");
+    }
+    if (account.provider === "stalker") {
+      throw new Error("VALIDATION_ERROR: Stalker accounts use the portal URL instead of a playlist");
+    }
+
+    await revokeAccountTokens(ctx, account._id, "regenerated");
+
+    const token = generateToken();
+    await ctx.db.insert("iptvPlaylistTokens", {
+      accountId: account._id,
+      userId: account.userId,
+      token,
+      createdAt: Date.now(),
+    });
+
+    await ctx.db.insert("auditLog", {
+      action: "iptv_playlist_token_created",
+      actorId: caller.clerkId,
+      actorEmail: caller.email,
+      targetType: "user",
+      targetId: account.userId,
+      details: JSON.stringify({ accountId: account._id }),
+      timestamp: Date.now(),
+    });
+
+    return { token };
+  },
+});
+
+// Revoke the caller's playlist link
+export const revokeMyPlaylistToken = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const caller = await requireUser(ctx);
+    const account = await getMyIptvAccount(ctx, caller.clerkId);
+    if (!account) return { revoked: 0 };
+
+    const revoked = await revokeAccountTokens(ctx, account._id, "user");
+    if (revoked > 0) {
+      await ctx.db.insert("auditLog", {
+        action: "iptv_playlist_token_revoked",
+        actorId: caller.clerkId,
+        actorEmail: caller.email,
+        targetType: "user",
+        targetId: account.userId,
+        details: JSON.stringify({ accountId: account._id }),
+        timestamp: Date.now(),
+      });
+    }
+    return { revoked };
+  },
+});
+
+// Look up the line behind a playlist token (server-side API routes only)
+export const resolveToken = query({
+  args: { internalKey: v.string(), token: v.string() },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const token = await ctx.db
+      .query("iptvPlaylistTokens")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+    if (!token) return null;
+
+    const account = await ctx.db.get(token.accountId);
+    const denied = token.revokedAt
+      ? "Playlist link revoked"
+      : !account || account.status !== "active" || !account.password
+        ? "IPTV account not active"
+        : null;
+    if (denied || !account) {
+      return { tokenId: token._id, active: false as const, reason: denied ?? "IPTV account not active" };
+    }
+
+    const plan = account.planId ? await ctx.db.get(account.planId) : null;
+    return {
+      tokenId: token._id,
+      active: true as const,
+      provider: account.provider,
+      username: account.username,
+      password: await decryptSecret(account.password!),
+      channelGroups: plan?.channelGroups ?? [],
+    };
+  },
+});
+
+// Record a request made with a playlist token (server-side API routes only)
+export const logAccess = mutation({
+  args: {
+    internalKey: v.string(),
+    tokenId: v.id("iptvPlaylistTokens"),
+    kind: v.union(v.literal("playlist"), v.literal("epg"), v.literal("stream")),
+    outcome: v.union(v.literal("served"), v.literal("denied"), v.literal("failed")),
+    ip: v.optional(v.string()),
+    userAgent: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const now = Date.now();
+    await ctx.db.insert("iptvPlaylistAccess", {
+      tokenId: args.tokenId,
+      kind: args.kind,
+      outcome: args.outcome,
+      ip: args.ip,
+      userAgent: args.userAgent?.slice(0, 300),
+      error: args.error?.slice(0, 500),
+      timestamp: now,
+    });
+
+    if (args.outcome === "served") {
+      await ctx.db.patch(args.tokenId, { lastUsedAt: now });
+    }
+  },
+});
@@ -0,0 +1,961 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin, requireUser } from "./auth";
+import { getInviteRedeemError, redeemInvite } from "./invites";
+import { insertJob } from "./jobs";
+import { resolveInviteAccess } from "./plans";
+import { decryptSecret, encryptSecret, getSecretSetting } from "./secrets";
+import { SETTINGS_KEYS } from "../lib/constants";
+import { EmbyClient } from "../lib/emby";
+import { JellyfinClient } from "../lib/jellyfin";
+import { PlexClient } from "../lib/plex";
+
+type MediaServerType = "plex" | "emby" | "jellyfin";
+type Provisioning = Doc<"provisionings">;
+type Step = Provisioning["steps"][number];
+
+interface ChainSummary {
+  key: string;
+  serverType: MediaServerType;
+  serverName: string;
+  serverUrl?: string;
+  status: "pending" | "succeeded" | "failed";
+  message?: string;
+  primary: Step;
+}
+
+const STEP_MAX_ATTEMPTS = 5;
+
+// The step that creates (or finds) the account on a server; later steps configure it
+const PRIMARY_STEP_TYPES = new Set([
+  "plex.invite",
+  "emby.connectInvite",
+  "emby.createUser",
+  "jellyfin.createUser",
+]);
+
+const LEGACY_SETTINGS: Record<MediaServerType, { url: string; credential: string; label: string }> = {
+  plex: { url: SETTINGS_KEYS.PLEX_URL, credential: SETTINGS_KEYS.PLEX_TOKEN, label: "Plex" },
+  emby: { url: SETTINGS_KEYS.EMBY_URL, credential: SETTINGS_KEYS.EMBY_API_KEY, label: "Emby" },
+  jellyfin: { url: SETTINGS_KEYS.JELLYFIN_URL, credential: SETTINGS_KEYS.JELLYFIN_API_KEY, label: "Jellyfin" },
+};
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
+
+// Same selection as getMediaServers in lib/config.ts
+async function resolveServers(
+  ctx: any,
+  type: MediaServerType,
+  serverIds?: Id<"servers">[]
+): Promise<Array<{ id?: Id<"servers">; name: string; url: string }>> {
+  const rows: Doc<"servers">[] = (
+    await ctx.db
+      .query("servers")
+      .withIndex("by_enabled", (q: any) => q.eq("enabled", true))
+      .collect()
+  ).filter((s: Doc<"servers">) => s.type === type);
+
+  if (rows.length === 0) {
+    const url = await getSetting(ctx, LEGACY_SETTINGS[type].url);
+    const credential = await getSecretSetting(ctx, LEGACY_SETTINGS[type].credential);
+    if (!url || !credential) return [];
+    return [{ name: "Default", url }];
+  }
+
+  const selected =
+    serverIds && serverIds.length > 0
+      ? rows.filter((row) => serverIds.includes(row._id))
+      : [rows.find((row) => row.isDefault) ?? rows[0]];
+
+  return selected.map((row) => ({ id: row._id, name: row.name, url: row.url }));
+}
+
+export async function getConnection(
+  ctx: any,
+  type: MediaServerType,
+  serverId?: Id<"servers">
+): Promise<{ url: string; credential: string } | null> {
+  if (serverId) {
+    const server = await ctx.db.get(serverId);
+    return server ? { url: server.url, credential: await decryptSecret(server.credential) } : null;
+  }
+
+  const url = await getSetting(ctx, LEGACY_SETTINGS[type].url);
+  const credential = await getSecretSetting(ctx, LEGACY_SETTINGS[type].credential);
+  return url && credential ? { url, credential } : null;
+}
+
+function chainKey(step: Pick<Step, "serverType" | "serverId">): string {
+  return `${step.serverType}:${step.serverId ?? "default"}`;
+}
+
+// Group steps per server and work out where each server stands
+function summarizeChains(provisioning: Provisioning): ChainSummary[] {
+  const chains: ChainSummary[] = [];
+
+  for (const primary of provisioning.steps.filter((s) => PRIMARY_STEP_TYPES.has(s.type))) {
+    const key = chainKey(primary);
+    const steps = provisioning.steps.filter((s) => chainKey(s) === key);
+    const failed = steps.find((s) => s.status === "failed");
+
+    const status = failed || steps.some((s) => s.status === "compensated")
+      ? "failed"
+      : steps.some((s) => s.status === "pending")
+        ? "pending"
+        : primary.status === "succeeded"
+          ? "succeeded"
+          : "failed";
+
+    chains.push({
+      key,
+      serverType: primary.serverType,
+      serverName: primary.serverName,
+      serverUrl: primary.serverUrl,
+      status,
+      message: failed?.message ?? primary.message,
+      primary,
+    });
+  }
+
+  return chains;
+}
+
+function newStep(
+  type: string,
+  serverType: MediaServerType,
+  server: { id?: Id<"servers">; name: string; url?: string } | null,
+  message?: string
+): Step {
+  return {
+    key: `${type}:${server?.id ?? "default"}`,
+    type,
+    serverType,
+    serverId: server?.id,
+    serverName: server?.name ?? LEGACY_SETTINGS[serverType].label,
+    serverUrl: server?.url,
+    // A step without a server records why that server type was left out
+    status: server ? "pending" : "skipped",
+    message,
+    updatedAt: Date.now(),
+  };
+}
+
+async function enqueueJob(ctx: any, clerkId: string, type: string, payload: Record<string, any>) {
+  return await insertJob(ctx, { type, clerkId, payload, maxAttempts: STEP_MAX_ATTEMPTS });
+}
+
+// Run the queue now rather than waiting for the next cron tick
+async function kickJobRunner(ctx: any) {
+  await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "provisioning" });
+}
+
+async function enqueueCompensation(ctx: any, provisioning: Provisioning, chains?: string[]) {
+  const needsUndo = provisioning.steps.some(
+    (s) => s.owned && s.status !== "compensated" && (!chains || chains.includes(chainKey(s)))
+  );
+  if (!needsUndo) return;
+
+  await enqueueJob(ctx, provisioning.clerkId, "provision.compensate", {
+    provisioningId: provisioning._id,
+    chains,
+  });
+  await kickJobRunner(ctx);
+}
+
+function buildRedeemArgs(provisioning: Provisioning, chains: ChainSummary[]) {
+  const succeeded = chains.filter((c) => c.status === "succeeded");
+  const find = (type: string) => succeeded.find((c) => c.primary.type === type)?.primary;
+
+  const embyLocal = find("emby.createUser");
+  const embyConnect = find("emby.connectInvite");
+  const jellyfin = find("jellyfin.createUser");
+
+  const serverAccounts = succeeded
+    .filter((c) => c.primary.serverId)
+    .map((c) => {
+      const step = c.primary;
+      const serverId = step.serverId!;
+      switch (step.type) {
+        case "plex.invite":
+          // A new invite's ID is not a Plex user ID; only existing shares have one
+          return {
+            serverId,
+            externalUserId: step.owned ? undefined : step.externalId,
+            email: provisioning.plexEmail,
+          };
+        case "emby.connectInvite":
+          return { serverId, username: provisioning.embyConnectEmail };
+        case "emby.createUser":
+          return { serverId, externalUserId: step.externalId, username: provisioning.embyUsername };
+        default:
+          return { serverId, externalUserId: step.externalId, username: provisioning.jellyfinUsername };
+      }
+    });
+
+  return {
+    code: provisioning.inviteCode,
+    username: provisioning.username,
+    plexEmail: find("plex.invite") ? provisioning.plexEmail : undefined,
+    embyUserId: embyLocal?.externalId,
+    embyUsername: embyConnect
+      ? provisioning.embyConnectEmail
+      : embyLocal
+        ? provisioning.embyUsername
+        : undefined,
+    jellyfinUserId: jellyfin?.externalId,
+    jellyfinUsername: jellyfin ? provisioning.jellyfinUsername : undefined,
+    serverAccounts: serverAccounts.length > 0 ? serverAccounts : undefined,
+  };
+}
+
+// Once every step has finished, redeem the invite or roll back
+async function settle(ctx: any, provisioningId: Id<"provisionings">) {
+  const provisioning: Provisioning | null = await ctx.db.get(provisioningId);
+  if (!provisioning || provisioning.status !== "pending") return;
+
+  const chains = summarizeChains(provisioning);
+  if (chains.some((c) => c.status === "pending")) return;
+
+  const succeeded = (type: MediaServerType) =>
+    chains.some((c) => c.serverType === type && c.status === "succeeded");
+
+  const anySuccess =
+    (provisioning.serverType === "plex" && succeeded("plex")) ||
+    (provisioning.serverType === "emby" && succeeded("emby")) ||
+    (provisioning.serverType === "both" && (succeeded("plex") || succeeded("emby"))) ||
+    (provisioning.serverType === "jellyfin" && succeeded("jellyfin"));
+
+  let error: string | undefined;
+  if (anySuccess) {
+    try {
+      await redeemInvite(
+        ctx,
+        { clerkId: provisioning.clerkId, email: provisioning.email },
+        buildRedeemArgs(provisioning, chains)
+      );
+    } catch (err) {
+      // redeemInvite validates before writing, so nothing is left half-done
+      error = err instanceof Error ? err.message : "Failed to redeem invite";
+    }
+  } else {
+    error =
+      chains
+        .filter((c) => c.message)
+        .map((c) => `${c.serverName}: ${c.message}`)
+        .join("; ") || "No server access could be set up";
+  }
+
+  await ctx.db.patch(provisioningId, {
+    status: error ? "failed" : "completed",
+    error,
+    updatedAt: Date.now(),
+    completedAt: Date.now(),
+  });
+
+  await ctx.db.insert("auditLog", {
+    action: error ? "provisioning_failed" : "provisioning_completed",
+    actorId: "system",
+    targetType: "provisioning",
+    targetId: provisioningId,
+    details: JSON.stringify({ code: provisioning.inviteCode, clerkId: provisioning.clerkId, error }),
+    timestamp: Date.now(),
+  });
+
+  if (error) {
+    await enqueueCompensation(ctx, provisioning);
+  }
+}
+
+/**
+ * Record that a provisioning step's job gave up (out of retries, a
+ * non-retryable error, or canceled). Skips the rest of that server's steps,
+ * queues undoing whatever the server's steps created, and settles the
+ * provisioning if nothing else is running. Call from inside a mutation.
+ */
+export async function failProvisioningStep(
+  ctx: any,
+  provisioningId: Id<"provisionings">,
+  stepKey: string,
+  message: string
+) {
+  const provisioning: Provisioning | null = await ctx.db.get(provisioningId);
+  if (!provisioning || provisioning.status !== "pending") return;
+
+  const failed = provisioning.steps.find((s) => s.key === stepKey);
+  if (!failed || failed.status !== "pending") return;
+
+  const chain = chainKey(failed);
+  const now = Date.now();
+  const steps = provisioning.steps.map((s): Step => {
+    if (s.key === stepKey) return { ...s, status: "failed", message, updatedAt: now };
+    if (chainKey(s) === chain && s.status === "pending") {
+      return { ...s, status: "skipped", message: "Skipped after an earlier step failed", updatedAt: now };
+    }
+    return s;
+  });
+
+  await ctx.db.patch(provisioningId, { steps, updatedAt: now });
+  await enqueueCompensation(ctx, { ...provisioning, steps }, [chain]);
+  await settle(ctx, provisioningId);
+}
+
+// Job payloads are kept and shown to admins, so chosen passwords are stored encrypted
+async function encryptPassword(password?: string): Promise<string | undefined> {
+  return password ? await encryptSecret(password) : undefined;
+}
+
+// Start provisioning server access for an invite (resumes one already running)
+export const start = mutation({
+  args: {
+    code: v.string(),
+    username: v.string(),
+    plexEmail: v.optional(v.string()),
+    embyUsername: v.optional(v.string()),
+    embyPassword: v.optional(v.string()),
+    embyConnectEmail: v.optional(v.string()),
+    jellyfinUsername: v.optional(v.string()),
+    jellyfinPassword: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+    if (!caller.email) {
+      throw new Error("Your account has no email address");
+    }
+
+    const invite = await ctx.db
+      .query("invites")
+      .withIndex("by_code", (q) => q.eq("code", args.code.toUpperCase()))
+      .first();
+    if (!invite) {
+      throw new Error("Invalid invite code");
+    }
+
+    const inFlight = await ctx.db
+      .query("provisionings")
+      .withIndex("by_invite_status", (q) => q.eq("inviteId", invite._id).eq("status", "pending"))
+      .collect();
+
+    const mine = inFlight.find((p) => p.clerkId === caller.clerkId);
+    if (mine) {
+      return { provisioningId: mine._id, resumed: true };
+    }
+
+    // Provisionings still running hold a use of the invite
+    const inviteError = getInviteRedeemError(invite, caller.email, inFlight.length);
+    if (inviteError) {
+      throw new Error(inviteError);
+    }
+
+    const existingUser = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
+      .first();
+    if (existingUser && (existingUser.inviteCode || (existingUser.serverAccess && existingUser.serverAccess !== "none"))) {
+      throw new Error("You have already redeemed an invite");
+    }
+
+    // Paid invites need a live subscription before any account is made
+    if (invite.requiresPayment === true) {
+      const status = existingUser?.paymentStatus;
+      if (status !== "active" && status !== "trialing" && status !== "free") {
+        throw new Error("Subscription required before redeeming this invite");
+      }
+    }
+
+    // Paid invites grant what the user's plan includes
+    const access = await resolveInviteAccess(ctx, invite, caller.clerkId);
+
+    const steps: Step[] = [];
+    const payloads = new Map<string, Record<string, any>>();
+
+    if (access.serverType === "plex" || access.serverType === "both") {
+      const servers = await resolveServers(ctx, "plex", access.serverIds);
+      if (servers.length === 0) {
+        steps.push(newStep("plex.invite", "plex", null, "Plex not configured"));
+      } else if (!args.plexEmail) {
+        steps.push(newStep("plex.invite", "plex", null, "Plex email required"));
+      } else {
+        for (const server of servers) {
+          steps.push(newStep("plex.invite", "plex", server));
+        }
+      }
+    }
+
+    if (access.serverType === "emby" || access.serverType === "both") {
+      const servers = await resolveServers(ctx, "emby", access.serverIds);
+      if (servers.length === 0) {
+        steps.push(newStep("emby.createUser", "emby", null, "Emby not configured"));
+      } else if (!args.embyConnectEmail && !args.embyUsername) {
+        steps.push(
+          newStep("emby.createUser", "emby", null, "Either Emby Connect email or local username is required")
+        );
+      } else {
+        for (const server of servers) {
+          if (args.embyConnectEmail) {
+            steps.push(newStep("emby.connectInvite", "emby", server));
+          } else {
+            const create = newStep("emby.createUser", "emby", server);
+            steps.push(create, newStep("emby.setLibraries", "emby", server));
+            payloads.set(create.key, { password: await encryptPassword(args.embyPassword) });
+          }
+        }
+      }
+    }
+
+    if (access.serverType === "jellyfin") {
+      const servers = await resolveServers(ctx, "jellyfin", access.serverIds);
+      if (servers.length === 0) {
+        steps.push(newStep("jellyfin.createUser", "jellyfin", null, "Jellyfin not configured"));
+      } else if (!args.jellyfinUsername) {
+        steps.push(newStep("jellyfin.createUser", "jellyfin", null, "Jellyfin username is required"));
+      } else {
+        for (const server of servers) {
+          const create = newStep("jellyfin.createUser", "jellyfin", server);
+          steps.push(create, newStep("jellyfin.setLibraries", "jellyfin", server));
+          payloads.set(create.key, { password: await encryptPassword(args.jellyfinPassword) });
+        }
+      }
+    }
+
+    if (!steps.some((s) => s.status === "pending")) {
+      throw new Error(steps.map((s) => s.message).join("; ") || "Nothing to provision for this invite");
+    }
+
+    const provisioningId = await ctx.db.insert("provisionings", {
+      clerkId: caller.clerkId,
+      email: caller.email,
+      inviteId: invite._id,
+      inviteCode: invite.code,
+      username: args.username,
+      serverType: access.serverType,
+      status: "pending",
+      plexEmail: args.plexEmail,
+      embyUsername: args.embyConnectEmail ? undefined : args.embyUsername,
+      embyConnectEmail: args.embyConnectEmail,
+      jellyfinUsername: args.jellyfinUsername,
+      planId: access.planId,
+      libraries: access.libraries,
+      serverIds: access.serverIds,
+      steps,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    // Each server's first step starts now; follow-up steps are queued as they become ready
+    const queued = await Promise.all(
+      steps.map(async (step) =>
+        step.status === "pending" && PRIMARY_STEP_TYPES.has(step.type)
+          ? {
+              ...step,
+              jobId: await enqueueJob(ctx, caller.clerkId, step.type, {
+                provisioningId,
+                stepKey: step.key,
+                ...payloads.get(step.key),
+              }),
+            }
+          : step
+      )
+    );
+    await ctx.db.patch(provisioningId, { steps: queued });
+    await kickJobRunner(ctx);
+
+    await ctx.db.insert("auditLog", {
+      action: "provisioning_started",
+      actorId: caller.clerkId,
+      actorEmail: caller.email,
+      targetType: "provisioning",
+      targetId: provisioningId,
+      details: JSON.stringify({ code: invite.code, steps: queued.map((s) => s.key) }),
+      timestamp: Date.now(),
+    });
+
+    return { provisioningId, resumed: false };
+  },
+});
+
+// Get a provisioning's progress by ID, or the caller's latest one for an invite code
+export const getStatus = query({
+  args: {
+    id: v.optional(v.id("provisionings")),
+    code: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const caller = await requireUser(ctx);
+
+    let provisioning: Provisioning | null = null;
+    if (args.id) {
+      provisioning = await ctx.db.get(args.id);
+    } else if (args.code) {
+      const code = args.code.toUpperCase();
+      const mine = await ctx.db
+        .query("provisionings")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
+        .order("desc")
+        .collect();
+      provisioning = mine.find((p) => p.inviteCode === code) ?? null;
+    }
+
+    if (!provisioning) return null;
+
+    // Users may read their own provisionings; anything else needs an admin
+    if (provisioning.clerkId !== caller.clerkId) {
+      await requireAdmin(ctx);
+    }
+
+    return {
+      _id: provisioning._id,
+      status: provisioning.status,
+      error: provisioning.error,
+      serverType: provisioning.serverType,
+      inviteCode: provisioning.inviteCode,
+      plexEmail: provisioning.plexEmail,
+      embyUsername: provisioning.embyUsername,
+      embyConnectEmail: provisioning.embyConnectEmail,
+      jellyfinUsername: provisioning.jellyfinUsername,
+      servers: summarizeChains(provisioning).map((c) => ({
+        serverType: c.serverType,
+        serverName: c.serverName,
+        serverUrl: c.serverUrl,
+        stepType: c.primary.type,
+        status: c.status,
+        message: c.message,
+        created: c.primary.owned === true,
+      })),
+      createdAt: provisioning.createdAt,
+      completedAt: provisioning.completedAt,
+    };
+  },
+});
+
+export const internalGetStepContext = internalQuery({
+  args: {
+    provisioningId: v.id("provisionings"),
+    stepKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const provisioning = await ctx.db.get(args.provisioningId);
+    const step = provisioning?.steps.find((s) => s.key === args.stepKey);
+    if (!provisioning || !step) return null;
+
+    const invite = await ctx.db.get(provisioning.inviteId);
+    const servers = new Set(
+      provisioning.steps.filter((s) => s.serverType === step.serverType).map((s) => chainKey(s))
+    );
+
+    return {
+      provisioning,
+      step,
+      connection: await getConnection(ctx, step.serverType, step.serverId),
+      // Plan-based provisionings carry their own library selection
+      libraries: provisioning.planId ? provisioning.libraries : invite?.libraries,
+      multipleServers: servers.size > 1,
+    };
+  },
+});
+
+export const internalGetCompensationTargets = internalQuery({
+  args: {
+    provisioningId: v.id("provisionings"),
+    chains: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const provisioning = await ctx.db.get(args.provisioningId);
+    if (!provisioning) return [];
+
+    const targets = provisioning.steps.filter(
+      (s) => s.owned && s.status !== "compensated" && (!args.chains || args.chains.includes(chainKey(s)))
+    );
+
+    return await Promise.all(
+      targets.map(async (step) => ({
+        key: step.key,
+        type: step.type,
+        externalId: step.externalId,
+        username: step.serverType === "jellyfin" ? provisioning.jellyfinUsername : provisioning.embyUsername,
+        connection: await getConnection(ctx, step.serverType, step.serverId),
+      }))
+    );
+  },
+});
+
+// Claim an account before creating it, so a retry that finds it knows it is ours
+export const internalMarkOwned = internalMutation({
+  args: {
+    provisioningId: v.id("provisionings"),
+    stepKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const provisioning = await ctx.db.get(args.provisioningId);
+    if (!provisioning) return;
+
+    await ctx.db.patch(args.provisioningId, {
+      steps: provisioning.steps.map((s) =>
+        s.key === args.stepKey ? { ...s, owned: true, updatedAt: Date.now() } : s
+      ),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const internalCompleteStep = internalMutation({
+  args: {
+    provisioningId: v.id("provisionings"),
+    stepKey: v.string(),
+    externalId: v.optional(v.string()),
+    owned: v.optional(v.boolean()),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const provisioning = await ctx.db.get(args.provisioningId);
+    const completed = provisioning?.steps.find((s) => s.key === args.stepKey);
+    if (!provisioning || !completed || completed.status !== "pending") return;
+
+    const now = Date.now();
+    let steps = provisioning.steps.map((s): Step =>
+      s.key === args.stepKey
+        ? {
+            ...s,
+            status: "succeeded",
+            externalId: args.externalId ?? s.externalId,
+            owned: args.owned ?? s.owned,
+            message: args.message,
+            updatedAt: now,
+          }
+        : s
+    );
+
+    // Library access is only set on accounts this provisioning created
+    if (completed.type.endsWith(".createUser")) {
+      const nextKey = `${completed.serverType}.setLibraries:${completed.serverId ?? "default"}`;
+      const next = steps.find((s) => s.key === nextKey && s.status === "pending");
+
+      if (next && args.owned) {
+        const jobId = await enqueueJob(ctx, provisioning.clerkId, next.type, {
+          provisioningId: provisioning._id,
+          stepKey: next.key,
+        });
+        steps = steps.map((s) => (s.key === nextKey ? { ...s, jobId, updatedAt: now } : s));
+        await kickJobRunner(ctx);
+      } else if (next) {
+        steps = steps.map((s): Step =>
+          s.key === nextKey
+            ? { ...s, status: "skipped", message: "Existing account keeps its library access", updatedAt: now }
+            : s
+        );
+      }
+    }
+
+    await ctx.db.patch(args.provisioningId, { steps, updatedAt: now });
+    await settle(ctx, args.provisioningId);
+  },
+});
+
+export const internalMarkCompensated = internalMutation({
+  args: {
+    provisioningId: v.id("provisionings"),
+    stepKey: v.string(),
+    message: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const provisioning = await ctx.db.get(args.provisioningId);
+    if (!provisioning) return;
+
+    await ctx.db.patch(args.provisioningId, {
+      steps: provisioning.steps.map((s): Step =>
+        s.key === args.stepKey ? { ...s, status: "compensated", message: args.message, updatedAt: Date.now() } : s
+      ),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// ============================================================
+// Action job handlers (network + DB apply)
+// ============================================================
+
+async function loadStepContext(ctx: any, payload: any) {
+  if (!payload?.provisioningId || !payload?.stepKey) {
+    throw new Error("VALIDATION_ERROR: Missing provisioningId or stepKey");
+  }
+
+  const context = await ctx.runQuery(internal.provisioning.internalGetStepContext, {
+    provisioningId: payload.provisioningId,
+    stepKey: payload.stepKey,
+  });
+  if (!context) throw new Error("VALIDATION_ERROR: Provisioning step not found");
+
+  // Already finished (e.g. the job ran again after its step was recorded)
+  if (context.step.status !== "pending") return null;
+
+  if (!context.connection) {
+    throw new Error(`CONFIG_MISSING: ${context.step.serverName} is not configured`);
+  }
+
+  return context;
+}
+
+async function completeStep(
+  ctx: any,
+  context: any,
+  result: { externalId?: string; owned?: boolean; message?: string }
+) {
+  await ctx.runMutation(internal.provisioning.internalCompleteStep, {
+    provisioningId: context.provisioning._id,
+    stepKey: context.step.key,
+    ...result,
+  });
+}
+
+export function localAccountClient(type: MediaServerType, connection: { url: string; credential: string }) {
+  return type === "jellyfin"
+    ? new JellyfinClient({ url: connection.url, apiKey: connection.credential })
+    : new EmbyClient({ url: connection.url, apiKey: connection.credential });
+}
+
+// Invite library IDs are server-specific; when an invite spans several servers,
+// keep only the IDs that exist on this one (plus the Live TV pseudo-library).
+async function scopeLibrariesToServer(
+  client: EmbyClient | JellyfinClient,
+  libraryIds: string[] | undefined,
+  multipleServers: boolean
+): Promise<string[]> {
+  if (!libraryIds || libraryIds.length === 0) return [];
+  if (!multipleServers) return libraryIds;
+
+  const libraries = await client.getLibraries();
+  const known = new Set<string>();
+  for (const lib of libraries as Array<{ ItemId?: string; Id?: string; Guid?: string }>) {
+    if (lib.ItemId) known.add(lib.ItemId);
+    if (lib.Id) known.add(lib.Id);
+    if (lib.Guid) known.add(lib.Guid);
+  }
+
+  const scoped = libraryIds.filter((id) => id === "__livetv__" || known.has(id));
+  // Nothing selected on this server: fall back to all libraries
+  return scoped.some((id) => id !== "__livetv__") ? scoped : [];
+}
+
+async function createLocalAccount(ctx: any, payload: any) {
+  const context = await loadStepContext(ctx, payload);
+  if (!context) return;
+
+  const username =
+    context.step.serverType === "jellyfin"
+      ? context.provisioning.jellyfinUsername
+      : context.provisioning.embyUsername;
+  if (!username) throw new Error("VALIDATION_ERROR: Missing username");
+
+  const client = localAccountClient(context.step.serverType, context.connection);
+
+  const existing = await client.findUserByUsername(username);
+  if (existing) {
+    // Either it was there before, or an earlier attempt of this step created it
+    const owned = context.step.owned === true;
+    await completeStep(ctx, context, {
+      externalId: existing.Id,
+      owned,
+      message: owned ? "Account created successfully" : "Username already exists - using existing account",
+    });
+    return;
+  }
+
+  await ctx.runMutation(internal.provisioning.internalMarkOwned, {
+    provisioningId: context.provisioning._id,
+    stepKey: context.step.key,
+  });
+
+  const result = await client.createUser(username, payload.password ? await decryptSecret(payload.password) : undefined);
+  if (!result.success || !result.userId) {
+    throw new Error(result.message);
+  }
+
+  await completeStep(ctx, context, {
+    externalId: result.userId,
+    owned: true,
+    message: "Account created successfully",
+  });
+}
+
+async function setLocalAccountLibraries(ctx: any, payload: any) {
+  const context = await loadStepContext(ctx, payload);
+  if (!context) return;
+
+  const { step, provisioning } = context;
+  const createStep = provisioning.steps.find(
+    (s: Step) => s.type === `${step.serverType}.createUser` && chainKey(s) === chainKey(step)
+  );
+  if (!createStep?.externalId) {
+    throw new Error("VALIDATION_ERROR: Account was not created");
+  }
+
+  const client = localAccountClient(step.serverType, context.connection);
+  const libraries = await scopeLibrariesToServer(client, context.libraries, context.multipleServers);
+
+  // No libraries on the invite grants access to all of them
+  const result =
+    libraries.length > 0
+      ? await client.setUserLibraries(createStep.externalId, libraries, false)
+      : await client.setUserLibraries(createStep.externalId, [], true);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+
+  await completeStep(ctx, context, { message: "Library access set" });
+}
+
+export const actionPlexInvite = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const context = await loadStepContext(ctx, args.payload);
+    if (!context) return;
+
+    const email = context.provisioning.plexEmail;
+    if (!email) throw new Error("VALIDATION_ERROR: Missing Plex email");
+
+    const client = new PlexClient({ url: context.connection.url, token: context.connection.credential });
+
+    const existingShare = (await client.getSharedUsers()).find(
+      (u) => u.email?.toLowerCase() === email.toLowerCase()
+    );
+    if (existingShare) {
+      await completeStep(ctx, context, {
+        externalId: existingShare.id,
+        owned: false,
+        message: "Already has access",
+      });
+      return;
+    }
+
+    const result = await client.inviteUser(email, context.libraries);
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    await completeStep(ctx, context, {
+      externalId: result.inviteId,
+      owned: true,
+      message: result.message,
+    });
+  },
+});
+
+export const actionEmbyConnectInvite = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const context = await loadStepContext(ctx, args.payload);
+    if (!context) return;
+
+    const connectEmail = context.provisioning.embyConnectEmail;
+    if (!connectEmail) throw new Error("VALIDATION_ERROR: Missing Emby Connect email");
+
+    const client = new EmbyClient({ url: context.connection.url, apiKey: context.connection.credential });
+    const result = await client.inviteViaConnect(connectEmail, true);
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    // No invite ID means the user already had access
+    await completeStep(ctx, context, {
+      externalId: result.inviteId,
+      owned: !!result.inviteId,
+      message: result.message,
+    });
+  },
+});
+
+export const actionEmbyCreateUser = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    await createLocalAccount(ctx, args.payload);
+  },
+});
+
+export const actionEmbySetLibraries = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    await setLocalAccountLibraries(ctx, args.payload);
+  },
+});
+
+export const actionJellyfinCreateUser = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    await createLocalAccount(ctx, args.payload);
+  },
+});
+
+export const actionJellyfinSetLibraries = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    await setLocalAccountLibraries(ctx, args.payload);
+  },
+});
+
+// Undo what a failed provisioning created: delete accounts, cancel invites
+export const actionCompensate = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args) => {
+    const provisioningId = args.payload?.provisioningId as Id<"provisionings"> | undefined;
+    if (!provisioningId) throw new Error("VALIDATION_ERROR: Missing provisioningId");
+
+    const targets = await ctx.runQuery(internal.provisioning.internalGetCompensationTargets, {
+      provisioningId,
+      chains: Array.isArray(args.payload?.chains) ? args.payload.chains : undefined,
+    });
+
+    const errors: string[] = [];
+
+    for (const target of targets) {
+      if (!target.connection) {
+        errors.push(`${target.key}: server is no longer configured`);
+        continue;
+      }
+
+      let result: { success: boolean; message: string };
+      if (target.type === "plex.invite") {
+        result = target.externalId
+          ? await new PlexClient({ url: target.connection.url, token: target.connection.credential })
+              .cancelInvite(target.externalId)
+          : { success: true, message: "Invite ID unknown; cancel the Plex invite manually" };
+      } else if (target.type === "emby.connectInvite") {
+        result = target.externalId
+          ? await new EmbyClient({ url: target.connection.url, apiKey: target.connection.credential })
+              .cancelConnectInvite(target.externalId)
+          : { success: true, message: "No pending invitation to cancel" };
+      } else {
+        const serverType = target.type.startsWith("jellyfin.") ? "jellyfin" : "emby";
+        const client = localAccountClient(serverType, target.connection);
+        // The create call may have succeeded without us recording the ID
+        const userId =
+          target.externalId ??
+          (target.username ? (await client.findUserByUsername(target.username))?.Id : undefined);
+        result = userId
+          ? await client.deleteUser(userId)
+          : { success: true, message: "Account was never created" };
+      }
+
+      if (!result.success) {
+        errors.push(`${target.key}: ${result.message}`);
+        continue;
+      }
+
+      await ctx.runMutation(internal.provisioning.internalMarkCompensated, {
+        provisioningId,
+        stepKey: target.key,
+        message: result.message,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Compensation incomplete: ${errors.join("; ")}`);
+    }
+  },
+});
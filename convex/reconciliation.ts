@@ -0,0 +1,904 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+import { getConnection, localAccountClient } from "./provisioning";
+import { insertJob } from "./jobs";
+import { decryptSecret } from "./secrets";
+import { emitWebhookEvent } from "./webhooks";
+import { WebhookEvents } from "../lib/webhooks";
+import { PlexClient } from "../lib/plex";
+
+type MediaServerType = "plex" | "emby" | "jellyfin";
+type IssueKind = Doc<"reconciliationIssues">["kind"];
+type Libraries = "all" | string[];
+
+export interface ServerTarget {
+  serverType: MediaServerType;
+  serverId?: Id<"servers">;
+  serverName: string;
+  isDefault: boolean;
+  connection: { url: string; credential: string };
+}
+
+interface UserSnapshot {
+  _id: Id<"users">;
+  email: string;
+  username: string;
+  isActive: boolean;
+  paid: boolean;
+  serverAccess: Doc<"users">["serverAccess"];
+  serverIds?: Id<"servers">[];
+  serverAccounts?: Doc<"users">["serverAccounts"];
+  plexUserId?: string;
+  plexEmail?: string;
+  embyUserId?: string;
+  embyUsername?: string;
+  jellyfinUserId?: string;
+  jellyfinUsername?: string;
+  libraries?: string[]; // From the user's plan, else the invite they redeemed
+  librariesFrom: "plan" | "invite";
+}
+
+interface ServerAccount {
+  id: string;
+  name: string;
+  email?: string;
+  disabled?: boolean;
+  isAdmin?: boolean;
+  libraries?: Libraries;
+  liveTv?: boolean;
+}
+
+interface IssueDraft {
+  fingerprint: string;
+  kind: IssueKind;
+  serverType: MediaServerType;
+  serverId?: Id<"servers">;
+  serverName: string;
+  userId?: Id<"users">;
+  email?: string;
+  externalId?: string;
+  externalName?: string;
+  message: string;
+  details?: string;
+}
+
+interface FixContext {
+  issue: Doc<"reconciliationIssues">;
+  user: Doc<"users"> | null;
+  connection: { url: string; credential: string } | null;
+}
+
+const FIX_MAX_ATTEMPTS = 3;
+const LIVE_TV = "__livetv__";
+const PAID_STATUSES = new Set(["active", "trialing", "free"]);
+
+// A run still marked running after this long is assumed to have died
+const STALE_RUN_MS = 15 * 60_000;
+
+const SERVER_ACCESS_TYPES: Record<string, MediaServerType[]> = {
+  plex: ["plex"],
+  emby: ["emby"],
+  both: ["plex", "emby"],
+  jellyfin: ["jellyfin"],
+  none: [],
+};
+
+const serverTypeValidator = v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin"));
+
+const issueKindValidator = v.union(
+  v.literal("orphan"),
+  v.literal("missing_share"),
+  v.literal("wrong_libraries"),
+  v.literal("disabled_but_paid"),
+  v.literal("revoked_with_access")
+);
+
+function sameIds(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((id) => set.has(id));
+}
+
+function generatePassword(length = 16): string {
+  const charset = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let password = "";
+  for (let i = 0; i < length; i++) {
+    password += charset.charAt(Math.floor(Math.random() * charset.length));
+  }
+  return password;
+}
+
+// Whether the user was granted this server (their chosen servers, else the default one)
+function isGrantedServer(user: UserSnapshot, target: ServerTarget, targets: ServerTarget[]): boolean {
+  if (!SERVER_ACCESS_TYPES[user.serverAccess]?.includes(target.serverType)) return false;
+
+  const chosen = (user.serverIds ?? []).filter((id) =>
+    targets.some((t) => t.serverType === target.serverType && t.serverId === id)
+  );
+  return chosen.length > 0 ? !!target.serverId && chosen.includes(target.serverId) : target.isDefault;
+}
+
+function matchesAccount(user: UserSnapshot, account: ServerAccount, target: ServerTarget): boolean {
+  const linked = user.serverAccounts?.some(
+    (a) => a.serverId === target.serverId && a.externalUserId === account.id
+  );
+  if (linked) return true;
+
+  switch (target.serverType) {
+    case "plex": {
+      if (user.plexUserId === account.id) return true;
+      const email = account.email?.toLowerCase();
+      return !!email && [user.plexEmail, user.email].some((e) => e?.toLowerCase() === email);
+    }
+    case "emby":
+      return (
+        user.embyUserId === account.id ||
+        (!!user.embyUsername && user.embyUsername.toLowerCase() === account.name.toLowerCase())
+      );
+    case "jellyfin":
+      return (
+        user.jellyfinUserId === account.id ||
+        (!!user.jellyfinUsername && user.jellyfinUsername.toLowerCase() === account.name.toLowerCase())
+      );
+  }
+}
+
+// IDs and emails that tie a user to their server accounts
+export interface AccountUser {
+  _id: Id<"users">;
+  email: string;
+  plexUserId?: string;
+  plexEmail?: string;
+  embyUserId?: string;
+  jellyfinUserId?: string;
+  serverAccounts?: Doc<"users">["serverAccounts"];
+}
+
+// Find the user behind a server account, by linked ID or (on Plex) email
+export function findAccountUser<T extends AccountUser>(
+  users: T[],
+  target: ServerTarget,
+  externalId: string | undefined,
+  email?: string
+): T | undefined {
+  const byId =
+    externalId === undefined
+      ? undefined
+      : users.find((u) => {
+          const linked = u.serverAccounts?.some(
+            (a) => !!target.serverId && a.serverId === target.serverId && a.externalUserId === externalId
+          );
+          if (linked) return true;
+          switch (target.serverType) {
+            case "plex":
+              return u.plexUserId === externalId;
+            case "emby":
+              return u.embyUserId === externalId;
+            case "jellyfin":
+              return u.jellyfinUserId === externalId;
+          }
+        });
+  if (byId || !email) return byId;
+
+  const lower = email.toLowerCase();
+  return users.find((u) => [u.plexEmail, u.email].some((e) => e?.toLowerCase() === lower));
+}
+
+// Libraries the user should have on this server, or null when we can't tell.
+// Mirrors scopeLibrariesToServer: IDs are server-specific, so with several
+// servers only the ones that exist here count, falling back to all libraries.
+function expectedLibraries(
+  user: UserSnapshot,
+  target: ServerTarget,
+  targets: ServerTarget[],
+  knownLibraryIds: Set<string> | null
+): Libraries | null {
+  const libraries = user.libraries ?? [];
+
+  if (target.serverType === "plex") {
+    // Library pickers only list Emby/Jellyfin libraries, so only Plex-only grants carry Plex IDs
+    return user.serverAccess === "plex" && libraries.length > 0 ? libraries : null;
+  }
+
+  if (libraries.length === 0) return "all";
+
+  const granted = targets.filter((t) => t.serverType === target.serverType && isGrantedServer(user, t, targets));
+  if (granted.length <= 1) return libraries;
+  if (!knownLibraryIds) return null;
+
+  const scoped = libraries.filter((id) => id === LIVE_TV || knownLibraryIds.has(id));
+  return scoped.some((id) => id !== LIVE_TV) ? scoped : "all";
+}
+
+function librariesMatch(expected: Libraries, account: ServerAccount, serverType: MediaServerType): boolean {
+  if (!account.libraries) return true;
+  if (expected === "all") return account.libraries === "all";
+  if (account.libraries === "all") return false;
+
+  const folders = expected.filter((id) => id !== LIVE_TV);
+  if (!sameIds(folders, account.libraries)) return false;
+  return serverType === "plex" || expected.includes(LIVE_TV) === !!account.liveTv;
+}
+
+function describeLibraries(libraries: Libraries): string {
+  return libraries === "all" ? "all libraries" : `${libraries.length} selected`;
+}
+
+async function fetchAccounts(
+  target: ServerTarget
+): Promise<{ accounts: ServerAccount[]; knownLibraryIds: Set<string> | null }> {
+  if (target.serverType === "plex") {
+    const client = new PlexClient({ url: target.connection.url, token: target.connection.credential });
+    const friends = await client.listSharedUsers();
+    // Friends without a share on this server aren't accounts here
+    const access = await client.getLibraryAccessByUser();
+    const accounts = friends
+      .filter((f) => access[f.id] !== undefined)
+      .map((f) => ({ id: f.id, name: f.username, email: f.email, libraries: access[f.id] }));
+    return { accounts, knownLibraryIds: null };
+  }
+
+  const client = localAccountClient(target.serverType, target.connection);
+  const users = await client.getUsers();
+  const accounts = users.map((u) => ({
+    id: u.Id,
+    name: u.Name,
+    disabled: u.Policy?.IsDisabled,
+    isAdmin: u.Policy?.IsAdministrator,
+    libraries: u.Policy ? (u.Policy.EnableAllFolders ? "all" : u.Policy.EnabledFolders ?? []) : undefined,
+    liveTv: u.Policy?.EnableLiveTvAccess,
+  })) as ServerAccount[];
+
+  const knownLibraryIds = new Set<string>();
+  for (const lib of (await client.getLibraries()) as Array<{ ItemId?: string; Id?: string; Guid?: string }>) {
+    if (lib.ItemId) knownLibraryIds.add(lib.ItemId);
+    if (lib.Id) knownLibraryIds.add(lib.Id);
+    if (lib.Guid) knownLibraryIds.add(lib.Guid);
+  }
+
+  return { accounts, knownLibraryIds };
+}
+
+function classify(
+  target: ServerTarget,
+  targets: ServerTarget[],
+  users: UserSnapshot[],
+  accounts: ServerAccount[],
+  knownLibraryIds: Set<string> | null
+): IssueDraft[] {
+  const issues: IssueDraft[] = [];
+  const serverKey = `${target.serverType}:${target.serverId ?? "default"}`;
+  const base = { serverType: target.serverType, serverId: target.serverId, serverName: target.serverName };
+
+  const issue = (
+    kind: IssueKind,
+    message: string,
+    fields: { user?: UserSnapshot; account?: ServerAccount; details?: Record<string, unknown> }
+  ) => {
+    issues.push({
+      ...base,
+      fingerprint: `${kind}:${serverKey}:${fields.user?._id ?? fields.account?.id}`,
+      kind,
+      userId: fields.user?._id,
+      email: fields.user?.email ?? fields.account?.email,
+      externalId: fields.account?.id,
+      externalName: fields.account?.name,
+      message,
+      details: fields.details ? JSON.stringify(fields.details) : undefined,
+    });
+  };
+
+  const matched = new Set<Id<"users">>();
+
+  for (const account of accounts) {
+    const user = users.find((u) => matchesAccount(u, account, target));
+
+    if (!user) {
+      // Server admins and accounts already switched off aren't worth flagging
+      if (!account.isAdmin && !account.disabled) {
+        issue("orphan", `${account.name} has an account on ${target.serverName} but no matching user`, {
+          account,
+        });
+      }
+      continue;
+    }
+
+    matched.add(user._id);
+
+    if (!user.isActive) {
+      if (user.paid) {
+        issue("disabled_but_paid", `${user.email} is paid up but marked inactive`, {
+          user,
+          account,
+          details: { userInactive: true, accountDisabled: !!account.disabled },
+        });
+      } else if (!account.disabled) {
+        issue("revoked_with_access", `${user.email} is inactive but still has access to ${target.serverName}`, {
+          user,
+          account,
+        });
+      }
+      continue;
+    }
+
+    if (account.disabled) {
+      if (user.paid) {
+        issue("disabled_but_paid", `${user.email} is paid up but disabled on ${target.serverName}`, {
+          user,
+          account,
+          details: { userInactive: false, accountDisabled: true },
+        });
+      }
+      continue;
+    }
+
+    if (!isGrantedServer(user, target, targets)) continue;
+
+    const expected = expectedLibraries(user, target, targets, knownLibraryIds);
+    if (expected && account.libraries && !librariesMatch(expected, account, target.serverType)) {
+      issue(
+        "wrong_libraries",
+        `${user.email} has ${describeLibraries(account.libraries)} on ${target.serverName}, ` +
+          `their ${user.librariesFrom} grants ${describeLibraries(expected)}`,
+        { user, account, details: { expected, actual: account.libraries } }
+      );
+    }
+  }
+
+  for (const user of users) {
+    if (!user.isActive || matched.has(user._id) || !isGrantedServer(user, target, targets)) continue;
+    issue("missing_share", `${user.email} should have access to ${target.serverName} but has no account there`, {
+      user,
+      details: { expected: expectedLibraries(user, target, targets, knownLibraryIds) },
+    });
+  }
+
+  return issues;
+}
+
+// Mark a reconciliation fix as failed once its job gives up
+export async function failReconciliationIssue(ctx: any, issueId: Id<"reconciliationIssues">, message: string) {
+  const issue = await ctx.db.get(issueId);
+  if (!issue || issue.status !== "fixing") return;
+
+  await ctx.db.patch(issueId, {
+    status: "failed",
+    resolution: message,
+    resolvedAt: Date.now(),
+  });
+}
+
+// Latest reconciliation report with its issues (admin)
+export const getLatestReport = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const report = await ctx.db
+      .query("reconciliationReports")
+      .withIndex("by_started")
+      .order("desc")
+      .first();
+    if (!report) return null;
+
+    const issues = await ctx.db
+      .query("reconciliationIssues")
+      .withIndex("by_report", (q) => q.eq("reportId", report._id))
+      .collect();
+
+    return { report, issues };
+  },
+});
+
+// Start a reconciliation run now (admin)
+export const run = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const admin = await requireAdmin(ctx);
+
+    const reportId = await startReport(ctx, "manual", admin.clerkId);
+    if (!reportId) {
+      throw new Error("A reconciliation is already running");
+    }
+
+    await ctx.scheduler.runAfter(0, internal.reconciliation.runReconciliation, { reportId });
+    return reportId;
+  },
+});
+
+// Queue the fix for a discrepancy (admin)
+export const fixIssue = mutation({
+  args: { issueId: v.id("reconciliationIssues") },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const issue = await ctx.db.get(args.issueId);
+    if (!issue) throw new Error("Issue not found");
+    if (issue.status !== "open" && issue.status !== "failed") {
+      throw new Error(`Issue is already ${issue.status}`);
+    }
+
+    const jobId = await insertJob(ctx, {
+      type: "reconcile.fix",
+      userId: issue.userId,
+      payload: { issueId: args.issueId },
+      maxAttempts: FIX_MAX_ATTEMPTS,
+    });
+
+    await ctx.db.patch(args.issueId, {
+      status: "fixing",
+      jobId,
+      resolvedBy: admin.clerkId,
+      resolution: undefined,
+      resolvedAt: undefined,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "reconciliation" });
+    return jobId;
+  },
+});
+
+// Ignore a discrepancy in this and later runs (admin)
+export const dismissIssue = mutation({
+  args: { issueId: v.id("reconciliationIssues") },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const issue = await ctx.db.get(args.issueId);
+    if (!issue) throw new Error("Issue not found");
+    if (issue.status === "fixing") throw new Error("Issue is being fixed");
+
+    await ctx.db.patch(args.issueId, {
+      status: "dismissed",
+      resolvedBy: admin.clerkId,
+      resolution: "Dismissed",
+      resolvedAt: Date.now(),
+    });
+
+    await ctx.db.insert("auditLog", {
+      action: "reconciliation_issue_dismissed",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "reconciliationIssue",
+      targetId: args.issueId,
+      details: JSON.stringify({ kind: issue.kind, server: issue.serverName, email: issue.email }),
+      timestamp: Date.now(),
+    });
+  },
+});
+
+async function startReport(
+  ctx: any,
+  trigger: "cron" | "manual",
+  triggeredBy?: string
+): Promise<Id<"reconciliationReports"> | null> {
+  const latest = await ctx.db
+    .query("reconciliationReports")
+    .withIndex("by_started")
+    .order("desc")
+    .first();
+
+  const now = Date.now();
+  if (latest?.status === "running") {
+    if (now - latest.startedAt < STALE_RUN_MS) return null;
+    await ctx.db.patch(latest._id, { status: "failed", error: "Run timed out", completedAt: now });
+  }
+
+  return await ctx.db.insert("reconciliationReports", {
+    trigger,
+    triggeredBy,
+    status: "running",
+    servers: [],
+    issueCount: 0,
+    startedAt: now,
+  });
+}
+
+export const internalStartReport = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    return await startReport(ctx, "cron");
+  },
+});
+
+// Every enabled media server, or the single-server settings for types with none registered
+export async function listServerTargets(ctx: any): Promise<ServerTarget[]> {
+  const targets: ServerTarget[] = [];
+  const enabled: Doc<"servers">[] = await ctx.db
+    .query("servers")
+    .withIndex("by_enabled", (q: any) => q.eq("enabled", true))
+    .collect();
+
+  for (const serverType of ["plex", "emby", "jellyfin"] as const) {
+    const rows = enabled.filter((s) => s.type === serverType);
+    if (rows.length === 0) {
+      // No servers table entries: fall back to the single-server settings
+      const connection = await getConnection(ctx, serverType);
+      if (connection) targets.push({ serverType, serverName: "Default", isDefault: true, connection });
+      continue;
+    }
+
+    const defaultId = (rows.find((s) => s.isDefault) ?? rows[0])._id;
+    for (const row of rows) {
+      targets.push({
+        serverType,
+        serverId: row._id,
+        serverName: row.name,
+        isDefault: row._id === defaultId,
+        connection: { url: row.url, credential: await decryptSecret(row.credential) },
+      });
+    }
+  }
+
+  return targets;
+}
+
+export const internalGetSnapshot = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const targets = await listServerTargets(ctx);
+    const planLibraries = new Map<string, string[] | undefined>();
+    const inviteLibraries = new Map<string, string[] | undefined>();
+    const users: UserSnapshot[] = [];
+
+    for (const user of await ctx.db.query("users").collect()) {
+      let libraries: string[] | undefined;
+      let librariesFrom: UserSnapshot["librariesFrom"] = "invite";
+
+      if (user.planId) {
+        if (!planLibraries.has(user.planId)) {
+          planLibraries.set(user.planId, (await ctx.db.get(user.planId))?.libraries);
+        }
+        libraries = planLibraries.get(user.planId);
+        librariesFrom = "plan";
+      } else if (user.inviteCode) {
+        if (!inviteLibraries.has(user.inviteCode)) {
+          const invite = await ctx.db
+            .query("invites")
+            .withIndex("by_code", (q) => q.eq("code", user.inviteCode!))
+            .first();
+          inviteLibraries.set(user.inviteCode, invite?.libraries);
+        }
+        libraries = inviteLibraries.get(user.inviteCode);
+      }
+
+      users.push({
+        _id: user._id,
+        email: user.email,
+        username: user.username,
+        isActive: user.isActive,
+        paid: PAID_STATUSES.has(user.paymentStatus ?? ""),
+        serverAccess: user.serverAccess,
+        serverIds: user.serverIds,
+        serverAccounts: user.serverAccounts,
+        plexUserId: user.plexUserId,
+        plexEmail: user.plexEmail,
+        embyUserId: user.embyUserId,
+        embyUsername: user.embyUsername,
+        jellyfinUserId: user.jellyfinUserId,
+        jellyfinUsername: user.jellyfinUsername,
+        libraries,
+        librariesFrom,
+      });
+    }
+
+    return { targets, users };
+  },
+});
+
+export const internalCompleteReport = internalMutation({
+  args: {
+    reportId: v.id("reconciliationReports"),
+    servers: v.array(
+      v.object({
+        serverType: serverTypeValidator,
+        serverId: v.optional(v.id("servers")),
+        serverName: v.string(),
+        accounts: v.number(),
+        error: v.optional(v.string()),
+      })
+    ),
+    issues: v.array(
+      v.object({
+        fingerprint: v.string(),
+        kind: issueKindValidator,
+        serverType: serverTypeValidator,
+        serverId: v.optional(v.id("servers")),
+        serverName: v.string(),
+        userId: v.optional(v.id("users")),
+        email: v.optional(v.string()),
+        externalId: v.optional(v.string()),
+        externalName: v.optional(v.string()),
+        message: v.string(),
+        details: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const issue of args.issues) {
+      const previous = await ctx.db
+        .query("reconciliationIssues")
+        .withIndex("by_fingerprint", (q) => q.eq("fingerprint", issue.fingerprint))
+        .order("desc")
+        .first();
+      const dismissed = previous?.status === "dismissed";
+
+      await ctx.db.insert("reconciliationIssues", {
+        ...issue,
+        reportId: args.reportId,
+        status: dismissed ? "dismissed" : "open",
+        resolvedBy: dismissed ? previous.resolvedBy : undefined,
+        resolution: dismissed ? "Dismissed in an earlier run" : undefined,
+        createdAt: now,
+      });
+    }
+
+    await ctx.db.patch(args.reportId, {
+      status: "completed",
+      servers: args.servers,
+      issueCount: args.issues.length,
+      completedAt: now,
+    });
+  },
+});
+
+export const internalFailReport = internalMutation({
+  args: { reportId: v.id("reconciliationReports"), error: v.string() },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.reportId, {
+      status: "failed",
+      error: args.error,
+      completedAt: Date.now(),
+    });
+  },
+});
+
+// Compare every media server's accounts with the users table and store a report
+export const runReconciliation = internalAction({
+  args: { reportId: v.optional(v.id("reconciliationReports")) },
+  handler: async (ctx, args): Promise<Id<"reconciliationReports"> | null> => {
+    const reportId: Id<"reconciliationReports"> | null =
+      args.reportId ?? (await ctx.runMutation(internal.reconciliation.internalStartReport, {}));
+    if (!reportId) return null;
+
+    try {
+      const { targets, users } = await ctx.runQuery(internal.reconciliation.internalGetSnapshot, {});
+      const servers = [];
+      const issues: IssueDraft[] = [];
+
+      for (const target of targets) {
+        const server = { serverType: target.serverType, serverId: target.serverId, serverName: target.serverName };
+        try {
+          const { accounts, knownLibraryIds } = await fetchAccounts(target);
+          issues.push(...classify(target, targets, users, accounts, knownLibraryIds));
+          servers.push({ ...server, accounts: accounts.length });
+        } catch (error) {
+          // Without the server's account list every user would look missing; skip it
+          servers.push({
+            ...server,
+            accounts: 0,
+            error: error instanceof Error ? error.message : "Failed to list accounts",
+          });
+        }
+      }
+
+      await ctx.runMutation(internal.reconciliation.internalCompleteReport, { reportId, servers, issues });
+      return reportId;
+    } catch (error) {
+      await ctx.runMutation(internal.reconciliation.internalFailReport, {
+        reportId,
+        error: error instanceof Error ? error.message : "Reconciliation failed",
+      });
+      throw error;
+    }
+  },
+});
+
+export const internalGetFixContext = internalQuery({
+  args: { issueId: v.id("reconciliationIssues") },
+  handler: async (ctx, args) => {
+    const issue = await ctx.db.get(args.issueId);
+    if (!issue || issue.status !== "fixing") return null;
+
+    return {
+      issue,
+      user: issue.userId ? await ctx.db.get(issue.userId) : null,
+      connection: await getConnection(ctx, issue.serverType, issue.serverId),
+    };
+  },
+});
+
+export const internalLinkAccount = internalMutation({
+  args: {
+    userId: v.id("users"),
+    serverType: v.union(v.literal("emby"), v.literal("jellyfin")),
+    serverId: v.optional(v.id("servers")),
+    externalUserId: v.string(),
+    username: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) return;
+
+    const idField = args.serverType === "emby" ? "embyUserId" : "jellyfinUserId";
+    const usernameField = args.serverType === "emby" ? "embyUsername" : "jellyfinUsername";
+    const patch: Partial<Doc<"users">> = {};
+
+    // The single-user fields belong to the default server; others are tracked per server
+    if (!args.serverId || !user[idField]) {
+      patch[idField] = args.externalUserId;
+      patch[usernameField] = args.username;
+    }
+    if (args.serverId) {
+      const others = (user.serverAccounts ?? []).filter((a) => a.serverId !== args.serverId);
+      patch.serverAccounts = [
+        ...others,
+        { serverId: args.serverId, externalUserId: args.externalUserId, username: args.username },
+      ];
+    }
+
+    await ctx.db.patch(args.userId, patch);
+  },
+});
+
+export const internalResolveIssue = internalMutation({
+  args: {
+    issueId: v.id("reconciliationIssues"),
+    resolution: v.string(),
+    reactivateUser: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const issue = await ctx.db.get(args.issueId);
+    if (!issue) return;
+
+    const now = Date.now();
+    await ctx.db.patch(args.issueId, {
+      status: "fixed",
+      resolution: args.resolution,
+      resolvedAt: now,
+    });
+
+    const user = issue.userId ? await ctx.db.get(issue.userId) : null;
+    if (args.reactivateUser && user && !user.isActive) {
+      await ctx.db.patch(user._id, { isActive: true, revokedAt: undefined, revokedBy: undefined });
+      await emitWebhookEvent(ctx, WebhookEvents.USER_RESTORED, {
+        userId: user._id,
+        clerkId: user.clerkId,
+        email: user.email,
+        username: user.username,
+      });
+    }
+
+    await ctx.db.insert("auditLog", {
+      action: "reconciliation_issue_fixed",
+      actorId: issue.resolvedBy ?? "system",
+      targetType: "reconciliationIssue",
+      targetId: args.issueId,
+      details: JSON.stringify({
+        kind: issue.kind,
+        server: issue.serverName,
+        email: issue.email,
+        resolution: args.resolution,
+      }),
+      timestamp: now,
+    });
+  },
+});
+
+function ensureSuccess(result: { success: boolean; message: string }) {
+  if (!result.success) throw new Error(result.message);
+}
+
+// Job: apply the fix for one reconciliation issue
+export const actionFixIssue = internalAction({
+  args: { payload: v.optional(v.any()) },
+  handler: async (ctx, args): Promise<void> => {
+    const issueId = args.payload?.issueId as Id<"reconciliationIssues"> | undefined;
+    if (!issueId) throw new Error("VALIDATION_ERROR: Missing issueId");
+
+    const context: FixContext | null = await ctx.runQuery(internal.reconciliation.internalGetFixContext, { issueId });
+    if (!context) return;
+
+    const { issue, user, connection } = context;
+    if (!connection) throw new Error(`CONFIG_MISSING: ${issue.serverName} is no longer configured`);
+
+    const details = issue.details ? JSON.parse(issue.details) : {};
+    const plex =
+      issue.serverType === "plex"
+        ? new PlexClient({ url: connection.url, token: connection.credential })
+        : null;
+    const local = issue.serverType !== "plex" ? localAccountClient(issue.serverType, connection) : null;
+
+    const resolve = async (resolution: string, reactivateUser?: boolean) => {
+      await ctx.runMutation(internal.reconciliation.internalResolveIssue, { issueId, resolution, reactivateUser });
+    };
+
+    switch (issue.kind) {
+      case "orphan":
+      case "revoked_with_access": {
+        if (!issue.externalId) throw new Error("VALIDATION_ERROR: Missing account ID");
+        if (plex) {
+          ensureSuccess(await plex.removeUser(issue.externalId));
+          await resolve("Removed the Plex share");
+        } else {
+          ensureSuccess(await local!.disableUser(issue.externalId));
+          await resolve("Disabled the account");
+        }
+        return;
+      }
+
+      case "wrong_libraries": {
+        if (!issue.externalId) throw new Error("VALIDATION_ERROR: Missing account ID");
+        const expected = details.expected as Libraries;
+        if (plex) {
+          if (expected === "all") throw new Error("VALIDATION_ERROR: Plex shares need explicit libraries");
+          ensureSuccess(await plex.updateUserLibraries(issue.externalId, expected));
+        } else {
+          ensureSuccess(
+            expected === "all"
+              ? await local!.setUserLibraries(issue.externalId, [], true)
+              : await local!.setUserLibraries(issue.externalId, expected, false)
+          );
+        }
+        await resolve("Library access reset to match the grant");
+        return;
+      }
+
+      case "disabled_but_paid": {
+        if (details.accountDisabled && local && issue.externalId) {
+          ensureSuccess(await local.enableUser(issue.externalId));
+        }
+        await resolve(details.userInactive ? "User reactivated" : "Account re-enabled", details.userInactive);
+        return;
+      }
+
+      case "missing_share": {
+        if (!user) throw new Error("VALIDATION_ERROR: User no longer exists");
+        const expected = (details.expected ?? null) as Libraries | null;
+
+        if (plex) {
+          const email = user.plexEmail || user.email;
+          ensureSuccess(await plex.inviteUser(email, Array.isArray(expected) ? expected : undefined));
+          await resolve(`Plex invite sent to ${email}`);
+          return;
+        }
+
+        const serverType = issue.serverType as "emby" | "jellyfin";
+        const username =
+          (serverType === "emby" ? user.embyUsername : user.jellyfinUsername) || user.username;
+
+        // Relink an account that exists under the user's name before creating a new one
+        const existing = await local!.findUserByUsername(username);
+        let externalUserId = existing?.Id;
+        let resolution = `Linked existing account ${username}`;
+
+        if (!externalUserId) {
+          const created = await local!.createUser(username, generatePassword());
+          if (!created.success || !created.userId) throw new Error(created.message);
+          externalUserId = created.userId;
+          resolution = `Created account ${username}; reset its password before sharing it`;
+
+          ensureSuccess(
+            Array.isArray(expected)
+              ? await local!.setUserLibraries(externalUserId, expected, false)
+              : await local!.setUserLibraries(externalUserId, [], true)
+          );
+        }
+
+        await ctx.runMutation(internal.reconciliation.internalLinkAccount, {
+          userId: user._id,
+          serverType,
+          serverId: issue.serverId,
+          externalUserId,
+          username,
+        });
+        await resolve(resolution);
+        return;
+      }
+    }
+  },
+});
@@ -0,0 +1,310 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+import { reactivateIptvLine, suspendIptvLine } from "./iptv";
+import { SETTINGS_KEYS } from "../lib/constants";
+
+type ReversalKind = "refund" | "dispute" | "pause";
+type ReversalPolicy = "revoke" | "review" | "none";
+
+const REVERSAL_KINDS: ReversalKind[] = ["refund", "dispute", "pause"];
+
+const POLICY_KEYS: Record<ReversalKind, string> = {
+  refund: SETTINGS_KEYS.REFUND_POLICY,
+  dispute: SETTINGS_KEYS.DISPUTE_POLICY,
+  pause: SETTINGS_KEYS.SUBSCRIPTION_PAUSED_POLICY,
+};
+
+// Refunds are usually issued by the admin, so they only flag the user; disputes and pauses stop access
+const DEFAULT_POLICIES: Record<ReversalKind, ReversalPolicy> = {
+  refund: "review",
+  dispute: "revoke",
+  pause: "revoke",
+};
+
+const LABELS: Record<ReversalKind, string> = {
+  refund: "Payment refunded",
+  dispute: "Charge disputed",
+  pause: "Subscription paused",
+};
+
+const AUDIT_ACTIONS: Record<ReversalKind, string> = {
+  refund: "payment_refunded",
+  dispute: "payment_disputed",
+  pause: "subscription_paused",
+};
+
+// Give the subscription.updated that comes with a resume time to mark the user paid before reconciling
+const RECONCILE_AFTER_RESUME_MS = 60 * 1000;
+
+const reversalArgs = {
+  kind: v.union(v.literal("refund"), v.literal("dispute"), v.literal("pause")),
+  // Unique per reversal so redeliveries record it once: the refunded total, the dispute id or the event id
+  stripePaymentId: v.string(),
+  stripeCustomerId: v.string(),
+  chargeId: v.optional(v.string()),
+  invoiceId: v.optional(v.string()),
+  amount: v.number(),
+  currency: v.string(),
+  status: v.string(),
+  reason: v.optional(v.string()),
+};
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
+
+async function getPolicy(ctx: any, kind: ReversalKind): Promise<ReversalPolicy> {
+  const value = await getSetting(ctx, POLICY_KEYS[kind]);
+  return value === "revoke" || value === "review" || value === "none" ? value : DEFAULT_POLICIES[kind];
+}
+
+// Revoke media access through the scheduled revocation flow right away, and suspend the IPTV line
+async function revokeNow(ctx: any, user: Doc<"users">, reason: string) {
+  const now = Date.now();
+  if (user.isActive) {
+    const pending = await ctx.db
+      .query("scheduledRevocations")
+      .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+      .filter((q: any) => q.and(q.eq(q.field("source"), "chargeback"), q.eq(q.field("status"), "pending")))
+      .first();
+    if (!pending) {
+      await ctx.db.insert("scheduledRevocations", {
+        userId: user._id,
+        clerkId: user.clerkId,
+        stripeCustomerId: user.stripeCustomerId,
+        revokeAt: now,
+        reason,
+        source: "chargeback",
+        status: "pending",
+        createdAt: now,
+      });
+      await ctx.scheduler.runAfter(0, internal.revocations.processScheduledRevocations, {});
+    }
+  }
+
+  await suspendIptvLine(ctx, user);
+}
+
+// Record a refund, dispute or pause against the user's payments and apply the admin's policy once
+async function recordReversal(
+  ctx: any,
+  args: {
+    kind: ReversalKind;
+    stripePaymentId: string;
+    stripeCustomerId: string;
+    chargeId?: string;
+    invoiceId?: string;
+    amount: number;
+    currency: string;
+    status: string;
+    reason?: string;
+  }
+) {
+  const existing: Doc<"payments"> | null = await ctx.db
+    .query("payments")
+    .withIndex("by_stripe_payment", (q: any) => q.eq("stripePaymentId", args.stripePaymentId))
+    .first();
+  if (existing) {
+    if (existing.status !== args.status) await ctx.db.patch(existing._id, { status: args.status });
+    return { recorded: false, policy: existing.policy ?? null };
+  }
+
+  const user: Doc<"users"> | null = await ctx.db
+    .query("users")
+    .withIndex("by_stripe_customer", (q: any) => q.eq("stripeCustomerId", args.stripeCustomerId))
+    .first();
+  // Free users aren't billed, so nothing they were charged should cost them access
+  const policy = !user || user.paymentStatus === "free" ? "none" : await getPolicy(ctx, args.kind);
+  const now = Date.now();
+
+  await ctx.db.insert("payments", {
+    stripePaymentId: args.stripePaymentId,
+    stripeCustomerId: args.stripeCustomerId,
+    userId: user?._id,
+    amount: args.amount,
+    currency: args.currency,
+    status: args.status,
+    description: LABELS[args.kind],
+    invoiceId: args.invoiceId,
+    kind: args.kind,
+    chargeId: args.chargeId,
+    reason: args.reason,
+    policy,
+    createdAt: now,
+  });
+
+  if (!user) {
+    console.error(`${LABELS[args.kind]} for unknown Stripe customer:`, args.stripeCustomerId);
+    return { recorded: true, policy };
+  }
+
+  const reason = args.reason ? `${LABELS[args.kind]} (${args.reason})` : LABELS[args.kind];
+  if (policy === "revoke") {
+    await revokeNow(ctx, user, reason);
+  } else if (policy === "review") {
+    await ctx.db.patch(user._id, { paymentReview: { reason, flaggedAt: now } });
+  }
+
+  await ctx.db.insert("auditLog", {
+    action: AUDIT_ACTIONS[args.kind],
+    actorId: "system",
+    targetType: "user",
+    targetId: user._id,
+    details: JSON.stringify({
+      email: user.email,
+      stripePaymentId: args.stripePaymentId,
+      chargeId: args.chargeId,
+      amount: args.amount,
+      currency: args.currency,
+      status: args.status,
+      reason: args.reason,
+      policy,
+    }),
+    timestamp: now,
+  });
+
+  return { recorded: true, policy };
+}
+
+// Undo what a pause did once its subscription resumes: cancel the revocation if it hasn't run, or mark the
+// user active again so reconciliation offers to re-enable their server accounts, and reactivate the IPTV line
+async function resumeAfterPause(ctx: any, stripeCustomerId: string) {
+  const user: Doc<"users"> | null = await ctx.db
+    .query("users")
+    .withIndex("by_stripe_customer", (q: any) => q.eq("stripeCustomerId", stripeCustomerId))
+    .first();
+  if (!user) return { resumed: false };
+
+  const pause: Doc<"payments"> | null = await ctx.db
+    .query("payments")
+    .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+    .order("desc")
+    .filter((q: any) => q.and(q.eq(q.field("kind"), "pause"), q.eq(q.field("status"), "paused")))
+    .first();
+  if (!pause) return { resumed: false };
+
+  const now = Date.now();
+  await ctx.db.patch(pause._id, { status: "resumed" });
+
+  let canceled = false;
+  let restored = false;
+  if (pause.policy === "revoke") {
+    const pending = await ctx.db
+      .query("scheduledRevocations")
+      .withIndex("by_user", (q: any) => q.eq("userId", user._id))
+      .filter((q: any) =>
+        q.and(
+          q.eq(q.field("source"), "chargeback"),
+          q.eq(q.field("status"), "pending"),
+          q.eq(q.field("reason"), LABELS.pause)
+        )
+      )
+      .first();
+
+    if (pending) {
+      await ctx.db.patch(pending._id, { status: "canceled", updatedAt: now });
+      canceled = true;
+    } else if (!user.isActive && user.accessRevokedReason === LABELS.pause) {
+      await ctx.db.patch(user._id, { isActive: true, accessRevokedAt: undefined, accessRevokedReason: undefined });
+      await ctx.scheduler.runAfter(RECONCILE_AFTER_RESUME_MS, internal.reconciliation.runReconciliation, {});
+      restored = true;
+    }
+
+    await reactivateIptvLine(ctx, user);
+  }
+
+  await ctx.db.insert("auditLog", {
+    action: "subscription_resumed",
+    actorId: "system",
+    targetType: "user",
+    targetId: user._id,
+    details: JSON.stringify({
+      email: user.email,
+      policy: pause.policy,
+      revocationCanceled: canceled,
+      accessRestored: restored,
+    }),
+    timestamp: now,
+  });
+
+  return { resumed: true, restored };
+}
+
+export const internalRecord = internalMutation({
+  args: reversalArgs,
+  handler: async (ctx, args) => {
+    return await recordReversal(ctx, args);
+  },
+});
+
+export const internalResume = internalMutation({
+  args: { stripeCustomerId: v.string() },
+  handler: async (ctx, args) => {
+    return await resumeAfterPause(ctx, args.stripeCustomerId);
+  },
+});
+
+// Refund, dispute and pause counts per user (admin)
+export const summaries = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const counts: Record<string, Record<ReversalKind, number>> = {};
+    for (const kind of REVERSAL_KINDS) {
+      const rows = await ctx.db
+        .query("payments")
+        .withIndex("by_kind", (q) => q.eq("kind", kind))
+        .collect();
+      for (const row of rows) {
+        if (!row.userId) continue;
+        counts[row.userId] ??= { refund: 0, dispute: 0, pause: 0 };
+        counts[row.userId][kind]++;
+      }
+    }
+    return counts;
+  },
+});
+
+// A user's refunds, disputes and pauses, newest first (admin)
+export const history = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const rows = await ctx.db
+      .query("payments")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+    return rows.filter((row) => row.kind && row.kind !== "payment");
+  },
+});
+
+// Clear the review flag once the admin has looked at a user (admin)
+export const clearReview = mutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error("User not found");
+    if (!user.paymentReview) return;
+
+    await ctx.db.patch(args.userId, { paymentReview: undefined });
+    await ctx.db.insert("auditLog", {
+      action: "payment_review_cleared",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "user",
+      targetId: args.userId,
+      details: JSON.stringify({ email: user.email, reason: user.paymentReview.reason }),
+      timestamp: Date.now(),
+    });
+  },
+});
@@ -1,6 +1,7 @@
 import { internalAction, internalMutation, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { closeDunningCase } from "./dunning";
 
 // Process all scheduled revocations that are due
 export const processScheduledRevocations = internalAction({
@@ -30,9 +31,20 @@ export const processScheduledRevocations = internalAction({
           continue;
         }
 
-        // Check if user's payment is now active (they paid during grace period)
-        if (user.paymentStatus === "active" || user.paymentStatus === "trialing" || user.paymentStatus === "free") {
-          // Cancel the revocation
+        if (revocation.source === "inactivity") {
+          // Seen since the warning went out, or already revoked some other way
+          if ((user.lastSeen ?? 0) > revocation.createdAt || !user.isActive) {
+            await ctx.runMutation(internal.revocations.cancelRevocation, {
+              revocationId: revocation._id,
+              reason: user.isActive ? "User active again" : "Access already revoked",
+            });
+            continue;
+          }
+        } else if (
+          (revocation.source ?? "payment") === "payment" &&
+          (user.paymentStatus === "active" || user.paymentStatus === "trialing" || user.paymentStatus === "free")
+        ) {
+          // They paid during the grace period; cancel the revocation
           await ctx.runMutation(internal.revocations.cancelRevocation, {
             revocationId: revocation._id,
             reason: "Payment received during grace period",
@@ -148,6 +160,11 @@ export const completeRevocation = internalMutation({
       completedAt: Date.now(),
       updatedAt: Date.now(),
     });
+
+    const revocation = await ctx.db.get(args.revocationId);
+    if (revocation && (revocation.source ?? "payment") === "payment") {
+      await closeDunningCase(ctx, revocation.userId, "revoked", revocation.reason);
+    }
   },
 });
 
@@ -166,6 +183,10 @@ export const cancelRevocation = internalMutation({
       updatedAt: Date.now(),
     });
 
+    if ((revocation.source ?? "payment") === "payment") {
+      await closeDunningCase(ctx, revocation.userId, "resolved", args.reason);
+    }
+
     // Log the cancellation
     await ctx.db.insert("auditLog", {
       action: "revocation_canceled",
@@ -12,10 +12,19 @@ export default defineSchema({
     createdBy: v.string(), // Admin user ID
     createdAt: v.number(),
     isActive: v.boolean(),
-    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both")),
+    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin")),
     libraries: v.optional(v.array(v.string())), // Specific library IDs to grant access
+    serverIds: v.optional(v.array(v.id("servers"))), // Servers to grant (default server per type if unset)
     notes: v.optional(v.string()),
     requiresPayment: v.optional(v.boolean()), // Whether this invite requires payment
+    // Invite email delivery, for invites restricted to an email
+    emailStatus: v.optional(v.union(v.literal("queued"), v.literal("sent"), v.literal("failed"))),
+    emailJobId: v.optional(v.id("jobs")), // Latest send; older jobs are superseded
+    emailTrackingToken: v.optional(v.string()), // Proves opens and clicks came from the email
+    emailSentAt: v.optional(v.number()),
+    emailError: v.optional(v.string()),
+    emailOpenedAt: v.optional(v.number()), // First open (tracking pixel or click)
+    emailClickedAt: v.optional(v.number()), // First click-through to the invite page
   })
     .index("by_code", ["code"])
     .index("by_active", ["isActive"])
@@ -32,11 +41,21 @@ export default defineSchema({
     plexEmail: v.optional(v.string()), // Plex email for linked accounts
     embyUserId: v.optional(v.string()),
     embyUsername: v.optional(v.string()), // Emby username for linked accounts  
-    serverAccess: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("none")),
+    jellyfinUserId: v.optional(v.string()),
+    jellyfinUsername: v.optional(v.string()), // Jellyfin username for linked accounts
+    serverAccess: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin"), v.literal("none")),
+    serverIds: v.optional(v.array(v.id("servers"))), // Servers this user was granted
+    serverAccounts: v.optional(v.array(v.object({
+      serverId: v.id("servers"),
+      externalUserId: v.optional(v.string()), // Plex/Emby/Jellyfin user ID on that server
+      username: v.optional(v.string()),
+      email: v.optional(v.string()),
+    }))),
     isActive: v.boolean(),
     isAutoLinked: v.optional(v.boolean()), // True if account was auto-linked from existing server account
     createdAt: v.number(),
     lastSeen: v.optional(v.number()),
+    inactivityWarnedAt: v.optional(v.number()), // When the inactivity warning was sent
     revokedAt: v.optional(v.number()),
     revokedBy: v.optional(v.string()),
     // Payment fields
@@ -52,24 +71,48 @@ export default defineSchema({
       v.literal("free") // For users who don't require payment
     )),
     paymentExpiresAt: v.optional(v.number()), // When current billing period ends
+    planId: v.optional(v.id("plans")), // Subscription plan the user is paying for
+    maxStreams: v.optional(v.number()), // Admin override of the plan's concurrent stream limit
     accessRevokedAt: v.optional(v.number()), // When access was revoked
     accessRevokedReason: v.optional(v.string()), // Why access was revoked
+    paymentReview: v.optional(v.object({ // Flagged by a refund, dispute or pause for an admin to look at
+      reason: v.string(),
+      flaggedAt: v.number(),
+    })),
   })
     .index("by_clerk_id", ["clerkId"])
     .index("by_email", ["email"])
     .index("by_invite_code", ["inviteCode"])
     .index("by_active", ["isActive"])
     .index("by_stripe_customer", ["stripeCustomerId"])
+    .index("by_plan", ["planId"])
     .index("by_plex_user_id", ["plexUserId"])
-    .index("by_emby_user_id", ["embyUserId"]),
+    .index("by_emby_user_id", ["embyUserId"])
+    .index("by_jellyfin_user_id", ["jellyfinUserId"]),
+
+  // Media servers (multiple Plex/Emby/Jellyfin servers per deployment)
+  servers: defineTable({
+    type: v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin")),
+    name: v.string(),
+    url: v.string(),
+    credential: v.string(), // Plex token or Emby/Jellyfin API key
+    enabled: v.boolean(),
+    isDefault: v.optional(v.boolean()), // Used when an invite doesn't pick servers
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    createdBy: v.optional(v.string()),
+  })
+    .index("by_type", ["type"])
+    .index("by_enabled", ["enabled"]),
 
   // Scheduled access revocations (for grace periods)
   scheduledRevocations: defineTable({
     userId: v.id("users"),
     clerkId: v.string(),
-    stripeCustomerId: v.string(),
+    stripeCustomerId: v.optional(v.string()),
     revokeAt: v.number(), // When to revoke access
     reason: v.string(),
+    source: v.optional(v.union(v.literal("payment"), v.literal("inactivity"), v.literal("stream_limit"), v.literal("chargeback"))), // Unset means payment
     status: v.union(v.literal("pending"), v.literal("completed"), v.literal("canceled")),
     createdAt: v.number(),
     updatedAt: v.optional(v.number()),
@@ -79,6 +122,57 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_revoke_at", ["revokeAt"]),
 
+  // A failed subscription payment being chased with emails until it's paid or access is revoked
+  dunningCases: defineTable({
+    userId: v.id("users"),
+    clerkId: v.string(),
+    stripeCustomerId: v.string(),
+    stripeInvoiceId: v.optional(v.string()),
+    amount: v.number(), // In cents
+    currency: v.string(),
+    status: v.union(v.literal("active"), v.literal("resolved"), v.literal("revoked")),
+    failures: v.number(), // Failed attempts seen, including Stripe's retries
+    startedAt: v.number(),
+    revokeAt: v.number(),
+    steps: v.array(v.object({
+      kind: v.union(v.literal("reminder"), v.literal("final")),
+      sendAt: v.number(),
+      jobId: v.optional(v.id("jobs")),
+      status: v.union(v.literal("scheduled"), v.literal("sent"), v.literal("failed"), v.literal("canceled")),
+      sentAt: v.optional(v.number()),
+      error: v.optional(v.string()),
+    })),
+    resolution: v.optional(v.string()),
+    closedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId", "status"])
+    .index("by_status", ["status", "revokeAt"]),
+
+  // Times a user streamed more than their concurrent stream limit
+  streamViolations: defineTable({
+    userId: v.id("users"),
+    limit: v.number(),
+    streamCount: v.number(),
+    streams: v.array(v.object({
+      serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin")),
+      serverId: v.optional(v.id("servers")),
+      serverName: v.string(),
+      sessionId: v.string(),
+      title: v.string(),
+      device: v.optional(v.string()),
+      address: v.optional(v.string()),
+      stopped: v.optional(v.boolean()),
+    })),
+    fingerprint: v.string(), // Sorted session IDs the overage started with
+    action: v.union(v.literal("recorded"), v.literal("stopped"), v.literal("suspended")),
+    notified: v.boolean(),
+    createdAt: v.number(),
+    lastSeenAt: v.optional(v.number()), // Last check that saw the overage; it's one episode until it lapses
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_created", ["createdAt"]),
+
   // Stripe subscriptions tracking
   subscriptions: defineTable({
     stripeSubscriptionId: v.string(),
@@ -87,6 +181,11 @@ export default defineSchema({
     status: v.string(), // active, past_due, canceled, etc.
     priceId: v.string(),
     productId: v.string(),
+    planId: v.optional(v.id("plans")),
+    amount: v.optional(v.number()), // Price per interval, in cents
+    currency: v.optional(v.string()),
+    interval: v.optional(v.string()), // day, week, month or year
+    intervalCount: v.optional(v.number()),
     currentPeriodStart: v.number(),
     currentPeriodEnd: v.number(),
     cancelAtPeriodEnd: v.boolean(),
@@ -99,6 +198,27 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_status", ["status"]),
 
+  // Subscription tiers offered at checkout
+  plans: defineTable({
+    name: v.string(),
+    description: v.optional(v.string()),
+    stripePriceId: v.string(),
+    amount: v.number(), // Price per interval, in cents
+    currency: v.string(),
+    interval: v.union(v.literal("day"), v.literal("week"), v.literal("month"), v.literal("year")),
+    intervalCount: v.optional(v.number()),
+    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin")),
+    serverIds: v.optional(v.array(v.id("servers"))), // Servers to grant (default server per type if unset)
+    libraries: v.optional(v.array(v.string())), // Specific library IDs to grant access
+    iptvPlanId: v.optional(v.id("iptvPlans")), // IPTV line to provision for subscribers
+    maxStreams: v.optional(v.number()),
+    isActive: v.boolean(), // Offered at checkout
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_stripe_price", ["stripePriceId"])
+    .index("by_active", ["isActive"]),
+
   // Payment history
   payments: defineTable({
     stripePaymentId: v.string(),
@@ -106,15 +226,39 @@ export default defineSchema({
     userId: v.optional(v.id("users")),
     amount: v.number(), // In cents
     currency: v.string(),
-    status: v.string(), // succeeded, failed, pending
+    status: v.string(), // succeeded, failed, pending; refunded, or the dispute's status
     description: v.optional(v.string()),
     invoiceId: v.optional(v.string()),
+    kind: v.optional(v.union(v.literal("payment"), v.literal("refund"), v.literal("dispute"), v.literal("pause"))), // Unset means payment
+    chargeId: v.optional(v.string()), // Charge a refund or dispute is against
+    reason: v.optional(v.string()),
+    policy: v.optional(v.union(v.literal("revoke"), v.literal("review"), v.literal("none"))), // What was done to access
     createdAt: v.number(),
   })
     .index("by_stripe_payment", ["stripePaymentId"])
     .index("by_stripe_customer", ["stripeCustomerId"])
     .index("by_user", ["userId"])
-    .index("by_timestamp", ["createdAt"]),
+    .index("by_timestamp", ["createdAt"])
+    .index("by_kind", ["kind", "createdAt"])
+    .index("by_invoice", ["invoiceId"]),
+
+  // Verified Stripe events, so redeliveries are only handled once and failures can be replayed
+  stripeEvents: defineTable({
+    eventId: v.string(), // evt_...
+    type: v.string(),
+    payload: v.string(), // The event as Stripe sent it (JSON)
+    status: v.union(v.literal("processing"), v.literal("processed"), v.literal("failed")),
+    error: v.optional(v.string()),
+    attempts: v.number(),
+    source: v.union(v.literal("convex"), v.literal("next"), v.literal("replay"), v.literal("backfill")), // Last to handle it
+    stripeCreatedAt: v.number(),
+    receivedAt: v.number(),
+    processedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_event_id", ["eventId"])
+    .index("by_status", ["status", "receivedAt"])
+    .index("by_received", ["receivedAt"]),
 
   // One-time donations (e.g., Buy Me a Coffee)
   donations: defineTable({
@@ -143,6 +287,108 @@ export default defineSchema({
     .index("by_invite", ["inviteId"])
     .index("by_user", ["userId"]),
 
+  // Invite redemptions whose server accounts are being set up by background jobs
+  provisionings: defineTable({
+    clerkId: v.string(),
+    email: v.string(),
+    inviteId: v.id("invites"),
+    inviteCode: v.string(),
+    username: v.string(),
+    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin")),
+    status: v.union(v.literal("pending"), v.literal("completed"), v.literal("failed")),
+    plexEmail: v.optional(v.string()),
+    embyUsername: v.optional(v.string()),
+    embyConnectEmail: v.optional(v.string()),
+    jellyfinUsername: v.optional(v.string()),
+    planId: v.optional(v.id("plans")), // Plan the access below came from, if any
+    libraries: v.optional(v.array(v.string())),
+    serverIds: v.optional(v.array(v.id("servers"))),
+    steps: v.array(
+      v.object({
+        key: v.string(), // "<job type>:<server id or 'default'>"
+        type: v.string(), // Job type that performs the step
+        serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin")),
+        serverId: v.optional(v.id("servers")), // Unset for the legacy single-server settings
+        serverName: v.string(),
+        serverUrl: v.optional(v.string()),
+        status: v.union(
+          v.literal("pending"),
+          v.literal("succeeded"),
+          v.literal("failed"),
+          v.literal("skipped"),
+          v.literal("compensated")
+        ),
+        jobId: v.optional(v.id("jobs")),
+        externalId: v.optional(v.string()), // Media server user ID or invite ID
+        owned: v.optional(v.boolean()), // Created by this provisioning, so undone on failure
+        message: v.optional(v.string()),
+        updatedAt: v.number(),
+      })
+    ),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_clerk_id", ["clerkId"])
+    .index("by_invite_status", ["inviteId", "status"]),
+
+  // Runs comparing the users table against the accounts on each media server
+  reconciliationReports: defineTable({
+    trigger: v.union(v.literal("cron"), v.literal("manual")),
+    triggeredBy: v.optional(v.string()), // Admin clerkId for manual runs
+    status: v.union(v.literal("running"), v.literal("completed"), v.literal("failed")),
+    servers: v.array(
+      v.object({
+        serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin")),
+        serverId: v.optional(v.id("servers")),
+        serverName: v.string(),
+        accounts: v.number(),
+        error: v.optional(v.string()), // Server skipped; its issues would be unreliable
+      })
+    ),
+    issueCount: v.number(),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_started", ["startedAt"]),
+
+  // Discrepancies found by a reconciliation run
+  reconciliationIssues: defineTable({
+    reportId: v.id("reconciliationReports"),
+    fingerprint: v.string(), // Same discrepancy across runs, so dismissals stick
+    kind: v.union(
+      v.literal("orphan"), // Account on the server with no matching user
+      v.literal("missing_share"), // Active user with no account on the server
+      v.literal("wrong_libraries"), // Account's libraries differ from the invite/plan
+      v.literal("disabled_but_paid"), // Paid-up user who is disabled
+      v.literal("revoked_with_access") // Inactive, unpaid user who still has an account
+    ),
+    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin")),
+    serverId: v.optional(v.id("servers")),
+    serverName: v.string(),
+    userId: v.optional(v.id("users")),
+    email: v.optional(v.string()),
+    externalId: v.optional(v.string()), // Account ID on the media server
+    externalName: v.optional(v.string()),
+    message: v.string(),
+    details: v.optional(v.string()), // JSON: expected/actual libraries, account flags
+    status: v.union(
+      v.literal("open"),
+      v.literal("fixing"),
+      v.literal("fixed"),
+      v.literal("failed"),
+      v.literal("dismissed")
+    ),
+    jobId: v.optional(v.id("jobs")),
+    resolvedBy: v.optional(v.string()),
+    resolution: v.optional(v.string()),
+    resolvedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_report", ["reportId"])
+    .index("by_fingerprint", ["fingerprint"]),
+
   // App settings
   settings: defineTable({
     key: v.string(),
@@ -151,6 +397,19 @@ export default defineSchema({
     updatedBy: v.optional(v.string()),
   }).index("by_key", ["key"]),
 
+  // Email template versions; the newest version of each template is the one sent
+  emailTemplates: defineTable({
+    templateId: v.string(), // One of EMAIL_TEMPLATE_IDS in lib/email-templates.ts
+    version: v.number(),
+    subject: v.string(),
+    format: v.union(v.literal("markdown"), v.literal("html")),
+    body: v.string(),
+    createdAt: v.number(),
+    createdBy: v.string(),
+    createdByEmail: v.optional(v.string()),
+    restoredFrom: v.optional(v.number()), // Version this one copies, when restored
+  }).index("by_template_version", ["templateId", "version"]),
+
   // Audit log
   auditLog: defineTable({
     action: v.string(),
@@ -173,8 +432,13 @@ export default defineSchema({
     status: v.union(v.literal("success"), v.literal("failed")),
     responseCode: v.optional(v.number()),
     error: v.optional(v.string()),
+    deliveryId: v.optional(v.string()),
+    jobId: v.optional(v.id("jobs")),
+    attempt: v.optional(v.number()),
     timestamp: v.number(),
-  }).index("by_timestamp", ["timestamp"]),
+  })
+    .index("by_timestamp", ["timestamp"])
+    .index("by_delivery", ["deliveryId"]),
 
   // Admin users
   admins: defineTable({
@@ -199,8 +463,9 @@ export default defineSchema({
     isActive: v.boolean(),
     createdAt: v.number(),
     // Inherit settings from creator's access
-    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both")),
+    serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin")),
     libraries: v.optional(v.array(v.string())), // Libraries to grant (same as creator or subset)
+    serverIds: v.optional(v.array(v.id("servers"))), // Servers to grant (same as creator)
   })
     .index("by_code", ["code"])
     .index("by_creator", ["createdBy"])
@@ -236,45 +501,121 @@ export default defineSchema({
     lockedBy: v.optional(v.string()),
     lastAttemptAt: v.optional(v.number()),
     lastError: v.optional(v.string()),
+    // Jobs sharing a key run one at a time, in enqueue order
+    concurrencyKey: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_status_next_run", ["status", "nextRunAt"])
+    .index("by_concurrency_key", ["concurrencyKey", "createdAt"])
     .index("by_user", ["userId"])
     .index("by_clerk_id", ["clerkId"])
-    .index("by_type", ["type"])
+    .index("by_type", ["type", "createdAt"])
+    .index("by_status_created", ["status", "createdAt"])
+    .index("by_created", ["createdAt"])
     .index("by_updated", ["updatedAt"]),
 
-  // IPTV accounts per user (Xtreme UI / Xtream-style)
+  // One row per job run, for the admin job console
+  jobAttempts: defineTable({
+    jobId: v.id("jobs"),
+    attempt: v.number(),
+    runnerId: v.optional(v.string()),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    outcome: v.union(v.literal("succeeded"), v.literal("retrying"), v.literal("failed")),
+    error: v.optional(v.string()),
+  })
+    .index("by_job", ["jobId", "attempt"]),
+
+  // IPTV accounts per user, on the panel their plan's provider points at
   iptvAccounts: defineTable({
-    provider: v.union(v.literal("xtremeui")),
+    provider: v.union(v.literal("xtremeui"), v.literal("xuione"), v.literal("stalker")),
     userId: v.id("users"),
     username: v.string(),
     password: v.optional(v.string()),
+    macAddress: v.optional(v.string()), // Stalker set-top box
     status: v.union(v.literal("pending"), v.literal("active"), v.literal("suspended")),
     planId: v.optional(v.id("iptvPlans")),
     bouquetIds: v.optional(v.array(v.string())),
-    m3uUrl: v.optional(v.string()),
+    m3uUrl: v.optional(v.string()), // No longer written; held panel credentials, cleared by secrets:encryptExisting
     expiresAt: v.optional(v.number()),
+    // Last answer from the panel's player API, cached briefly for my-iptv
+    liveStatus: v.optional(
+      v.object({
+        status: v.optional(v.string()),
+        expiresAt: v.optional(v.number()),
+        isTrial: v.boolean(),
+        activeConnections: v.optional(v.number()),
+        maxConnections: v.optional(v.number()),
+        allowedOutputFormats: v.array(v.string()),
+        serverTimezone: v.optional(v.string()),
+        serverTime: v.optional(v.string()),
+      })
+    ),
+    liveStatusCheckedAt: v.optional(v.number()),
+    // Stripe subscription the IPTV plan's own price is billed on; its events drive the line
+    stripeSubscriptionId: v.optional(v.string()),
+    // Last expiry reminder sent: the expiry it was about and how many days ahead
+    expiryReminder: v.optional(v.object({ expiresAt: v.number(), daysBefore: v.number() })),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
     .index("by_provider_username", ["provider", "username"])
     .index("by_status", ["status"])
-    .index("by_plan", ["planId"]),
+    .index("by_plan", ["planId"])
+    .index("by_stripe_subscription", ["stripeSubscriptionId"]),
 
   // IPTV plans (bouquet assignment + upgrade/downgrade targets)
   iptvPlans: defineTable({
-    provider: v.union(v.literal("xtremeui")),
+    provider: v.union(v.literal("xtremeui"), v.literal("xuione"), v.literal("stalker")),
     name: v.string(),
     description: v.optional(v.string()),
     bouquetIds: v.optional(v.array(v.string())),
     durationDays: v.optional(v.number()),
+    channelGroups: v.optional(v.array(v.string())), // M3U group-titles the playlist proxy keeps; all when unset
     stripePriceId: v.optional(v.string()),
+    renewalPriceId: v.optional(v.string()), // One-time Stripe price that extends a line by durationDays
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_provider", ["provider"])
     .index("by_stripe_price", ["stripePriceId"]),
+
+  // Channels a user starred in the my-iptv channel browser; stream ids are per panel, so per account
+  iptvFavoriteChannels: defineTable({
+    accountId: v.id("iptvAccounts"),
+    userId: v.id("users"),
+    streamId: v.string(),
+    name: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_account", ["accountId"])
+    .index("by_account_stream", ["accountId", "streamId"]),
+
+  // Revocable links to an IPTV account's playlist and EPG, served by /api/iptv/playlist/[token]
+  iptvPlaylistTokens: defineTable({
+    accountId: v.id("iptvAccounts"),
+    userId: v.id("users"),
+    token: v.string(),
+    createdAt: v.number(),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+    revokedReason: v.optional(
+      v.union(v.literal("user"), v.literal("regenerated"), v.literal("suspended"))
+    ),
+  })
+    .index("by_token", ["token"])
+    .index("by_account", ["accountId"]),
+
+  // Requests made with a playlist token
+  iptvPlaylistAccess: defineTable({
+    tokenId: v.id("iptvPlaylistTokens"),
+    kind: v.union(v.literal("playlist"), v.literal("epg"), v.literal("stream")),
+    outcome: v.union(v.literal("served"), v.literal("denied"), v.literal("failed")),
+    ip: v.optional(v.string()),
+    userAgent: v.optional(v.string()),
+    error: v.optional(v.string()),
+    timestamp: v.number(),
+  }).index("by_token", ["tokenId", "timestamp"]),
 });
@@ -0,0 +1,257 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireAdmin } from "./auth";
+import { SENSITIVE_SETTINGS_KEYS } from "../lib/constants";
+
+/**
+ * Envelope encryption for stored secrets.
+ * Each value is sealed with its own AES-GCM data key, and that data key is
+ * wrapped with the master key from SECRETS_ENCRYPTION_KEY (base64, 32 bytes)
+ * in the Convex environment. Rotating the master key only re-wraps data keys.
+ *
+ * Stored form: enc:v1:<key id>:<wrap iv>:<wrapped data key>:<iv>:<ciphertext>
+ */
+
+const PREFIX = "enc:v1:";
+const BATCH_SIZE = 100;
+
+const SECRET_TABLES = ["settings", "servers", "iptvAccounts"] as const;
+type SecretTable = (typeof SECRET_TABLES)[number];
+
+const secretTableValidator = v.union(v.literal("settings"), v.literal("servers"), v.literal("iptvAccounts"));
+
+interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+async function importMasterKey(raw: string): Promise<MasterKey> {
+  const bytes = fromBase64(raw.trim());
+  if (bytes.length !== 32) {
+    throw new Error("CONFIG_MISSING: Secrets encryption keys must be 32 bytes, base64 encoded");
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  const id = Array.from(digest.slice(0, 4), (b) => b.toString(16).padStart(2, "0")).join("");
+  const key = await crypto.subtle.importKey("raw", bytes, "AES-GCM", false, ["encrypt", "decrypt"]);
+  return { id, key };
+}
+
+// The current master key, then any previous ones still accepted for reading
+async function masterKeys(): Promise<MasterKey[]> {
+  const current = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!current) {
+    throw new Error("CONFIG_MISSING: SECRETS_ENCRYPTION_KEY is not set in the Convex environment");
+  }
+  const previous = (process.env.SECRETS_ENCRYPTION_KEY_PREVIOUS || "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  return Promise.all([current, ...previous].map(importMasterKey));
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+async function seal(key: CryptoKey, data: Uint8Array): Promise<[string, string]> {
+  const iv = randomBytes(12);
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data));
+  return [toBase64(iv), toBase64(sealed)];
+}
+
+async function unseal(key: CryptoKey, iv: string, sealed: string): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(sealed))
+  );
+}
+
+function parse(value: string) {
+  const parts = value.slice(PREFIX.length).split(":");
+  if (parts.length !== 5) throw new Error("Stored secret is malformed");
+  const [keyId, wrapIv, wrappedKey, iv, ciphertext] = parts;
+  return { keyId, wrapIv, wrappedKey, iv, ciphertext };
+}
+
+async function unwrapDataKey(value: string): Promise<{ dataKey: Uint8Array; keyId: string }> {
+  const parsed = parse(value);
+  const master = (await masterKeys()).find((k) => k.id === parsed.keyId);
+  if (!master) {
+    throw new Error(`CONFIG_MISSING: No secrets encryption key with id ${parsed.keyId} is configured`);
+  }
+  return { dataKey: await unseal(master.key, parsed.wrapIv, parsed.wrappedKey), keyId: parsed.keyId };
+}
+
+/**
+ * Encrypt a secret for storage. Empty values are stored as they are.
+ */
+export async function encryptSecret(plaintext: string): Promise<string> {
+  if (!plaintext || isEncrypted(plaintext)) return plaintext;
+
+  const [master] = await masterKeys();
+  const dataKeyBytes = randomBytes(32);
+  const dataKey = await crypto.subtle.importKey("raw", dataKeyBytes, "AES-GCM", false, ["encrypt"]);
+
+  const [iv, ciphertext] = await seal(dataKey, new TextEncoder().encode(plaintext));
+  const [wrapIv, wrappedKey] = await seal(master.key, dataKeyBytes);
+  return `${PREFIX}${[master.id, wrapIv, wrappedKey, iv, ciphertext].join(":")}`;
+}
+
+/**
+ * Decrypt a stored secret. Values written before encryption are returned
+ * unchanged until the migration encrypts them.
+ */
+export async function decryptSecret(value: string): Promise<string> {
+  if (!isEncrypted(value)) return value;
+
+  const { dataKey } = await unwrapDataKey(value);
+  const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, ["decrypt"]);
+  const parsed = parse(value);
+  return new TextDecoder().decode(await unseal(key, parsed.iv, parsed.ciphertext));
+}
+
+// Re-wrap a secret's data key with the current master key; the ciphertext is kept
+async function rewrapSecret(value: string): Promise<string> {
+  if (!isEncrypted(value)) return encryptSecret(value);
+
+  const [current] = await masterKeys();
+  const { dataKey, keyId } = await unwrapDataKey(value);
+  if (keyId === current.id) return value;
+
+  const parsed = parse(value);
+  const [wrapIv, wrappedKey] = await seal(current.key, dataKey);
+  return `${PREFIX}${[current.id, wrapIv, wrappedKey, parsed.iv, parsed.ciphertext].join(":")}`;
+}
+
+// Read a settings row that may hold an encrypted secret
+export async function getSecretSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ? await decryptSecret(s.value) : null;
+}
+
+// The field of a row that holds a secret, if it has one
+function secretField(table: SecretTable, row: any): "value" | "credential" | "password" | null {
+  if (table === "settings") return SENSITIVE_SETTINGS_KEYS.includes(row.key) ? "value" : null;
+  if (table === "servers") return "credential";
+  return "password";
+}
+
+async function transformBatch(
+  ctx: any,
+  args: { table?: SecretTable; cursor?: string; changed?: number },
+  transform: (value: string) => Promise<string>
+) {
+  const table = args.table ?? SECRET_TABLES[0];
+  const page = await ctx.db.query(table).paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+  let changed = args.changed ?? 0;
+  for (const row of page.page) {
+    // Panel playlist URLs stored before the playlist proxy carry the line's credentials; drop them
+    if (table === "iptvAccounts" && row.m3uUrl) {
+      await ctx.db.patch(row._id, { m3uUrl: undefined });
+      changed++;
+    }
+
+    const field = secretField(table, row);
+    const value = field ? row[field] : undefined;
+    if (!field || typeof value !== "string" || !value) continue;
+
+    const updated = await transform(value);
+    if (updated !== value) {
+      await ctx.db.patch(row._id, { [field]: updated });
+      changed++;
+    }
+  }
+
+  const nextTable = SECRET_TABLES[SECRET_TABLES.indexOf(table) + 1];
+  if (!page.isDone) return { next: { table, cursor: page.continueCursor, changed }, changed };
+  if (nextTable) return { next: { table: nextTable, changed }, changed };
+  return { next: null, changed };
+}
+
+// Encrypt secrets stored before encryption was added: npx convex run secrets:encryptExisting
+export const encryptExisting = internalMutation({
+  args: { table: v.optional(secretTableValidator), cursor: v.optional(v.string()), changed: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const { next, changed } = await transformBatch(ctx, args, encryptSecret);
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.secrets.encryptExisting, next);
+      return { done: false, changed };
+    }
+
+    await ctx.db.insert("auditLog", {
+      action: "secrets_encrypted",
+      actorId: "system",
+      targetType: "settings",
+      details: JSON.stringify({ encrypted: changed }),
+      timestamp: Date.now(),
+    });
+    return { done: true, changed };
+  },
+});
+
+// Re-wrap every secret with the current SECRETS_ENCRYPTION_KEY, after moving
+// the old key to SECRETS_ENCRYPTION_KEY_PREVIOUS: npx convex run secrets:rotateKey
+export const rotateKey = internalMutation({
+  args: { table: v.optional(secretTableValidator), cursor: v.optional(v.string()), changed: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const { next, changed } = await transformBatch(ctx, args, rewrapSecret);
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.secrets.rotateKey, next);
+      return { done: false, changed };
+    }
+
+    const [current] = await masterKeys();
+    await ctx.db.insert("auditLog", {
+      action: "secrets_key_rotated",
+      actorId: "system",
+      targetType: "settings",
+      details: JSON.stringify({ keyId: current.id, rewrapped: changed }),
+      timestamp: Date.now(),
+    });
+    return { done: true, changed };
+  },
+});
+
+// Whether encryption is set up and how many secrets are still stored in plain text
+export const status = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    let plaintext = 0;
+    const count = (value: unknown) => {
+      if (typeof value === "string" && value && !isEncrypted(value)) plaintext++;
+    };
+
+    for (const row of await ctx.db.query("settings").collect()) {
+      if (SENSITIVE_SETTINGS_KEYS.includes(row.key)) count(row.value);
+    }
+    for (const row of await ctx.db.query("servers").collect()) count(row.credential);
+    for (const row of await ctx.db.query("iptvAccounts").collect()) count(row.password);
+
+    return { keyConfigured: !!process.env.SECRETS_ENCRYPTION_KEY, plaintext };
+  },
+});
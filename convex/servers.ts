@@ -0,0 +1,201 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { requireAdmin, requireInternalKey } from "./auth";
+import { decryptSecret, encryptSecret } from "./secrets";
+
+const serverType = v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin"));
+
+// Strip credentials before returning servers to the browser
+function toPublicServer(server: Doc<"servers">) {
+  const { credential, ...rest } = server;
+  return {
+    ...rest,
+    hasCredential: !!credential,
+  };
+}
+
+// List all servers (admin)
+export const list = query({
+  args: {
+    type: v.optional(serverType),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const servers = args.type
+      ? await ctx.db
+          .query("servers")
+          .withIndex("by_type", (q) => q.eq("type", args.type!))
+          .collect()
+      : await ctx.db.query("servers").collect();
+
+    return servers.map(toPublicServer);
+  },
+});
+
+// List enabled servers (for invite creation and server pickers)
+export const listEnabled = query({
+  args: {
+    type: v.optional(serverType),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const servers = await ctx.db
+      .query("servers")
+      .withIndex("by_enabled", (q) => q.eq("enabled", true))
+      .collect();
+
+    return servers
+      .filter((s) => !args.type || s.type === args.type)
+      .map(toPublicServer);
+  },
+});
+
+// Get enabled servers including credentials (server-side API routes only)
+export const getConnections = query({
+  args: {
+    type: v.optional(serverType),
+    internalKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const servers = await ctx.db
+      .query("servers")
+      .withIndex("by_enabled", (q) => q.eq("enabled", true))
+      .collect();
+
+    const result: Doc<"servers">[] = [];
+    for (const server of servers) {
+      if (args.type && server.type !== args.type) continue;
+      result.push({ ...server, credential: await decryptSecret(server.credential) });
+    }
+    return result;
+  },
+});
+
+// Add a server
+export const create = mutation({
+  args: {
+    type: serverType,
+    name: v.string(),
+    url: v.string(),
+    credential: v.string(),
+    enabled: v.optional(v.boolean()),
+    isDefault: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    const sameType = await ctx.db
+      .query("servers")
+      .withIndex("by_type", (q) => q.eq("type", args.type))
+      .collect();
+
+    // The first server of a type becomes its default
+    const isDefault = args.isDefault ?? sameType.length === 0;
+    if (isDefault) {
+      for (const other of sameType) {
+        if (other.isDefault) await ctx.db.patch(other._id, { isDefault: false });
+      }
+    }
+
+    const serverId = await ctx.db.insert("servers", {
+      type: args.type,
+      name: args.name.trim(),
+      url: args.url.trim().replace(/\/$/, ""),
+      credential: await encryptSecret(args.credential.trim()),
+      enabled: args.enabled ?? true,
+      isDefault,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      createdBy: admin.clerkId,
+    });
+
+    await ctx.db.insert("auditLog", {
+      action: "server_created",
+      actorId: admin.clerkId,
+      targetType: "server",
+      targetId: serverId,
+      details: JSON.stringify({ type: args.type, name: args.name, url: args.url }),
+      timestamp: Date.now(),
+    });
+
+    return serverId;
+  },
+});
+
+// Update a server (credential is only replaced when provided)
+export const update = mutation({
+  args: {
+    id: v.id("servers"),
+    name: v.optional(v.string()),
+    url: v.optional(v.string()),
+    credential: v.optional(v.string()),
+    enabled: v.optional(v.boolean()),
+    isDefault: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    const server = await ctx.db.get(args.id);
+    if (!server) throw new Error("Server not found");
+
+    if (args.isDefault) {
+      const sameType = await ctx.db
+        .query("servers")
+        .withIndex("by_type", (q) => q.eq("type", server.type))
+        .collect();
+      for (const other of sameType) {
+        if (other._id !== server._id && other.isDefault) {
+          await ctx.db.patch(other._id, { isDefault: false });
+        }
+      }
+    }
+
+    await ctx.db.patch(args.id, {
+      ...(args.name !== undefined ? { name: args.name.trim() } : {}),
+      ...(args.url !== undefined ? { url: args.url.trim().replace(/\/$/, "") } : {}),
+      ...(args.credential ? { credential: await encryptSecret(args.credential.trim()) } : {}),
+      ...(args.enabled !== undefined ? { enabled: args.enabled } : {}),
+      ...(args.isDefault !== undefined ? { isDefault: args.isDefault } : {}),
+      updatedAt: Date.now(),
+    });
+
+    await ctx.db.insert("auditLog", {
+      action: "server_updated",
+      actorId: admin.clerkId,
+      targetType: "server",
+      targetId: args.id,
+      details: JSON.stringify({
+        name: args.name ?? server.name,
+        enabled: args.enabled,
+        isDefault: args.isDefault,
+        credential: args.credential ? "[REDACTED]" : undefined,
+      }),
+      timestamp: Date.now(),
+    });
+  },
+});
+
+// Delete a server
+export const remove = mutation({
+  args: {
+    id: v.id("servers"),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    const server = await ctx.db.get(args.id);
+    if (!server) throw new Error("Server not found");
+
+    await ctx.db.delete(args.id);
+
+    await ctx.db.insert("auditLog", {
+      action: "server_deleted",
+      actorId: admin.clerkId,
+      targetType: "server",
+      details: JSON.stringify({ type: server.type, name: server.name }),
+      timestamp: Date.now(),
+    });
+  },
+});
@@ -1,19 +1,30 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { requireAdmin, requireInternalKey } from "./auth";
+import { decryptSecret, encryptSecret } from "./secrets";
+import { SECRET_PLACEHOLDER, SENSITIVE_SETTINGS_KEYS } from "../lib/constants";
 
 // Re-export from shared constants for backwards compatibility
 export { SETTINGS_KEYS } from "../lib/constants";
 
+// Mask stored secrets before they leave the server
+function maskValue(key: string, value: string | null): string | null {
+  if (value && SENSITIVE_SETTINGS_KEYS.includes(key)) return SECRET_PLACEHOLDER;
+  return value;
+}
+
 // Get a single setting
 export const get = query({
   args: { key: v.string() },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const setting = await ctx.db
       .query("settings")
       .withIndex("by_key", (q) => q.eq("key", args.key))
       .first();
 
-    return setting?.value ?? null;
+    return maskValue(args.key, setting?.value ?? null);
   },
 });
 
@@ -21,6 +32,8 @@ export const get = query({
 export const getMany = query({
   args: { keys: v.array(v.string()) },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const settings: Record<string, string | null> = {};
 
     for (const key of args.keys) {
@@ -28,20 +41,22 @@ export const getMany = query({
         .query("settings")
         .withIndex("by_key", (q) => q.eq("key", key))
         .first();
-      settings[key] = setting?.value ?? null;
+      settings[key] = maskValue(key, setting?.value ?? null);
     }
 
     return settings;
   },
 });
 
-// Get all settings
+// Get all settings (admin; secrets are masked)
 export const getAll = query({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
+
     const settings = await ctx.db.query("settings").collect();
     return settings.reduce(
       (acc, setting) => {
-        acc[setting.key] = setting.value;
+        acc[setting.key] = maskValue(setting.key, setting.value) ?? "";
         return acc;
       },
       {} as Record<string, string>
@@ -49,46 +64,68 @@ export const getAll = query({
   },
 });
 
+// Secrets are encrypted at rest; plain values are stored as they are
+async function toStoredValue(key: string, value: string): Promise<string> {
+  return SENSITIVE_SETTINGS_KEYS.includes(key) ? await encryptSecret(value) : value;
+}
+
+// Get all settings including decrypted secrets (server-side API routes only)
+export const getAllForServer = query({
+  args: { internalKey: v.string() },
+  handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
+    const settings = await ctx.db.query("settings").collect();
+    const result: Record<string, string> = {};
+    for (const setting of settings) {
+      result[setting.key] = SENSITIVE_SETTINGS_KEYS.includes(setting.key)
+        ? await decryptSecret(setting.value)
+        : setting.value;
+    }
+    return result;
+  },
+});
+
 // Set a setting
 export const set = mutation({
   args: {
     key: v.string(),
     value: v.string(),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    // The masked placeholder means "unchanged"
+    if (args.value === SECRET_PLACEHOLDER) return;
+
     const existing = await ctx.db
       .query("settings")
       .withIndex("by_key", (q) => q.eq("key", args.key))
       .first();
 
+    const value = await toStoredValue(args.key, args.value);
+
     if (existing) {
       await ctx.db.patch(existing._id, {
-        value: args.value,
+        value,
         updatedAt: Date.now(),
-        updatedBy: args.adminId,
+        updatedBy: admin.clerkId,
       });
     } else {
       await ctx.db.insert("settings", {
         key: args.key,
-        value: args.value,
+        value,
         updatedAt: Date.now(),
-        updatedBy: args.adminId,
+        updatedBy: admin.clerkId,
       });
     }
 
     // Log sensitive settings changes
-    const sensitiveKeys = [
-      "plex_token",
-      "emby_api_key",
-      "xtreme_ui_api_key",
-      "webhook_secret",
-    ];
-    const isSensitive = sensitiveKeys.includes(args.key);
+    const isSensitive = SENSITIVE_SETTINGS_KEYS.includes(args.key);
 
     await ctx.db.insert("auditLog", {
       action: "setting_updated",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "setting",
       details: JSON.stringify({
         key: args.key,
@@ -103,10 +140,17 @@ export const set = mutation({
 export const setMany = mutation({
   args: {
     settings: v.array(v.object({ key: v.string(), value: v.string() })),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
-    for (const { key, value } of args.settings) {
+    const admin = await requireAdmin(ctx);
+
+    for (const setting of args.settings) {
+      // The masked placeholder means "unchanged"
+      if (setting.value === SECRET_PLACEHOLDER) continue;
+
+      const key = setting.key;
+      const value = await toStoredValue(key, setting.value);
+
       const existing = await ctx.db
         .query("settings")
         .withIndex("by_key", (q) => q.eq("key", key))
@@ -116,21 +160,21 @@ export const setMany = mutation({
         await ctx.db.patch(existing._id, {
           value,
           updatedAt: Date.now(),
-          updatedBy: args.adminId,
+          updatedBy: admin.clerkId,
         });
       } else {
         await ctx.db.insert("settings", {
           key,
           value,
           updatedAt: Date.now(),
-          updatedBy: args.adminId,
+          updatedBy: admin.clerkId,
         });
       }
     }
 
     await ctx.db.insert("auditLog", {
       action: "settings_bulk_updated",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "settings",
       details: JSON.stringify({ count: args.settings.length }),
       timestamp: Date.now(),
@@ -142,9 +186,10 @@ export const setMany = mutation({
 export const remove = mutation({
   args: {
     key: v.string(),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     const existing = await ctx.db
       .query("settings")
       .withIndex("by_key", (q) => q.eq("key", args.key))
@@ -155,7 +200,7 @@ export const remove = mutation({
 
       await ctx.db.insert("auditLog", {
         action: "setting_deleted",
-        actorId: args.adminId,
+        actorId: admin.clerkId,
         targetType: "setting",
         details: JSON.stringify({ key: args.key }),
         timestamp: Date.now(),
@@ -0,0 +1,353 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+import { findAccountUser, listServerTargets, type ServerTarget } from "./reconciliation";
+import { localAccountClient } from "./provisioning";
+import { insertJob } from "./jobs";
+import { SETTINGS_KEYS } from "../lib/constants";
+import { PlexClient } from "../lib/plex";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_MAX_ATTEMPTS = 5;
+const DEFAULT_WINDOW_DAYS = 30;
+
+const STOP_REASON = "This account is already streaming on too many devices.";
+
+// An overage seen again within this long of the last check that saw it is the same episode,
+// even as sessions restart or swap, so it counts as one offence
+const EPISODE_GAP_MS = 10 * 60 * 1000;
+
+const streamValidator = v.object({
+  serverType: v.union(v.literal("plex"), v.literal("emby"), v.literal("jellyfin")),
+  serverId: v.optional(v.id("servers")),
+  serverName: v.string(),
+  sessionId: v.string(),
+  title: v.string(),
+  device: v.optional(v.string()),
+  address: v.optional(v.string()),
+});
+
+interface StreamRecord {
+  serverType: ServerTarget["serverType"];
+  serverId?: Id<"servers">;
+  serverName: string;
+  sessionId: string;
+  title: string;
+  device?: string;
+  address?: string;
+}
+
+function streamKey(s: StreamRecord): string {
+  return `${s.serverType}:${s.serverId ?? "default"}:${s.sessionId}`;
+}
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
+
+async function getPolicy(ctx: any) {
+  const number = async (key: string, fallback: number) => {
+    const value = parseInt((await getSetting(ctx, key)) || "", 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    enabled: (await getSetting(ctx, SETTINGS_KEYS.STREAM_LIMITS_ENABLED)) === "true",
+    stopExtra: (await getSetting(ctx, SETTINGS_KEYS.STREAM_LIMIT_STOP_EXTRA)) === "true",
+    notify: (await getSetting(ctx, SETTINGS_KEYS.STREAM_LIMIT_NOTIFY)) !== "false",
+    suspendAfter: await number(SETTINGS_KEYS.STREAM_LIMIT_SUSPEND_AFTER, 0),
+    windowDays: (await number(SETTINGS_KEYS.STREAM_LIMIT_WINDOW_DAYS, DEFAULT_WINDOW_DAYS)) || DEFAULT_WINDOW_DAYS,
+  };
+}
+
+function streamClient(target: ServerTarget) {
+  return target.serverType === "plex"
+    ? new PlexClient({ url: target.connection.url, token: target.connection.credential })
+    : localAccountClient(target.serverType, target.connection);
+}
+
+// Recent stream limit violations (admin)
+export const listViolations = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const violations = await ctx.db
+      .query("streamViolations")
+      .withIndex("by_created")
+      .order("desc")
+      .take(args.limit ?? 50);
+
+    return await Promise.all(
+      violations.map(async (violation) => {
+        const user = await ctx.db.get(violation.userId);
+        return { ...violation, email: user?.email, username: user?.username };
+      })
+    );
+  },
+});
+
+// Override a user's concurrent stream limit; unset falls back to their plan (admin)
+export const setUserLimit = mutation({
+  args: {
+    userId: v.id("users"),
+    maxStreams: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error("User not found");
+    if (args.maxStreams !== undefined && (!Number.isInteger(args.maxStreams) || args.maxStreams < 1)) {
+      throw new Error("VALIDATION_ERROR: Stream limit must be a whole number of at least 1");
+    }
+
+    await ctx.db.patch(args.userId, { maxStreams: args.maxStreams });
+
+    await ctx.db.insert("auditLog", {
+      action: "user_stream_limit_set",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "user",
+      targetId: args.userId,
+      details: JSON.stringify({ email: user.email, maxStreams: args.maxStreams ?? null }),
+      timestamp: Date.now(),
+    });
+  },
+});
+
+export const internalGetSnapshot = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const policy = await getPolicy(ctx);
+    if (!policy.enabled) return null;
+
+    const plans = new Map((await ctx.db.query("plans").collect()).map((p) => [p._id, p]));
+    const users = await ctx.db
+      .query("users")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+
+    return {
+      targets: await listServerTargets(ctx),
+      users: users.map((u) => ({
+        _id: u._id,
+        email: u.email,
+        plexUserId: u.plexUserId,
+        plexEmail: u.plexEmail,
+        embyUserId: u.embyUserId,
+        jellyfinUserId: u.jellyfinUserId,
+        serverAccounts: u.serverAccounts,
+        limit: u.maxStreams ?? (u.planId ? plans.get(u.planId)?.maxStreams : undefined),
+      })),
+    };
+  },
+});
+
+// Record an overage once per episode, notify the user and escalate repeat
+// offenders to suspension. An overage that's still going is folded into its
+// episode (recorded: false) so its extra streams can still be stopped.
+export const internalRecordViolation = internalMutation({
+  args: {
+    userId: v.id("users"),
+    limit: v.number(),
+    streams: v.array(streamValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user || !user.isActive) return null;
+
+    const policy = await getPolicy(ctx);
+    const fingerprint = args.streams.map(streamKey).sort().join(",");
+    const now = Date.now();
+
+    const latest = await ctx.db
+      .query("streamViolations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+    if (latest && (latest.fingerprint === fingerprint || (latest.lastSeenAt ?? latest.createdAt) >= now - EPISODE_GAP_MS)) {
+      const known = new Set(latest.streams.map(streamKey));
+      const added = args.streams.filter((s) => !known.has(streamKey(s)));
+      await ctx.db.patch(latest._id, {
+        lastSeenAt: now,
+        streamCount: Math.max(latest.streamCount, args.streams.length),
+        ...(added.length > 0 ? { streams: [...latest.streams, ...added] } : {}),
+      });
+      return { violationId: latest._id, stopExtra: policy.stopExtra && latest.action !== "suspended", recorded: false };
+    }
+
+    const recent = await ctx.db
+      .query("streamViolations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId).gte("createdAt", now - policy.windowDays * DAY_MS))
+      .collect();
+    const offences = recent.length + 1;
+    const suspend = policy.suspendAfter > 0 && offences >= policy.suspendAfter;
+
+    const violationId = await ctx.db.insert("streamViolations", {
+      userId: args.userId,
+      limit: args.limit,
+      streamCount: args.streams.length,
+      streams: args.streams,
+      fingerprint,
+      action: suspend ? "suspended" : "recorded",
+      notified: policy.notify,
+      createdAt: now,
+      lastSeenAt: now,
+    });
+
+    await ctx.db.insert("auditLog", {
+      action: "stream_limit_exceeded",
+      actorId: "system",
+      targetType: "user",
+      targetId: args.userId,
+      details: JSON.stringify({
+        email: user.email,
+        limit: args.limit,
+        streams: args.streams.length,
+        offences,
+        suspended: suspend,
+      }),
+      timestamp: now,
+    });
+
+    if (suspend) {
+      // Revoked through the scheduled revocation flow, right away
+      const pending = await ctx.db
+        .query("scheduledRevocations")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .filter((q) => q.and(q.eq(q.field("source"), "stream_limit"), q.eq(q.field("status"), "pending")))
+        .first();
+      if (!pending) {
+        await ctx.db.insert("scheduledRevocations", {
+          userId: args.userId,
+          clerkId: user.clerkId,
+          stripeCustomerId: user.stripeCustomerId,
+          revokeAt: now,
+          reason: `Exceeded stream limit ${offences} times in ${policy.windowDays} days`,
+          source: "stream_limit",
+          status: "pending",
+          createdAt: now,
+        });
+        await ctx.scheduler.runAfter(0, internal.revocations.processScheduledRevocations, {});
+      }
+    }
+
+    if (policy.notify) {
+      await insertJob(ctx, {
+        type: "email.streamLimit",
+        clerkId: user.clerkId,
+        userId: args.userId,
+        payload: {
+          to: user.email,
+          username: user.username,
+          limit: args.limit,
+          streamCount: args.streams.length,
+          stopped: policy.stopExtra,
+          suspended: suspend,
+        },
+        maxAttempts: EMAIL_MAX_ATTEMPTS,
+        runAt: now,
+      });
+      await ctx.scheduler.runAfter(0, internal.jobs.processDueJobs, { runnerId: "streams" });
+    }
+
+    return { violationId, stopExtra: policy.stopExtra && !suspend, recorded: true };
+  },
+});
+
+export const internalMarkStopped = internalMutation({
+  args: {
+    violationId: v.id("streamViolations"),
+    sessionIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const violation = await ctx.db.get(args.violationId);
+    if (!violation || args.sessionIds.length === 0) return;
+
+    await ctx.db.patch(args.violationId, {
+      action: violation.action === "suspended" ? "suspended" : "stopped",
+      streams: violation.streams.map((s) => (args.sessionIds.includes(s.sessionId) ? { ...s, stopped: true } : s)),
+    });
+  },
+});
+
+// Count each user's streams across every server and act on those over their limit
+export const enforceStreamLimits = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ violations: number; stopped: number }> => {
+    const snapshot = await ctx.runQuery(internal.streams.internalGetSnapshot, {});
+    if (!snapshot || !snapshot.users.some((u) => u.limit !== undefined)) {
+      return { violations: 0, stopped: 0 };
+    }
+
+    const streamsByUser = new Map<Id<"users">, StreamRecord[]>();
+    const clients = new Map<StreamRecord, ReturnType<typeof streamClient>>();
+
+    for (const target of snapshot.targets) {
+      const client = streamClient(target);
+      try {
+        let friends: Array<{ id: string; email: string }> | undefined;
+
+        for (const stream of await client.getActiveStreams()) {
+          let user = findAccountUser(snapshot.users, target, stream.userId);
+          if (!user && client instanceof PlexClient && stream.userId) {
+            // Invited Plex users are often only known by email
+            friends ??= await client.listSharedUsers().catch(() => []);
+            const email = friends.find((f) => f.id === stream.userId)?.email;
+            user = findAccountUser(snapshot.users, target, undefined, email);
+          }
+          if (!user || user.limit === undefined) continue;
+
+          const record: StreamRecord = {
+            serverType: target.serverType,
+            serverId: target.serverId,
+            serverName: target.serverName,
+            sessionId: stream.sessionId,
+            title: stream.title,
+            device: stream.device,
+            address: stream.address,
+          };
+          clients.set(record, client);
+          streamsByUser.set(user._id, [...(streamsByUser.get(user._id) ?? []), record]);
+        }
+      } catch (error) {
+        console.log(`Stream check failed for ${target.serverName}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    let violations = 0;
+    let stopped = 0;
+
+    for (const [userId, streams] of streamsByUser) {
+      const limit = snapshot.users.find((u) => u._id === userId)?.limit;
+      if (limit === undefined || streams.length <= limit) continue;
+
+      const result = await ctx.runMutation(internal.streams.internalRecordViolation, { userId, limit, streams });
+      if (!result) continue;
+      if (result.recorded) violations++;
+      if (!result.stopExtra) continue;
+
+      // Keep the first streams up to the limit; stop the rest
+      const stoppedIds: string[] = [];
+      for (const stream of streams.slice(limit)) {
+        const outcome = await clients.get(stream)!.terminateSession(stream.sessionId, STOP_REASON);
+        if (outcome.success) stoppedIds.push(stream.sessionId);
+      }
+
+      await ctx.runMutation(internal.streams.internalMarkStopped, {
+        violationId: result.violationId,
+        sessionIds: stoppedIds,
+      });
+      stopped += stoppedIds.length;
+    }
+
+    return { violations, stopped };
+  },
+});
@@ -1,5 +1,8 @@
-import { httpAction } from "./_generated/server";
+import { v } from "convex/values";
+import { httpAction, internalAction, type ActionCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { isInternalKey } from "./auth";
 import Stripe from "stripe";
 
 // Get Stripe instance using Convex environment variable
@@ -13,21 +16,230 @@ function getStripe(): Stripe {
   return new Stripe(secretKey, { typescript: true });
 }
 
-// Stripe configuration
-export const STRIPE_CONFIG = {
-  productId: "prod_TkUnen4Dh6GpAN",
-  productName: "Remote Computer Support",
-  priceAmount: 3000, // $30 in cents
-  currency: "usd",
-  interval: "month" as const,
-};
+// Checkout, portal, sync and verified events only come from the Next.js API routes, which send the shared internal key
+function unauthorized(request: Request): Response | null {
+  if (isInternalKey(request.headers.get("x-internal-api-key") ?? undefined)) return null;
+  return new Response(JSON.stringify({ error: "Unauthorized" }), {
+    status: 401,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Recurring price of a subscription item, stored alongside the subscription for MRR
+function priceDetails(item?: Stripe.SubscriptionItem) {
+  const price = item?.price;
+  return {
+    amount: price?.unit_amount != null ? price.unit_amount * (item?.quantity ?? 1) : undefined,
+    currency: price?.currency,
+    interval: price?.recurring?.interval,
+    intervalCount: price?.recurring?.interval_count,
+  };
+}
+
+function customerIdOf(subscription: Stripe.Subscription): string {
+  return idOf(subscription.customer);
+}
+
+// Stripe fields that hold either an id or the expanded object
+function idOf(value: string | { id: string }): string {
+  return typeof value === "string" ? value : value.id;
+}
+
+// Our payment status for a Stripe subscription status
+function paymentStatusOf(
+  subscription: Stripe.Subscription
+): "active" | "canceled" | "past_due" | "unpaid" | "trialing" | "pending" {
+  switch (subscription.status) {
+    case "active":
+    case "canceled":
+    case "past_due":
+    case "unpaid":
+    case "trialing":
+      return subscription.status;
+    case "incomplete_expired":
+      return "canceled";
+    default:
+      return "pending";
+  }
+}
+
+// The item paying for the media plan; IPTV plan prices can ride along as extra items
+function mediaItem(subscription: Stripe.Subscription, iptvPriceIds: string[]) {
+  return subscription.items.data.find((i) => !iptvPriceIds.includes(i.price.id)) ?? subscription.items.data[0];
+}
+
+// Map IPTV plan prices on a subscription to the user's line
+async function applyIptvPrices(ctx: ActionCtx, subscription: Stripe.Subscription, clerkId?: string) {
+  return await ctx.runMutation(internal.iptv.internalApplyIptvSubscription, {
+    clerkId: clerkId ?? subscription.metadata?.clerkId,
+    stripeCustomerId: customerIdOf(subscription),
+    stripeSubscriptionId: subscription.id,
+    status: subscription.status,
+    priceIds: subscription.items.data.map((i) => i.price.id),
+    currentPeriodEnd: subscription.current_period_end * 1000,
+    macAddress: subscription.metadata?.macAddress,
+  });
+}
+
+// Standalone IPTV subscriptions don't pay for media access
+function isIptvOnlyInvoice(invoice: Stripe.Invoice): boolean {
+  const metadata = invoice.subscription_details?.metadata;
+  return !!metadata?.iptvPlanId && !metadata.planId;
+}
+
+async function getOrCreateCustomer(stripe: Stripe, userEmail: string, clerkId: string): Promise<string> {
+  const customers = await stripe.customers.list({
+    email: userEmail,
+    limit: 1,
+  });
+
+  if (customers.data[0]) return customers.data[0].id;
+
+  const customer = await stripe.customers.create({
+    email: userEmail,
+    metadata: { clerkId },
+  });
+  return customer.id;
+}
+
+// Sell an IPTV plan on its own price: a new subscription, or an extra item on the user's current one
+async function createIptvCheckout(
+  ctx: ActionCtx,
+  stripe: Stripe,
+  request: Request,
+  body: {
+    userId: string;
+    userEmail: string;
+    iptvPlanId: string;
+    addOn?: boolean;
+    macAddress?: string;
+    successUrl?: string;
+    cancelUrl?: string;
+  }
+): Promise<Response> {
+  const checkout = await ctx.runQuery(internal.iptv.internalGetIptvCheckout, {
+    clerkId: body.userId,
+    planId: body.iptvPlanId as Id<"iptvPlans">,
+    macAddress: body.macAddress || undefined,
+  });
+
+  if ("error" in checkout) {
+    return new Response(JSON.stringify({ error: checkout.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const macMetadata: Record<string, string> = checkout.macAddress ? { macAddress: checkout.macAddress } : {};
+
+  // A line already billed on its own subscription switches plans there; add-ons join the media subscription
+  const targetSubscriptionId = checkout.currentSubscriptionId ?? (body.addOn ? checkout.subscriptionId : undefined);
+  if (body.addOn && !targetSubscriptionId) {
+    return new Response(JSON.stringify({ error: "You don't have a subscription to add this plan to" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (targetSubscriptionId) {
+    const subscription = await stripe.subscriptions.retrieve(targetSubscriptionId);
+    const current = subscription.items.data.find((i) => checkout.iptvPriceIds.includes(i.price.id));
+    if (current?.price.id === checkout.stripePriceId) {
+      return new Response(JSON.stringify({ error: "You're already on this IPTV plan" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Prorated onto the next invoice; the subscription.updated webhook maps the price to the plan
+    await stripe.subscriptions.update(targetSubscriptionId, {
+      items: [
+        current ? { id: current.id, price: checkout.stripePriceId } : { price: checkout.stripePriceId, quantity: 1 },
+      ],
+      proration_behavior: "create_prorations",
+      metadata: macMetadata,
+    });
+
+    return new Response(JSON.stringify({ updated: true }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const customerId = await getOrCreateCustomer(stripe, body.userEmail, body.userId);
+  const metadata = { clerkId: body.userId, iptvPlanId: checkout.planId };
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "subscription",
+    payment_method_types: ["card"],
+    customer: customerId,
+    line_items: [{ price: checkout.stripePriceId, quantity: 1 }],
+    success_url: body.successUrl || `${request.headers.get("origin")}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: body.cancelUrl || `${request.headers.get("origin")}/payment/canceled`,
+    metadata,
+    subscription_data: { metadata: { ...metadata, ...macMetadata } },
+  });
+
+  await ctx.runMutation(internal.payments.internal_setStripeCustomerId, {
+    clerkId: body.userId,
+    stripeCustomerId: customerId,
+  });
+
+  return new Response(JSON.stringify({ url: session.url, sessionId: session.id }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Sell a one-off renewal of a line that no subscription renews
+async function createIptvRenewalCheckout(
+  ctx: ActionCtx,
+  stripe: Stripe,
+  request: Request,
+  body: { userId: string; userEmail: string; successUrl?: string; cancelUrl?: string }
+): Promise<Response> {
+  const renewal = await ctx.runQuery(internal.iptv.internalGetRenewalCheckout, { clerkId: body.userId });
+  if ("error" in renewal) {
+    return new Response(JSON.stringify({ error: renewal.error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const customerId = await getOrCreateCustomer(stripe, body.userEmail, body.userId);
+  const metadata = { clerkId: body.userId, iptvRenewalAccountId: renewal.accountId, iptvPlanId: renewal.planId };
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    payment_method_types: ["card"],
+    customer: customerId,
+    line_items: [{ price: renewal.renewalPriceId, quantity: 1 }],
+    success_url: body.successUrl || `${request.headers.get("origin")}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: body.cancelUrl || `${request.headers.get("origin")}/payment/canceled`,
+    metadata,
+    payment_intent_data: { metadata },
+  });
+
+  await ctx.runMutation(internal.payments.internal_setStripeCustomerId, {
+    clerkId: body.userId,
+    stripeCustomerId: customerId,
+  });
+
+  return new Response(JSON.stringify({ url: session.url, sessionId: session.id }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
 // Create checkout session
 export const createCheckout = httpAction(async (ctx, request) => {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
   try {
     const stripe = getStripe();
     const body = await request.json();
-    const { userId, userEmail, successUrl, cancelUrl } = body;
+    const { userId, userEmail, planId, iptvPlanId, successUrl, cancelUrl } = body;
 
     if (!userId || !userEmail) {
       return new Response(JSON.stringify({ error: "Missing userId or userEmail" }), {
@@ -36,53 +248,38 @@ export const createCheckout = httpAction(async (ctx, request) => {
       });
     }
 
-    // Get or create price
-    const prices = await stripe.prices.list({
-      product: STRIPE_CONFIG.productId,
-      active: true,
-      type: "recurring",
-      limit: 1,
-    });
-
-    let priceId = prices.data[0]?.id;
+    if (body.iptvRenewal) {
+      return await createIptvRenewalCheckout(ctx, stripe, request, body);
+    }
 
-    if (!priceId) {
-      // Create the recurring price
-      const price = await stripe.prices.create({
-        product: STRIPE_CONFIG.productId,
-        unit_amount: STRIPE_CONFIG.priceAmount,
-        currency: STRIPE_CONFIG.currency,
-        recurring: { interval: STRIPE_CONFIG.interval },
-        metadata: { app: "media-invite" },
-      });
-      priceId = price.id;
+    if (iptvPlanId) {
+      return await createIptvCheckout(ctx, stripe, request, body);
     }
 
-    // Get or create customer
-    const customers = await stripe.customers.list({
-      email: userEmail,
-      limit: 1,
+    // Without a planId, fall back to the only active plan
+    const plan = await ctx.runQuery(internal.plans.internalGetCheckoutPlan, {
+      planId: planId ? (planId as Id<"plans">) : undefined,
     });
 
-    let customerId = customers.data[0]?.id;
-
-    if (!customerId) {
-      const customer = await stripe.customers.create({
-        email: userEmail,
-        metadata: { clerkId: userId },
-      });
-      customerId = customer.id;
+    if (!plan) {
+      return new Response(
+        JSON.stringify({ error: planId ? "Plan is not available" : "Choose a plan to subscribe to" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
     }
 
+    const customerId = await getOrCreateCustomer(stripe, userEmail, userId);
+
     // Create checkout session
     const session = await stripe.checkout.sessions.create({
       mode: "subscription",
       payment_method_types: ["card"],
       customer: customerId,
-      line_items: [{ price: priceId, quantity: 1 }],
+      line_items: [{ price: plan.stripePriceId, quantity: 1 }],
       success_url: successUrl || `${request.headers.get("origin")}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: cancelUrl || `${request.headers.get("origin")}/payment/canceled`,
-      metadata: { clerkId: userId },
+      metadata: { clerkId: userId, planId: plan._id },
+      subscription_data: { metadata: { clerkId: userId, planId: plan._id } },
     });
 
     // Store customer ID in Convex
@@ -106,6 +303,9 @@ export const createCheckout = httpAction(async (ctx, request) => {
 
 // Create billing portal session
 export const createPortal = httpAction(async (ctx, request) => {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
   try {
     const stripe = getStripe();
     const body = await request.json();
@@ -136,150 +336,384 @@ export const createPortal = httpAction(async (ctx, request) => {
   }
 });
 
-// Handle Stripe webhooks
-export const webhook = httpAction(async (ctx, request) => {
-  const stripe = getStripe();
-  const signature = request.headers.get("stripe-signature");
-  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+// Apply a verified event to the database
+async function handleEvent(ctx: ActionCtx, stripe: Stripe, event: Stripe.Event) {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      if (session.metadata?.clerkId && session.customer) {
+        await ctx.runMutation(internal.payments.internal_setStripeCustomerId, {
+          clerkId: session.metadata.clerkId,
+          stripeCustomerId: idOf(session.customer),
+        });
+      }
 
-  if (!signature || !webhookSecret) {
-    return new Response("Missing signature or webhook secret", { status: 400 });
-  }
+      const renewalAccountId = session.metadata?.iptvRenewalAccountId;
+      if (session.mode === "payment" && renewalAccountId && session.payment_status === "paid") {
+        await ctx.runMutation(internal.iptv.internalApplyIptvRenewal, {
+          accountId: renewalAccountId as Id<"iptvAccounts">,
+          planId: session.metadata!.iptvPlanId as Id<"iptvPlans">,
+          stripeCustomerId: session.customer as string,
+          stripePaymentId: (session.payment_intent as string | null) ?? session.id,
+          amount: session.amount_total ?? 0,
+          currency: session.currency ?? "usd",
+        });
+        break;
+      }
 
-  const body = await request.text();
+      if (session.mode === "subscription" && session.subscription) {
+        const subscription = await stripe.subscriptions.retrieve(
+          session.subscription as string
+        );
 
-  let event: Stripe.Event;
-  try {
-    event = stripe.webhooks.constructEvent(body, signature, webhookSecret);
-  } catch (err) {
-    console.error("Webhook signature verification failed:", err);
-    return new Response("Invalid signature", { status: 400 });
-  }
+        const iptv = await applyIptvPrices(ctx, subscription, session.metadata?.clerkId);
+        const item = mediaItem(subscription, iptv.iptvPriceIds);
 
-  try {
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        if (session.mode === "subscription" && session.subscription) {
-          const subscription = await stripe.subscriptions.retrieve(
-            session.subscription as string
-          );
-          
+        if (!iptv.iptvOnly) {
           await ctx.runMutation(internal.payments.internal_updatePaymentStatus, {
             stripeCustomerId: session.customer as string,
             stripeSubscriptionId: subscription.id,
-            paymentStatus: "active",
+            paymentStatus: paymentStatusOf(subscription),
             clerkId: session.metadata?.clerkId,
             paymentExpiresAt: subscription.current_period_end * 1000,
-          });
-
-          await ctx.runMutation(internal.payments.internal_upsertSubscription, {
-            stripeSubscriptionId: subscription.id,
-            stripeCustomerId: session.customer as string,
-            status: subscription.status,
-            priceId: subscription.items.data[0]?.price?.id || "",
-            productId: (subscription.items.data[0]?.price?.product as string) || "",
-            currentPeriodStart: subscription.current_period_start * 1000,
-            currentPeriodEnd: subscription.current_period_end * 1000,
-            cancelAtPeriodEnd: subscription.cancel_at_period_end,
+            priceId: item?.price?.id,
           });
         }
-        break;
+
+        await ctx.runMutation(internal.payments.internal_upsertSubscription, {
+          stripeSubscriptionId: subscription.id,
+          stripeCustomerId: session.customer as string,
+          status: subscription.status,
+          priceId: item?.price?.id || "",
+          productId: (item?.price?.product as string) || "",
+          currentPeriodStart: subscription.current_period_start * 1000,
+          currentPeriodEnd: subscription.current_period_end * 1000,
+          cancelAtPeriodEnd: subscription.cancel_at_period_end,
+          ...priceDetails(item),
+        });
       }
+      break;
+    }
+
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+      const status = paymentStatusOf(subscription);
 
-      case "customer.subscription.updated":
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        
-        let status: "active" | "canceled" | "past_due" | "unpaid" | "trialing" | "pending" = "pending";
-        if (subscription.status === "active") status = "active";
-        else if (subscription.status === "canceled") status = "canceled";
-        else if (subscription.status === "past_due") status = "past_due";
-        else if (subscription.status === "unpaid") status = "unpaid";
-        else if (subscription.status === "trialing") status = "trialing";
+      const iptv = await applyIptvPrices(ctx, subscription);
+      const item = mediaItem(subscription, iptv.iptvPriceIds);
 
+      if (!iptv.iptvOnly) {
         await ctx.runMutation(internal.payments.internal_updatePaymentStatus, {
           stripeCustomerId: subscription.customer as string,
           stripeSubscriptionId: subscription.id,
           paymentStatus: status,
           paymentExpiresAt: subscription.current_period_end * 1000,
+          priceId: item?.price?.id,
         });
+      }
 
-        await ctx.runMutation(internal.payments.internal_upsertSubscription, {
-          stripeSubscriptionId: subscription.id,
+      await ctx.runMutation(internal.payments.internal_upsertSubscription, {
+        stripeSubscriptionId: subscription.id,
+        stripeCustomerId: subscription.customer as string,
+        status: subscription.status,
+        priceId: item?.price?.id || "",
+        productId: (item?.price?.product as string) || "",
+        currentPeriodStart: subscription.current_period_start * 1000,
+        currentPeriodEnd: subscription.current_period_end * 1000,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+        canceledAt: subscription.canceled_at ? subscription.canceled_at * 1000 : undefined,
+        ...priceDetails(item),
+      });
+
+      // If a media subscription is canceled or unpaid, revoke access
+      if (!iptv.iptvOnly && (status === "canceled" || status === "unpaid")) {
+        await ctx.runMutation(internal.payments.internal_scheduleAccessRevocation, {
           stripeCustomerId: subscription.customer as string,
-          status: subscription.status,
-          priceId: subscription.items.data[0]?.price?.id || "",
-          productId: (subscription.items.data[0]?.price?.product as string) || "",
-          currentPeriodStart: subscription.current_period_start * 1000,
-          currentPeriodEnd: subscription.current_period_end * 1000,
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-          canceledAt: subscription.canceled_at ? subscription.canceled_at * 1000 : undefined,
+          reason: status === "canceled" ? "Subscription canceled" : "Payment failed",
         });
-
-        // If subscription is canceled or unpaid, revoke access
-        if (status === "canceled" || status === "unpaid") {
-          await ctx.runMutation(internal.payments.internal_scheduleAccessRevocation, {
-            stripeCustomerId: subscription.customer as string,
-            reason: status === "canceled" ? "Subscription canceled" : "Payment failed",
-          });
-        }
-        break;
       }
+      break;
+    }
 
-      case "invoice.paid": {
-        const invoice = event.data.object as Stripe.Invoice;
-        if (invoice.subscription) {
-          await ctx.runMutation(internal.payments.internal_recordPayment, {
-            stripeCustomerId: invoice.customer as string,
-            stripeInvoiceId: invoice.id,
-            stripeSubscriptionId: invoice.subscription as string,
-            amount: invoice.amount_paid,
-            currency: invoice.currency,
-            status: "succeeded",
-          });
+    case "invoice.paid": {
+      const invoice = event.data.object as Stripe.Invoice;
+      // Invoices settled from the credit balance or for nothing have no payment intent but still count
+      await ctx.runMutation(internal.payments.internal_recordPayment, {
+        stripeCustomerId: invoice.customer as string,
+        stripeInvoiceId: invoice.id,
+        stripeSubscriptionId: (invoice.subscription as string | null) ?? undefined,
+        amount: invoice.amount_paid,
+        currency: invoice.currency,
+        status: "succeeded",
+        description: invoice.description || "Subscription payment",
+      });
 
-          // Cancel any scheduled revocations since payment succeeded
-          await ctx.runMutation(internal.payments.internal_cancelScheduledRevocation, {
-            stripeCustomerId: invoice.customer as string,
-          });
+      if (invoice.subscription) {
+        // IPTV lines renew from the subscription.updated that follows
+        if (isIptvOnlyInvoice(invoice)) break;
 
-          // Also update payment status to active
-          await ctx.runMutation(internal.payments.internal_updatePaymentStatus, {
-            stripeCustomerId: invoice.customer as string,
-            stripeSubscriptionId: invoice.subscription as string,
-            paymentStatus: "active",
-          });
-        }
-        break;
-      }
+        // Cancel any scheduled revocations since payment succeeded
+        await ctx.runMutation(internal.payments.internal_cancelScheduledRevocation, {
+          stripeCustomerId: invoice.customer as string,
+        });
 
-      case "invoice.payment_failed": {
-        const invoice = event.data.object as Stripe.Invoice;
-        await ctx.runMutation(internal.payments.internal_updatePaymentStatus, {
+        // Stop the dunning emails still waiting to go out
+        await ctx.runMutation(internal.dunning.internalStopDunning, {
           stripeCustomerId: invoice.customer as string,
-          paymentStatus: "past_due",
         });
-        
-        // Schedule access revocation after grace period
-        await ctx.runMutation(internal.payments.internal_scheduleAccessRevocation, {
+
+        // Also update payment status to active
+        const periodEnd = invoice.lines.data[0]?.period?.end;
+        await ctx.runMutation(internal.payments.internal_updatePaymentStatus, {
           stripeCustomerId: invoice.customer as string,
-          reason: "Payment failed",
-          gracePeriodDays: 3, // Give 3 days before revoking
+          stripeSubscriptionId: invoice.subscription as string,
+          paymentStatus: "active",
+          paymentExpiresAt: periodEnd ? periodEnd * 1000 : undefined,
         });
-        break;
       }
+      break;
+    }
+
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      if (isIptvOnlyInvoice(invoice)) break;
+
+      await ctx.runMutation(internal.payments.internal_updatePaymentStatus, {
+        stripeCustomerId: invoice.customer as string,
+        paymentStatus: "past_due",
+      });
+      
+      // Email the user on the dunning schedule and revoke access when the grace period ends
+      await ctx.runMutation(internal.dunning.internalStartDunning, {
+        stripeCustomerId: invoice.customer as string,
+        stripeInvoiceId: invoice.id,
+        amount: invoice.amount_due,
+        currency: invoice.currency,
+      });
+      break;
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object as Stripe.Charge;
+      if (!charge.customer) break;
+
+      // Each refund raises the charge's refunded total; the difference is this refund
+      const previous = event.data.previous_attributes as Partial<Stripe.Charge> | undefined;
+      await ctx.runMutation(internal.reversals.internalRecord, {
+        kind: "refund",
+        stripePaymentId: `${charge.id}:refund:${charge.amount_refunded}`,
+        stripeCustomerId: idOf(charge.customer),
+        chargeId: charge.id,
+        invoiceId: charge.invoice ? idOf(charge.invoice) : undefined,
+        amount: charge.amount_refunded - (previous?.amount_refunded ?? 0),
+        currency: charge.currency,
+        status: charge.refunded ? "refunded" : "partially_refunded",
+        reason: charge.refunds?.data[0]?.reason ?? undefined,
+      });
+      break;
+    }
+
+    case "charge.dispute.created": {
+      const dispute = event.data.object as Stripe.Dispute;
+      // Disputes don't carry the customer; their charge does
+      const charge = typeof dispute.charge === "string" ? await stripe.charges.retrieve(dispute.charge) : dispute.charge;
+      if (!charge.customer) break;
+
+      await ctx.runMutation(internal.reversals.internalRecord, {
+        kind: "dispute",
+        stripePaymentId: dispute.id,
+        stripeCustomerId: idOf(charge.customer),
+        chargeId: charge.id,
+        invoiceId: charge.invoice ? idOf(charge.invoice) : undefined,
+        amount: dispute.amount,
+        currency: dispute.currency,
+        status: dispute.status,
+        reason: dispute.reason,
+      });
+      break;
+    }
+
+    case "customer.subscription.paused": {
+      const subscription = event.data.object as Stripe.Subscription;
+      await ctx.runMutation(internal.reversals.internalRecord, {
+        kind: "pause",
+        stripePaymentId: event.id,
+        stripeCustomerId: customerIdOf(subscription),
+        amount: 0,
+        currency: subscription.currency,
+        status: "paused",
+      });
+      break;
+    }
+
+    case "customer.subscription.resumed": {
+      const subscription = event.data.object as Stripe.Subscription;
+      await ctx.runMutation(internal.reversals.internalResume, {
+        stripeCustomerId: customerIdOf(subscription),
+      });
+      break;
     }
+  }
+}
 
-    return new Response("OK", { status: 200 });
+// Events the handler acts on; fetching a date range asks Stripe for only these
+const HANDLED_EVENT_TYPES = [
+  "checkout.session.completed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.paid",
+  "invoice.payment_failed",
+  "charge.refunded",
+  "charge.dispute.created",
+  "customer.subscription.paused",
+  "customer.subscription.resumed",
+] as const;
+
+// Handle an event once: the event store skips ids already processed (unless forced) or in flight
+async function processEvent(
+  ctx: ActionCtx,
+  stripe: Stripe,
+  event: Stripe.Event,
+  source: "convex" | "next" | "replay" | "backfill",
+  force = false
+): Promise<"processed" | "skipped" | "in_progress" | "failed"> {
+  const claim = await ctx.runMutation(internal.stripeEvents.internalBegin, {
+    eventId: event.id,
+    type: event.type,
+    payload: JSON.stringify(event),
+    stripeCreatedAt: event.created * 1000,
+    source,
+    force,
+  });
+  if (!claim.process) {
+    return claim.status === "processed" ? "skipped" : "in_progress";
+  }
+
+  try {
+    await handleEvent(ctx, stripe, event);
   } catch (error) {
-    console.error("Webhook handler error:", error);
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, error);
+    await ctx.runMutation(internal.stripeEvents.internalFinish, {
+      eventId: event.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return "failed";
+  }
+
+  await ctx.runMutation(internal.stripeEvents.internalFinish, { eventId: event.id });
+  return "processed";
+}
+
+// Handle Stripe webhooks
+export const webhook = httpAction(async (ctx, request) => {
+  const stripe = getStripe();
+  const signature = request.headers.get("stripe-signature");
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!signature || !webhookSecret) {
+    return new Response("Missing signature or webhook secret", { status: 400 });
+  }
+
+  const body = await request.text();
+
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(body, signature, webhookSecret);
+  } catch (err) {
+    console.error("Webhook signature verification failed:", err);
+    return new Response("Invalid signature", { status: 400 });
+  }
+
+  const outcome = await processEvent(ctx, stripe, event, "convex");
+  if (outcome === "failed") {
     return new Response("Webhook handler failed", { status: 500 });
   }
+  // Stripe retries non-2xx responses, by which time the other delivery has finished
+  if (outcome === "in_progress") {
+    return new Response("Event is already being handled", { status: 409 });
+  }
+  return new Response("OK", { status: 200 });
+});
+
+// Handle an event the Next.js webhook route verified, through the same handler as deliveries here
+// and replays, so an event behaves the same whichever endpoint Stripe sent it to
+export const handleVerifiedEvent = httpAction(async (ctx, request) => {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
+  const event = JSON.parse(await request.text()) as Stripe.Event;
+  const outcome = await processEvent(ctx, getStripe(), event, "next");
+  const status = outcome === "failed" ? 500 : outcome === "in_progress" ? 409 : 200;
+  return new Response(JSON.stringify({ outcome }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+});
+
+// Handle a stored event again (admin replay)
+export const replayEvent = internalAction({
+  args: { eventId: v.string() },
+  handler: async (ctx, args): Promise<string> => {
+    const payload: string | null = await ctx.runQuery(internal.stripeEvents.internalGetPayload, {
+      eventId: args.eventId,
+    });
+    if (!payload) throw new Error(`Stripe event ${args.eventId} is not stored`);
+    return await processEvent(ctx, getStripe(), JSON.parse(payload) as Stripe.Event, "replay", true);
+  },
+});
+
+// Fetch the events Stripe sent in a date range and handle the ones never processed, oldest first
+export const replayRange = internalAction({
+  args: {
+    from: v.number(),
+    to: v.number(),
+    actorId: v.string(),
+    actorEmail: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ fetched: number; processed: number; skipped: number; failed: number; error?: string }> => {
+    const counts = { fetched: 0, processed: 0, skipped: 0, failed: 0 };
+    let error: string | undefined;
+
+    try {
+      const stripe = getStripe();
+      const events: Stripe.Event[] = [];
+      for await (const event of stripe.events.list({
+        created: { gte: Math.floor(args.from / 1000), lte: Math.floor(args.to / 1000) },
+        types: [...HANDLED_EVENT_TYPES],
+        limit: 100,
+      })) {
+        events.push(event);
+      }
+      counts.fetched = events.length;
+
+      // Stripe lists newest first
+      for (const event of events.reverse()) {
+        const outcome = await processEvent(ctx, stripe, event, "backfill");
+        if (outcome === "processed") counts.processed++;
+        else if (outcome === "failed") counts.failed++;
+        else counts.skipped++;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      console.error("Stripe event fetch failed:", err);
+    }
+
+    await ctx.runMutation(internal.stripeEvents.internalLogFetch, { ...args, ...counts, error });
+    return { ...counts, error };
+  },
 });
 
 // Sync subscriptions from Stripe
 export const syncSubscriptions = httpAction(async (ctx, request) => {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
   try {
     const stripe = getStripe();
     
@@ -300,15 +734,21 @@ export const syncSubscriptions = httpAction(async (ctx, request) => {
       }
 
       try {
-        await ctx.runMutation(internal.payments.internal_syncStripeSubscription, {
-          userEmail: customer.email,
-          stripeCustomerId: customer.id,
-          stripeSubscriptionId: subscription.id,
-          subscriptionStatus: subscription.status,
-          currentPeriodEnd: subscription.current_period_end * 1000,
-          priceId: subscription.items.data[0]?.price?.id,
-          productId: subscription.items.data[0]?.price?.product as string,
-        });
+        const iptv = await applyIptvPrices(ctx, subscription);
+        const item = mediaItem(subscription, iptv.iptvPriceIds);
+
+        if (!iptv.iptvOnly) {
+          await ctx.runMutation(internal.payments.internal_syncStripeSubscription, {
+            userEmail: customer.email,
+            stripeCustomerId: customer.id,
+            stripeSubscriptionId: subscription.id,
+            subscriptionStatus: subscription.status,
+            currentPeriodEnd: subscription.current_period_end * 1000,
+            priceId: item?.price?.id,
+            productId: item?.price?.product as string,
+            ...priceDetails(item),
+          });
+        }
         results.push({ email: customer.email, status: subscription.status, synced: true });
       } catch (error) {
         results.push({
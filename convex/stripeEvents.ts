@@ -0,0 +1,239 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { requireAdmin } from "./auth";
+
+// A delivery still "processing" after this long died mid-run and may be picked up again
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// Stripe keeps events for 30 days
+const EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const statusValidator = v.union(v.literal("processing"), v.literal("processed"), v.literal("failed"));
+const sourceValidator = v.union(v.literal("convex"), v.literal("next"), v.literal("replay"), v.literal("backfill"));
+
+const beginArgs = {
+  eventId: v.string(),
+  type: v.string(),
+  payload: v.string(),
+  stripeCreatedAt: v.number(),
+  source: sourceValidator,
+  // Replays run events that were already processed
+  force: v.optional(v.boolean()),
+};
+
+async function getEvent(ctx: any, eventId: string): Promise<Doc<"stripeEvents"> | null> {
+  return await ctx.db
+    .query("stripeEvents")
+    .withIndex("by_event_id", (q: any) => q.eq("eventId", eventId))
+    .first();
+}
+
+// Claim an event for handling: store it the first time, and refuse ids already handled or in flight
+async function beginEvent(
+  ctx: any,
+  args: {
+    eventId: string;
+    type: string;
+    payload: string;
+    stripeCreatedAt: number;
+    source: Doc<"stripeEvents">["source"];
+    force?: boolean;
+  }
+): Promise<{ process: true } | { process: false; status: "processed" | "processing" }> {
+  const now = Date.now();
+  const existing = await getEvent(ctx, args.eventId);
+
+  if (!existing) {
+    await ctx.db.insert("stripeEvents", {
+      eventId: args.eventId,
+      type: args.type,
+      payload: args.payload,
+      status: "processing",
+      attempts: 1,
+      source: args.source,
+      stripeCreatedAt: args.stripeCreatedAt,
+      receivedAt: now,
+      updatedAt: now,
+    });
+    return { process: true };
+  }
+
+  if (existing.status === "processing" && now - existing.updatedAt < STALE_PROCESSING_MS) {
+    return { process: false, status: "processing" };
+  }
+  if (existing.status === "processed" && !args.force) {
+    return { process: false, status: "processed" };
+  }
+
+  await ctx.db.patch(existing._id, {
+    status: "processing",
+    attempts: existing.attempts + 1,
+    source: args.source,
+    updatedAt: now,
+  });
+  return { process: true };
+}
+
+async function finishEvent(ctx: any, args: { eventId: string; error?: string }) {
+  const existing = await getEvent(ctx, args.eventId);
+  if (!existing) return;
+
+  const now = Date.now();
+  await ctx.db.patch(existing._id, {
+    status: args.error ? "failed" : "processed",
+    error: args.error,
+    processedAt: args.error ? existing.processedAt : now,
+    updatedAt: now,
+  });
+}
+
+export const internalBegin = internalMutation({
+  args: beginArgs,
+  handler: async (ctx, args) => {
+    return await beginEvent(ctx, args);
+  },
+});
+
+export const internalFinish = internalMutation({
+  args: { eventId: v.string(), error: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await finishEvent(ctx, args);
+  },
+});
+
+// The stored event to replay
+export const internalGetPayload = internalQuery({
+  args: { eventId: v.string() },
+  handler: async (ctx, args) => {
+    return (await getEvent(ctx, args.eventId))?.payload ?? null;
+  },
+});
+
+// Log what fetching a date range from Stripe did
+export const internalLogFetch = internalMutation({
+  args: {
+    actorId: v.string(),
+    actorEmail: v.optional(v.string()),
+    from: v.number(),
+    to: v.number(),
+    fetched: v.number(),
+    processed: v.number(),
+    skipped: v.number(),
+    failed: v.number(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, { actorId, actorEmail, ...details }) => {
+    await ctx.db.insert("auditLog", {
+      action: "stripe_events_fetched",
+      actorId,
+      actorEmail,
+      targetType: "stripeEvents",
+      details: JSON.stringify({
+        ...details,
+        from: new Date(details.from).toISOString(),
+        to: new Date(details.to).toISOString(),
+      }),
+      timestamp: Date.now(),
+    });
+  },
+});
+
+// Stored events, newest first, without their payloads (admin)
+export const list = query({
+  args: {
+    status: v.optional(statusValidator),
+    type: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const limit = Math.min(Math.max(args.limit ?? 100, 1), 500);
+    const base = args.status
+      ? ctx.db.query("stripeEvents").withIndex("by_status", (q) => q.eq("status", args.status!))
+      : ctx.db.query("stripeEvents").withIndex("by_received");
+
+    const events = await base
+      .order("desc")
+      .filter((q) => (args.type ? q.eq(q.field("type"), args.type) : true))
+      .take(limit);
+
+    return events.map(({ payload: _payload, ...event }) => event);
+  },
+});
+
+// Number of events that failed and haven't been handled since (admin)
+export const getFailedCount = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const failed = await ctx.db
+      .query("stripeEvents")
+      .withIndex("by_status", (q) => q.eq("status", "failed"))
+      .collect();
+    return failed.length;
+  },
+});
+
+// One stored event with its payload (admin)
+export const get = query({
+  args: { id: v.id("stripeEvents") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const event = await ctx.db.get(args.id);
+    if (!event) return null;
+
+    let payload: unknown = event.payload;
+    try {
+      payload = JSON.parse(event.payload);
+    } catch {
+      // Shown as stored
+    }
+    return { ...event, payload };
+  },
+});
+
+// Handle a stored event again, even if it was processed (admin)
+export const replay = mutation({
+  args: { id: v.id("stripeEvents") },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    const event = await ctx.db.get(args.id);
+    if (!event) throw new Error("Event not found");
+    if (event.status === "processing" && Date.now() - event.updatedAt < STALE_PROCESSING_MS) {
+      throw new Error("This event is being handled right now");
+    }
+
+    await ctx.db.insert("auditLog", {
+      action: "stripe_event_replayed",
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+      targetType: "stripeEvent",
+      targetId: event.eventId,
+      details: JSON.stringify({ type: event.type, previousStatus: event.status }),
+      timestamp: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.stripe.replayEvent, { eventId: event.eventId });
+  },
+});
+
+// Fetch the events Stripe sent in a date range and handle any that weren't processed (admin)
+export const fetchRange = mutation({
+  args: { from: v.number(), to: v.number() },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+    // Older events are gone from Stripe
+    const from = Math.max(args.from, Date.now() - EVENT_RETENTION_MS);
+    if (from >= args.to) throw new Error("Pick a range within the last 30 days");
+
+    await ctx.scheduler.runAfter(0, internal.stripe.replayRange, {
+      from,
+      to: args.to,
+      actorId: admin.clerkId,
+      actorEmail: admin.email,
+    });
+  },
+});
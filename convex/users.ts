@@ -1,5 +1,14 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import {
+  requireAdmin,
+  requireAdminOrInternal,
+  requireInternalKey,
+  requireSelfOrInternal,
+  requireUser,
+} from "./auth";
+import { emitWebhookEvent } from "./webhooks";
+import { WebhookEvents } from "../lib/webhooks";
 
 // List all users
 export const list = query({
@@ -7,6 +16,8 @@ export const list = query({
     activeOnly: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const users = args.activeOnly
       ? await ctx.db
           .query("users")
@@ -18,26 +29,31 @@ export const list = query({
   },
 });
 
-// Get user by Clerk ID
+// Get user by Clerk ID (defaults to the signed-in user)
 export const getByClerkId = query({
-  args: { clerkId: v.string() },
+  args: { clerkId: v.optional(v.string()), internalKey: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const clerkId = await requireSelfOrInternal(ctx, args.clerkId, args.internalKey);
+    if (!clerkId) return null;
+
     return await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
       .first();
   },
 });
 
-// Ensure a user record exists (self-service friendly)
+// Ensure a record exists for the signed-in user (self-service friendly)
 export const ensure = mutation({
   args: {
-    clerkId: v.string(),
-    email: v.string(),
     username: v.string(),
   },
   handler: async (ctx, args) => {
-    const normalizedEmail = args.email.trim().toLowerCase();
+    const caller = await requireUser(ctx);
+    if (!caller.email) {
+      throw new Error("Your account has no email address");
+    }
+    const normalizedEmail = caller.email.trim().toLowerCase();
 
     const donation = await ctx.db
       .query("donations")
@@ -46,7 +62,7 @@ export const ensure = mutation({
 
     const existing = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
 
     if (existing) {
@@ -67,8 +83,8 @@ export const ensure = mutation({
       return existing._id;
     }
 
-    return await ctx.db.insert("users", {
-      clerkId: args.clerkId,
+    const userId = await ctx.db.insert("users", {
+      clerkId: caller.clerkId,
       email: normalizedEmail,
       username: args.username,
       serverAccess: "none",
@@ -77,24 +93,35 @@ export const ensure = mutation({
       createdAt: Date.now(),
       lastSeen: Date.now(),
     });
+
+    await emitWebhookEvent(ctx, WebhookEvents.USER_CREATED, {
+      userId,
+      clerkId: caller.clerkId,
+      email: normalizedEmail,
+      username: args.username,
+    });
+
+    return userId;
   },
 });
 
 // Get user by ID
 export const getById = query({
-  args: { id: v.id("users") },
+  args: { id: v.id("users"), internalKey: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    await requireAdminOrInternal(ctx, args.internalKey);
     return await ctx.db.get(args.id);
   },
 });
 
-// Update user's last seen
+// Update the signed-in user's last seen
 export const updateLastSeen = mutation({
-  args: { clerkId: v.string() },
-  handler: async (ctx, args) => {
+  args: {},
+  handler: async (ctx) => {
+    const caller = await requireUser(ctx);
     const user = await ctx.db
       .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", caller.clerkId))
       .first();
 
     if (user) {
@@ -107,27 +134,35 @@ export const updateLastSeen = mutation({
 export const revoke = mutation({
   args: {
     id: v.id("users"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     const user = await ctx.db.get(args.id);
     if (!user) throw new Error("User not found");
 
     await ctx.db.patch(args.id, {
       isActive: false,
       revokedAt: Date.now(),
-      revokedBy: args.adminId,
+      revokedBy: admin.clerkId,
     });
 
     await ctx.db.insert("auditLog", {
       action: "user_revoked",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "user",
       targetId: args.id,
       details: JSON.stringify({ email: user.email, username: user.username }),
       timestamp: Date.now(),
     });
 
+    await emitWebhookEvent(ctx, WebhookEvents.USER_REVOKED, {
+      userId: args.id,
+      clerkId: user.clerkId,
+      email: user.email,
+      username: user.username,
+    });
+
     return user;
   },
 });
@@ -136,9 +171,10 @@ export const revoke = mutation({
 export const restore = mutation({
   args: {
     id: v.id("users"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     const user = await ctx.db.get(args.id);
     if (!user) throw new Error("User not found");
 
@@ -150,13 +186,20 @@ export const restore = mutation({
 
     await ctx.db.insert("auditLog", {
       action: "user_restored",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "user",
       targetId: args.id,
       details: JSON.stringify({ email: user.email, username: user.username }),
       timestamp: Date.now(),
     });
 
+    await emitWebhookEvent(ctx, WebhookEvents.USER_RESTORED, {
+      userId: args.id,
+      clerkId: user.clerkId,
+      email: user.email,
+      username: user.username,
+    });
+
     return user;
   },
 });
@@ -165,9 +208,10 @@ export const restore = mutation({
 export const remove = mutation({
   args: {
     id: v.id("users"),
-    adminId: v.string(),
   },
   handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
     const user = await ctx.db.get(args.id);
     if (!user) throw new Error("User not found");
 
@@ -185,17 +229,26 @@ export const remove = mutation({
 
     await ctx.db.insert("auditLog", {
       action: "user_deleted",
-      actorId: args.adminId,
+      actorId: admin.clerkId,
       targetType: "user",
       details: JSON.stringify({ email: user.email, username: user.username }),
       timestamp: Date.now(),
     });
+
+    await emitWebhookEvent(ctx, WebhookEvents.USER_DELETED, {
+      userId: args.id,
+      clerkId: user.clerkId,
+      email: user.email,
+      username: user.username,
+    });
   },
 });
 
 // Get user statistics
 export const getStats = query({
   handler: async (ctx) => {
+    await requireAdmin(ctx);
+
     const allUsers = await ctx.db.query("users").collect();
     const activeUsers = allUsers.filter((u) => u.isActive);
     const plexUsers = allUsers.filter(
@@ -204,6 +257,9 @@ export const getStats = query({
     const embyUsers = allUsers.filter(
       (u) => u.serverAccess === "emby" || u.serverAccess === "both"
     );
+    const jellyfinUsers = allUsers.filter(
+      (u) => u.serverAccess === "jellyfin" || !!u.jellyfinUserId
+    );
 
     // Recent signups (last 7 days)
     const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
@@ -215,6 +271,7 @@ export const getStats = query({
       revokedUsers: allUsers.length - activeUsers.length,
       plexUsers: plexUsers.length,
       embyUsers: embyUsers.length,
+      jellyfinUsers: jellyfinUsers.length,
       recentSignups: recentSignups.length,
     };
   },
@@ -224,6 +281,8 @@ export const getStats = query({
 export const search = query({
   args: { query: v.string() },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
     const allUsers = await ctx.db.query("users").collect();
     const searchLower = args.query.toLowerCase();
 
@@ -233,6 +292,7 @@ export const search = query({
         user.username.toLowerCase().includes(searchLower) ||
         user.plexUsername?.toLowerCase().includes(searchLower) ||
         user.embyUsername?.toLowerCase().includes(searchLower) ||
+        user.jellyfinUsername?.toLowerCase().includes(searchLower) ||
         user.inviteCode?.toLowerCase().includes(searchLower)
     );
   },
@@ -244,8 +304,11 @@ export const createFromWebhook = mutation({
     clerkId: v.string(),
     email: v.string(),
     username: v.string(),
+    internalKey: v.string(),
   },
   handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
     // Keep webhook behavior aligned with self-service: always ensure a record exists.
     const id = await ctx.db
       .query("users")
@@ -261,7 +324,7 @@ export const createFromWebhook = mutation({
       return id._id;
     }
 
-    return await ctx.db.insert("users", {
+    const userId = await ctx.db.insert("users", {
       clerkId: args.clerkId,
       email: args.email,
       username: args.username,
@@ -271,23 +334,37 @@ export const createFromWebhook = mutation({
       createdAt: Date.now(),
       lastSeen: Date.now(),
     });
+
+    await emitWebhookEvent(ctx, WebhookEvents.USER_CREATED, {
+      userId,
+      clerkId: args.clerkId,
+      email: args.email,
+      username: args.username,
+    });
+
+    return userId;
   },
 });
 
-// Link an existing Plex/Emby account to a Clerk user
+// Link an existing Plex/Emby account to a Clerk user (server-side routes only, after they find the account)
 export const linkExistingAccount = mutation({
   args: {
     clerkId: v.string(),
     email: v.string(),
     username: v.string(),
-    serverAccess: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("none")),
+    serverAccess: v.union(v.literal("plex"), v.literal("emby"), v.literal("both"), v.literal("jellyfin"), v.literal("none")),
     embyUserId: v.optional(v.string()),
     embyUsername: v.optional(v.string()),
     plexUserId: v.optional(v.string()),
     plexUsername: v.optional(v.string()),
     plexEmail: v.optional(v.string()),
+    jellyfinUserId: v.optional(v.string()),
+    jellyfinUsername: v.optional(v.string()),
+    internalKey: v.string(),
   },
   handler: async (ctx, args) => {
+    requireInternalKey(args.internalKey);
+
     // Check if user already exists
     const existingUser = await ctx.db
       .query("users")
@@ -303,6 +380,8 @@ export const linkExistingAccount = mutation({
         plexUserId: args.plexUserId,
         plexUsername: args.plexUsername,
         plexEmail: args.plexEmail,
+        jellyfinUserId: args.jellyfinUserId,
+        jellyfinUsername: args.jellyfinUsername,
         isAutoLinked: true,
       });
 
@@ -316,6 +395,7 @@ export const linkExistingAccount = mutation({
           serverAccess: args.serverAccess,
           embyUsername: args.embyUsername,
           plexUsername: args.plexUsername,
+          jellyfinUsername: args.jellyfinUsername,
         }),
         timestamp: Date.now(),
       });
@@ -334,6 +414,8 @@ export const linkExistingAccount = mutation({
       plexUserId: args.plexUserId,
       plexUsername: args.plexUsername,
       plexEmail: args.plexEmail,
+      jellyfinUserId: args.jellyfinUserId,
+      jellyfinUsername: args.jellyfinUsername,
       isActive: true,
       isAutoLinked: true,
       createdAt: Date.now(),
@@ -349,6 +431,7 @@ export const linkExistingAccount = mutation({
         serverAccess: args.serverAccess,
         embyUsername: args.embyUsername,
         plexUsername: args.plexUsername,
+        jellyfinUsername: args.jellyfinUsername,
       }),
       timestamp: Date.now(),
     });
@@ -359,8 +442,9 @@ export const linkExistingAccount = mutation({
 
 // Get user by email
 export const getByEmail = query({
-  args: { email: v.string() },
+  args: { email: v.string(), internalKey: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    await requireAdminOrInternal(ctx, args.internalKey);
     return await ctx.db
       .query("users")
       .withIndex("by_email", (q) => q.eq("email", args.email))
@@ -375,8 +459,10 @@ export const updateAccessStatus = mutation({
     isActive: v.boolean(),
     accessRevokedAt: v.optional(v.number()),
     accessRevokedReason: v.optional(v.string()),
+    internalKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const actorId = await requireAdminOrInternal(ctx, args.internalKey);
     const user = await ctx.db.get(args.id);
     if (!user) throw new Error("User not found");
 
@@ -388,7 +474,7 @@ export const updateAccessStatus = mutation({
 
     await ctx.db.insert("auditLog", {
       action: args.isActive ? "access_restored" : "access_revoked",
-      actorId: "system",
+      actorId,
       targetType: "user",
       targetId: args.id,
       details: JSON.stringify({ 
@@ -398,13 +484,28 @@ export const updateAccessStatus = mutation({
       timestamp: Date.now(),
     });
 
+    await emitWebhookEvent(
+      ctx,
+      args.isActive ? WebhookEvents.USER_RESTORED : WebhookEvents.USER_REVOKED,
+      {
+        userId: args.id,
+        clerkId: user.clerkId,
+        email: user.email,
+        username: user.username,
+        reason: args.accessRevokedReason,
+      }
+    );
+
     return user;
   },
 });
 
 // Get users with expired payment (past_due, canceled, or expired paymentExpiresAt)
 export const getExpiredPaymentUsers = query({
-  handler: async (ctx) => {
+  args: { internalKey: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAdminOrInternal(ctx, args.internalKey);
+
     const now = Date.now();
     const allUsers = await ctx.db.query("users").collect();
     
@@ -0,0 +1,169 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireAdmin } from "./auth";
+import { insertJob } from "./jobs";
+import { getSecretSetting } from "./secrets";
+import { SETTINGS_KEYS } from "../lib/constants";
+import { signWebhookBody, type WebhookPayload } from "../lib/webhooks";
+
+async function getSetting(ctx: any, key: string): Promise<string | null> {
+  const s = await ctx.db
+    .query("settings")
+    .withIndex("by_key", (q: any) => q.eq("key", key))
+    .first();
+  return s?.value ?? null;
+}
+
+async function enqueueDelivery(ctx: any, payload: WebhookPayload) {
+  return await insertJob(ctx, { type: "webhook.deliver", payload, maxAttempts: 8 });
+}
+
+/**
+ * Queue a webhook event for delivery. Call from inside a mutation; does
+ * nothing when no webhook URL is configured.
+ */
+export async function emitWebhookEvent(
+  ctx: any,
+  event: string,
+  data: Record<string, any>
+) {
+  const webhookUrl = await getSetting(ctx, SETTINGS_KEYS.WEBHOOK_URL);
+  if (!webhookUrl) return null;
+
+  return await enqueueDelivery(ctx, {
+    id: crypto.randomUUID(),
+    event,
+    timestamp: new Date().toISOString(),
+    data,
+  });
+}
+
+// Queue a previously attempted delivery again (admin)
+export const redeliver = mutation({
+  args: {
+    logId: v.id("webhookLogs"),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx);
+
+    const log = await ctx.db.get(args.logId);
+    if (!log) throw new Error("Webhook delivery not found");
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(log.payload);
+    } catch {
+      throw new Error("Stored payload is not valid JSON");
+    }
+
+    // Keep the original delivery id so receivers can de-duplicate
+    const jobId = await enqueueDelivery(ctx, {
+      ...payload,
+      id: payload.id ?? log.deliveryId ?? crypto.randomUUID(),
+    });
+
+    await ctx.db.insert("auditLog", {
+      action: "webhook_redelivered",
+      actorId: admin.clerkId,
+      targetType: "webhook",
+      targetId: log.deliveryId,
+      details: JSON.stringify({ event: log.event, logId: args.logId }),
+      timestamp: Date.now(),
+    });
+
+    return jobId;
+  },
+});
+
+export const internalGetWebhookConfig = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    return {
+      url: await getSetting(ctx, SETTINGS_KEYS.WEBHOOK_URL),
+      secret: await getSecretSetting(ctx, SETTINGS_KEYS.WEBHOOK_SECRET),
+    };
+  },
+});
+
+export const internalLogDelivery = internalMutation({
+  args: {
+    webhookUrl: v.string(),
+    event: v.string(),
+    payload: v.string(),
+    status: v.union(v.literal("success"), v.literal("failed")),
+    responseCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    deliveryId: v.optional(v.string()),
+    jobId: v.optional(v.id("jobs")),
+    attempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("webhookLogs", {
+      ...args,
+      timestamp: Date.now(),
+    });
+  },
+});
+
+// Deliver one webhook (run by the jobs queue; throwing schedules a retry)
+export const actionDeliver = internalAction({
+  args: {
+    payload: v.any(),
+    jobId: v.optional(v.id("jobs")),
+    attempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const config = await ctx.runQuery(internal.webhooks.internalGetWebhookConfig, {});
+    if (!config.url) {
+      throw new Error("CONFIG_MISSING: Webhook URL not configured");
+    }
+
+    const payload = args.payload as WebhookPayload;
+    const body = JSON.stringify(payload);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Webhook-Event": payload.event,
+    };
+    if (payload.id) {
+      headers["X-Webhook-Id"] = payload.id;
+    }
+    if (config.secret) {
+      headers["X-Webhook-Signature"] = await signWebhookBody(body, config.secret);
+    }
+
+    let responseCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers,
+        body,
+      });
+      responseCode = response.status;
+      if (!response.ok) {
+        error = (await response.text()).slice(0, 500) || `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Failed to send webhook";
+    }
+
+    await ctx.runMutation(internal.webhooks.internalLogDelivery, {
+      webhookUrl: config.url,
+      event: payload.event,
+      payload: body,
+      status: error ? "failed" : "success",
+      responseCode,
+      error,
+      deliveryId: payload.id,
+      jobId: args.jobId,
+      attempt: args.attempt,
+    });
+
+    if (error) {
+      throw new Error(`Webhook delivery failed: ${error}`);
+    }
+  },
+});
@@ -15,16 +15,14 @@ export function useAdminCheck(options: UseAdminCheckOptions = {}) {
   const { user, isLoaded: userLoaded } = useUser();
   const router = useRouter();
 
-  const email = user?.emailAddresses[0]?.emailAddress;
-
   const isAdmin = useQuery(
     api.admins.isAdmin,
-    user?.id ? { clerkId: user.id, email } : "skip"
+    user?.id ? {} : "skip"
   );
 
   const adminRecord = useQuery(
     api.admins.getByClerkId,
-    user?.id ? { clerkId: user.id, email } : "skip"
+    user?.id ? {} : "skip"
   );
 
   const isLoading = !userLoaded || isAdmin === undefined;
@@ -51,11 +49,9 @@ export function useUserCheck(options: { redirectTo?: string } = {}) {
   const { user, isLoaded: userLoaded } = useUser();
   const router = useRouter();
 
-  const email = user?.emailAddresses[0]?.emailAddress;
-
   const isAdmin = useQuery(
     api.admins.isAdmin,
-    user?.id ? { clerkId: user.id, email } : "skip"
+    user?.id ? {} : "skip"
   );
 
   const isLoading = !userLoaded || isAdmin === undefined;
@@ -5,7 +5,14 @@
 
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
-import { SETTINGS_KEYS } from "@/lib/constants";
+import { Id } from "@/convex/_generated/dataModel";
+import { SECRET_PLACEHOLDER, SETTINGS_KEYS } from "@/lib/constants";
+import {
+  parseXtremePanelProfile,
+  type IptvPanelConfig,
+  type IptvProviderId,
+  type XtremePanelProfile,
+} from "@/lib/iptv";
 
 // Create a Convex HTTP client for server-side use
 function getConvexClient() {
@@ -25,10 +32,26 @@ export interface AppConfig {
     url: string;
     apiKey: string;
   };
+  jellyfin: {
+    url: string;
+    apiKey: string;
+  };
   xtremeUi: {
     url: string;
     apiKey: string;
     streamBaseUrl: string; // Added streamBaseUrl
+    profile: XtremePanelProfile | null;
+  };
+  xuiOne: {
+    url: string;
+    apiKey: string;
+    streamBaseUrl: string;
+  };
+  stalker: {
+    url: string;
+    apiUser: string;
+    apiPassword: string;
+    portalUrl: string;
   };
   smtp: {
     host: string;
@@ -45,12 +68,24 @@ export interface AppConfig {
   };
 }
 
+export type MediaServerType = "plex" | "emby" | "jellyfin";
+
+export interface MediaServerConfig {
+  id: Id<"servers"> | null; // null for the legacy single-server settings
+  type: MediaServerType;
+  name: string;
+  url: string;
+  credential: string; // Plex token or Emby/Jellyfin API key
+}
+
 /**
  * Fetch all settings from Convex database
  */
 export async function getAppConfig(): Promise<AppConfig> {
   const client = getConvexClient();
-  const settings = await client.query(api.settings.getAll);
+  const settings = await client.query(api.settings.getAllForServer, {
+    internalKey: process.env.INTERNAL_API_KEY!,
+  });
 
   const deriveOrigin = (raw: string) => {
     try {
@@ -70,6 +105,10 @@ export async function getAppConfig(): Promise<AppConfig> {
       url: settings[SETTINGS_KEYS.EMBY_URL] || "",
       apiKey: settings[SETTINGS_KEYS.EMBY_API_KEY] || "",
     },
+    jellyfin: {
+      url: settings[SETTINGS_KEYS.JELLYFIN_URL] || "",
+      apiKey: settings[SETTINGS_KEYS.JELLYFIN_API_KEY] || "",
+    },
     xtremeUi: {
       url: settings[SETTINGS_KEYS.XTREME_UI_URL] || "",
       apiKey: settings[SETTINGS_KEYS.XTREME_UI_API_KEY] || "",
@@ -78,6 +117,24 @@ export async function getAppConfig(): Promise<AppConfig> {
         (settings[SETTINGS_KEYS.XTREME_UI_URL]
           ? deriveOrigin(settings[SETTINGS_KEYS.XTREME_UI_URL])
           : ""),
+      profile: parseXtremePanelProfile(settings[SETTINGS_KEYS.XTREME_UI_PROFILE]),
+    },
+    xuiOne: {
+      url: settings[SETTINGS_KEYS.XUI_ONE_URL] || "",
+      apiKey: settings[SETTINGS_KEYS.XUI_ONE_API_KEY] || "",
+      streamBaseUrl:
+        settings[SETTINGS_KEYS.XUI_ONE_STREAM_BASE_URL] ||
+        (settings[SETTINGS_KEYS.XUI_ONE_URL] ? deriveOrigin(settings[SETTINGS_KEYS.XUI_ONE_URL]) : ""),
+    },
+    stalker: {
+      url: settings[SETTINGS_KEYS.STALKER_API_URL] || "",
+      apiUser: settings[SETTINGS_KEYS.STALKER_API_USER] || "",
+      apiPassword: settings[SETTINGS_KEYS.STALKER_API_PASSWORD] || "",
+      portalUrl:
+        settings[SETTINGS_KEYS.STALKER_PORTAL_URL] ||
+        (settings[SETTINGS_KEYS.STALKER_API_URL]
+          ? `${deriveOrigin(settings[SETTINGS_KEYS.STALKER_API_URL])}/stalker_portal/c/`
+          : ""),
     },
     smtp: {
       host: settings[SETTINGS_KEYS.SMTP_HOST] || "",
@@ -96,19 +153,82 @@ export async function getAppConfig(): Promise<AppConfig> {
 }
 
 /**
- * Get Plex configuration
+ * Get the servers of a type to act on.
+ * With serverIds, returns those servers; otherwise only the default server.
+ * Falls back to the legacy settings when no servers of the type are registered.
  */
-export async function getPlexConfig() {
-  const config = await getAppConfig();
-  return config.plex;
+export async function getMediaServers(
+  type: MediaServerType,
+  serverIds?: string[]
+): Promise<MediaServerConfig[]> {
+  const client = getConvexClient();
+  const rows = await client.query(api.servers.getConnections, {
+    type,
+    internalKey: process.env.INTERNAL_API_KEY!,
+  });
+
+  if (rows.length === 0) {
+    const config = await getAppConfig();
+    const legacy =
+      type === "plex"
+        ? { url: config.plex.url, credential: config.plex.token }
+        : type === "emby"
+          ? { url: config.emby.url, credential: config.emby.apiKey }
+          : { url: config.jellyfin.url, credential: config.jellyfin.apiKey };
+
+    if (!legacy.url || !legacy.credential) return [];
+    return [{ id: null, type, name: "Default", ...legacy }];
+  }
+
+  const servers = rows.map((row) => ({
+    id: row._id,
+    type: row.type,
+    name: row.name,
+    url: row.url,
+    credential: row.credential,
+  }));
+
+  if (serverIds && serverIds.length > 0) {
+    return servers.filter((server) => serverIds.includes(server.id));
+  }
+
+  const defaultServer = rows.find((row) => row.isDefault) ?? rows[0];
+  return servers.filter((server) => server.id === defaultServer._id);
 }
 
 /**
- * Get Emby configuration
+ * Get a single server by ID, or the default server of the type
  */
-export async function getEmbyConfig() {
-  const config = await getAppConfig();
-  return config.emby;
+export async function getMediaServer(
+  type: MediaServerType,
+  serverId?: string | null
+): Promise<MediaServerConfig | null> {
+  const servers = await getMediaServers(type, serverId ? [serverId] : undefined);
+  return servers[0] ?? null;
+}
+
+/**
+ * Get Plex configuration (a specific server, or the default one)
+ */
+export async function getPlexConfig(serverId?: string | null) {
+  const server = await getMediaServer("plex", serverId);
+  return { url: server?.url || "", token: server?.credential || "" };
+}
+
+/**
+ * Get Emby configuration (a specific server, or the default one)
+ */
+export async function getEmbyConfig(serverId?: string | null) {
+  const server = await getMediaServer("emby", serverId);
+  return { url: server?.url || "", apiKey: server?.credential || "" };
+}
+
+/**
+ * Get Jellyfin configuration (a specific server, or the default one)
+ */
+export async function getJellyfinConfig(serverId?: string | null) {
+  const server = await getMediaServer("jellyfin", serverId);
+  return { url: server?.url || "", apiKey: server?.credential || "" };
 }
 
 /**
@@ -119,6 +239,43 @@ export async function getXtremeUiConfig() {
   return config.xtremeUi;
 }
 
+/**
+ * Get the panel connection for an IPTV provider, or null when it isn't set up
+ */
+export async function getIptvPanelConfig(provider: IptvProviderId): Promise<IptvPanelConfig | null> {
+  const config = await getAppConfig();
+  const panel: IptvPanelConfig =
+    provider === "xuione"
+      ? { apiUrl: config.xuiOne.url, apiKey: config.xuiOne.apiKey, streamBaseUrl: config.xuiOne.streamBaseUrl }
+      : provider === "stalker"
+        ? {
+            apiUrl: config.stalker.url,
+            apiUser: config.stalker.apiUser,
+            apiKey: config.stalker.apiPassword,
+            streamBaseUrl: config.stalker.portalUrl,
+          }
+        : {
+            apiUrl: config.xtremeUi.url,
+            apiKey: config.xtremeUi.apiKey,
+            streamBaseUrl: config.xtremeUi.streamBaseUrl,
+            profile: config.xtremeUi.profile,
+          };
+
+  return panel.apiUrl ? panel : null;
+}
+
+/**
+ * Store a probed Xtreme UI panel profile. Ignored unless it was probed
+ * against the saved panel URL; returns whether it was stored.
+ */
+export async function saveXtremePanelProfile(profile: XtremePanelProfile): Promise<boolean> {
+  const client = getConvexClient();
+  return await client.mutation(api.iptv.savePanelProfile, {
+    internalKey: process.env.INTERNAL_API_KEY!,
+    profile: JSON.stringify(profile),
+  });
+}
+
 /**
  * Get SMTP configuration
  */
@@ -134,3 +291,21 @@ export async function getWebhookConfig() {
   const config = await getAppConfig();
   return config.webhook;
 }
+
+/**
+ * The settings page only ever sees SECRET_PLACEHOLDER for stored secrets.
+ * When a connection test sends it back, use the stored secret, but only
+ * against the stored host so it can't be pointed somewhere else.
+ */
+export async function resolveStoredSecret(
+  value: string | undefined,
+  url: string | undefined,
+  pick: (config: AppConfig) => { url: string; secret: string }
+): Promise<string> {
+  if (value !== SECRET_PLACEHOLDER) return value || "";
+
+  const stored = pick(await getAppConfig());
+  const normalize = (u: string) => u.trim().replace(/\/$/, "");
+  if (!url || !stored.url || normalize(url) !== normalize(stored.url)) return "";
+  return stored.secret;
+}
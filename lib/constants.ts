@@ -4,9 +4,19 @@ export const SETTINGS_KEYS = {
   PLEX_TOKEN: "plex_token",
   EMBY_URL: "emby_url",
   EMBY_API_KEY: "emby_api_key",
+  JELLYFIN_URL: "jellyfin_url",
+  JELLYFIN_API_KEY: "jellyfin_api_key",
   XTREME_UI_URL: "xtreme_ui_url",
   XTREME_UI_API_KEY: "xtreme_ui_api_key",
   XTREME_UI_STREAM_BASE_URL: "xtreme_ui_stream_base_url", // Added for generating M3U links
+  XTREME_UI_PROFILE: "xtreme_ui_profile", // JSON: key param and sub-actions found by probing the panel
+  XUI_ONE_URL: "xui_one_url", // Admin API URL including the access code
+  XUI_ONE_API_KEY: "xui_one_api_key",
+  XUI_ONE_STREAM_BASE_URL: "xui_one_stream_base_url",
+  STALKER_API_URL: "stalker_api_url", // e.g. http://portal/stalker_portal/api/
+  STALKER_API_USER: "stalker_api_user",
+  STALKER_API_PASSWORD: "stalker_api_password",
+  STALKER_PORTAL_URL: "stalker_portal_url", // Shown to subscribers for their set-top box
   WEBHOOK_URL: "webhook_url",
   WEBHOOK_SECRET: "webhook_secret",
   SMTP_HOST: "smtp_host",
@@ -24,6 +34,41 @@ export const SETTINGS_KEYS = {
   MAX_FRIEND_CODES_PER_USER: "max_friend_codes_per_user",
   REQUIRE_FRIEND_CODE_FOR_SIGNUP: "require_friend_code_for_signup",
   AUTO_LINK_ACCOUNTS: "auto_link_accounts", // Admin setting to enable/disable auto-linking
+  // Inactivity pruning
+  INACTIVITY_PRUNING_ENABLED: "inactivity_pruning_enabled",
+  INACTIVITY_WARN_DAYS: "inactivity_warn_days",
+  INACTIVITY_REVOKE_DAYS: "inactivity_revoke_days",
+  INACTIVITY_EXEMPT_FREE: "inactivity_exempt_free",
+  INACTIVITY_EXEMPT_ADMINS: "inactivity_exempt_admins",
+  // Concurrent stream limits
+  STREAM_LIMITS_ENABLED: "stream_limits_enabled",
+  STREAM_LIMIT_STOP_EXTRA: "stream_limit_stop_extra",
+  STREAM_LIMIT_NOTIFY: "stream_limit_notify",
+  STREAM_LIMIT_SUSPEND_AFTER: "stream_limit_suspend_after", // Offences before suspension; 0 = never
+  STREAM_LIMIT_WINDOW_DAYS: "stream_limit_window_days",
+  // Failed payment dunning
+  DUNNING_REMINDER_DAYS: "dunning_reminder_days", // Comma-separated days after the first failure
+  DUNNING_GRACE_DAYS: "dunning_grace_days", // Days after the first failure that access is revoked
+  DUNNING_FINAL_NOTICE_DAYS: "dunning_final_notice_days", // Days before revocation; 0 = no final notice
+  // What refunds, disputes and paused subscriptions do to access: revoke, review or none
+  REFUND_POLICY: "refund_policy",
+  DISPUTE_POLICY: "dispute_policy",
+  SUBSCRIPTION_PAUSED_POLICY: "subscription_paused_policy",
 } as const;
 
 export type SettingKey = (typeof SETTINGS_KEYS)[keyof typeof SETTINGS_KEYS];
+
+// Settings holding credentials - never returned to the browser
+export const SENSITIVE_SETTINGS_KEYS: readonly string[] = [
+  SETTINGS_KEYS.PLEX_TOKEN,
+  SETTINGS_KEYS.EMBY_API_KEY,
+  SETTINGS_KEYS.JELLYFIN_API_KEY,
+  SETTINGS_KEYS.XTREME_UI_API_KEY,
+  SETTINGS_KEYS.XUI_ONE_API_KEY,
+  SETTINGS_KEYS.STALKER_API_PASSWORD,
+  SETTINGS_KEYS.WEBHOOK_SECRET,
+  SETTINGS_KEYS.SMTP_PASS,
+];
+
+// Returned in place of a stored secret; saving it back leaves the secret unchanged
+export const SECRET_PLACEHOLDER = "••••••••";
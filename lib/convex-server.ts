@@ -0,0 +1,17 @@
+/**
+ * Server-side Convex client that acts as the signed-in Clerk user.
+ * Convex functions read the caller from this token, so API routes never
+ * pass user ids of their own.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+
+export async function getAuthedConvexClient(): Promise<ConvexHttpClient> {
+  const client = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+  const token = await (await auth()).getToken({ template: "convex" });
+  if (token) {
+    client.setAuth(token);
+  }
+  return client;
+}
@@ -0,0 +1,401 @@
+/**
+ * Editable email templates shared by Next.js routes, Convex functions and the
+ * settings page (no Node-only dependencies so Convex can bundle it).
+ *
+ * A template is a subject and a Markdown or HTML body with {{variable}}
+ * placeholders. Admins edit them under Settings → Email; each save is a new
+ * version, and the defaults below apply until a template is first saved.
+ */
+
+export const EMAIL_TEMPLATE_IDS = [
+  "invite",
+  "welcome",
+  "paymentFailed",
+  "paymentFinalNotice",
+  "accessRevoked",
+  "iptvCredentials",
+  "iptvExpiryReminder",
+] as const;
+
+export type EmailTemplateId = (typeof EMAIL_TEMPLATE_IDS)[number];
+
+export type EmailTemplateFormat = "markdown" | "html";
+
+export interface EmailTemplateContent {
+  subject: string;
+  format: EmailTemplateFormat;
+  body: string;
+}
+
+export interface EmailTemplateVariable {
+  description: string;
+  sample: string;
+}
+
+export interface EmailTemplateDefinition {
+  name: string;
+  description: string;
+  variables: Record<string, EmailTemplateVariable>;
+  // Variables the body can't do without, such as the link the email exists to deliver
+  required: string[];
+  defaults: EmailTemplateContent;
+}
+
+const APP_URL: EmailTemplateVariable = {
+  description: "Address of this app",
+  sample: "https://media.example.com",
+};
+
+const USERNAME: EmailTemplateVariable = {
+  description: "The recipient's username",
+  sample: "alex",
+};
+
+const PAYMENT_VARIABLES: Record<string, EmailTemplateVariable> = {
+  username: USERNAME,
+  amount: { description: "Amount that failed, with currency", sample: "$9.99" },
+  portalUrl: {
+    description: "Link that opens the Stripe billing portal to update the payment method",
+    sample: "https://media.example.com/api/stripe/portal",
+  },
+  accessEndsAt: { description: "Date access is removed if the payment isn't fixed", sample: "March 14, 2026" },
+  appUrl: APP_URL,
+};
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateId, EmailTemplateDefinition> = {
+  invite: {
+    name: "Invite",
+    description: "Sent when an invite restricted to an email is created or resent",
+    variables: {
+      inviteUrl: { description: "Link to accept the invite", sample: "https://media.example.com/invite/ABC123XYZ0" },
+      inviteCode: { description: "The invite code", sample: "ABC123XYZ0" },
+      serverName: { description: "Media servers the invite grants", sample: "Plex" },
+      appUrl: APP_URL,
+    },
+    required: ["inviteUrl"],
+    defaults: {
+      subject: "You're Invited to Our Media Server!",
+      format: "markdown",
+      body: [
+        "# You're Invited! 🎉",
+        "",
+        "You've been invited to join our {{serverName}} server. Click the button below to create your account and get access.",
+        "",
+        "[Accept Invitation]({{inviteUrl}})",
+        "",
+        "Your invite code: **{{inviteCode}}**",
+      ].join("\n"),
+    },
+  },
+  welcome: {
+    name: "Welcome",
+    description: "Sent after someone redeems an invite",
+    variables: {
+      username: USERNAME,
+      serverName: { description: "Media servers the user was given", sample: "Plex and Emby" },
+      appUrl: APP_URL,
+    },
+    required: [],
+    defaults: {
+      subject: "Welcome to {{serverName}}!",
+      format: "markdown",
+      body: [
+        "# Welcome, {{username}}! 🎬",
+        "",
+        "Your account has been created and you now have access to {{serverName}}.",
+        "",
+        "## Getting Started",
+        "",
+        "- Download the {{serverName}} app for your device",
+        "- Sign in with your account",
+        "",
+        "If you have any questions, please contact the server administrator.",
+      ].join("\n"),
+    },
+  },
+  paymentFailed: {
+    name: "Payment failed",
+    description: "Sent on the dunning reminder days after a subscription payment fails",
+    variables: PAYMENT_VARIABLES,
+    required: ["portalUrl"],
+    defaults: {
+      subject: "Your payment didn't go through",
+      format: "markdown",
+      body: [
+        "# We couldn't take your payment, {{username}}",
+        "",
+        "Your payment of **{{amount}}** failed. Please update your payment method to keep your access.",
+        "",
+        "If it isn't fixed, your access will be removed on **{{accessEndsAt}}**.",
+        "",
+        "[Update Payment Method]({{portalUrl}})",
+        "",
+        "If you have any questions, please contact the server administrator.",
+      ].join("\n"),
+    },
+  },
+  paymentFinalNotice: {
+    name: "Final payment notice",
+    description: "Sent shortly before access is revoked for a payment that's still failing",
+    variables: PAYMENT_VARIABLES,
+    required: ["portalUrl"],
+    defaults: {
+      subject: "Final notice: your access ends {{accessEndsAt}}",
+      format: "markdown",
+      body: [
+        "# Your access ends soon, {{username}}",
+        "",
+        "We still haven't been able to take your payment of **{{amount}}**.",
+        "",
+        "Your access will be removed on **{{accessEndsAt}}** unless you update your payment method before then.",
+        "",
+        "[Update Payment Method]({{portalUrl}})",
+        "",
+        "If you have any questions, please contact the server administrator.",
+      ].join("\n"),
+    },
+  },
+  accessRevoked: {
+    name: "Access revoked",
+    description: "Sent when a user's server access is removed",
+    variables: {
+      username: USERNAME,
+      reason: { description: "Why access was removed", sample: "Subscription ended" },
+      appUrl: APP_URL,
+    },
+    required: [],
+    defaults: {
+      subject: "Your media server access has been removed",
+      format: "markdown",
+      body: [
+        "# Your access has been removed, {{username}}",
+        "",
+        "Your access to the media server has been removed. Reason: {{reason}}.",
+        "",
+        "[View My Account]({{appUrl}}/my-account)",
+        "",
+        "If you think this is a mistake, please contact the server administrator.",
+      ].join("\n"),
+    },
+  },
+  iptvCredentials: {
+    name: "IPTV credentials",
+    description: "Sent with the login details of a new IPTV line",
+    variables: {
+      username: USERNAME,
+      iptvUsername: { description: "Line username on the IPTV panel", sample: "alex_tv" },
+      iptvPassword: { description: "Line password on the IPTV panel", sample: "s3cretPass" },
+      expiresAt: { description: "Date the line expires", sample: "April 2, 2026" },
+      myIptvUrl: { description: "Link to the My IPTV page", sample: "https://media.example.com/my-iptv" },
+      appUrl: APP_URL,
+    },
+    required: ["iptvUsername", "iptvPassword"],
+    defaults: {
+      subject: "Your IPTV login details",
+      format: "markdown",
+      body: [
+        "# Your IPTV line is ready, {{username}}",
+        "",
+        "- Username: **{{iptvUsername}}**",
+        "- Password: **{{iptvPassword}}**",
+        "",
+        "Your line runs until **{{expiresAt}}**.",
+        "",
+        "[Open My IPTV]({{myIptvUrl}})",
+        "",
+        "Keep these details private. If you have any questions, please contact the server administrator.",
+      ].join("\n"),
+    },
+  },
+  iptvExpiryReminder: {
+    name: "IPTV expiry reminder",
+    description: "Sent 7, 3 and 1 days before an IPTV line no subscription renews expires",
+    variables: {
+      username: USERNAME,
+      expiresAt: { description: "Date the line expires", sample: "April 2, 2026" },
+      when: { description: "\"tomorrow\" or \"in N days\"", sample: "in 3 days" },
+      renewalNote: {
+        description: "How to renew: from My IPTV when the plan has a renewal price, otherwise via the admin",
+        sample: "You can renew it for another 30 days from My IPTV. The extra time is added to your current expiry date.",
+      },
+      myIptvUrl: { description: "Link to the My IPTV page", sample: "https://media.example.com/my-iptv" },
+      appUrl: APP_URL,
+    },
+    required: [],
+    defaults: {
+      subject: "Your IPTV access expires {{when}}",
+      format: "markdown",
+      body: [
+        "# Your IPTV expires {{when}}, {{username}}",
+        "",
+        "Your IPTV line expires on **{{expiresAt}}**.",
+        "",
+        "{{renewalNote}}",
+        "",
+        "[Open My IPTV]({{myIptvUrl}})",
+        "",
+        "If you have any questions, please contact the server administrator.",
+      ].join("\n"),
+    },
+  },
+};
+
+export function isEmailTemplateId(value: string): value is EmailTemplateId {
+  return (EMAIL_TEMPLATE_IDS as readonly string[]).includes(value);
+}
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// Variable names used in a piece of template text
+export function templateVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), (m) => m[1])));
+}
+
+/**
+ * Problems that would stop a template from rendering properly, or an empty
+ * list when it's fine to save
+ */
+export function validateEmailTemplate(id: EmailTemplateId, content: EmailTemplateContent): string[] {
+  const definition = EMAIL_TEMPLATES[id];
+  const errors: string[] = [];
+
+  if (!content.subject.trim()) errors.push("Subject is required");
+  if (!content.body.trim()) errors.push("Body is required");
+
+  const used = templateVariables(`${content.subject}\n${content.body}`);
+  for (const name of used) {
+    if (!definition.variables[name]) errors.push(`Unknown variable {{${name}}}`);
+  }
+
+  const inBody = new Set(templateVariables(content.body));
+  for (const name of definition.required) {
+    if (!inBody.has(name)) errors.push(`The body must include {{${name}}}`);
+  }
+
+  // Leftover braces are usually a mistyped placeholder
+  const stray = `${content.subject}\n${content.body}`.replace(PLACEHOLDER, "");
+  if (stray.includes("{{") || stray.includes("}}")) {
+    errors.push("Placeholders must look like {{variable}}");
+  }
+
+  return errors;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const STYLES = {
+  h1: "margin: 0 0 24px; font-size: 24px; color: #18181b;",
+  h2: "margin: 24px 0 16px; font-size: 18px; color: #18181b;",
+  p: "margin: 0 0 16px; color: #3f3f46; line-height: 1.6;",
+  ul: "margin: 0 0 24px; padding-left: 24px; color: #3f3f46; line-height: 1.8;",
+  a: "color: #2563eb;",
+  button:
+    "display: inline-block; background-color: #18181b; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: 500;",
+};
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, `<a href="$2" style="${STYLES.a}">$1</a>`)
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/\*([^*]+)\*/g, "<em>$1</em>");
+}
+
+/**
+ * The Markdown emails need: # and ## headings, - lists, **bold**, *italic*
+ * and [links](url). A paragraph that is only a link becomes a button. Raw
+ * HTML is escaped; use the HTML format for full control.
+ */
+export function markdownToEmailHtml(markdown: string): string {
+  const blocks = markdown.replace(/\r\n/g, "\n").split(/\n\s*\n/);
+
+  return blocks
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => {
+      const lines = block.split("\n").map((l) => l.trim());
+
+      const heading = lines.length === 1 && /^(#{1,2})\s+(.*)$/.exec(lines[0]);
+      if (heading) {
+        const tag = heading[1].length === 1 ? "h1" : "h2";
+        return `<${tag} style="${STYLES[tag]}">${renderInline(heading[2])}</${tag}>`;
+      }
+
+      if (lines.every((l) => /^[-*]\s+/.test(l))) {
+        const items = lines.map((l) => `<li>${renderInline(l.replace(/^[-*]\s+/, ""))}</li>`).join("");
+        return `<ul style="${STYLES.ul}">${items}</ul>`;
+      }
+
+      const button = lines.length === 1 && /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(lines[0]);
+      if (button) {
+        return `<div style="margin: 32px 0;"><a href="${escapeHtml(button[2])}" style="${STYLES.button}">${renderInline(button[1])}</a></div>`;
+      }
+
+      return `<p style="${STYLES.p}">${lines.map(renderInline).join("<br>")}</p>`;
+    })
+    .join("\n");
+}
+
+// The card layout every email is sent in
+export function wrapEmailLayout(content: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; padding: 40px 20px; background-color: #f4f4f5;">
+  <div style="max-width: 560px; margin: 0 auto; background: white; border-radius: 8px; padding: 40px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+${content}
+  </div>
+</body>
+</html>`;
+}
+
+function fill(text: string, variables: Record<string, string | undefined>, escape: boolean): string {
+  return text.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = variables[name] ?? "";
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Render a template with the given variables. Values are HTML-escaped in
+ * the body; Markdown is converted before they're filled in, so a value can't
+ * add formatting either.
+ */
+export function renderEmailTemplate(
+  content: EmailTemplateContent,
+  variables: Record<string, string | undefined>
+): { subject: string; html: string } {
+  const body = content.format === "markdown" ? markdownToEmailHtml(content.body) : content.body;
+  return {
+    subject: fill(content.subject, variables, false).replace(/\s+/g, " ").trim(),
+    html: wrapEmailLayout(fill(body, variables, true)),
+  };
+}
+
+// Sample values for previews and test sends
+export function sampleVariables(id: EmailTemplateId): Record<string, string> {
+  return Object.fromEntries(Object.entries(EMAIL_TEMPLATES[id].variables).map(([name, v]) => [name, v.sample]));
+}
+
+// Display name of an invite's or user's server type
+export function serverTypeName(serverType: "plex" | "emby" | "both" | "jellyfin"): string {
+  return serverType === "both" ? "Plex and Emby" : serverType.charAt(0).toUpperCase() + serverType.slice(1);
+}
+
+// Long date used in emails, e.g. "March 14, 2026"
+export function formatEmailDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
@@ -57,6 +57,28 @@ export const EMBY_FEATURES: EmbyFeature[] = [
   },
 ];
 
+interface EmbySession {
+  Id: string;
+  UserId?: string;
+  UserName?: string;
+  Client?: string;
+  DeviceName?: string;
+  RemoteEndPoint?: string;
+  NowPlayingItem?: {
+    Name: string;
+    SeriesName?: string;
+  };
+}
+
+interface EmbyStream {
+  sessionId: string;
+  userId?: string;
+  username?: string;
+  title: string;
+  device?: string;
+  address?: string;
+}
+
 interface EmbyConfig {
   url: string;
   apiKey: string;
@@ -172,6 +194,60 @@ export class EmbyClient {
     return this.request<EmbyUser[]>("/Users");
   }
 
+  /**
+   * Get when each user was last active, keyed by user ID (ms timestamps)
+   */
+  async getLastActivityByUser(): Promise<Record<string, number>> {
+    const activity: Record<string, number> = {};
+    for (const user of await this.getUsers()) {
+      const at = user.LastActivityDate ? Date.parse(user.LastActivityDate) : NaN;
+      if (!Number.isNaN(at)) activity[user.Id] = at;
+    }
+    return activity;
+  }
+
+  /**
+   * Get the streams playing (or paused) right now
+   */
+  async getActiveStreams(): Promise<EmbyStream[]> {
+    const sessions = await this.request<EmbySession[]>("/Sessions");
+    return sessions
+      .filter((session) => session.NowPlayingItem)
+      .map((session) => ({
+        sessionId: session.Id,
+        userId: session.UserId,
+        username: session.UserName,
+        title: session.NowPlayingItem!.SeriesName
+          ? `${session.NowPlayingItem!.SeriesName} - ${session.NowPlayingItem!.Name}`
+          : session.NowPlayingItem!.Name,
+        device: session.DeviceName || session.Client,
+        address: session.RemoteEndPoint,
+      }));
+  }
+
+  /**
+   * Stop a stream, showing the viewer a reason first
+   */
+  async terminateSession(sessionId: string, reason: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.request(`/Sessions/${sessionId}/Message`, {
+        method: "POST",
+        body: JSON.stringify({ Header: "Playback stopped", Text: reason, TimeoutMs: 10000 }),
+      }).catch(() => undefined); // Not every client can show messages
+
+      await this.request(`/Sessions/${sessionId}/Playing/Stop`, {
+        method: "POST",
+      });
+
+      return { success: true, message: "Stream stopped" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to stop stream",
+      };
+    }
+  }
+
   /**
    * Get a specific user by ID
    */
@@ -0,0 +1,88 @@
+import type {
+  IptvBouquet,
+  IptvBrowsableChannel,
+  IptvChannelCategory,
+  IptvChannelLineup,
+  IptvPanelConfig,
+  IptvProvider,
+  IptvProviderHooks,
+  IptvProviderId,
+} from "./types";
+import { XtremeUiProvider } from "./xtremeui";
+import { XuiOneProvider } from "./xuione";
+import { StalkerProvider } from "./stalker";
+
+export * from "./types";
+export { discoverXtremePanel, parseXtremePanelProfile } from "./xtremeui";
+
+export const IPTV_PROVIDERS: IptvProviderId[] = ["xtremeui", "xuione", "stalker"];
+
+export const IPTV_PROVIDER_LABELS: Record<IptvProviderId, string> = {
+  xtremeui: "Xtreme UI",
+  xuione: "XUI.one",
+  stalker: "Stalker / Ministra",
+};
+
+export function createIptvProvider(
+  provider: IptvProviderId,
+  config: IptvPanelConfig,
+  hooks?: IptvProviderHooks
+): IptvProvider {
+  switch (provider) {
+    case "xtremeui":
+      return new XtremeUiProvider(config, hooks);
+    case "xuione":
+      return new XuiOneProvider(config);
+    case "stalker":
+      return new StalkerProvider(config);
+  }
+}
+
+/**
+ * Normalize a set-top box MAC to 00:1A:79:AB:CD:EF; null when it isn't one
+ */
+export function normalizeMacAddress(raw: string): string | null {
+  if (!/^[0-9a-f:.\-\s]+$/i.test(raw)) return null;
+  const hex = raw.replace(/[^0-9a-f]/gi, "").toUpperCase();
+  if (hex.length !== 12) return null;
+  return hex.match(/.{2}/g)!.join(":");
+}
+
+/**
+ * Channels as the channel browser shows them: with their category names and
+ * the bouquets they're in. A plan's channel groups narrow them the same way
+ * the playlist proxy does; onlyInBouquets drops channels outside the given
+ * bouquets, for previewing a plan from the panel's full lineup.
+ */
+export function browsableChannels(
+  lineup: IptvChannelLineup,
+  options: { bouquets: IptvBouquet[]; bouquetIds?: string[]; channelGroups?: string[]; onlyInBouquets?: boolean }
+): { categories: IptvChannelCategory[]; channels: IptvBrowsableChannel[] } {
+  const bouquets = options.bouquetIds?.length
+    ? options.bouquets.filter((b) => options.bouquetIds!.includes(b.id))
+    : options.bouquets;
+
+  const bouquetsByStream = new Map<string, string[]>();
+  for (const bouquet of bouquets) {
+    for (const streamId of bouquet.streamIds) {
+      bouquetsByStream.set(streamId, [...(bouquetsByStream.get(streamId) ?? []), bouquet.name]);
+    }
+  }
+
+  const categoryNames = new Map(lineup.categories.map((c) => [c.id, c.name]));
+  const groups = options.channelGroups?.length
+    ? new Set(options.channelGroups.map((g) => g.trim().toLowerCase()))
+    : null;
+
+  const channels = lineup.channels
+    .map((channel) => ({
+      ...channel,
+      categoryName: channel.categoryId ? categoryNames.get(channel.categoryId) : undefined,
+      bouquets: bouquetsByStream.get(channel.streamId) ?? [],
+    }))
+    .filter((c) => !groups || (c.categoryName !== undefined && groups.has(c.categoryName.trim().toLowerCase())))
+    .filter((c) => !options.onlyInBouquets || c.bouquets.length > 0);
+
+  const used = new Set(channels.map((c) => c.categoryId));
+  return { categories: lineup.categories.filter((c) => used.has(c.id)), channels };
+}
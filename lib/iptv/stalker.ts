@@ -0,0 +1,157 @@
+/**
+ * Stalker / Ministra portal adapter
+ * Uses the portal REST API (http://portal/stalker_portal/api/) with HTTP basic
+ * auth. Accounts are keyed by the set-top box MAC address, and a plan's first
+ * bouquet ID is the tariff plan's external ID.
+ */
+
+import type {
+  IptvLine,
+  IptvLineInfo,
+  IptvLineOptions,
+  IptvPackage,
+  IptvPanelConfig,
+  IptvProvider,
+} from "./types";
+import { fetchJson } from "./types";
+
+interface StalkerAccount {
+  login: string;
+  stb_mac?: string;
+  status?: number | string;
+  tariff_plan?: string;
+  end_date?: string | null;
+}
+
+function formatEndDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function parseEndDate(value?: string | null): number | undefined {
+  // Unlimited accounts report 0000-00-00
+  if (!value || value.startsWith("0000")) return undefined;
+  const ms = Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+export class StalkerProvider implements IptvProvider {
+  readonly id = "stalker" as const;
+
+  constructor(private config: IptvPanelConfig) {}
+
+  private async call(method: "GET" | "POST" | "PUT", resource: string, fields?: Record<string, string | undefined>) {
+    const base = this.config.apiUrl.endsWith("/") ? this.config.apiUrl : `${this.config.apiUrl}/`;
+    const body = new URLSearchParams();
+    for (const [k, v] of Object.entries(fields ?? {})) {
+      if (v !== undefined) body.set(k, v);
+    }
+
+    const json = await fetchJson(
+      new URL(resource, base).toString(),
+      {
+        method,
+        headers: {
+          Authorization: `Basic ${btoa(`${this.config.apiUser ?? ""}:${this.config.apiKey}`)}`,
+          ...(method === "GET" ? {} : { "Content-Type": "application/x-www-form-urlencoded" }),
+        },
+        body: method === "GET" ? undefined : body,
+      },
+      "Stalker"
+    );
+
+    if (json?.status === "OK") return json.results;
+
+    const error = (typeof json?.error === "string" && json.error) || "Unknown error";
+    if (/auth|login|password/i.test(error)) {
+      throw new Error("CONFIG_MISSING: Stalker portal rejected the API credentials");
+    }
+    throw new Error(`Stalker ${method} ${resource} failed: ${error}`);
+  }
+
+  private mac(line: IptvLine): string {
+    if (!line.macAddress) throw new Error("VALIDATION_ERROR: Stalker lines need a MAC address");
+    return line.macAddress;
+  }
+
+  private async getAccount(line: IptvLine): Promise<StalkerAccount | null> {
+    try {
+      const results = await this.call("GET", `accounts/${encodeURIComponent(this.mac(line))}`);
+      const list: StalkerAccount[] = Array.isArray(results) ? results : results ? [results] : [];
+      return list[0] ?? null;
+    } catch (error) {
+      if (error instanceof Error && /not found|no account/i.test(error.message)) return null;
+      throw error;
+    }
+  }
+
+  private update(line: IptvLine, fields: Record<string, string | undefined>) {
+    return this.call("PUT", `accounts/${encodeURIComponent(this.mac(line))}`, fields);
+  }
+
+  async create(line: IptvLine, options: IptvLineOptions): Promise<void> {
+    const expiresAt =
+      options.expiresAt ??
+      (options.durationDays ? Date.now() + options.durationDays * 24 * 60 * 60 * 1000 : undefined);
+    const fields = {
+      password: line.password,
+      tariff_plan: options.bouquetIds?.[0],
+      end_date: expiresAt ? formatEndDate(expiresAt) : undefined,
+      status: "1",
+    };
+
+    if (await this.getAccount(line)) {
+      await this.update(line, fields);
+      return;
+    }
+
+    await this.call("POST", "accounts", {
+      ...fields,
+      login: line.username,
+      full_name: line.username,
+      stb_mac: this.mac(line),
+    });
+  }
+
+  async updateBouquets(line: IptvLine, bouquetIds: string[] | undefined): Promise<void> {
+    await this.update(line, { tariff_plan: bouquetIds?.[0] });
+  }
+
+  async renew(line: IptvLine, expiresAt?: number): Promise<void> {
+    await this.update(line, { status: "1", end_date: expiresAt ? formatEndDate(expiresAt) : undefined });
+  }
+
+  async suspend(line: IptvLine): Promise<void> {
+    await this.update(line, { status: "0" });
+  }
+
+  async info(line: IptvLine): Promise<IptvLineInfo | null> {
+    const account = await this.getAccount(line);
+    if (!account) return null;
+
+    return {
+      status: Number(account.status) === 1 ? "active" : "suspended",
+      expiresAt: parseEndDate(account.end_date),
+      raw: account,
+    };
+  }
+
+  async changePassword(line: IptvLine, password: string): Promise<void> {
+    await this.update(line, { password });
+  }
+
+  async listPackages(): Promise<IptvPackage[]> {
+    const tariffs = await this.call("GET", "tariffs");
+    return (Array.isArray(tariffs) ? tariffs : [])
+      .filter((t: any) => t && (t.external_id || t.id))
+      .map((t: any) => ({ id: String(t.external_id || t.id), name: String(t.name ?? t.external_id) }));
+  }
+
+  // Set-top boxes connect to the portal with their MAC rather than loading a playlist
+  playlistUrl(): string | undefined {
+    return undefined;
+  }
+
+  epgUrl(): string | undefined {
+    return undefined;
+  }
+}
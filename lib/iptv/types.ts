@@ -0,0 +1,348 @@
+/**
+ * IPTV provider interface
+ * Each panel type (Xtreme UI, XUI.one, Stalker/Ministra) implements this,
+ * so line management doesn't depend on any one panel's API.
+ */
+
+export type IptvProviderId = "xtremeui" | "xuione" | "stalker";
+
+export interface IptvPanelConfig {
+  apiUrl: string;
+  apiKey: string; // Stalker: REST API password
+  apiUser?: string; // Stalker: REST API login
+  streamBaseUrl: string; // Stalker: the portal URL set-top boxes connect to
+  profile?: XtremePanelProfile | null; // Xtreme UI: the stored result of probing the panel
+}
+
+export type XtremeLineOperation = "create" | "edit" | "renew" | "suspend" | "info";
+
+/**
+ * Which API key parameter and sub-actions an Xtreme UI panel answers to,
+ * found by probing it once so calls don't have to try every variant
+ */
+export interface XtremePanelProfile {
+  apiUrl: string; // only used while the panel URL is unchanged
+  keyParam: string | null; // null when the API URL embeds the token
+  subs: Record<XtremeLineOperation, string>;
+  packages: Record<string, string> | null; // params of the packages listing; {} for the base URL
+  probedAt: number;
+}
+
+export interface IptvProviderHooks {
+  /** Called after the provider re-probes its panel, to store the new profile */
+  saveProfile?: (profile: XtremePanelProfile) => Promise<void>;
+}
+
+export interface IptvLine {
+  username: string;
+  password?: string;
+  macAddress?: string; // Stalker lines are keyed by the set-top box MAC
+}
+
+export interface IptvLineOptions {
+  bouquetIds?: string[];
+  expiresAt?: number;
+  durationDays?: number;
+}
+
+export interface IptvLineInfo {
+  status?: "active" | "suspended";
+  expiresAt?: number;
+  raw: unknown;
+}
+
+/**
+ * What the panel's player API reports for a line right now
+ */
+export interface IptvLiveStatus {
+  status?: string; // e.g. Active, Expired, Banned, Disabled
+  expiresAt?: number;
+  isTrial: boolean;
+  activeConnections?: number;
+  maxConnections?: number;
+  allowedOutputFormats: string[];
+  serverTimezone?: string;
+  serverTime?: string;
+}
+
+/**
+ * A line as the panel lists it, for importing lines made outside this app
+ */
+export interface IptvPanelLine {
+  username: string;
+  password?: string;
+  status?: "active" | "suspended";
+  expiresAt?: number;
+  bouquetIds: string[];
+  email?: string;
+  notes?: string;
+}
+
+export interface IptvChannelCategory {
+  id: string;
+  name: string;
+}
+
+export interface IptvChannel {
+  streamId: string;
+  name: string;
+  categoryId?: string;
+  logo?: string;
+  epgChannelId?: string;
+}
+
+export interface IptvChannelLineup {
+  categories: IptvChannelCategory[];
+  channels: IptvChannel[];
+}
+
+/**
+ * A bouquet and the live streams in it, from the panel's admin API
+ */
+export interface IptvBouquet {
+  id: string;
+  name: string;
+  streamIds: string[];
+}
+
+/**
+ * A channel as the channel browser shows it
+ */
+export interface IptvBrowsableChannel extends IptvChannel {
+  categoryName?: string;
+  bouquets: string[]; // names of the bouquets it's in
+}
+
+export interface IptvPackage {
+  id: string;
+  name: string;
+  bouquetIds?: string[];
+}
+
+export interface IptvProvider {
+  readonly id: IptvProviderId;
+  /** Create the line, or update it when the panel already has one */
+  create(line: IptvLine, options: IptvLineOptions): Promise<void>;
+  updateBouquets(line: IptvLine, bouquetIds: string[] | undefined): Promise<void>;
+  /** Re-enable the line, extending it to expiresAt when given */
+  renew(line: IptvLine, expiresAt?: number): Promise<void>;
+  suspend(line: IptvLine): Promise<void>;
+  /** Status and expiry as the panel sees them; null when the panel can't tell */
+  info(line: IptvLine): Promise<IptvLineInfo | null>;
+  changePassword(line: IptvLine, password: string): Promise<void>;
+  listPackages(): Promise<IptvPackage[]>;
+  /** M3U playlist for the line; undefined for panels players don't load playlists from */
+  playlistUrl(line: IptvLine): string | undefined;
+  /** XMLTV guide for the line; undefined when the panel has none */
+  epgUrl(line: IptvLine): string | undefined;
+  /** Live connections and expiry from the panel's player API, for panels that have one */
+  liveStatus?(line: IptvLine): Promise<IptvLiveStatus>;
+  /** Every line on the panel, for panels that can list them */
+  listLines?(): Promise<IptvPanelLine[]>;
+  /** Live categories and channels the line can watch, from the player API */
+  liveChannels?(line: IptvLine): Promise<IptvChannelLineup>;
+  /** Bouquets with their live streams, for panels whose admin API lists them */
+  listBouquets?(): Promise<IptvBouquet[]>;
+  /** Every live channel on the panel, for previewing a plan without a line */
+  listLiveChannels?(): Promise<IptvChannelLineup>;
+}
+
+export async function fetchJson(url: string, init: RequestInit = {}, label = "IPTV panel"): Promise<any> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 12_000);
+  try {
+    const res = await fetch(url, {
+      method: "GET",
+      redirect: "follow",
+      cache: "no-store",
+      ...init,
+      signal: controller.signal,
+    });
+
+    const text = await res.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${label} API did not return JSON (HTTP ${res.status})`);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Xtream-compatible get.php playlist (Xtreme UI and XUI.one)
+ */
+export function buildXtreamPlaylistUrl(streamBaseUrl: string, username: string, password: string): string {
+  const u = new URL(streamBaseUrl);
+  const normalizedPath = (u.pathname || "/").replace(/\/+$/, "");
+
+  const isPlaylist = /\/playlist$/i.test(normalizedPath);
+  const isGetPhp = /\/get\.php$/i.test(normalizedPath);
+
+  if (!isPlaylist && !isGetPhp) {
+    u.pathname = `${normalizedPath}/get.php`.replace(/\/{2,}/g, "/");
+  }
+
+  u.searchParams.set("username", username);
+  u.searchParams.set("password", password);
+  u.searchParams.set("type", "m3u_plus");
+  u.searchParams.set("output", "ts");
+  return u.toString();
+}
+
+/**
+ * Xtream-compatible xmltv.php guide (Xtreme UI and XUI.one)
+ */
+export function buildXtreamEpgUrl(streamBaseUrl: string, username: string, password: string): string {
+  const u = new URL(streamBaseUrl);
+  const normalizedPath = (u.pathname || "/").replace(/\/+$/, "").replace(/\/(get|xmltv)\.php$/i, "");
+  u.pathname = `${normalizedPath}/xmltv.php`.replace(/\/{2,}/g, "/");
+  u.search = "";
+  u.searchParams.set("username", username);
+  u.searchParams.set("password", password);
+  return u.toString();
+}
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+function playerApiUrl(streamBaseUrl: string, username: string, password: string, action?: string): string {
+  const u = new URL(streamBaseUrl);
+  const normalizedPath = (u.pathname || "/").replace(/\/+$/, "").replace(/\/(get|xmltv|player_api)\.php$/i, "");
+  u.pathname = `${normalizedPath}/player_api.php`.replace(/\/{2,}/g, "/");
+  u.search = "";
+  u.searchParams.set("username", username);
+  u.searchParams.set("password", password);
+  if (action) u.searchParams.set("action", action);
+  return u.toString();
+}
+
+/**
+ * Line status from an Xtream-compatible player_api.php (Xtreme UI and XUI.one)
+ */
+export async function fetchXtreamLiveStatus(
+  streamBaseUrl: string,
+  username: string,
+  password: string
+): Promise<IptvLiveStatus> {
+  const json = await fetchJson(playerApiUrl(streamBaseUrl, username, password), {}, "Player");
+  const user = json?.user_info;
+  if (!user || toNumber(user.auth) === 0) {
+    throw new Error("The panel's player API rejected this line");
+  }
+  const server = json?.server_info ?? {};
+
+  return {
+    status: typeof user.status === "string" ? user.status : undefined,
+    expiresAt: fromUnixSeconds(user.exp_date),
+    isTrial: toNumber(user.is_trial) === 1,
+    activeConnections: toNumber(user.active_cons),
+    maxConnections: toNumber(user.max_connections),
+    allowedOutputFormats: Array.isArray(user.allowed_output_formats) ? user.allowed_output_formats.map(String) : [],
+    serverTimezone: typeof server.timezone === "string" ? server.timezone : undefined,
+    serverTime: typeof server.time_now === "string" ? server.time_now : undefined,
+  };
+}
+
+/**
+ * Items of a panel listing: an array, or an object keyed by id
+ */
+export function listItems(json: any): any[] {
+  if (Array.isArray(json)) return json;
+  if (!json || typeof json !== "object") return [];
+  return Object.entries(json)
+    .filter(([key, value]) => /^\d+$/.test(key) && value && typeof value === "object")
+    .map(([key, value]: [string, any]) => ({ id: key, ...value }));
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * A live category as the player and admin APIs list it
+ */
+export function normalizeXtreamCategory(item: any): IptvChannelCategory | null {
+  const id = optionalString(item?.category_id ?? item?.id);
+  if (!id) return null;
+  return { id, name: optionalString(item.category_name ?? item.name) ?? `Category ${id}` };
+}
+
+/**
+ * A live stream as the player and admin APIs list it
+ */
+export function normalizeXtreamChannel(item: any): IptvChannel | null {
+  const streamId = optionalString(item?.stream_id ?? item?.id);
+  if (!streamId) return null;
+
+  // Admin listings give every category the stream is in; the first is its group in playlists
+  const categoryIds = item.category_ids ?? item.category_id;
+  const categoryId = Array.isArray(categoryIds) ? optionalString(categoryIds[0]) : optionalString(categoryIds);
+
+  return {
+    streamId,
+    name: optionalString(item.name ?? item.stream_display_name) ?? `Channel ${streamId}`,
+    categoryId,
+    logo: optionalString(item.stream_icon),
+    epgChannelId: optionalString(item.epg_channel_id ?? item.channel_id),
+  };
+}
+
+/**
+ * Live categories and channels a line can watch, from an Xtream-compatible
+ * player_api.php (Xtreme UI and XUI.one)
+ */
+export async function fetchXtreamLiveChannels(
+  streamBaseUrl: string,
+  username: string,
+  password: string
+): Promise<IptvChannelLineup> {
+  const [categories, streams] = await Promise.all([
+    fetchJson(playerApiUrl(streamBaseUrl, username, password, "get_live_categories"), {}, "Player"),
+    fetchJson(playerApiUrl(streamBaseUrl, username, password, "get_live_streams"), {}, "Player"),
+  ]);
+  if (!Array.isArray(streams) && streams?.user_info) {
+    throw new Error("The panel's player API rejected this line");
+  }
+
+  return {
+    categories: listItems(categories)
+      .map(normalizeXtreamCategory)
+      .filter((c): c is IptvChannelCategory => !!c),
+    channels: listItems(streams)
+      .map(normalizeXtreamChannel)
+      .filter((c): c is IptvChannel => !!c),
+  };
+}
+
+/**
+ * Lists of ids (a line's bouquets, a bouquet's streams) come as an array,
+ * a JSON array string or a comma-separated list
+ */
+export function parseIdList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string" || !value.trim()) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON
+  }
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+export function toUnixSeconds(ms?: number): number | undefined {
+  return typeof ms === "number" ? Math.floor(ms / 1000) : undefined;
+}
+
+/**
+ * Panels report expiry as unix seconds, either as a number or a numeric string
+ */
+export function fromUnixSeconds(value: unknown): number | undefined {
+  const n = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value;
+  return typeof n === "number" && n > 0 ? n * 1000 : undefined;
+}
@@ -0,0 +1,520 @@
+/**
+ * Xtreme UI adapter
+ * Xtreme UI panels differ in sub-action names and API key parameter. The
+ * panel is probed once for the variants it answers to, and calls use that
+ * profile directly, probing again when the panel stops accepting them.
+ */
+
+import {
+  buildXtreamEpgUrl,
+  buildXtreamPlaylistUrl,
+  fetchJson,
+  fetchXtreamLiveChannels,
+  fetchXtreamLiveStatus,
+  fromUnixSeconds,
+  listItems,
+  normalizeXtreamCategory,
+  normalizeXtreamChannel,
+  parseIdList,
+  toUnixSeconds,
+  type IptvBouquet,
+  type IptvChannel,
+  type IptvChannelCategory,
+  type IptvChannelLineup,
+  type IptvLine,
+  type IptvLineInfo,
+  type IptvLineOptions,
+  type IptvLiveStatus,
+  type IptvPackage,
+  type IptvPanelConfig,
+  type IptvPanelLine,
+  type IptvProvider,
+  type IptvProviderHooks,
+  type XtremeLineOperation,
+  type XtremePanelProfile,
+} from "./types";
+
+type Params = Record<string, string | number | undefined>;
+
+function isSuccess(resp: any): boolean {
+  if (!resp || typeof resp !== "object") return false;
+  if (resp.status === "STATUS_SUCCESS") return true;
+  if (resp.status === "STATUS_FAILURE") return false;
+  // Some panels return { success: true }
+  if (resp.success === true) return true;
+  return false;
+}
+
+function getErrorMessage(resp: any): string {
+  const msg =
+    (typeof resp?.error === "string" && resp.error) ||
+    (typeof resp?.message === "string" && resp.message) ||
+    (typeof resp?.msg === "string" && resp.msg) ||
+    "Unknown error";
+  return msg;
+}
+
+const KEY_PARAMS = ["api_key", "key", "apikey", "apiKey", "token", "api_token", "api-token"];
+
+const SUB_CANDIDATES: Record<XtremeLineOperation, string[]> = {
+  create: ["create", "add"],
+  edit: ["edit", "update"],
+  renew: ["renew", "extend", "edit", "update"],
+  suspend: ["disable", "ban", "suspend"],
+  info: ["info", "get", "details"],
+};
+
+const PACKAGE_VARIANTS: Params[] = [
+  // XUI style
+  { action: "packages" },
+  { action: "package", sub: "list" },
+  { action: "packages", sub: "list" },
+  { action: "bouquet", sub: "list" },
+  { action: "bouquets" },
+  { action: "bouquet" },
+  // Xtream Codes style
+  { action: "get_packages" },
+  { action: "get_bouquets" },
+  { action: "user", sub: "packages" },
+  // Some token-in-URL panels return everything, packages included, at the base URL
+  {},
+];
+
+// Listings of every line, tried in order; only the import uses them, so they aren't profiled
+const LINE_LIST_VARIANTS: Params[] = [
+  { action: "user", sub: "list" },
+  { action: "users" },
+  { action: "get_users" },
+  { action: "get_lines" },
+  { action: "lines" },
+];
+
+// Bouquet listings that include each bouquet's streams
+const BOUQUET_LIST_VARIANTS: Params[] = [
+  { action: "bouquet", sub: "list" },
+  { action: "bouquets" },
+  { action: "get_bouquets" },
+];
+
+// Stream and category listings, for previewing a plan's channels without a line
+const STREAM_LIST_VARIANTS: Params[] = [
+  { action: "stream", sub: "list" },
+  { action: "streams" },
+  { action: "get_streams" },
+];
+
+const CATEGORY_LIST_VARIANTS: Params[] = [
+  { action: "category", sub: "list" },
+  { action: "categories" },
+  { action: "get_categories" },
+];
+
+// Probes act on a username no real line has, so they can't change anything
+const PROBE_USERNAME = "__media_invite_probe__";
+
+function isInvalidKey(resp: any): boolean {
+  return resp?.status === "STATUS_FAILURE" && /invalid api key/i.test(getErrorMessage(resp));
+}
+
+// The panel didn't recognise the action, as opposed to rejecting its arguments
+function isUnsupported(resp: any): boolean {
+  if (isSuccess(resp)) return false;
+  return /\b(invalid|unknown|unsupported|undefined) (sub|action|request|method)\b|not (supported|implemented)/i.test(
+    getErrorMessage(resp)
+  );
+}
+
+function sameUrl(a: string, b: string): boolean {
+  return a.trim().replace(/\/+$/, "") === b.trim().replace(/\/+$/, "");
+}
+
+async function request(config: IptvPanelConfig, keyParam: string | null, params: Params): Promise<any> {
+  const u = new URL(config.apiUrl);
+  if (keyParam) {
+    u.searchParams.set(keyParam, config.apiKey);
+  }
+  for (const [k, v] of Object.entries(params)) {
+    if (v === undefined) continue;
+    u.searchParams.set(k, String(v));
+  }
+  return fetchJson(u.toString(), {}, "Xtreme UI");
+}
+
+function normalizePackage(item: any): IptvPackage | null {
+  if (!item || typeof item !== "object") return null;
+
+  const id = String(item.id ?? item.package_id ?? item.bouquet_id ?? item.pid ?? item.num ?? "");
+  const name = String(item.name ?? item.package_name ?? item.bouquet_name ?? item.title ?? item.label ?? "");
+
+  if (!id && !name) return null;
+
+  // Some panels include bouquet IDs inside the package
+  let bouquetIds: string[] | undefined;
+  if (Array.isArray(item.bouquet)) {
+    bouquetIds = item.bouquet.map(String);
+  } else if (Array.isArray(item.bouquets)) {
+    bouquetIds = item.bouquets.map(String);
+  } else if (Array.isArray(item.bouquet_ids)) {
+    bouquetIds = item.bouquet_ids.map(String);
+  } else if (typeof item.bouquet === "string" && item.bouquet) {
+    bouquetIds = item.bouquet.split(",").map((s: string) => s.trim()).filter(Boolean);
+  }
+
+  return { id: id || name, name: name || `Package ${id}`, bouquetIds };
+}
+
+/**
+ * Parse a packages response. Handles arrays of objects, objects keyed by id,
+ * and the usual { packages | bouquets | data: ... } wrappers.
+ */
+function parsePackages(json: any): IptvPackage[] {
+  if (!json || typeof json !== "object") return [];
+
+  const candidates = [json, json.packages, json.bouquets, json.data, json.result, json.items, json.list];
+
+  for (const data of candidates) {
+    if (!data) continue;
+
+    if (Array.isArray(data)) {
+      const items = data.map(normalizePackage).filter((p): p is IptvPackage => !!p);
+      if (items.length > 0) return items;
+    }
+
+    // Object keyed by id: { "1": { name: "Basic" }, "2": { name: "Premium" } }
+    if (typeof data === "object" && !Array.isArray(data)) {
+      const keys = Object.keys(data);
+      const numericKeys = keys.filter((k) => /^\d+$/.test(k));
+      if (numericKeys.length >= 1 && numericKeys.length >= keys.length * 0.5) {
+        const items = numericKeys
+          .map((k) => normalizePackage({ ...data[k], id: k }))
+          .filter((p): p is IptvPackage => !!p);
+        if (items.length > 0) return items;
+      }
+    }
+  }
+
+  return [];
+}
+
+function normalizeLine(item: any): IptvPanelLine | null {
+  if (!item || typeof item !== "object" || typeof item.username !== "string" || !item.username) return null;
+
+  const enabled = item.enabled ?? item.admin_enabled;
+  const disabled = enabled !== undefined && String(enabled) === "0";
+  const notes = [item.admin_notes, item.reseller_notes, item.notes]
+    .filter((n) => typeof n === "string" && n.trim())
+    .join("\n");
+
+  return {
+    username: item.username,
+    password: typeof item.password === "string" ? item.password : undefined,
+    status: disabled || item.status === "suspended" ? "suspended" : "active",
+    expiresAt: fromUnixSeconds(item.exp_date),
+    bouquetIds: parseIdList(item.bouquet ?? item.bouquet_ids ?? item.bouquets),
+    email: typeof item.email === "string" && item.email.includes("@") ? item.email : undefined,
+    notes: notes || undefined,
+  };
+}
+
+/**
+ * Parse a lines listing. Handles the same shapes as packages: arrays,
+ * objects keyed by id and the usual wrappers.
+ */
+function parseLines(json: any): IptvPanelLine[] {
+  if (!json || typeof json !== "object") return [];
+
+  const candidates = [json, json.users, json.lines, json.data, json.result, json.items, json.list];
+
+  for (const data of candidates) {
+    if (!data || typeof data !== "object") continue;
+
+    const items = Array.isArray(data)
+      ? data
+      : Object.keys(data).filter((k) => /^\d+$/.test(k)).map((k) => data[k]);
+    const lines = items.map(normalizeLine).filter((l): l is IptvPanelLine => !!l);
+    if (lines.length > 0) return lines;
+  }
+
+  return [];
+}
+
+// Items of a listing, unwrapped from the usual { <key> | data | result: ... } wrappers
+function listingItems(resp: any, key: string): any[] {
+  for (const data of [resp, resp?.[key], resp?.data, resp?.result]) {
+    const items = listItems(data);
+    if (items.length > 0) return items;
+  }
+  return [];
+}
+
+function normalizeBouquet(item: any): IptvBouquet | null {
+  // Without its streams a bouquet is just a package
+  const streams = item?.bouquet_channels ?? item?.channels ?? item?.streams;
+  const id = String(item?.id ?? item?.bouquet_id ?? "");
+  if (streams === undefined || !id) return null;
+  return { id, name: String(item.bouquet_name ?? item.name ?? `Bouquet ${id}`), streamIds: parseIdList(streams) };
+}
+
+// Stream type 1 is live TV; movies, series and radio have their own
+function isLiveStream(item: any): boolean {
+  const type = item?.type ?? item?.stream_type;
+  return type === undefined || String(type) === "1" || type === "live";
+}
+
+function extractPackages(params: Params, resp: any): IptvPackage[] {
+  if (Object.keys(params).length > 0) return parsePackages(resp);
+
+  for (const key of ["packages", "bouquets", "available_packages", "available_bouquets", "user_packages"]) {
+    if (resp?.[key]) {
+      const packages = parsePackages({ data: resp[key] });
+      if (packages.length > 0) return packages;
+    }
+  }
+  return Array.isArray(resp) ? parsePackages(resp) : [];
+}
+
+async function probeKeyParam(config: IptvPanelConfig): Promise<string | null> {
+  const candidates = config.apiKey ? [...KEY_PARAMS, null] : [null];
+  for (const keyParam of candidates) {
+    const resp = await request(config, keyParam, { action: "user", sub: "info", username: PROBE_USERNAME });
+    if (!isInvalidKey(resp)) return keyParam;
+  }
+  throw new Error("CONFIG_MISSING: Xtreme UI rejected the API key");
+}
+
+async function probeSub(
+  config: IptvPanelConfig,
+  keyParam: string | null,
+  op: XtremeLineOperation
+): Promise<string> {
+  for (const sub of SUB_CANDIDATES[op]) {
+    // Without a username the panel rejects a create instead of making a line
+    const params: Params = { action: "user", sub, username: op === "create" ? undefined : PROBE_USERNAME };
+    const resp = await request(config, keyParam, params).catch(() => null);
+    if (resp && !isUnsupported(resp)) return sub;
+  }
+  return SUB_CANDIDATES[op][0];
+}
+
+/**
+ * Probe the panel once for the key parameter, sub-actions and packages
+ * listing it supports
+ */
+export async function discoverXtremePanel(config: IptvPanelConfig): Promise<XtremePanelProfile> {
+  const keyParam = await probeKeyParam(config);
+
+  const subs = {} as Record<XtremeLineOperation, string>;
+  for (const op of Object.keys(SUB_CANDIDATES) as XtremeLineOperation[]) {
+    subs[op] = await probeSub(config, keyParam, op);
+  }
+
+  let packages: Record<string, string> | null = null;
+  for (const params of PACKAGE_VARIANTS) {
+    const resp = await request(config, keyParam, params).catch(() => null);
+    if (extractPackages(params, resp).length > 0) {
+      packages = Object.fromEntries(Object.entries(params).map(([k, v]) => [k, String(v)]));
+      break;
+    }
+  }
+
+  return { apiUrl: config.apiUrl, keyParam, subs, packages, probedAt: Date.now() };
+}
+
+/**
+ * Read a stored profile; null when it's missing or unreadable
+ */
+export function parseXtremePanelProfile(raw: string | null | undefined): XtremePanelProfile | null {
+  if (!raw) return null;
+  try {
+    const profile = JSON.parse(raw);
+    return profile && typeof profile.apiUrl === "string" && profile.subs ? profile : null;
+  } catch {
+    return null;
+  }
+}
+
+export class XtremeUiProvider implements IptvProvider {
+  readonly id = "xtremeui" as const;
+  private profile: XtremePanelProfile | null;
+
+  constructor(
+    private config: IptvPanelConfig,
+    private hooks: IptvProviderHooks = {}
+  ) {
+    const profile = config.profile ?? null;
+    this.profile = profile && sameUrl(profile.apiUrl, config.apiUrl) ? profile : null;
+  }
+
+  private async probe(): Promise<XtremePanelProfile> {
+    this.profile = await discoverXtremePanel(this.config);
+    await this.hooks.saveProfile?.(this.profile);
+    return this.profile;
+  }
+
+  // Use the profile when there is one; probe first when there isn't
+  private async currentProfile(): Promise<{ profile: XtremePanelProfile; fresh: boolean }> {
+    if (this.profile) return { profile: this.profile, fresh: false };
+    return { profile: await this.probe(), fresh: true };
+  }
+
+  private call(profile: XtremePanelProfile, op: XtremeLineOperation, fields: Params) {
+    return request(this.config, profile.keyParam, { action: "user", sub: profile.subs[op], ...fields });
+  }
+
+  // Run an operation with the profiled sub-action, probing again once if
+  // the panel no longer accepts it
+  private async run(op: XtremeLineOperation, fields: Params): Promise<any> {
+    const { profile, fresh } = await this.currentProfile();
+    let resp = await this.call(profile, op, fields);
+
+    if (!fresh && (isInvalidKey(resp) || isUnsupported(resp))) {
+      const next = await this.probe();
+      if (next.keyParam !== profile.keyParam || next.subs[op] !== profile.subs[op]) {
+        resp = await this.call(next, op, fields);
+      }
+    }
+
+    if (isInvalidKey(resp)) {
+      throw new Error("CONFIG_MISSING: Xtreme UI rejected the API key");
+    }
+    return resp;
+  }
+
+  private async expect(op: XtremeLineOperation, fields: Params, failure: string) {
+    const resp = await this.run(op, fields);
+    if (!isSuccess(resp)) {
+      throw new Error(`Xtreme UI ${failure} failed: ${getErrorMessage(resp)}`);
+    }
+    return resp;
+  }
+
+  async create(line: IptvLine, options: IptvLineOptions): Promise<void> {
+    const bouquetCsv = options.bouquetIds?.length ? options.bouquetIds.join(",") : undefined;
+    const fields: Params = {
+      username: line.username,
+      password: line.password,
+      bouquet: bouquetCsv,
+      bouquet_ids: bouquetCsv,
+      exp_date: toUnixSeconds(options.expiresAt),
+      duration: options.durationDays,
+    };
+
+    const resp = await this.run("create", fields);
+    if (isSuccess(resp)) return;
+
+    // The line may already exist: update it instead
+    await this.expect("edit", fields, "provision");
+  }
+
+  async updateBouquets(line: IptvLine, bouquetIds: string[] | undefined): Promise<void> {
+    const bouquetCsv = bouquetIds?.length ? bouquetIds.join(",") : undefined;
+    await this.expect("edit", { username: line.username, bouquet: bouquetCsv, bouquet_ids: bouquetCsv }, "update");
+  }
+
+  async renew(line: IptvLine, expiresAt?: number): Promise<void> {
+    const expUnix = toUnixSeconds(expiresAt);
+    await this.expect("renew", { username: line.username, exp_date: expUnix, expires: expUnix }, "renew");
+  }
+
+  async suspend(line: IptvLine): Promise<void> {
+    await this.expect("suspend", { username: line.username }, "suspend");
+  }
+
+  async info(line: IptvLine): Promise<IptvLineInfo | null> {
+    const resp = await this.run("info", { username: line.username });
+    // Not all panels support info; treat as non-fatal.
+    if (!isSuccess(resp)) return null;
+
+    const data = resp.user_info ?? resp.data ?? resp;
+    const status = data?.user_status ?? data?.status;
+    return {
+      status: status === "active" || status === "suspended" ? status : undefined,
+      expiresAt: fromUnixSeconds(data?.exp_date) ?? fromUnixSeconds(data?.expires),
+      raw: resp,
+    };
+  }
+
+  async changePassword(line: IptvLine, password: string): Promise<void> {
+    await this.expect("edit", { username: line.username, password }, "update");
+  }
+
+  async listPackages(): Promise<IptvPackage[]> {
+    const { profile, fresh } = await this.currentProfile();
+    const list = async (p: XtremePanelProfile) => {
+      if (!p.packages) return [];
+      const resp = await request(this.config, p.keyParam, p.packages).catch(() => null);
+      return extractPackages(p.packages, resp);
+    };
+
+    const packages = await list(profile);
+    if (packages.length > 0 || fresh) return packages;
+    return list(await this.probe());
+  }
+
+  // Items from the first listing variant that returns any
+  private async firstListing<T>(variants: Params[], parse: (resp: any) => T[]): Promise<T[]> {
+    const { profile } = await this.currentProfile();
+    for (const params of variants) {
+      const resp = await request(this.config, profile.keyParam, params).catch(() => null);
+      if (isInvalidKey(resp)) throw new Error("CONFIG_MISSING: Xtreme UI rejected the API key");
+
+      const items = parse(resp);
+      if (items.length > 0) return items;
+    }
+    return [];
+  }
+
+  async listLines(): Promise<IptvPanelLine[]> {
+    const lines = await this.firstListing(LINE_LIST_VARIANTS, parseLines);
+    if (lines.length > 0) return lines;
+    throw new Error("Xtreme UI didn't list any lines. The panel's API may not support listing them.");
+  }
+
+  async listBouquets(): Promise<IptvBouquet[]> {
+    return this.firstListing(BOUQUET_LIST_VARIANTS, (resp) =>
+      listingItems(resp, "bouquets")
+        .map(normalizeBouquet)
+        .filter((b): b is IptvBouquet => !!b)
+    );
+  }
+
+  async listLiveChannels(): Promise<IptvChannelLineup> {
+    const channels = await this.firstListing(STREAM_LIST_VARIANTS, (resp) =>
+      listingItems(resp, "streams")
+        .filter(isLiveStream)
+        .map(normalizeXtreamChannel)
+        .filter((c): c is IptvChannel => !!c)
+    );
+    if (channels.length === 0) {
+      throw new Error("Xtreme UI didn't list any streams. The panel's API may not support listing them.");
+    }
+
+    const categories = await this.firstListing(CATEGORY_LIST_VARIANTS, (resp) =>
+      listingItems(resp, "categories")
+        .filter((item) => !item.category_type || item.category_type === "live")
+        .map(normalizeXtreamCategory)
+        .filter((c): c is IptvChannelCategory => !!c)
+    );
+    return { categories, channels };
+  }
+
+  playlistUrl(line: IptvLine): string | undefined {
+    if (!line.password || !this.config.streamBaseUrl) return undefined;
+    return buildXtreamPlaylistUrl(this.config.streamBaseUrl, line.username, line.password);
+  }
+
+  epgUrl(line: IptvLine): string | undefined {
+    if (!line.password || !this.config.streamBaseUrl) return undefined;
+    return buildXtreamEpgUrl(this.config.streamBaseUrl, line.username, line.password);
+  }
+
+  async liveStatus(line: IptvLine): Promise<IptvLiveStatus> {
+    if (!line.password) throw new Error("VALIDATION_ERROR: Line has no password");
+    return fetchXtreamLiveStatus(this.config.streamBaseUrl, line.username, line.password);
+  }
+
+  async liveChannels(line: IptvLine): Promise<IptvChannelLineup> {
+    if (!line.password) throw new Error("VALIDATION_ERROR: Line has no password");
+    return fetchXtreamLiveChannels(this.config.streamBaseUrl, line.username, line.password);
+  }
+}
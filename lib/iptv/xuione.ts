@@ -0,0 +1,198 @@
+/**
+ * XUI.one adapter
+ * Uses the admin API (https://panel/<access code>/?api_key=...&action=...),
+ * which addresses lines by id, so each call looks the line up by username first.
+ */
+
+import {
+  buildXtreamEpgUrl,
+  buildXtreamPlaylistUrl,
+  fetchJson,
+  fetchXtreamLiveChannels,
+  fetchXtreamLiveStatus,
+  fromUnixSeconds,
+  listItems,
+  normalizeXtreamCategory,
+  normalizeXtreamChannel,
+  parseIdList,
+  toUnixSeconds,
+  type IptvBouquet,
+  type IptvChannel,
+  type IptvChannelCategory,
+  type IptvChannelLineup,
+  type IptvLine,
+  type IptvLineInfo,
+  type IptvLineOptions,
+  type IptvLiveStatus,
+  type IptvPackage,
+  type IptvPanelConfig,
+  type IptvProvider,
+} from "./types";
+
+type Params = Record<string, string | number | undefined>;
+
+interface XuiLine {
+  id: string | number;
+  username: string;
+  enabled?: number | string;
+  admin_enabled?: number | string;
+  exp_date?: number | string | null;
+}
+
+export class XuiOneProvider implements IptvProvider {
+  readonly id = "xuione" as const;
+
+  constructor(private config: IptvPanelConfig) {}
+
+  private async call(action: string, params: Params = {}, form?: URLSearchParams): Promise<any> {
+    const u = new URL(this.config.apiUrl);
+    u.searchParams.set("api_key", this.config.apiKey);
+    u.searchParams.set("action", action);
+    for (const [k, v] of Object.entries(params)) {
+      if (v === undefined) continue;
+      u.searchParams.set(k, String(v));
+    }
+
+    const json = await fetchJson(
+      u.toString(),
+      form ? { method: "POST", body: form, headers: { "Content-Type": "application/x-www-form-urlencoded" } } : {},
+      "XUI.one"
+    );
+
+    if (json?.status === "STATUS_SUCCESS") return json.data;
+
+    const error = (typeof json?.error === "string" && json.error) || json?.status || "Unknown error";
+    if (/invalid api key|access denied/i.test(error)) {
+      throw new Error(`CONFIG_MISSING: XUI.one rejected the API key`);
+    }
+    throw new Error(`XUI.one ${action} failed: ${error}`);
+  }
+
+  private lineForm(fields: { password?: string; bouquetIds?: string[]; expiresAt?: number }): URLSearchParams {
+    const form = new URLSearchParams();
+    if (fields.password) form.set("password", fields.password);
+    if (fields.expiresAt !== undefined) form.set("exp_date", String(toUnixSeconds(fields.expiresAt)));
+    for (const id of fields.bouquetIds ?? []) {
+      form.append("bouquets_selected[]", id);
+    }
+    return form;
+  }
+
+  private async findLine(username: string): Promise<XuiLine | null> {
+    const lines = await this.call("get_lines", { search: username });
+    const list: XuiLine[] = Array.isArray(lines) ? lines : Array.isArray(lines?.data) ? lines.data : [];
+    return list.find((l) => l.username === username) ?? null;
+  }
+
+  private async requireLine(username: string): Promise<XuiLine> {
+    const line = await this.findLine(username);
+    if (!line) throw new Error(`XUI.one has no line named ${username}`);
+    return line;
+  }
+
+  async create(line: IptvLine, options: IptvLineOptions): Promise<void> {
+    const expiresAt =
+      options.expiresAt ??
+      (options.durationDays ? Date.now() + options.durationDays * 24 * 60 * 60 * 1000 : undefined);
+    const form = this.lineForm({ password: line.password, bouquetIds: options.bouquetIds, expiresAt });
+
+    const existing = await this.findLine(line.username);
+    if (existing) {
+      await this.call("edit_line", { id: existing.id }, form);
+      await this.call("enable_line", { id: existing.id });
+      return;
+    }
+
+    form.set("username", line.username);
+    await this.call("create_line", {}, form);
+  }
+
+  async updateBouquets(line: IptvLine, bouquetIds: string[] | undefined): Promise<void> {
+    const existing = await this.requireLine(line.username);
+    await this.call("edit_line", { id: existing.id }, this.lineForm({ bouquetIds }));
+  }
+
+  async renew(line: IptvLine, expiresAt?: number): Promise<void> {
+    const existing = await this.requireLine(line.username);
+    if (expiresAt !== undefined) {
+      await this.call("edit_line", { id: existing.id }, this.lineForm({ expiresAt }));
+    }
+    await this.call("enable_line", { id: existing.id });
+  }
+
+  async suspend(line: IptvLine): Promise<void> {
+    const existing = await this.requireLine(line.username);
+    await this.call("disable_line", { id: existing.id });
+  }
+
+  async info(line: IptvLine): Promise<IptvLineInfo | null> {
+    const existing = await this.findLine(line.username);
+    if (!existing) return null;
+
+    const enabled = Number(existing.enabled ?? 1) === 1 && Number(existing.admin_enabled ?? 1) === 1;
+    return {
+      status: enabled ? "active" : "suspended",
+      expiresAt: fromUnixSeconds(existing.exp_date),
+      raw: existing,
+    };
+  }
+
+  async changePassword(line: IptvLine, password: string): Promise<void> {
+    const existing = await this.requireLine(line.username);
+    await this.call("edit_line", { id: existing.id }, this.lineForm({ password }));
+  }
+
+  async listPackages(): Promise<IptvPackage[]> {
+    const bouquets = await this.call("get_bouquets");
+    const list: any[] = Array.isArray(bouquets) ? bouquets : Object.values(bouquets ?? {});
+    return list
+      .filter((b) => b && b.id !== undefined)
+      .map((b) => ({ id: String(b.id), name: String(b.bouquet_name ?? b.name ?? `Bouquet ${b.id}`) }));
+  }
+
+  async listBouquets(): Promise<IptvBouquet[]> {
+    return listItems(await this.call("get_bouquets"))
+      .filter((b) => b && b.id !== undefined)
+      .map((b) => ({
+        id: String(b.id),
+        name: String(b.bouquet_name ?? b.name ?? `Bouquet ${b.id}`),
+        streamIds: parseIdList(b.bouquet_channels),
+      }));
+  }
+
+  async listLiveChannels(): Promise<IptvChannelLineup> {
+    // Stream type 1 is live TV
+    const streams = listItems(await this.call("get_streams", { type: 1 }));
+    const categories = listItems(await this.call("get_categories"));
+    return {
+      categories: categories
+        .filter((c) => !c.category_type || c.category_type === "live")
+        .map(normalizeXtreamCategory)
+        .filter((c): c is IptvChannelCategory => !!c),
+      channels: streams
+        .filter((item) => item.type === undefined || String(item.type) === "1")
+        .map(normalizeXtreamChannel)
+        .filter((c): c is IptvChannel => !!c),
+    };
+  }
+
+  playlistUrl(line: IptvLine): string | undefined {
+    if (!line.password || !this.config.streamBaseUrl) return undefined;
+    return buildXtreamPlaylistUrl(this.config.streamBaseUrl, line.username, line.password);
+  }
+
+  epgUrl(line: IptvLine): string | undefined {
+    if (!line.password || !this.config.streamBaseUrl) return undefined;
+    return buildXtreamEpgUrl(this.config.streamBaseUrl, line.username, line.password);
+  }
+
+  async liveStatus(line: IptvLine): Promise<IptvLiveStatus> {
+    if (!line.password) throw new Error("VALIDATION_ERROR: Line has no password");
+    return fetchXtreamLiveStatus(this.config.streamBaseUrl, line.username, line.password);
+  }
+
+  async liveChannels(line: IptvLine): Promise<IptvChannelLineup> {
+    if (!line.password) throw new Error("VALIDATION_ERROR: Line has no password");
+    return fetchXtreamLiveChannels(this.config.streamBaseUrl, line.username, line.password);
+  }
+}
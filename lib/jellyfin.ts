@@ -0,0 +1,432 @@
+/**
+ * Jellyfin API Client
+ * Handles user management operations for Jellyfin Media Server
+ */
+
+interface JellyfinUser {
+  Id: string;
+  Name: string;
+  ServerId?: string;
+  HasPassword: boolean;
+  HasConfiguredPassword: boolean;
+  HasConfiguredEasyPassword: boolean;
+  EnableAutoLogin?: boolean;
+  LastLoginDate?: string;
+  LastActivityDate?: string;
+  Policy?: JellyfinUserPolicy;
+}
+
+interface JellyfinUserPolicy {
+  IsAdministrator: boolean;
+  IsHidden: boolean;
+  IsDisabled: boolean;
+  EnableAllFolders: boolean;
+  EnabledFolders: string[];
+  EnableAllChannels: boolean;
+  EnableAllDevices: boolean;
+  EnableRemoteAccess: boolean;
+  EnableLiveTvAccess: boolean;
+  EnableLiveTvManagement: boolean;
+  // Required by Jellyfin when posting a policy; preserved from the current policy.
+  AuthenticationProviderId?: string;
+  PasswordResetProviderId?: string;
+}
+
+interface JellyfinLibrary {
+  ItemId?: string;
+  Name: string;
+  CollectionType?: string;
+  LibraryOptions?: object;
+  Locations?: string[];
+}
+
+interface JellyfinSession {
+  Id: string;
+  UserId?: string;
+  UserName?: string;
+  Client?: string;
+  DeviceName?: string;
+  RemoteEndPoint?: string;
+  NowPlayingItem?: {
+    Name: string;
+    SeriesName?: string;
+  };
+}
+
+interface JellyfinStream {
+  sessionId: string;
+  userId?: string;
+  username?: string;
+  title: string;
+  device?: string;
+  address?: string;
+}
+
+interface JellyfinConfig {
+  url: string;
+  apiKey: string;
+}
+
+export class JellyfinClient {
+  private url: string;
+  private apiKey: string;
+
+  constructor(config: JellyfinConfig) {
+    this.url = config.url.replace(/\/$/, ""); // Remove trailing slash
+    this.apiKey = config.apiKey;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const url = `${this.url}${endpoint}`;
+
+    const headers: HeadersInit = {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      Authorization: `MediaBrowser Token="${this.apiKey}"`,
+      ...options.headers,
+    };
+
+    const response = await fetch(url, {
+      ...options,
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Jellyfin API Error: ${response.status} - ${error}`);
+    }
+
+    // Handle empty responses
+    const text = await response.text();
+    if (!text) return {} as T;
+
+    return JSON.parse(text);
+  }
+
+  /**
+   * Test connection to Jellyfin server
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.request("/System/Info");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get server information
+   */
+  async getServerInfo(): Promise<{
+    ServerName: string;
+    Version: string;
+    Id: string;
+  }> {
+    return this.request("/System/Info");
+  }
+
+  /**
+   * Get all libraries (virtual folders)
+   */
+  async getLibraries(): Promise<JellyfinLibrary[]> {
+    try {
+      const response = await this.request<JellyfinLibrary[]>("/Library/VirtualFolders");
+      return Array.isArray(response) ? response : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check if Live TV is available on the server
+   */
+  async hasLiveTv(): Promise<boolean> {
+    try {
+      const response = await this.request<{ Items?: any[]; TotalRecordCount?: number }>("/LiveTv/Channels?Limit=1");
+      return (response.TotalRecordCount ?? 0) > 0 || (response.Items?.length ?? 0) > 0;
+    } catch {
+      // LiveTV might not be configured or available
+      return false;
+    }
+  }
+
+  /**
+   * Get all users
+   */
+  async getUsers(): Promise<JellyfinUser[]> {
+    return this.request<JellyfinUser[]>("/Users");
+  }
+
+  /**
+   * Get when each user was last active, keyed by user ID (ms timestamps)
+   */
+  async getLastActivityByUser(): Promise<Record<string, number>> {
+    const activity: Record<string, number> = {};
+    for (const user of await this.getUsers()) {
+      const at = user.LastActivityDate ? Date.parse(user.LastActivityDate) : NaN;
+      if (!Number.isNaN(at)) activity[user.Id] = at;
+    }
+    return activity;
+  }
+
+  /**
+   * Get the streams playing (or paused) right now
+   */
+  async getActiveStreams(): Promise<JellyfinStream[]> {
+    const sessions = await this.request<JellyfinSession[]>("/Sessions");
+    return sessions
+      .filter((session) => session.NowPlayingItem)
+      .map((session) => ({
+        sessionId: session.Id,
+        userId: session.UserId,
+        username: session.UserName,
+        title: session.NowPlayingItem!.SeriesName
+          ? `${session.NowPlayingItem!.SeriesName} - ${session.NowPlayingItem!.Name}`
+          : session.NowPlayingItem!.Name,
+        device: session.DeviceName || session.Client,
+        address: session.RemoteEndPoint,
+      }));
+  }
+
+  /**
+   * Stop a stream, showing the viewer a reason first
+   */
+  async terminateSession(sessionId: string, reason: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.request(`/Sessions/${sessionId}/Message`, {
+        method: "POST",
+        body: JSON.stringify({ Header: "Playback stopped", Text: reason, TimeoutMs: 10000 }),
+      }).catch(() => undefined); // Not every client can show messages
+
+      await this.request(`/Sessions/${sessionId}/Playing/Stop`, {
+        method: "POST",
+      });
+
+      return { success: true, message: "Stream stopped" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to stop stream",
+      };
+    }
+  }
+
+  /**
+   * Get a specific user by ID
+   */
+  async getUser(userId: string): Promise<JellyfinUser> {
+    return this.request<JellyfinUser>(`/Users/${userId}`);
+  }
+
+  /**
+   * Create a new user
+   */
+  async createUser(
+    username: string,
+    password?: string
+  ): Promise<{ success: boolean; userId?: string; message: string }> {
+    try {
+      // Jellyfin accepts the initial password as part of user creation
+      const user = await this.request<JellyfinUser>("/Users/New", {
+        method: "POST",
+        body: JSON.stringify({
+          Name: username,
+          Password: password || "",
+        }),
+      });
+
+      return {
+        success: true,
+        userId: user.Id,
+        message: "User created successfully",
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to create user",
+      };
+    }
+  }
+
+  /**
+   * Update user policy (permissions)
+   */
+  async updateUserPolicy(
+    userId: string,
+    policy: Partial<JellyfinUserPolicy>
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      // Get current user to merge policies (Jellyfin rejects partial policies)
+      const user = await this.getUser(userId);
+      const currentPolicy = user.Policy || {};
+
+      await this.request(`/Users/${userId}/Policy`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...currentPolicy,
+          ...policy,
+        }),
+      });
+
+      return { success: true, message: "User policy updated successfully" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to update user policy",
+      };
+    }
+  }
+
+  /**
+   * Set user's library access (including LiveTV feature)
+   */
+  async setUserLibraries(
+    userId: string,
+    libraryIds: string[],
+    enableAllFolders: boolean = false
+  ): Promise<{ success: boolean; message: string }> {
+    // Live TV uses the same pseudo-library id as Emby so invites can be shared
+    const hasLiveTv = libraryIds.includes('__livetv__');
+    const actualLibraryIds = libraryIds.filter(id => id !== '__livetv__');
+
+    return this.updateUserPolicy(userId, {
+      EnableAllFolders: enableAllFolders,
+      EnabledFolders: actualLibraryIds,
+      EnableLiveTvAccess: hasLiveTv,
+    });
+  }
+
+  /**
+   * Disable a user
+   */
+  async disableUser(userId: string): Promise<{ success: boolean; message: string }> {
+    return this.updateUserPolicy(userId, {
+      IsDisabled: true,
+    });
+  }
+
+  /**
+   * Enable a user
+   */
+  async enableUser(userId: string): Promise<{ success: boolean; message: string }> {
+    return this.updateUserPolicy(userId, {
+      IsDisabled: false,
+    });
+  }
+
+  /**
+   * Delete a user
+   */
+  async deleteUser(userId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.request(`/Users/${userId}`, {
+        method: "DELETE",
+      });
+
+      return { success: true, message: "User deleted successfully" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to delete user",
+      };
+    }
+  }
+
+  /**
+   * Reset user password
+   */
+  async resetPassword(
+    userId: string,
+    newPassword: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      // Clear the existing password first, then set the new one
+      await this.request(`/Users/${userId}/Password`, {
+        method: "POST",
+        body: JSON.stringify({
+          ResetPassword: true,
+        }),
+      });
+
+      await this.request(`/Users/${userId}/Password`, {
+        method: "POST",
+        body: JSON.stringify({
+          CurrentPw: "",
+          NewPw: newPassword,
+        }),
+      });
+
+      return { success: true, message: "Password reset successfully" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to reset password",
+      };
+    }
+  }
+
+  /**
+   * Check if username is available
+   */
+  async isUsernameAvailable(username: string): Promise<boolean> {
+    try {
+      const users = await this.getUsers();
+      return !users.some(
+        (user) => user.Name.toLowerCase() === username.toLowerCase()
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Find a user by username (case-insensitive)
+   */
+  async findUserByUsername(username: string): Promise<JellyfinUser | null> {
+    try {
+      const users = await this.getUsers();
+      return users.find(
+        (user) => user.Name.toLowerCase() === username.toLowerCase()
+      ) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find a user by email-like username (checks if username matches email prefix)
+   * Jellyfin doesn't store emails, so we check if username matches email prefix
+   */
+  async findUserByEmail(email: string): Promise<JellyfinUser | null> {
+    try {
+      const users = await this.getUsers();
+      const emailLower = email.toLowerCase();
+      const emailPrefix = emailLower.split('@')[0];
+
+      // First try exact username match with email
+      let found = users.find(
+        (user) => user.Name.toLowerCase() === emailLower
+      );
+
+      // Then try matching email prefix (common pattern)
+      if (!found) {
+        found = users.find(
+          (user) => user.Name.toLowerCase() === emailPrefix
+        );
+      }
+
+      return found || null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Factory function for creating Jellyfin client
+export function createJellyfinClient(url: string, apiKey: string): JellyfinClient {
+  return new JellyfinClient({ url, apiKey });
+}
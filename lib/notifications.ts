@@ -4,8 +4,21 @@
 
 import nodemailer from "nodemailer";
 import type { Transporter } from "nodemailer";
+import { signWebhookBody, type WebhookPayload } from "./webhooks";
+import {
+  EMAIL_TEMPLATES,
+  escapeHtml,
+  formatEmailDate,
+  renderEmailTemplate,
+  serverTypeName,
+  type EmailTemplateContent,
+  type EmailTemplateId,
+} from "./email-templates";
+import { formatAmount } from "./stripe";
 
-interface SmtpConfig {
+export { WebhookEvents, createWebhookPayload } from "./webhooks";
+
+export interface SmtpConfig {
   host: string;
   port: number;
   secure: boolean;
@@ -15,12 +28,6 @@ interface SmtpConfig {
   fromName?: string;
 }
 
-interface WebhookPayload {
-  event: string;
-  timestamp: string;
-  data: Record<string, any>;
-}
-
 /**
  * Create SMTP transporter
  */
@@ -87,15 +94,89 @@ export async function verifySmtpConnection(
 }
 
 /**
- * Send invite email to user
+ * Send an email from one of the editable templates, falling back to the
+ * template's default content when it hasn't been saved
+ */
+export async function sendTemplateEmail(
+  config: SmtpConfig,
+  to: string,
+  templateId: EmailTemplateId,
+  template: EmailTemplateContent | null | undefined,
+  variables: Record<string, string | undefined>,
+  options: { trackingPixelUrl?: string } = {}
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const rendered = renderEmailTemplate(template ?? EMAIL_TEMPLATES[templateId].defaults, variables);
+  const html = options.trackingPixelUrl
+    ? rendered.html.replace(
+        "</body>",
+        `<img src="${escapeHtml(options.trackingPixelUrl)}" width="1" height="1" alt="" style="display: block; border: 0;">\n</body>`
+      )
+    : rendered.html;
+
+  return sendEmail(config, to, rendered.subject, html);
+}
+
+/**
+ * Send invite email to user. With a tracking token, the link goes through
+ * the invite page's click-through redirect and a pixel records opens.
  */
 export async function sendInviteEmail(
   config: SmtpConfig,
   to: string,
   inviteCode: string,
-  appUrl: string
+  serverType: "plex" | "emby" | "both" | "jellyfin",
+  appUrl: string,
+  trackingToken?: string,
+  template?: EmailTemplateContent | null
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   const inviteUrl = `${appUrl}/invite/${inviteCode}`;
+  const token = trackingToken ? `?t=${encodeURIComponent(trackingToken)}` : "";
+
+  return sendTemplateEmail(
+    config,
+    to,
+    "invite",
+    template,
+    {
+      inviteUrl: `${inviteUrl}${token}`,
+      inviteCode,
+      serverName: serverTypeName(serverType),
+      appUrl,
+    },
+    { trackingPixelUrl: trackingToken ? `${inviteUrl}/open${token}` : undefined }
+  );
+}
+
+/**
+ * Send welcome email after successful signup
+ */
+export async function sendWelcomeEmail(
+  config: SmtpConfig,
+  to: string,
+  username: string,
+  serverType: "plex" | "emby" | "both" | "jellyfin",
+  appUrl: string,
+  template?: EmailTemplateContent | null
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  return sendTemplateEmail(config, to, "welcome", template, {
+    username,
+    serverName: serverTypeName(serverType),
+    appUrl,
+  });
+}
+
+/**
+ * Warn a user that their access will be removed for inactivity
+ */
+export async function sendInactivityWarningEmail(
+  config: SmtpConfig,
+  to: string,
+  username: string,
+  daysInactive: number,
+  revokeAt: number,
+  appUrl: string
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const revokeDate = formatEmailDate(revokeAt);
 
   const html = `
     <!DOCTYPE html>
@@ -106,50 +187,49 @@ export async function sendInviteEmail(
     </head>
     <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; padding: 40px 20px; background-color: #f4f4f5;">
       <div style="max-width: 560px; margin: 0 auto; background: white; border-radius: 8px; padding: 40px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
-        <h1 style="margin: 0 0 24px; font-size: 24px; color: #18181b;">You're Invited! 🎉</h1>
+        <h1 style="margin: 0 0 24px; font-size: 24px; color: #18181b;">We miss you, ${username}</h1>
+        
+        <p style="margin: 0 0 16px; color: #3f3f46; line-height: 1.6;">
+          You haven't watched anything in ${daysInactive} days. Seats on the server are limited, so inactive accounts are removed to make room for others.
+        </p>
         
         <p style="margin: 0 0 16px; color: #3f3f46; line-height: 1.6;">
-          You've been invited to join our media server. Click the button below to create your account and get access.
+          Your access will be removed on <strong>${revokeDate}</strong>. To keep it, just play something before then.
         </p>
         
         <div style="margin: 32px 0;">
-          <a href="${inviteUrl}" style="display: inline-block; background-color: #18181b; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: 500;">
-            Accept Invitation
+          <a href="${appUrl}/my-account" style="display: inline-block; background-color: #18181b; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: 500;">
+            View My Account
           </a>
         </div>
         
-        <p style="margin: 0 0 8px; color: #71717a; font-size: 14px;">
-          Or copy this link:
-        </p>
-        <p style="margin: 0 0 24px; color: #3f3f46; font-size: 14px; word-break: break-all;">
-          ${inviteUrl}
-        </p>
-        
-        <hr style="border: none; border-top: 1px solid #e4e4e7; margin: 24px 0;">
-        
-        <p style="margin: 0; color: #a1a1aa; font-size: 12px;">
-          Your invite code: <strong>${inviteCode}</strong>
+        <p style="margin: 0; color: #71717a; font-size: 14px;">
+          If you have any questions, please contact the server administrator.
         </p>
       </div>
     </body>
     </html>
   `;
 
-  return sendEmail(config, to, "You're Invited to Our Media Server!", html);
+  return sendEmail(config, to, "Your media server access is about to expire", html);
 }
 
 /**
- * Send welcome email after successful signup
+ * Tell a user they streamed on more devices than their plan allows
  */
-export async function sendWelcomeEmail(
+export async function sendStreamLimitEmail(
   config: SmtpConfig,
   to: string,
   username: string,
-  serverType: "plex" | "emby" | "both"
+  limit: number,
+  streamCount: number,
+  outcome: { stopped: boolean; suspended: boolean }
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  const serverName = serverType === "both" 
-    ? "Plex and Emby" 
-    : serverType.charAt(0).toUpperCase() + serverType.slice(1);
+  const consequence = outcome.suspended
+    ? "Because this has happened repeatedly, your access has been suspended. Please contact the server administrator to restore it."
+    : outcome.stopped
+      ? "The extra streams have been stopped. Repeated overages may lead to your access being suspended."
+      : "Please stop the extra streams. Repeated overages may lead to your access being suspended.";
 
   const html = `
     <!DOCTYPE html>
@@ -160,34 +240,80 @@ export async function sendWelcomeEmail(
     </head>
     <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; padding: 40px 20px; background-color: #f4f4f5;">
       <div style="max-width: 560px; margin: 0 auto; background: white; border-radius: 8px; padding: 40px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
-        <h1 style="margin: 0 0 24px; font-size: 24px; color: #18181b;">Welcome, ${username}! 🎬</h1>
+        <h1 style="margin: 0 0 24px; font-size: 24px; color: #18181b;">Too many streams, ${username}</h1>
         
         <p style="margin: 0 0 16px; color: #3f3f46; line-height: 1.6;">
-          Your account has been created and you now have access to ${serverName}.
+          Your account was streaming on ${streamCount} devices at once, but your plan allows ${limit}.
         </p>
         
-        <h2 style="margin: 24px 0 16px; font-size: 18px; color: #18181b;">Getting Started</h2>
-        
-        <ul style="margin: 0 0 24px; padding-left: 24px; color: #3f3f46; line-height: 1.8;">
-          ${serverType === "plex" || serverType === "both" ? `
-          <li>Download the <a href="https://www.plex.tv/apps/" style="color: #2563eb;">Plex app</a> for your device</li>
-          <li>Sign in with your Plex account</li>
-          ` : ""}
-          ${serverType === "emby" || serverType === "both" ? `
-          <li>Download the <a href="https://emby.media/download.html" style="color: #2563eb;">Emby app</a> for your device</li>
-          <li>Connect to the server using your credentials</li>
-          ` : ""}
-        </ul>
+        <p style="margin: 0 0 16px; color: #3f3f46; line-height: 1.6;">
+          ${consequence}
+        </p>
         
         <p style="margin: 0; color: #71717a; font-size: 14px;">
-          If you have any questions, please contact the server administrator.
+          Accounts are for personal use. If you need more streams, ask the server administrator about upgrading your plan.
         </p>
       </div>
     </body>
     </html>
   `;
 
-  return sendEmail(config, to, `Welcome to ${serverName}!`, html);
+  return sendEmail(
+    config,
+    to,
+    outcome.suspended ? "Your media server access has been suspended" : "You've exceeded your stream limit",
+    html
+  );
+}
+
+/**
+ * Chase a failed subscription payment: a reminder, or the final notice
+ * before access is revoked. The portal link opens a fresh billing portal
+ * session for whoever signs in.
+ */
+export async function sendPaymentFailedEmail(
+  config: SmtpConfig,
+  to: string,
+  username: string,
+  kind: "reminder" | "final",
+  amount: number,
+  currency: string,
+  revokeAt: number,
+  appUrl: string,
+  template?: EmailTemplateContent | null
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  return sendTemplateEmail(config, to, kind === "final" ? "paymentFinalNotice" : "paymentFailed", template, {
+    username,
+    amount: formatAmount(amount, currency, "en-US"),
+    portalUrl: `${appUrl}/api/stripe/portal`,
+    accessEndsAt: formatEmailDate(revokeAt),
+    appUrl,
+  });
+}
+
+/**
+ * Remind a user that their IPTV line expires soon, with a link to renew it
+ */
+export async function sendIptvExpiryReminderEmail(
+  config: SmtpConfig,
+  to: string,
+  username: string,
+  expiresAt: number,
+  daysLeft: number,
+  renewalDays: number | undefined,
+  appUrl: string,
+  template?: EmailTemplateContent | null
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  return sendTemplateEmail(config, to, "iptvExpiryReminder", template, {
+    username,
+    expiresAt: formatEmailDate(expiresAt),
+    when: daysLeft <= 1 ? "tomorrow" : `in ${daysLeft} days`,
+    renewalNote: renewalDays
+      ? `You can renew it for another ${renewalDays} days from My IPTV. The extra time is added to your current expiry date.`
+      : "To keep watching, please contact the server administrator to renew it.",
+    myIptvUrl: `${appUrl}/my-iptv`,
+    appUrl,
+  });
 }
 
 /**
@@ -207,19 +333,7 @@ export async function sendWebhook(
 
     // Add signature if secret is provided
     if (webhookSecret) {
-      const encoder = new TextEncoder();
-      const key = await crypto.subtle.importKey(
-        "raw",
-        encoder.encode(webhookSecret),
-        { name: "HMAC", hash: "SHA-256" },
-        false,
-        ["sign"]
-      );
-      const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
-      const signatureHex = Array.from(new Uint8Array(signature))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join("");
-      headers["X-Webhook-Signature"] = `sha256=${signatureHex}`;
+      headers["X-Webhook-Signature"] = await signWebhookBody(body, webhookSecret);
     }
 
     const response = await fetch(webhookUrl, {
@@ -240,30 +354,3 @@ export async function sendWebhook(
     };
   }
 }
-
-/**
- * Webhook event types
- */
-export const WebhookEvents = {
-  INVITE_CREATED: "invite.created",
-  INVITE_REDEEMED: "invite.redeemed",
-  INVITE_DEACTIVATED: "invite.deactivated",
-  USER_CREATED: "user.created",
-  USER_REVOKED: "user.revoked",
-  USER_RESTORED: "user.restored",
-  USER_DELETED: "user.deleted",
-} as const;
-
-/**
- * Create webhook payload
- */
-export function createWebhookPayload(
-  event: string,
-  data: Record<string, any>
-): WebhookPayload {
-  return {
-    event,
-    timestamp: new Date().toISOString(),
-    data,
-  };
-}
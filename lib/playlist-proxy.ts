@@ -0,0 +1,301 @@
+/**
+ * Server-side helpers for the tokenized playlist proxy
+ * (/api/iptv/playlist/[token]). Subscribers only ever see the token; the
+ * panel username and password stay in these routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getIptvPanelConfig } from "@/lib/config";
+import { createIptvProvider, type IptvProvider } from "@/lib/iptv";
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY!;
+
+// Path segments an Xtream stream URL puts before the line's credentials
+const STREAM_KINDS = ["live", "movie", "series", "timeshift"];
+
+// Stream path for panel URLs without the line's credentials, e.g. HLS segments on a load balancer
+export const SEALED_STREAM_KIND = "segment";
+
+export type PlaylistAccessKind = "playlist" | "epg" | "stream";
+
+export interface PlaylistLine {
+  tokenId: Id<"iptvPlaylistTokens">;
+  username: string;
+  password: string;
+  channelGroups: string[];
+  provider: IptvProvider;
+  streamBaseUrl: string;
+}
+
+export class PlaylistAccessError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public tokenId?: Id<"iptvPlaylistTokens">
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Resolve a token to its line and a client for the line's panel.
+ * Throws PlaylistAccessError when the token can't be used.
+ */
+export async function resolvePlaylistToken(token: string): Promise<PlaylistLine> {
+  const resolved = await convex.query(api.playlists.resolveToken, { internalKey: INTERNAL_API_KEY, token });
+  if (!resolved) throw new PlaylistAccessError("Unknown playlist link", 404);
+  if (!resolved.active) throw new PlaylistAccessError(resolved.reason, 403, resolved.tokenId);
+
+  const config = await getIptvPanelConfig(resolved.provider);
+  if (!config) throw new PlaylistAccessError("IPTV panel not configured", 503, resolved.tokenId);
+
+  return {
+    tokenId: resolved.tokenId,
+    username: resolved.username,
+    password: resolved.password,
+    channelGroups: resolved.channelGroups,
+    provider: createIptvProvider(resolved.provider, config),
+    streamBaseUrl: config.streamBaseUrl,
+  };
+}
+
+export async function logPlaylistAccess(
+  req: NextRequest,
+  tokenId: Id<"iptvPlaylistTokens">,
+  kind: PlaylistAccessKind,
+  outcome: "served" | "denied" | "failed",
+  error?: string
+) {
+  try {
+    await convex.mutation(api.playlists.logAccess, {
+      internalKey: INTERNAL_API_KEY,
+      tokenId,
+      kind,
+      outcome,
+      ip: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || req.headers.get("x-real-ip") || undefined,
+      userAgent: req.headers.get("user-agent") || undefined,
+      error,
+    });
+  } catch (e) {
+    // Never fail a playlist request over logging
+    console.error("Failed to log playlist access:", e);
+  }
+}
+
+/**
+ * Panel URL for a proxied stream path (kind/…rest)
+ */
+export function panelStreamUrl(line: PlaylistLine, path: string[]): string | null {
+  const [kind, ...rest] = path;
+  if (!STREAM_KINDS.includes(kind) || rest.length === 0) return null;
+
+  const base = line.streamBaseUrl.replace(/\/+$/, "");
+  const segments = [kind, line.username, line.password, ...rest].map(encodeURIComponent);
+  return `${base}/${segments.join("/")}`;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sealingKey(): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(INTERNAL_API_KEY));
+  return crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// Encrypt a panel URL for a proxy path, bound to the token so it can't be replayed with another link
+async function sealStreamUrl(url: string, tokenId: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(tokenId) },
+    await sealingKey(),
+    new TextEncoder().encode(url)
+  );
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64Url(sealed);
+}
+
+/**
+ * Panel URL from a sealed stream path, or null when it wasn't sealed by us
+ * for this token
+ */
+export async function openStreamUrl(sealed: string, tokenId: string): Promise<string | null> {
+  try {
+    const bytes = fromBase64Url(sealed);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.slice(0, 12), additionalData: new TextEncoder().encode(tokenId) },
+      await sealingKey(),
+      bytes.slice(12)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+function proxiedStreamUrl(url: string, line: Pick<PlaylistLine, "username" | "password">, streamPrefix: string) {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const segments = u.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const at = segments.findIndex((s, i) => s === line.username && segments[i + 1] === line.password);
+  if (at < 0) return url;
+
+  // Xtream also serves live streams at /user/pass/id without a kind
+  const kind = STREAM_KINDS.includes(segments[at - 1]) ? segments[at - 1] : "live";
+  const rest = segments.slice(at + 2).map(encodeURIComponent);
+  return `${streamPrefix}/${kind}/${rest.join("/")}${u.search}`;
+}
+
+/**
+ * Point every URI in an HLS playlist served by the panel back at this proxy,
+ * including the URI attributes of tags like #EXT-X-KEY and #EXT-X-MAP. URIs
+ * are resolved against the panel URL that served the playlist; those
+ * carrying the line's credentials map to a stream path, the rest are sealed
+ * so the panel host isn't exposed either.
+ */
+export async function rewriteHlsPlaylist(
+  text: string,
+  line: Pick<PlaylistLine, "username" | "password" | "tokenId">,
+  playlistUrl: string,
+  streamPrefix: string
+): Promise<string> {
+  const proxied = async (uri: string): Promise<string> => {
+    let absolute: string;
+    try {
+      absolute = new URL(uri, playlistUrl).toString();
+    } catch {
+      return uri;
+    }
+
+    const viaCredentials = proxiedStreamUrl(absolute, line, streamPrefix);
+    if (viaCredentials !== absolute) return viaCredentials;
+
+    // Keep the file name last so players can tell segments from playlists
+    const name = new URL(absolute).pathname.split("/").filter(Boolean).pop() || "stream";
+    return `${streamPrefix}/${SEALED_STREAM_KIND}/${await sealStreamUrl(absolute, line.tokenId)}/${name}`;
+  };
+
+  const lines = await Promise.all(
+    text.split(/\r?\n/).map(async (raw) => {
+      const trimmed = raw.trim();
+      if (!trimmed) return raw;
+      if (!trimmed.startsWith("#")) return proxied(trimmed);
+
+      const attribute = trimmed.match(/URI="([^"]*)"/);
+      if (!attribute) return raw;
+      return trimmed.replace(attribute[0], `URI="${await proxied(attribute[1])}"`);
+    })
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Rewrite an m3u_plus playlist as it streams through: drop channels outside
+ * the plan's groups, point streams and the guide at our proxy instead of
+ * the panel.
+ */
+export function createPlaylistTransform(options: {
+  line: Pick<PlaylistLine, "username" | "password" | "channelGroups">;
+  streamPrefix: string;
+  epgUrl?: string;
+}): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const groups = options.line.channelGroups.length
+    ? new Set(options.line.channelGroups.map((g) => g.trim().toLowerCase()))
+    : null;
+
+  let buffered = "";
+  let entry: string[] = [];
+  let group: string | undefined;
+
+  const handleLine = (raw: string): string[] => {
+    const line = raw.trim();
+    if (!line) return [];
+
+    if (line.startsWith("#EXTM3U")) {
+      return [options.epgUrl ? `#EXTM3U url-tvg="${options.epgUrl}" x-tvg-url="${options.epgUrl}"` : "#EXTM3U"];
+    }
+
+    if (line.startsWith("#EXTINF")) {
+      entry = [line];
+      group = line.match(/group-title="([^"]*)"/i)?.[1];
+      return [];
+    }
+
+    if (line.startsWith("#")) {
+      if (entry.length === 0) return [line];
+      if (line.startsWith("#EXTGRP:")) group ??= line.slice("#EXTGRP:".length);
+      entry.push(line);
+      return [];
+    }
+
+    // A stream URL closes the entry
+    const lines = [...entry, proxiedStreamUrl(line, options.line, options.streamPrefix)];
+    const keep = !groups || (group !== undefined && groups.has(group.trim().toLowerCase()));
+    entry = [];
+    group = undefined;
+    return keep ? lines : [];
+  };
+
+  const emit = (lines: string[], controller: TransformStreamDefaultController<Uint8Array>) => {
+    const out = lines.flatMap(handleLine);
+    if (out.length > 0) controller.enqueue(encoder.encode(`${out.join("\n")}\n`));
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop() ?? "";
+      emit(lines, controller);
+    },
+    flush(controller) {
+      buffered += decoder.decode();
+      emit([buffered], controller);
+    },
+  });
+}
+
+/**
+ * Plain-text error for players, logging a denial against the token when known
+ * unless `log` is false
+ */
+export async function playlistErrorResponse(
+  req: NextRequest,
+  error: unknown,
+  kind: PlaylistAccessKind,
+  log = true
+): Promise<NextResponse> {
+  if (error instanceof PlaylistAccessError) {
+    if (log && error.tokenId) await logPlaylistAccess(req, error.tokenId, kind, "denied", error.message);
+    return new NextResponse(error.message, { status: error.status });
+  }
+  console.error("Playlist proxy error:", error);
+  return new NextResponse("Playlist unavailable", { status: 500 });
+}
+
+export function playlistBaseUrl(req: NextRequest, token: string): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+  return `${origin.replace(/\/+$/, "")}/api/iptv/playlist/${encodeURIComponent(token)}`;
+}
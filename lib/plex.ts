@@ -10,6 +10,15 @@ interface PlexUser {
   thumb?: string;
 }
 
+interface PlexStream {
+  sessionId: string;
+  userId?: string;
+  username?: string;
+  title: string;
+  device?: string;
+  address?: string;
+}
+
 interface PlexLibrary {
   key: string;
   title: string;
@@ -120,7 +129,7 @@ export class PlexClient {
   async inviteUser(
     email: string,
     libraryIds?: string[]
-  ): Promise<{ success: boolean; message: string }> {
+  ): Promise<{ success: boolean; message: string; inviteId?: string }> {
     try {
       // First, get the machine identifier
       const serverInfo = await this.getServerInfo();
@@ -155,7 +164,13 @@ export class PlexClient {
         throw new Error(error);
       }
 
-      return { success: true, message: "User invited successfully" };
+      const sharedServer = await response.json().catch(() => null);
+
+      return {
+        success: true,
+        message: "User invited successfully",
+        inviteId: sharedServer?.id != null ? String(sharedServer.id) : undefined,
+      };
     } catch (error) {
       return {
         success: false,
@@ -165,37 +180,73 @@ export class PlexClient {
   }
 
   /**
-   * Get all shared users (friends with server access)
+   * Cancel a pending invite (the shared server created by inviteUser)
    */
-  async getSharedUsers(): Promise<PlexUser[]> {
+  async cancelInvite(inviteId: string): Promise<{ success: boolean; message: string }> {
     try {
-      const response = await fetch(
-        "https://plex.tv/api/v2/friends",
-        {
-          headers: {
-            Accept: "application/json",
-            "X-Plex-Token": this.token,
-            "X-Plex-Client-Identifier": "media-invite-app",
-          },
-        }
-      );
+      const response = await fetch(`https://plex.tv/api/v2/shared_servers/${inviteId}`, {
+        method: "DELETE",
+        headers: {
+          "X-Plex-Token": this.token,
+          "X-Plex-Client-Identifier": "media-invite-app",
+        },
+      });
 
-      if (!response.ok) {
-        throw new Error("Failed to get shared users");
+      // Already gone counts as cancelled
+      if (!response.ok && response.status !== 404) {
+        const error = await response.text();
+        throw new Error(error);
       }
 
-      const users = await response.json();
-      return users.map((user: any) => ({
-        id: user.id.toString(),
-        username: user.username || user.title,
-        email: user.email,
-        thumb: user.thumb,
-      }));
+      return { success: true, message: "Invite cancelled" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to cancel invite",
+      };
+    }
+  }
+
+  /**
+   * Get all shared users (friends with server access)
+   */
+  async getSharedUsers(): Promise<PlexUser[]> {
+    try {
+      return await this.listSharedUsers();
     } catch {
       return [];
     }
   }
 
+  /**
+   * Get all shared users, throwing when plex.tv can't be reached
+   * (so callers can tell "no users" apart from "couldn't ask")
+   */
+  async listSharedUsers(): Promise<PlexUser[]> {
+    const response = await fetch(
+      "https://plex.tv/api/v2/friends",
+      {
+        headers: {
+          Accept: "application/json",
+          "X-Plex-Token": this.token,
+          "X-Plex-Client-Identifier": "media-invite-app",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to get shared users: ${response.status}`);
+    }
+
+    const users = await response.json();
+    return users.map((user: any) => ({
+      id: user.id.toString(),
+      username: user.username || user.title,
+      email: user.email,
+      thumb: user.thumb,
+    }));
+  }
+
   /**
    * Remove a user's access to the server
    */
@@ -299,40 +350,140 @@ export class PlexClient {
   }
 
   /**
-   * Get a user's library access
+   * Get the streams playing (or paused) right now
    */
-  async getUserLibraryAccess(userId: string): Promise<string[]> {
+  async getActiveStreams(): Promise<PlexStream[]> {
+    const response = await this.request<{
+      MediaContainer: {
+        Metadata?: Array<{
+          title: string;
+          grandparentTitle?: string;
+          Session?: { id: string };
+          User?: { id?: string | number; title?: string };
+          Player?: { title?: string; product?: string; address?: string };
+        }>;
+      };
+    }>("/status/sessions");
+
+    return (response.MediaContainer.Metadata ?? [])
+      .filter((item) => item.Session?.id)
+      .map((item) => ({
+        sessionId: item.Session!.id,
+        userId: item.User?.id?.toString(),
+        username: item.User?.title,
+        title: item.grandparentTitle ? `${item.grandparentTitle} - ${item.title}` : item.title,
+        device: item.Player?.title || item.Player?.product,
+        address: item.Player?.address,
+      }));
+  }
+
+  /**
+   * Stop a stream, showing the viewer a reason (requires Plex Pass)
+   */
+  async terminateSession(sessionId: string, reason: string): Promise<{ success: boolean; message: string }> {
     try {
-      const serverInfo = await this.getServerInfo();
-      
-      const response = await fetch(
-        `https://plex.tv/api/v2/shared_servers/${serverInfo.machineIdentifier}`,
-        {
-          headers: {
-            Accept: "application/json",
-            "X-Plex-Token": this.token,
-            "X-Plex-Client-Identifier": "media-invite-app",
-          },
-        }
-      );
+      const params = new URLSearchParams({ sessionId, reason });
+      const response = await fetch(`${this.url}/status/sessions/terminate?${params}`, {
+        headers: {
+          "X-Plex-Token": this.token,
+          "X-Plex-Client-Identifier": "media-invite-app",
+        },
+      });
 
       if (!response.ok) {
-        return [];
+        const error = await response.text();
+        throw new Error(error || `Plex API Error: ${response.status}`);
       }
 
-      const data = await response.json();
-      // Find the specific user's shared server entry
-      const userShare = data.find?.((share: any) => share.userID?.toString() === userId);
-      
-      if (userShare && userShare.libraries) {
-        return userShare.libraries.map((lib: any) => lib.id?.toString() || lib.key);
+      return { success: true, message: "Stream stopped" };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to stop stream",
+      };
+    }
+  }
+
+  /**
+   * Get when each user last played something, keyed by user ID (ms timestamps).
+   * Reads play history back to `since` plus whatever is streaming right now.
+   */
+  async getLastActivityByUser(since?: Date): Promise<Record<string, number>> {
+    const activity: Record<string, number> = {};
+    const record = (userId: string | number | undefined, at: number) => {
+      if (userId === undefined) return;
+      const key = userId.toString();
+      if (at > (activity[key] ?? 0)) activity[key] = at;
+    };
+
+    const pageSize = 500;
+    const after = since ? `&viewedAt>=${Math.floor(since.getTime() / 1000)}` : "";
+    for (let start = 0; ; start += pageSize) {
+      const response = await this.request<{
+        MediaContainer: { Metadata?: Array<{ accountID?: number; viewedAt?: number }> };
+      }>(
+        `/status/sessions/history/all?sort=viewedAt:desc${after}` +
+          `&X-Plex-Container-Start=${start}&X-Plex-Container-Size=${pageSize}`
+      );
+
+      const items = response.MediaContainer.Metadata ?? [];
+      for (const item of items) {
+        if (item.viewedAt) record(item.accountID, item.viewedAt * 1000);
       }
-      
-      return [];
+      if (items.length < pageSize) break;
+    }
+
+    const now = Date.now();
+    for (const stream of await this.getActiveStreams()) {
+      record(stream.userId, now);
+    }
+
+    return activity;
+  }
+
+  /**
+   * Get a user's library access
+   */
+  async getUserLibraryAccess(userId: string): Promise<string[]> {
+    try {
+      const access = await this.getLibraryAccessByUser();
+      return access[userId] ?? [];
     } catch {
       return [];
     }
   }
+
+  /**
+   * Get the library access of every user this server is shared with, keyed by user ID
+   */
+  async getLibraryAccessByUser(): Promise<Record<string, string[]>> {
+    const serverInfo = await this.getServerInfo();
+
+    const response = await fetch(
+      `https://plex.tv/api/v2/shared_servers/${serverInfo.machineIdentifier}`,
+      {
+        headers: {
+          Accept: "application/json",
+          "X-Plex-Token": this.token,
+          "X-Plex-Client-Identifier": "media-invite-app",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to get shared server libraries: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const access: Record<string, string[]> = {};
+    for (const share of Array.isArray(data) ? data : []) {
+      if (share.userID === undefined) continue;
+      access[share.userID.toString()] = (share.libraries ?? []).map(
+        (lib: any) => lib.id?.toString() || lib.key
+      );
+    }
+    return access;
+  }
 }
 
 // Factory function for creating Plex client
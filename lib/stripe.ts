@@ -1,14 +1,31 @@
-// Stripe public configuration (no secrets here!)
+// Stripe helpers for the Next.js side (no Stripe keys here; the internal key is only read on the server)
 // Server-side Stripe operations now happen in Convex HTTP actions
-// See convex/stripe.ts for the actual Stripe SDK usage
+// See convex/stripe.ts for the actual Stripe SDK usage.
+// Prices come from the admin-managed plans table (convex/plans.ts)
 
-export const STRIPE_CONFIG = {
-  productId: "prod_TkUnen4Dh6GpAN",
-  productName: "Remote Computer Support",
-  priceAmount: 3000, // $30 in cents
-  currency: "usd",
-  interval: "month" as const,
-};
+// Format an amount in cents for display, e.g. "$30.00"
+export function formatAmount(amount: number, currency: string, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(amount / 100);
+  } catch {
+    return `${(amount / 100).toFixed(2)} ${currency.toUpperCase()}`;
+  }
+}
+
+// Format a plan price for display, e.g. "$30.00/month" or "€90.00 every 3 months"
+export function formatPlanPrice(plan: {
+  amount: number;
+  currency: string;
+  interval: string;
+  intervalCount?: number;
+}): string {
+  const price = formatAmount(plan.amount, plan.currency);
+  const count = plan.intervalCount ?? 1;
+  return count > 1 ? `${price} every ${count} ${plan.interval}s` : `${price}/${plan.interval}`;
+}
 
 // Get the Convex HTTP URL for Stripe endpoints
 export function getConvexHttpUrl(): string {
@@ -17,19 +34,32 @@ export function getConvexHttpUrl(): string {
   return convexUrl.replace(".cloud", ".site");
 }
 
+// The Convex Stripe endpoints only accept calls carrying the shared internal key
+function internalHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "x-internal-api-key": process.env.INTERNAL_API_KEY || "",
+  };
+}
+
 // Helper to create checkout session via Convex
 export async function createCheckoutSession(params: {
   userId: string;
   userEmail: string;
+  planId?: string;
+  iptvPlanId?: string; // Sells an IPTV plan on its own price instead of a media plan
+  addOn?: boolean; // Add the IPTV plan to the user's current subscription instead of checking out
+  macAddress?: string;
+  iptvRenewal?: boolean; // One-off renewal of the user's IPTV line
   successUrl?: string;
   cancelUrl?: string;
-}): Promise<{ url: string | null; sessionId: string } | { error: string }> {
+}): Promise<{ url: string | null; sessionId: string } | { updated: true } | { error: string }> {
   const baseUrl = getConvexHttpUrl();
   
   try {
     const response = await fetch(`${baseUrl}/stripe/checkout`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: internalHeaders(),
       body: JSON.stringify(params),
     });
     
@@ -49,7 +79,7 @@ export async function createPortalSession(params: {
   try {
     const response = await fetch(`${baseUrl}/stripe/portal`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: internalHeaders(),
       body: JSON.stringify(params),
     });
     
@@ -71,7 +101,7 @@ export async function syncStripeSubscriptions(): Promise<{
   try {
     const response = await fetch(`${baseUrl}/stripe/sync`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: internalHeaders(),
     });
     
     return await response.json();
@@ -79,3 +109,24 @@ export async function syncStripeSubscriptions(): Promise<{
     return { success: false, error: error instanceof Error ? error.message : "Sync failed" };
   }
 }
+
+// Hand a webhook event the Next.js route verified to the Convex handler; the status says how it went
+export async function handleStripeEvent(payload: string): Promise<{
+  status: number;
+  outcome?: "processed" | "skipped" | "in_progress" | "failed";
+  error?: string;
+}> {
+  const baseUrl = getConvexHttpUrl();
+
+  try {
+    const response = await fetch(`${baseUrl}/stripe/event`, {
+      method: "POST",
+      headers: internalHeaders(),
+      body: payload,
+    });
+
+    return { status: response.status, ...(await response.json()) };
+  } catch (error) {
+    return { status: 500, error: error instanceof Error ? error.message : "Event handling failed" };
+  }
+}
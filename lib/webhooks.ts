@@ -0,0 +1,66 @@
+/**
+ * Outbound webhook helpers shared by Next.js routes and Convex functions
+ * (no Node-only dependencies so Convex can bundle it)
+ */
+
+export interface WebhookPayload {
+  id?: string;
+  event: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Webhook event types
+ */
+export const WebhookEvents = {
+  INVITE_CREATED: "invite.created",
+  INVITE_REDEEMED: "invite.redeemed",
+  INVITE_DEACTIVATED: "invite.deactivated",
+  USER_CREATED: "user.created",
+  USER_REVOKED: "user.revoked",
+  USER_RESTORED: "user.restored",
+  USER_DELETED: "user.deleted",
+  PAYMENT_SUCCEEDED: "payment.succeeded",
+  PAYMENT_FAILED: "payment.failed",
+  SUBSCRIPTION_UPDATED: "subscription.updated",
+  IPTV_PROVISIONED: "iptv.provisioned",
+  IPTV_RENEWED: "iptv.renewed",
+  IPTV_SUSPENDED: "iptv.suspended",
+  IPTV_PLAN_CHANGED: "iptv.plan_changed",
+} as const;
+
+export type WebhookEvent = (typeof WebhookEvents)[keyof typeof WebhookEvents];
+
+/**
+ * Create webhook payload
+ */
+export function createWebhookPayload(
+  event: string,
+  data: Record<string, any>
+): WebhookPayload {
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    data,
+  };
+}
+
+/**
+ * Sign a webhook body with HMAC-SHA256, returned as the X-Webhook-Signature value
+ */
+export async function signWebhookBody(body: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  const signatureHex = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${signatureHex}`;
+}
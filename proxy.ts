@@ -8,6 +8,7 @@ const isPublicRoute = createRouteMatcher([
   "/invite(.*)",
   "/help(.*)",
   "/api/webhooks(.*)",
+  "/api/iptv/playlist/(.*)", // Players authenticate with the playlist token
 ]);
 
 export default clerkMiddleware(async (auth, request) => {